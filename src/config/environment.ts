@@ -4,6 +4,31 @@ export const environment = {
   },
   websocket: {
     url: import.meta.env.VITE_WEBSOCKET_URL || 'ws://localhost:8080/notifications',
+    reconnect: {
+      initialDelay: Number(import.meta.env.VITE_WEBSOCKET_RECONNECT_INITIAL_DELAY_MS) || 1000,
+      maxDelay: Number(import.meta.env.VITE_WEBSOCKET_RECONNECT_MAX_DELAY_MS) || 30000,
+      multiplier: 2,
+      jitter: 0.5,
+      // Unset or 0 keeps retrying until the server is back
+      maxAttempts: Number(import.meta.env.VITE_WEBSOCKET_RECONNECT_MAX_ATTEMPTS) || Infinity,
+    },
+    heartbeat: {
+      // 0 turns the heartbeat off
+      interval: Number(import.meta.env.VITE_WEBSOCKET_HEARTBEAT_INTERVAL_MS ?? 25000),
+      timeout: Number(import.meta.env.VITE_WEBSOCKET_HEARTBEAT_TIMEOUT_MS) || 10000,
+    },
+  },
+  trash: {
+    retentionDays: Number(import.meta.env.VITE_TRASH_RETENTION_DAYS) || 30,
+  },
+  history: {
+    maxRevisionsPerDocument: Number(import.meta.env.VITE_HISTORY_MAX_REVISIONS) || 20,
+    // All revisions share one localStorage entry, so the total is capped as well
+    maxRevisions: Number(import.meta.env.VITE_HISTORY_MAX_TOTAL_REVISIONS) || 500,
+  },
+  storage: {
+    // Share of the storage quota in use before the user is warned
+    warningPercent: Number(import.meta.env.VITE_STORAGE_WARNING_PERCENT) || 80,
   },
 } as const;
 
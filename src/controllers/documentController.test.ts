@@ -1,8 +1,14 @@
 import { describe, it, expect, beforeEach, vi, afterEach, MockedFunction } from 'vitest';
 import { DocumentController } from './documentController';
-import { Document, SortField } from '../models/document';
+import { Contributors, Document, SortCriterion, SortField } from '../models/document';
 import { Store, ViewMode } from '../store/store';
-import { DocumentView } from '../views/documentView';
+import { DocumentView, DocumentViewOptions } from '../views/documentView';
+import type { ConfirmOptions } from '../views/components/confirmComponent';
+import type { FacetGroup, FacetSelection } from '../models/facet';
+import type { ActivityEntry } from '../models/activity';
+import type { Revision } from '../models/revision';
+import type { StorageHealth } from '../models/storage';
+import type { ConnectionState } from '../models/sockets';
 import { SortingService } from '../services/sortingService';
 import { NotificationService } from '../services/notificationService';
 import { WebSocketManager } from '../services/webSocketManager';
@@ -27,9 +33,36 @@ interface MockStore {
   getSortOrder: MockedFunction<() => 'asc' | 'desc'>;
   getViewMode: MockedFunction<() => ViewMode>;
   addDocument: MockedFunction<(document: Document) => void>;
+  updateDocument: MockedFunction<
+    (document: Document, author?: string, options?: { keepUpdatedAt?: boolean }) => void
+  >;
+  getDocument: MockedFunction<(id: string) => Document | undefined>;
+  removeDocument: MockedFunction<(id: string) => Document | undefined>;
+  trashDocument: MockedFunction<(id: string) => Document | undefined>;
+  restoreDocument: MockedFunction<(id: string) => Document | undefined>;
+  getTrashedDocuments: MockedFunction<() => Document[]>;
+  isTrashVisible: MockedFunction<() => boolean>;
+  setTrashVisible: MockedFunction<(visible: boolean) => void>;
+  getSearchQuery: MockedFunction<() => string>;
+  setSearchQuery: MockedFunction<(query: string) => void>;
+  getFacetSelection: MockedFunction<() => FacetSelection>;
+  toggleFacet: MockedFunction<(group: FacetGroup, value: string) => void>;
+  clearFacets: MockedFunction<() => void>;
+  isFacetPanelOpen: MockedFunction<() => boolean>;
+  setFacetPanelOpen: MockedFunction<(open: boolean) => void>;
   setSortField: MockedFunction<(field: SortField) => void>;
   setSortOrder: MockedFunction<(order: 'asc' | 'desc') => void>;
+  getSortCriteria: MockedFunction<() => SortCriterion[]>;
+  setSortCriteria: MockedFunction<(criteria: SortCriterion[]) => void>;
   setViewMode: MockedFunction<(mode: ViewMode) => void>;
+  getOpenDocumentId: MockedFunction<() => string | undefined>;
+  setOpenDocument: MockedFunction<(id: string | undefined) => void>;
+  getActivity: MockedFunction<(documentId: string) => ActivityEntry[]>;
+  recordActivity: MockedFunction<(entry: ActivityEntry) => void>;
+  getRevisions: MockedFunction<(documentId: string) => Revision[]>;
+  restoreRevision: MockedFunction<(documentId: string, revisionId: string) => Document | undefined>;
+  getStorageHealth: MockedFunction<() => StorageHealth>;
+  purgeExpiredDocuments: MockedFunction<(retentionDays?: number) => number>;
 }
 
 interface MockView {
@@ -40,31 +73,51 @@ interface MockView {
       viewMode: ViewMode,
       onSort: (field: SortField) => void,
       onCreate: () => void,
-      onViewModeChange: (mode: ViewMode) => void
+      onViewModeChange: (mode: ViewMode) => void,
+      options?: DocumentViewOptions
     ) => void
   >;
   showNotification: MockedFunction<(message: string) => void>;
-  showModal: MockedFunction<(onSubmit: (doc: Document) => void) => void>;
+  showModal: MockedFunction<(onSubmit: (doc: Document) => void, doc?: Document) => void>;
+  showConfirm: MockedFunction<(options: ConfirmOptions, onConfirm: () => void) => void>;
+  downloadFile: MockedFunction<(filename: string, content: string) => void>;
 }
 
 interface MockWSManager {
   connect: MockedFunction<() => void>;
   disconnect: MockedFunction<() => void>;
+  retry: MockedFunction<() => void>;
+  getConnectionState: MockedFunction<() => ConnectionState>;
+  onConnectionStateChange: MockedFunction<
+    (listener: (state: ConnectionState) => void) => () => void
+  >;
 }
 
 interface MockSortingService {
-  toggleSort: MockedFunction<
-    (
-      currentField: SortField,
-      currentOrder: 'asc' | 'desc',
-      newField: SortField
-    ) => { field: SortField; order: 'asc' | 'desc' }
+  toggleSort: MockedFunction<(criteria: SortCriterion[], newField: SortField) => SortCriterion[]>;
+  addSortCriterion: MockedFunction<
+    (criteria: SortCriterion[], field: SortField) => SortCriterion[]
+  >;
+  toggleSortOrder: MockedFunction<(criteria: SortCriterion[], index: number) => SortCriterion[]>;
+  removeSortCriterion: MockedFunction<
+    (criteria: SortCriterion[], index: number) => SortCriterion[]
   >;
 }
 
 interface MockNotificationService {
   notifyDocumentCreated: MockedFunction<(document: Document) => void>;
   notifyDocumentReceived: MockedFunction<(document: Document) => void>;
+  notifyDocumentUpdated: MockedFunction<(document: Document) => void>;
+  notifyDocumentDeleted: MockedFunction<(document: Document, onUndo: () => void) => void>;
+  notifyDocumentRestored: MockedFunction<(document: Document) => void>;
+  notifyDocumentPurged: MockedFunction<(document: Document) => void>;
+  notifyRevisionRestored: MockedFunction<(document: Document) => void>;
+  notifyVersionBumped: MockedFunction<
+    (document: Document, previousVersion: number | string) => void
+  >;
+  notifyRemoteUpdate: MockedFunction<(document: Document, author?: string) => void>;
+  notifyRemoteDelete: MockedFunction<(document: Document, author?: string) => void>;
+  notifyContributorJoined: MockedFunction<(document: Document, contributor: Contributors) => void>;
   notify: MockedFunction<(message: string) => void>;
 }
 
@@ -99,9 +152,34 @@ describe('DocumentController', () => {
       getSortOrder: vi.fn().mockReturnValue('asc'),
       getViewMode: vi.fn().mockReturnValue('list'),
       addDocument: vi.fn(),
+      updateDocument: vi.fn(),
+      getDocument: vi.fn(),
+      removeDocument: vi.fn(),
+      trashDocument: vi.fn(),
+      restoreDocument: vi.fn(),
+      getTrashedDocuments: vi.fn().mockReturnValue([]),
+      isTrashVisible: vi.fn().mockReturnValue(false),
+      setTrashVisible: vi.fn(),
+      getSearchQuery: vi.fn().mockReturnValue(''),
+      setSearchQuery: vi.fn(),
+      getFacetSelection: vi.fn().mockReturnValue({ contributor: [], extension: [], month: [] }),
+      toggleFacet: vi.fn(),
+      clearFacets: vi.fn(),
+      isFacetPanelOpen: vi.fn().mockReturnValue(true),
+      setFacetPanelOpen: vi.fn(),
       setSortField: vi.fn(),
       setSortOrder: vi.fn(),
+      getSortCriteria: vi.fn().mockReturnValue([{ field: 'Title', order: 'asc' }]),
+      setSortCriteria: vi.fn(),
       setViewMode: vi.fn(),
+      getOpenDocumentId: vi.fn().mockReturnValue(undefined),
+      setOpenDocument: vi.fn(),
+      getActivity: vi.fn().mockReturnValue([]),
+      recordActivity: vi.fn(),
+      getRevisions: vi.fn().mockReturnValue([]),
+      restoreRevision: vi.fn(),
+      getStorageHealth: vi.fn().mockReturnValue({ status: 'ok' }),
+      purgeExpiredDocuments: vi.fn(),
     };
 
     // Arrange - Create mock view
@@ -109,23 +187,40 @@ describe('DocumentController', () => {
       render: vi.fn(),
       showNotification: vi.fn(),
       showModal: vi.fn(),
+      showConfirm: vi.fn(),
+      downloadFile: vi.fn(),
     };
 
     // Arrange - Create mock WebSocket manager
     mockWSManager = {
       connect: vi.fn(),
       disconnect: vi.fn(),
+      retry: vi.fn(),
+      getConnectionState: vi.fn().mockReturnValue({ status: 'offline' }),
+      onConnectionStateChange: vi.fn((_listener: (state: ConnectionState) => void) => () => {}),
     };
 
     // Arrange - Create mock sorting service
     mockSortingService = {
       toggleSort: vi.fn(),
+      addSortCriterion: vi.fn(),
+      toggleSortOrder: vi.fn(),
+      removeSortCriterion: vi.fn(),
     };
 
     // Arrange - Create mock notification service
     mockNotificationService = {
       notifyDocumentCreated: vi.fn(),
       notifyDocumentReceived: vi.fn(),
+      notifyDocumentUpdated: vi.fn(),
+      notifyDocumentDeleted: vi.fn(),
+      notifyDocumentRestored: vi.fn(),
+      notifyDocumentPurged: vi.fn(),
+      notifyRevisionRestored: vi.fn(),
+      notifyVersionBumped: vi.fn(),
+      notifyRemoteUpdate: vi.fn(),
+      notifyRemoteDelete: vi.fn(),
+      notifyContributorJoined: vi.fn(),
       notify: vi.fn(),
     };
 
@@ -222,7 +317,8 @@ describe('DocumentController', () => {
         'list',
         expect.any(Function),
         expect.any(Function),
-        expect.any(Function)
+        expect.any(Function),
+        expect.any(Object)
       );
     });
 
@@ -242,7 +338,8 @@ describe('DocumentController', () => {
         'grid',
         expect.any(Function),
         expect.any(Function),
-        expect.any(Function)
+        expect.any(Function),
+        expect.any(Object)
       );
     });
   });
@@ -273,6 +370,55 @@ describe('DocumentController', () => {
     });
   });
 
+  describe('connection status', () => {
+    it('should pass the connection state to the view', () => {
+      // Arrange
+      mockWSManager.getConnectionState.mockReturnValue({
+        status: 'reconnecting',
+        attempt: 2,
+        maxAttempts: 5,
+      });
+
+      // Act
+      new DocumentController(containerId);
+
+      // Assert
+      const options = mockView.render.mock.calls[0][6];
+      expect(options?.connection?.state).toEqual({
+        status: 'reconnecting',
+        attempt: 2,
+        maxAttempts: 5,
+      });
+    });
+
+    it('should re-render when the connection state changes', () => {
+      // Arrange
+      new DocumentController(containerId);
+      const onStateChange = mockWSManager.onConnectionStateChange.mock.calls[0][0];
+      mockWSManager.getConnectionState.mockReturnValue({ status: 'open' });
+      mockView.render.mockClear();
+
+      // Act
+      onStateChange({ status: 'open' });
+
+      // Assert
+      expect(mockView.render).toHaveBeenCalledTimes(1);
+      expect(mockView.render.mock.calls[0][6]?.connection?.state).toEqual({ status: 'open' });
+    });
+
+    it('should retry the connection from the view', () => {
+      // Arrange
+      new DocumentController(containerId);
+      const options = mockView.render.mock.calls[0][6];
+
+      // Act
+      options?.connection?.onRetry();
+
+      // Assert
+      expect(mockWSManager.retry).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('disconnect', () => {
     it('should call wsManager disconnect method', () => {
       // Arrange
@@ -302,9 +448,8 @@ describe('DocumentController', () => {
   describe('handleSort (via render callback)', () => {
     it('should toggle sort when sort callback is invoked', () => {
       // Arrange
-      mockStore.getSortField.mockReturnValue('Title');
-      mockStore.getSortOrder.mockReturnValue('asc');
-      mockSortingService.toggleSort.mockReturnValue({ field: 'Version', order: 'asc' });
+      mockStore.getSortCriteria.mockReturnValue([{ field: 'Title', order: 'asc' }]);
+      mockSortingService.toggleSort.mockReturnValue([{ field: 'Version', order: 'asc' }]);
 
       new DocumentController(containerId);
       const sortCallback = mockView.render.mock.calls[0][3];
@@ -314,16 +459,17 @@ describe('DocumentController', () => {
 
       // Assert
       expect(mockSortingService.toggleSort).toHaveBeenCalledTimes(1);
-      expect(mockSortingService.toggleSort).toHaveBeenCalledWith('Title', 'asc', 'Version');
-      expect(mockStore.setSortField).toHaveBeenCalledWith('Version');
-      expect(mockStore.setSortOrder).toHaveBeenCalledWith('asc');
+      expect(mockSortingService.toggleSort).toHaveBeenCalledWith(
+        [{ field: 'Title', order: 'asc' }],
+        'Version'
+      );
+      expect(mockStore.setSortCriteria).toHaveBeenCalledWith([{ field: 'Version', order: 'asc' }]);
     });
 
     it('should toggle sort order when clicking same field', () => {
       // Arrange
-      mockStore.getSortField.mockReturnValue('Title');
-      mockStore.getSortOrder.mockReturnValue('asc');
-      mockSortingService.toggleSort.mockReturnValue({ field: 'Title', order: 'desc' });
+      mockStore.getSortCriteria.mockReturnValue([{ field: 'Title', order: 'asc' }]);
+      mockSortingService.toggleSort.mockReturnValue([{ field: 'Title', order: 'desc' }]);
 
       new DocumentController(containerId);
       const sortCallback = mockView.render.mock.calls[0][3];
@@ -332,16 +478,17 @@ describe('DocumentController', () => {
       sortCallback('Title');
 
       // Assert
-      expect(mockSortingService.toggleSort).toHaveBeenCalledWith('Title', 'asc', 'Title');
-      expect(mockStore.setSortField).toHaveBeenCalledWith('Title');
-      expect(mockStore.setSortOrder).toHaveBeenCalledWith('desc');
+      expect(mockSortingService.toggleSort).toHaveBeenCalledWith(
+        [{ field: 'Title', order: 'asc' }],
+        'Title'
+      );
+      expect(mockStore.setSortCriteria).toHaveBeenCalledWith([{ field: 'Title', order: 'desc' }]);
     });
 
     it('should handle sorting by CreatedAt field', () => {
       // Arrange
-      mockStore.getSortField.mockReturnValue('Version');
-      mockStore.getSortOrder.mockReturnValue('desc');
-      mockSortingService.toggleSort.mockReturnValue({ field: 'CreatedAt', order: 'asc' });
+      mockStore.getSortCriteria.mockReturnValue([{ field: 'Version', order: 'desc' }]);
+      mockSortingService.toggleSort.mockReturnValue([{ field: 'CreatedAt', order: 'asc' }]);
 
       new DocumentController(containerId);
       const sortCallback = mockView.render.mock.calls[0][3];
@@ -350,9 +497,73 @@ describe('DocumentController', () => {
       sortCallback('CreatedAt');
 
       // Assert
-      expect(mockSortingService.toggleSort).toHaveBeenCalledWith('Version', 'desc', 'CreatedAt');
-      expect(mockStore.setSortField).toHaveBeenCalledWith('CreatedAt');
-      expect(mockStore.setSortOrder).toHaveBeenCalledWith('asc');
+      expect(mockSortingService.toggleSort).toHaveBeenCalledWith(
+        [{ field: 'Version', order: 'desc' }],
+        'CreatedAt'
+      );
+      expect(mockStore.setSortCriteria).toHaveBeenCalledWith([
+        { field: 'CreatedAt', order: 'asc' },
+      ]);
+    });
+  });
+
+  describe('sort stack (via render options)', () => {
+    const stack: SortCriterion[] = [
+      { field: 'Version', order: 'desc' },
+      { field: 'Title', order: 'asc' },
+    ];
+
+    beforeEach(() => {
+      mockStore.getSortCriteria.mockReturnValue(stack);
+    });
+
+    it('should pass the sort criteria to the view', () => {
+      // Arrange & Act
+      new DocumentController(containerId);
+
+      // Assert
+      expect(mockView.render.mock.calls[0][6]?.sort?.criteria).toEqual(stack);
+    });
+
+    it('should add a tie-breaker', () => {
+      // Arrange
+      const result: SortCriterion[] = [...stack, { field: 'CreatedAt', order: 'asc' }];
+      mockSortingService.addSortCriterion.mockReturnValue(result);
+      new DocumentController(containerId);
+
+      // Act
+      mockView.render.mock.calls[0][6]?.sort?.onAdd('CreatedAt');
+
+      // Assert
+      expect(mockSortingService.addSortCriterion).toHaveBeenCalledWith(stack, 'CreatedAt');
+      expect(mockStore.setSortCriteria).toHaveBeenCalledWith(result);
+    });
+
+    it('should remove a tie-breaker', () => {
+      // Arrange
+      mockSortingService.removeSortCriterion.mockReturnValue([stack[0]]);
+      new DocumentController(containerId);
+
+      // Act
+      mockView.render.mock.calls[0][6]?.sort?.onRemove(1);
+
+      // Assert
+      expect(mockSortingService.removeSortCriterion).toHaveBeenCalledWith(stack, 1);
+      expect(mockStore.setSortCriteria).toHaveBeenCalledWith([stack[0]]);
+    });
+
+    it('should reverse the order of a criterion', () => {
+      // Arrange
+      const result: SortCriterion[] = [stack[0], { field: 'Title', order: 'desc' }];
+      mockSortingService.toggleSortOrder.mockReturnValue(result);
+      new DocumentController(containerId);
+
+      // Act
+      mockView.render.mock.calls[0][6]?.sort?.onToggleOrder(1);
+
+      // Assert
+      expect(mockSortingService.toggleSortOrder).toHaveBeenCalledWith(stack, 1);
+      expect(mockStore.setSortCriteria).toHaveBeenCalledWith(result);
     });
   });
 
@@ -451,11 +662,441 @@ describe('DocumentController', () => {
     });
   });
 
+  describe('handleEdit (via render action handlers)', () => {
+    it('should open modal pre-filled with the selected document', () => {
+      // Arrange
+      mockStore.getDocument.mockReturnValue(sampleDocument);
+      new DocumentController(containerId);
+      const actionHandlers = mockView.render.mock.calls[0][6]?.actions;
+
+      // Act
+      actionHandlers?.edit?.('doc-123');
+
+      // Assert
+      expect(mockStore.getDocument).toHaveBeenCalledWith('doc-123');
+      expect(mockView.showModal).toHaveBeenCalledWith(expect.any(Function), sampleDocument);
+    });
+
+    it('should not open modal when document does not exist', () => {
+      // Arrange
+      mockStore.getDocument.mockReturnValue(undefined);
+      new DocumentController(containerId);
+      const actionHandlers = mockView.render.mock.calls[0][6]?.actions;
+
+      // Act
+      actionHandlers?.edit?.('missing');
+
+      // Assert
+      expect(mockView.showModal).not.toHaveBeenCalled();
+    });
+
+    it('should update store and notify when edit is submitted', () => {
+      // Arrange
+      const edited = { ...sampleDocument, Title: 'Fixed Title' };
+      mockStore.getDocument.mockReturnValue(sampleDocument);
+      new DocumentController(containerId);
+      mockView.render.mock.calls[0][6]?.actions?.edit?.('doc-123');
+      const modalSubmitCallback = mockView.showModal.mock.calls[0][0];
+
+      // Act
+      modalSubmitCallback(edited);
+
+      // Assert
+      expect(mockStore.updateDocument).toHaveBeenCalledWith(edited);
+      expect(mockStore.addDocument).not.toHaveBeenCalled();
+      expect(mockNotificationService.notifyDocumentUpdated).toHaveBeenCalledWith(edited);
+    });
+  });
+
+  describe('version bumps (via render action handlers)', () => {
+    it.each([
+      ['bumpMajor', '2.1.3', '3.0.0'],
+      ['bumpMinor', '2.1.3', '2.2.0'],
+      ['bumpPatch', '2.1.3', '2.1.4'],
+      ['bumpMajor', 1, 2],
+      ['bumpMinor', 1, '1.1.0'],
+    ] as const)('should apply %s to version %j', (action, current, next) => {
+      // Arrange
+      mockStore.getDocument.mockReturnValue({ ...sampleDocument, Version: current });
+      new DocumentController(containerId);
+
+      // Act
+      mockView.render.mock.calls[0][6]?.actions?.[action]?.('doc-123');
+
+      // Assert
+      expect(mockStore.updateDocument).toHaveBeenCalledWith(
+        expect.objectContaining({ ID: 'doc-123', Version: next })
+      );
+    });
+
+    it('should refresh UpdatedAt, record activity and notify', () => {
+      // Arrange
+      mockStore.getDocument.mockReturnValue(sampleDocument);
+      new DocumentController(containerId);
+
+      // Act
+      mockView.render.mock.calls[0][6]?.actions?.bumpPatch?.('doc-123');
+
+      // Assert
+      const bumped = mockStore.updateDocument.mock.calls[0][0] as Document;
+      expect(bumped.UpdatedAt.getTime()).toBeGreaterThan(sampleDocument.UpdatedAt.getTime());
+      expect(mockStore.recordActivity).toHaveBeenCalledWith(
+        expect.objectContaining({ documentId: 'doc-123', type: 'updated' })
+      );
+      expect(mockNotificationService.notifyVersionBumped).toHaveBeenCalledWith(bumped, 1);
+    });
+
+    it('should leave documents with an unreadable version untouched', () => {
+      // Arrange
+      const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      mockStore.getDocument.mockReturnValue({ ...sampleDocument, Version: 'draft' });
+      new DocumentController(containerId);
+
+      // Act
+      mockView.render.mock.calls[0][6]?.actions?.bumpMinor?.('doc-123');
+
+      // Assert
+      expect(mockStore.updateDocument).not.toHaveBeenCalled();
+      expect(consoleWarnSpy).toHaveBeenCalled();
+      consoleWarnSpy.mockRestore();
+    });
+  });
+
+  describe('handleDelete (via render action handlers)', () => {
+    it('should ask for confirmation before deleting', () => {
+      // Arrange
+      mockStore.getDocument.mockReturnValue(sampleDocument);
+      new DocumentController(containerId);
+
+      // Act
+      mockView.render.mock.calls[0][6]?.actions?.delete?.('doc-123');
+
+      // Assert
+      expect(mockView.showConfirm).toHaveBeenCalledWith(
+        expect.objectContaining({ confirmLabel: 'Delete' }),
+        expect.any(Function)
+      );
+      expect(mockStore.removeDocument).not.toHaveBeenCalled();
+    });
+
+    it('should not ask for confirmation when document does not exist', () => {
+      // Arrange
+      mockStore.getDocument.mockReturnValue(undefined);
+      new DocumentController(containerId);
+
+      // Act
+      mockView.render.mock.calls[0][6]?.actions?.delete?.('missing');
+
+      // Assert
+      expect(mockView.showConfirm).not.toHaveBeenCalled();
+    });
+
+    it('should move document to trash and offer undo once confirmed', () => {
+      // Arrange
+      mockStore.getDocument.mockReturnValue(sampleDocument);
+      mockStore.trashDocument.mockReturnValue(sampleDocument);
+      new DocumentController(containerId);
+      mockView.render.mock.calls[0][6]?.actions?.delete?.('doc-123');
+      const confirmCallback = mockView.showConfirm.mock.calls[0][1];
+
+      // Act
+      confirmCallback();
+
+      // Assert
+      expect(mockStore.trashDocument).toHaveBeenCalledWith('doc-123');
+      expect(mockStore.removeDocument).not.toHaveBeenCalled();
+      expect(mockNotificationService.notifyDocumentDeleted).toHaveBeenCalledWith(
+        sampleDocument,
+        expect.any(Function)
+      );
+    });
+
+    it('should restore the trashed document when undo is clicked', () => {
+      // Arrange
+      mockStore.getDocument.mockReturnValue(sampleDocument);
+      mockStore.trashDocument.mockReturnValue(sampleDocument);
+      new DocumentController(containerId);
+      mockView.render.mock.calls[0][6]?.actions?.delete?.('doc-123');
+      mockView.showConfirm.mock.calls[0][1]();
+      const undoCallback = mockNotificationService.notifyDocumentDeleted.mock.calls[0][1];
+
+      // Act
+      undoCallback();
+
+      // Assert
+      expect(mockStore.restoreDocument).toHaveBeenCalledWith('doc-123');
+    });
+
+    it('should record the trash and undo in the activity log', () => {
+      // Arrange
+      mockStore.getDocument.mockReturnValue(sampleDocument);
+      mockStore.trashDocument.mockReturnValue(sampleDocument);
+      mockStore.restoreDocument.mockReturnValue(sampleDocument);
+      new DocumentController(containerId);
+      mockView.render.mock.calls[0][6]?.actions?.delete?.('doc-123');
+      mockView.showConfirm.mock.calls[0][1]();
+
+      // Act
+      mockNotificationService.notifyDocumentDeleted.mock.calls[0][1]();
+
+      // Assert
+      expect(mockStore.recordActivity.mock.calls.map(([entry]) => entry.type)).toEqual([
+        'trashed',
+        'restored',
+      ]);
+    });
+  });
+
+  describe('trash (via render options)', () => {
+    it('should render active documents with trash state by default', () => {
+      // Arrange
+      const trashed = { ...sampleDocument, ID: 'doc-t', DeletedAt: new Date() };
+      mockStore.getDocuments.mockReturnValue([sampleDocument]);
+      mockStore.getTrashedDocuments.mockReturnValue([trashed]);
+
+      // Act
+      new DocumentController(containerId);
+
+      // Assert
+      const [documents, , , , , , options] = mockView.render.mock.calls[0];
+      expect(documents).toEqual([sampleDocument]);
+      expect(options?.trash).toEqual(
+        expect.objectContaining({ visible: false, count: 1, retentionDays: expect.any(Number) })
+      );
+    });
+
+    it('should render trashed documents when trash is visible', () => {
+      // Arrange
+      const trashed = { ...sampleDocument, ID: 'doc-t', DeletedAt: new Date() };
+      mockStore.getDocuments.mockReturnValue([sampleDocument]);
+      mockStore.getTrashedDocuments.mockReturnValue([trashed]);
+      mockStore.isTrashVisible.mockReturnValue(true);
+
+      // Act
+      new DocumentController(containerId);
+
+      // Assert
+      expect(mockView.render.mock.calls[0][0]).toEqual([trashed]);
+      expect(mockView.render.mock.calls[0][6]?.trash?.visible).toBe(true);
+    });
+
+    it('should toggle trash visibility', () => {
+      // Arrange
+      mockStore.isTrashVisible.mockReturnValue(false);
+      new DocumentController(containerId);
+
+      // Act
+      mockView.render.mock.calls[0][6]?.trash?.onToggle();
+
+      // Assert
+      expect(mockStore.setTrashVisible).toHaveBeenCalledWith(true);
+    });
+
+    it('should restore a document and notify', () => {
+      // Arrange
+      mockStore.restoreDocument.mockReturnValue(sampleDocument);
+      new DocumentController(containerId);
+
+      // Act
+      mockView.render.mock.calls[0][6]?.actions?.restore?.('doc-123');
+
+      // Assert
+      expect(mockStore.restoreDocument).toHaveBeenCalledWith('doc-123');
+      expect(mockNotificationService.notifyDocumentRestored).toHaveBeenCalledWith(sampleDocument);
+    });
+
+    it('should permanently delete only after confirmation', () => {
+      // Arrange
+      mockStore.getDocument.mockReturnValue(sampleDocument);
+      mockStore.removeDocument.mockReturnValue(sampleDocument);
+      new DocumentController(containerId);
+      mockView.render.mock.calls[0][6]?.actions?.purge?.('doc-123');
+      expect(mockStore.removeDocument).not.toHaveBeenCalled();
+
+      // Act
+      mockView.showConfirm.mock.calls[0][1]();
+
+      // Assert
+      expect(mockStore.removeDocument).toHaveBeenCalledWith('doc-123');
+      expect(mockNotificationService.notifyDocumentPurged).toHaveBeenCalledWith(sampleDocument);
+    });
+  });
+
+  describe('search (via render options)', () => {
+    it('should render only documents matching the search query', () => {
+      // Arrange
+      const other = { ...sampleDocument, ID: 'doc-2', Title: 'Budget', Attachments: [] };
+      mockStore.getDocuments.mockReturnValue([sampleDocument, other]);
+      mockStore.getSearchQuery.mockReturnValue('budget');
+
+      // Act
+      new DocumentController(containerId);
+
+      // Assert
+      const [documents, , , , , , options] = mockView.render.mock.calls[0];
+      expect(documents).toEqual([other]);
+      expect(options?.searchQuery).toBe('budget');
+    });
+
+    it('should search inside the trash when it is visible', () => {
+      // Arrange
+      const trashed = { ...sampleDocument, ID: 'doc-t', DeletedAt: new Date() };
+      mockStore.isTrashVisible.mockReturnValue(true);
+      mockStore.getTrashedDocuments.mockReturnValue([trashed]);
+      mockStore.getSearchQuery.mockReturnValue('nothing matches');
+
+      // Act
+      new DocumentController(containerId);
+
+      // Assert
+      expect(mockView.render.mock.calls[0][0]).toEqual([]);
+    });
+
+    it('should apply structured filters from the search query', () => {
+      // Arrange
+      const other = { ...sampleDocument, ID: 'doc-2', Title: 'Budget', Attachments: [] };
+      mockStore.getDocuments.mockReturnValue([sampleDocument, other]);
+      mockStore.getSearchQuery.mockReturnValue('has:attachments');
+
+      // Act
+      new DocumentController(containerId);
+
+      // Assert
+      const [documents, , , , , , options] = mockView.render.mock.calls[0];
+      expect(documents).toEqual([sampleDocument]);
+      expect(options?.searchError).toBeUndefined();
+    });
+
+    it('should report malformed queries and leave the list unfiltered', () => {
+      // Arrange
+      const other = { ...sampleDocument, ID: 'doc-2', Title: 'Budget', Attachments: [] };
+      mockStore.getDocuments.mockReturnValue([sampleDocument, other]);
+      mockStore.getSearchQuery.mockReturnValue('version:>=abc');
+
+      // Act
+      new DocumentController(containerId);
+
+      // Assert
+      const [documents, , , , , , options] = mockView.render.mock.calls[0];
+      expect(documents).toEqual([sampleDocument, other]);
+      expect(options?.searchError).toContain('Invalid version "abc"');
+    });
+
+    it('should store the query when the search callback is invoked', () => {
+      // Arrange
+      new DocumentController(containerId);
+
+      // Act
+      mockView.render.mock.calls[0][6]?.onSearch?.('report');
+
+      // Assert
+      expect(mockStore.setSearchQuery).toHaveBeenCalledWith('report');
+    });
+  });
+
+  describe('facets (via render options)', () => {
+    let pdfDocument: Document;
+    let bareDocument: Document;
+
+    beforeEach(() => {
+      pdfDocument = {
+        ...sampleDocument,
+        ID: 'doc-pdf',
+        Contributors: [{ ID: 'user-9', Name: 'Grace' }],
+        Attachments: ['plan.pdf'],
+      };
+      bareDocument = {
+        ...sampleDocument,
+        ID: 'doc-bare',
+        Contributors: [{ ID: 'user-8', Name: 'Linus' }],
+        Attachments: [],
+      };
+    });
+
+    it('should pass facet counts computed from the store documents', () => {
+      // Arrange
+      mockStore.getDocuments.mockReturnValue([pdfDocument, bareDocument]);
+
+      // Act
+      new DocumentController(containerId);
+
+      // Assert
+      const facets = mockView.render.mock.calls[0][6]?.facets;
+      expect(facets?.counts.contributor.map(option => option.label)).toEqual(['Grace', 'Linus']);
+      expect(facets?.counts.extension).toEqual([{ value: 'pdf', label: '.pdf', count: 1 }]);
+      expect(facets?.open).toBe(true);
+    });
+
+    it('should render only documents matching the selected facets', () => {
+      // Arrange
+      mockStore.getDocuments.mockReturnValue([pdfDocument, bareDocument]);
+      mockStore.getFacetSelection.mockReturnValue({
+        contributor: ['Grace', 'Linus'],
+        extension: ['pdf'],
+        month: [],
+      });
+
+      // Act
+      new DocumentController(containerId);
+
+      // Assert
+      expect(mockView.render.mock.calls[0][0]).toEqual([pdfDocument]);
+    });
+
+    it('should recompute counts when a new document arrives', () => {
+      // Arrange
+      mockStore.getDocuments.mockReturnValue([pdfDocument]);
+      new DocumentController(containerId);
+      const subscriber = mockStore.subscribe.mock.calls[0][0];
+      mockStore.getDocuments.mockReturnValue([pdfDocument, { ...pdfDocument, ID: 'doc-new' }]);
+
+      // Act
+      subscriber();
+
+      // Assert
+      const facets = mockView.render.mock.calls[1][6]?.facets;
+      expect(facets?.counts.extension[0].count).toBe(2);
+    });
+
+    it('should toggle a facet in the store', () => {
+      // Arrange
+      new DocumentController(containerId);
+
+      // Act
+      mockView.render.mock.calls[0][6]?.facets?.onToggleFacet?.('extension', 'pdf');
+
+      // Assert
+      expect(mockStore.toggleFacet).toHaveBeenCalledWith('extension', 'pdf');
+    });
+
+    it('should clear facets in the store', () => {
+      // Arrange
+      new DocumentController(containerId);
+
+      // Act
+      mockView.render.mock.calls[0][6]?.facets?.onClear?.();
+
+      // Assert
+      expect(mockStore.clearFacets).toHaveBeenCalledTimes(1);
+    });
+
+    it('should collapse the facet panel', () => {
+      // Arrange
+      new DocumentController(containerId);
+
+      // Act
+      mockView.render.mock.calls[0][6]?.facets?.onTogglePanel?.();
+
+      // Assert
+      expect(mockStore.setFacetPanelOpen).toHaveBeenCalledWith(false);
+    });
+  });
+
   describe('handleNewDocument (via WebSocketManager callback)', () => {
     it('should add document to store when received via WebSocket', () => {
       // Arrange
       new DocumentController(containerId);
-      const wsCallback = MockedWebSocketManager.mock.calls[0][0];
+      const wsCallback = MockedWebSocketManager.mock.calls[0][0].onDocumentCreated;
 
       // Act
       wsCallback(sampleDocument);
@@ -468,7 +1109,7 @@ describe('DocumentController', () => {
     it('should notify when document is received via WebSocket', () => {
       // Arrange
       new DocumentController(containerId);
-      const wsCallback = MockedWebSocketManager.mock.calls[0][0];
+      const wsCallback = MockedWebSocketManager.mock.calls[0][0].onDocumentCreated;
 
       // Act
       wsCallback(sampleDocument);
@@ -478,11 +1119,25 @@ describe('DocumentController', () => {
       expect(mockNotificationService.notifyDocumentReceived).toHaveBeenCalledWith(sampleDocument);
     });
 
+    it('should not add a relayed document the store already synced from the leader tab', () => {
+      // Arrange
+      mockStore.getDocument.mockReturnValue(sampleDocument);
+      new DocumentController(containerId);
+      const wsCallback = MockedWebSocketManager.mock.calls[0][0].onDocumentCreated;
+
+      // Act
+      wsCallback(sampleDocument);
+
+      // Assert
+      expect(mockStore.addDocument).not.toHaveBeenCalled();
+      expect(mockNotificationService.notifyDocumentReceived).toHaveBeenCalledWith(sampleDocument);
+    });
+
     it('should handle multiple documents received via WebSocket', () => {
       // Arrange
       const doc2 = { ...sampleDocument, ID: 'doc-789', Title: 'Third Document' };
       new DocumentController(containerId);
-      const wsCallback = MockedWebSocketManager.mock.calls[0][0];
+      const wsCallback = MockedWebSocketManager.mock.calls[0][0].onDocumentCreated;
 
       // Act
       wsCallback(sampleDocument);
@@ -492,6 +1147,276 @@ describe('DocumentController', () => {
       expect(mockStore.addDocument).toHaveBeenCalledTimes(2);
       expect(mockNotificationService.notifyDocumentReceived).toHaveBeenCalledTimes(2);
     });
+
+    it('should record the live update with its author in the activity log', () => {
+      // Arrange
+      new DocumentController(containerId);
+      const wsCallback = MockedWebSocketManager.mock.calls[0][0].onDocumentCreated;
+
+      // Act
+      wsCallback(sampleDocument);
+
+      // Assert
+      expect(mockStore.recordActivity).toHaveBeenCalledWith({
+        documentId: sampleDocument.ID,
+        type: 'received',
+        timestamp: expect.any(Date),
+        userName: sampleDocument.Contributors[0].Name,
+      });
+    });
+  });
+
+  describe('remote changes (via WebSocketManager handlers)', () => {
+    const getHandlers = () => {
+      new DocumentController(containerId);
+      return MockedWebSocketManager.mock.calls[0][0];
+    };
+
+    it('should apply an update from another user', () => {
+      // Arrange
+      mockStore.getDocument.mockReturnValue(sampleDocument);
+      const updated = { ...sampleDocument, Title: 'Renamed', Version: 2 };
+
+      // Act
+      getHandlers().onDocumentUpdated(updated, 'Jane Smith');
+
+      // Assert
+      expect(mockStore.updateDocument).toHaveBeenCalledWith(updated, 'Jane Smith', {
+        keepUpdatedAt: true,
+      });
+      expect(mockStore.recordActivity).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'updated', userName: 'Jane Smith' })
+      );
+      expect(mockNotificationService.notifyRemoteUpdate).toHaveBeenCalledWith(
+        updated,
+        'Jane Smith'
+      );
+    });
+
+    it('should not save an update the store already holds', () => {
+      // Arrange
+      mockStore.getDocument.mockReturnValue(sampleDocument);
+
+      // Act
+      getHandlers().onDocumentUpdated({ ...sampleDocument, UpdatedAt: new Date() });
+
+      // Assert
+      expect(mockStore.updateDocument).not.toHaveBeenCalled();
+      expect(mockNotificationService.notifyRemoteUpdate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep a trashed document in the trash when it is updated', () => {
+      // Arrange
+      const deletedAt = new Date('2024-02-01');
+      mockStore.getDocument.mockReturnValue({ ...sampleDocument, DeletedAt: deletedAt });
+
+      // Act
+      getHandlers().onDocumentUpdated({ ...sampleDocument, Title: 'Renamed' });
+
+      // Assert
+      expect(mockStore.updateDocument).toHaveBeenCalledWith(
+        expect.objectContaining({ Title: 'Renamed', DeletedAt: deletedAt }),
+        undefined,
+        { keepUpdatedAt: true }
+      );
+    });
+
+    it('should keep the server timestamp of a remote update', () => {
+      // Arrange
+      const serverTime = new Date('2024-03-01T12:00:00Z');
+      mockStore.getDocument.mockReturnValue(sampleDocument);
+
+      // Act
+      getHandlers().onDocumentUpdated({
+        ...sampleDocument,
+        Title: 'Renamed',
+        UpdatedAt: serverTime,
+      });
+
+      // Assert
+      const [saved, , options] = mockStore.updateDocument.mock.calls[0];
+      expect(saved.UpdatedAt).toBe(serverTime);
+      expect(options).toEqual({ keepUpdatedAt: true });
+    });
+
+    it('should add an updated document this browser has not seen yet', () => {
+      // Arrange & Act
+      getHandlers().onDocumentUpdated(sampleDocument, 'Jane Smith');
+
+      // Assert
+      expect(mockStore.addDocument).toHaveBeenCalledWith(sampleDocument);
+      expect(mockNotificationService.notifyDocumentReceived).toHaveBeenCalledWith(sampleDocument);
+    });
+
+    it('should move a document deleted elsewhere to the trash', () => {
+      // Arrange
+      mockStore.getDocument.mockReturnValue(sampleDocument);
+
+      // Act
+      getHandlers().onDocumentDeleted(sampleDocument.ID, 'Jane Smith');
+
+      // Assert
+      expect(mockStore.trashDocument).toHaveBeenCalledWith(sampleDocument.ID);
+      expect(mockStore.recordActivity).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'trashed', userName: 'Jane Smith' })
+      );
+      expect(mockNotificationService.notifyRemoteDelete).toHaveBeenCalledWith(
+        sampleDocument,
+        'Jane Smith'
+      );
+    });
+
+    it('should ignore deletions of unknown or already trashed documents', () => {
+      // Arrange
+      const handlers = getHandlers();
+
+      // Act
+      handlers.onDocumentDeleted('missing');
+      mockStore.getDocument.mockReturnValue({ ...sampleDocument, DeletedAt: new Date() });
+      handlers.onDocumentDeleted(sampleDocument.ID);
+
+      // Assert
+      expect(mockStore.trashDocument).not.toHaveBeenCalled();
+      expect(mockNotificationService.notifyRemoteDelete).toHaveBeenCalledTimes(1);
+    });
+
+    it('should add a contributor who joined a document once', () => {
+      // Arrange
+      const contributor = { ID: 'user-2', Name: 'Jane Smith' };
+      const handlers = getHandlers();
+      mockStore.getDocument.mockReturnValue(sampleDocument);
+
+      // Act
+      handlers.onContributorJoined(sampleDocument.ID, contributor);
+      mockStore.getDocument.mockReturnValue({
+        ...sampleDocument,
+        Contributors: [...sampleDocument.Contributors, contributor],
+      });
+      handlers.onContributorJoined(sampleDocument.ID, contributor);
+
+      // Assert
+      expect(mockStore.updateDocument).toHaveBeenCalledTimes(1);
+      expect(mockStore.updateDocument).toHaveBeenCalledWith(
+        { ...sampleDocument, Contributors: [...sampleDocument.Contributors, contributor] },
+        'Jane Smith'
+      );
+      expect(mockStore.recordActivity).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'joined', userName: 'Jane Smith' })
+      );
+      expect(mockNotificationService.notifyContributorJoined).toHaveBeenCalledWith(
+        sampleDocument,
+        contributor
+      );
+    });
+  });
+
+  describe('detail drawer (via render options)', () => {
+    it('should not pass a document when none is open', () => {
+      // Arrange & Act
+      new DocumentController(containerId);
+
+      // Assert
+      const detail = mockView.render.mock.calls[0][6]?.detail;
+      expect(detail?.document).toBeUndefined();
+      expect(detail?.activity).toEqual([]);
+      expect(mockStore.getActivity).not.toHaveBeenCalled();
+    });
+
+    it('should pass the open document and its activity', () => {
+      // Arrange
+      const activity: ActivityEntry[] = [
+        { documentId: sampleDocument.ID, type: 'updated', timestamp: new Date() },
+      ];
+      mockStore.getOpenDocumentId.mockReturnValue(sampleDocument.ID);
+      mockStore.getDocument.mockReturnValue(sampleDocument);
+      mockStore.getActivity.mockReturnValue(activity);
+
+      // Act
+      new DocumentController(containerId);
+
+      // Assert
+      const detail = mockView.render.mock.calls[0][6]?.detail;
+      expect(mockStore.getDocument).toHaveBeenCalledWith(sampleDocument.ID);
+      expect(detail?.document).toBe(sampleDocument);
+      expect(detail?.activity).toBe(activity);
+    });
+
+    it('should not pass a document when the open ID is unknown', () => {
+      // Arrange
+      mockStore.getOpenDocumentId.mockReturnValue('missing');
+      mockStore.getDocument.mockReturnValue(undefined);
+
+      // Act
+      new DocumentController(containerId);
+
+      // Assert
+      expect(mockView.render.mock.calls[0][6]?.detail?.document).toBeUndefined();
+    });
+
+    it('should pass the revisions of the open document', () => {
+      // Arrange
+      const revisions: Revision[] = [
+        {
+          id: 'rev-1',
+          documentId: sampleDocument.ID,
+          snapshot: sampleDocument,
+          savedAt: new Date(),
+        },
+      ];
+      mockStore.getOpenDocumentId.mockReturnValue(sampleDocument.ID);
+      mockStore.getRevisions.mockReturnValue(revisions);
+
+      // Act
+      new DocumentController(containerId);
+
+      // Assert
+      expect(mockStore.getRevisions).toHaveBeenCalledWith(sampleDocument.ID);
+      expect(mockView.render.mock.calls[0][6]?.detail?.revisions).toBe(revisions);
+    });
+
+    it('should restore a revision, log it and notify', () => {
+      // Arrange
+      const restored = { ...sampleDocument, Title: 'Older title' };
+      mockStore.restoreRevision.mockReturnValue(restored);
+      new DocumentController(containerId);
+
+      // Act
+      mockView.render.mock.calls[0][6]?.detail?.onRestoreRevision?.(sampleDocument.ID, 'rev-1');
+
+      // Assert
+      expect(mockStore.restoreRevision).toHaveBeenCalledWith(sampleDocument.ID, 'rev-1');
+      expect(mockStore.recordActivity).toHaveBeenCalledWith(
+        expect.objectContaining({ documentId: sampleDocument.ID, type: 'reverted' })
+      );
+      expect(mockNotificationService.notifyRevisionRestored).toHaveBeenCalledWith(restored);
+    });
+
+    it('should not notify when the revision cannot be restored', () => {
+      // Arrange
+      mockStore.restoreRevision.mockReturnValue(undefined);
+      new DocumentController(containerId);
+
+      // Act
+      mockView.render.mock.calls[0][6]?.detail?.onRestoreRevision?.(sampleDocument.ID, 'missing');
+
+      // Assert
+      expect(mockStore.recordActivity).not.toHaveBeenCalled();
+      expect(mockNotificationService.notifyRevisionRestored).not.toHaveBeenCalled();
+    });
+
+    it('should open and close documents through the store', () => {
+      // Arrange
+      new DocumentController(containerId);
+      const detail = mockView.render.mock.calls[0][6]?.detail;
+
+      // Act
+      detail?.onOpen('doc-123');
+      detail?.onClose();
+
+      // Assert
+      expect(mockStore.setOpenDocument).toHaveBeenNthCalledWith(1, 'doc-123');
+      expect(mockStore.setOpenDocument).toHaveBeenNthCalledWith(2, undefined);
+    });
   });
 
   describe('store subscription and view updates', () => {
@@ -514,7 +1439,8 @@ describe('DocumentController', () => {
         'list',
         expect.any(Function),
         expect.any(Function),
-        expect.any(Function)
+        expect.any(Function),
+        expect.any(Object)
       );
     });
 
@@ -537,7 +1463,8 @@ describe('DocumentController', () => {
         expect.any(String),
         expect.any(Function),
         expect.any(Function),
-        expect.any(Function)
+        expect.any(Function),
+        expect.any(Object)
       );
     });
 
@@ -558,7 +1485,8 @@ describe('DocumentController', () => {
         expect.any(String),
         expect.any(Function),
         expect.any(Function),
-        expect.any(Function)
+        expect.any(Function),
+        expect.any(Object)
       );
     });
 
@@ -579,8 +1507,90 @@ describe('DocumentController', () => {
         'grid',
         expect.any(Function),
         expect.any(Function),
+        expect.any(Function),
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('storage health', () => {
+    const usage = { usage: 4.5 * 1024 * 1024, quota: 5 * 1024 * 1024 };
+
+    it('should pass the storage health to the view on every render', () => {
+      // Arrange
+      new DocumentController(containerId);
+      const storeListener = mockStore.subscribe.mock.calls[0][0];
+      mockStore.getStorageHealth.mockReturnValue({ status: 'warning', usage });
+
+      // Act
+      storeListener();
+      storeListener();
+
+      // Assert - Unlike a toast, the banner is rendered again rather than shown once
+      const expected = {
+        health: { status: 'warning', usage },
+        action: { label: 'Export backup', onClick: expect.any(Function) },
+      };
+      expect(mockView.render.mock.calls[1][6]?.storage).toEqual(expected);
+      expect(mockView.render.mock.calls[2][6]?.storage).toEqual(expected);
+    });
+
+    it('should offer to empty the trash when it holds documents', () => {
+      // Arrange
+      mockStore.getTrashedDocuments.mockReturnValue([{ ...sampleDocument, DeletedAt: new Date() }]);
+      mockStore.getStorageHealth.mockReturnValue({ status: 'warning', usage });
+      new DocumentController(containerId);
+      const action = mockView.render.mock.calls[0][6]!.storage!.action;
+
+      // Act
+      action.onClick();
+
+      // Assert
+      expect(action.label).toBe('Empty trash');
+      expect(mockView.showConfirm).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: '1 document in the trash will be permanently deleted. This cannot be undone.',
+        }),
         expect.any(Function)
       );
+      expect(mockStore.purgeExpiredDocuments).not.toHaveBeenCalled();
+
+      // Act
+      mockView.showConfirm.mock.calls[0][1]();
+
+      // Assert
+      expect(mockStore.purgeExpiredDocuments).toHaveBeenCalledWith(0);
+    });
+
+    it('should offer a backup export after a failed save', () => {
+      // Arrange
+      const trashed = { ...sampleDocument, ID: 'doc-456', DeletedAt: new Date() };
+      mockStore.getDocuments.mockReturnValue([sampleDocument]);
+      mockStore.getTrashedDocuments.mockReturnValue([trashed]);
+      mockStore.getStorageHealth.mockReturnValue({ status: 'error', error: 'QuotaExceededError' });
+      new DocumentController(containerId);
+      const action = mockView.render.mock.calls[0][6]!.storage!.action;
+
+      // Act
+      action.onClick();
+
+      // Assert
+      expect(action.label).toBe('Export backup');
+      const [filename, content] = mockView.downloadFile.mock.calls[0];
+      expect(filename).toMatch(/^document-backup-\d{4}-\d{2}-\d{2}\.json$/);
+      expect(JSON.parse(content).documents.map((doc: Document) => doc.ID)).toEqual([
+        'doc-123',
+        'doc-456',
+      ]);
+    });
+
+    it('should not show storage problems as notifications', () => {
+      // Arrange & Act
+      mockStore.getStorageHealth.mockReturnValue({ status: 'error' });
+      new DocumentController(containerId);
+
+      // Assert
+      expect(mockView.showNotification).not.toHaveBeenCalled();
     });
   });
 
@@ -609,7 +1619,7 @@ describe('DocumentController', () => {
 
       // Act
       controller.connect();
-      const wsCallback = MockedWebSocketManager.mock.calls[0][0];
+      const wsCallback = MockedWebSocketManager.mock.calls[0][0].onDocumentCreated;
 
       // Act - Document received via WebSocket
       wsCallback(sampleDocument);
@@ -622,9 +1632,8 @@ describe('DocumentController', () => {
 
     it('should handle full sort change flow', () => {
       // Arrange
-      mockStore.getSortField.mockReturnValue('Title');
-      mockStore.getSortOrder.mockReturnValue('asc');
-      mockSortingService.toggleSort.mockReturnValue({ field: 'Title', order: 'desc' });
+      mockStore.getSortCriteria.mockReturnValue([{ field: 'Title', order: 'asc' }]);
+      mockSortingService.toggleSort.mockReturnValue([{ field: 'Title', order: 'desc' }]);
       new DocumentController(containerId);
       const sortCallback = mockView.render.mock.calls[0][3];
 
@@ -632,9 +1641,11 @@ describe('DocumentController', () => {
       sortCallback('Title');
 
       // Assert
-      expect(mockSortingService.toggleSort).toHaveBeenCalledWith('Title', 'asc', 'Title');
-      expect(mockStore.setSortField).toHaveBeenCalledWith('Title');
-      expect(mockStore.setSortOrder).toHaveBeenCalledWith('desc');
+      expect(mockSortingService.toggleSort).toHaveBeenCalledWith(
+        [{ field: 'Title', order: 'asc' }],
+        'Title'
+      );
+      expect(mockStore.setSortCriteria).toHaveBeenCalledWith([{ field: 'Title', order: 'desc' }]);
     });
 
     it('should handle connect and disconnect lifecycle', () => {
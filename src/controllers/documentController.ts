@@ -1,9 +1,20 @@
-import { Document, SortField } from '../models/document';
+import { Contributors, Document, SortField } from '../models/document';
 import { Store } from '../store/store';
 import { DocumentView } from '../views/documentView';
 import { SortingService } from '../services/sortingService';
 import { NotificationService } from '../services/notificationService';
 import { WebSocketManager } from '../services/webSocketManager';
+import { environment } from '../config/environment';
+import { filterByQuery, parseQuery, QueryParseError } from '../utils/queryUtils';
+import { computeFacets, filterByFacets } from '../utils/facetUtils';
+import type { FacetGroup } from '../models/facet';
+import type { ActivityType } from '../models/activity';
+import { bumpDocumentVersion, type VersionBump } from '../utils/versionUtils';
+import { createEnvelope } from '../utils/schemaUtils';
+import type { StorageStatus } from '../models/storage';
+import type { NotificationAction } from '../models/notification';
+import { isTrashed } from '../utils/documentUtils';
+import { diffDocuments } from '../utils/revisionUtils';
 
 /**
  * Main controller coordinating document management
@@ -29,16 +40,43 @@ export class DocumentController {
     this.view = view || new DocumentView(containerId);
     this.sortingService = sortingService || new SortingService();
     this.notificationService = notificationService || new NotificationService(this.view);
-    this.wsManager = wsManager || new WebSocketManager(this.handleNewDocument.bind(this));
+    this.wsManager =
+      wsManager ||
+      new WebSocketManager({
+        onDocumentCreated: this.handleNewDocument.bind(this),
+        onDocumentUpdated: this.handleRemoteUpdate.bind(this),
+        onDocumentDeleted: this.handleRemoteDelete.bind(this),
+        onContributorJoined: this.handleContributorJoined.bind(this),
+      });
 
     this.store.subscribe(() => this.updateView());
+    this.wsManager.onConnectionStateChange(() => this.updateView());
     this.updateView();
   }
 
   private updateView(): void {
-    const documents = this.store.getDocuments();
+    const trashVisible = this.store.isTrashVisible();
+    const trashedDocuments = this.store.getTrashedDocuments();
+    const searchQuery = this.store.getSearchQuery();
+    let documents = trashVisible ? trashedDocuments : this.store.getDocuments();
+    let searchError: string | undefined;
+
+    // A malformed query leaves the list unfiltered and explains the problem inline
+    try {
+      documents = filterByQuery(documents, parseQuery(searchQuery));
+    } catch (error) {
+      if (!(error instanceof QueryParseError)) throw error;
+      searchError = error.message;
+    }
+
+    // Facets are counted over the searched set; each group applies only the other groups' selections
+    const facetSelection = this.store.getFacetSelection();
+    const facetCounts = computeFacets(documents, facetSelection);
+    documents = filterByFacets(documents, facetSelection);
     const sortField = this.store.getSortField();
     const viewMode = this.store.getViewMode();
+    const openDocumentId = this.store.getOpenDocumentId();
+    const storageHealth = this.store.getStorageHealth();
 
     this.view.render(
       documents,
@@ -46,17 +84,78 @@ export class DocumentController {
       viewMode,
       this.handleSort.bind(this),
       this.handleCreate.bind(this),
-      this.handleViewModeChange.bind(this)
+      this.handleViewModeChange.bind(this),
+      {
+        sort: {
+          criteria: this.store.getSortCriteria(),
+          onAdd: this.handleSortAdd.bind(this),
+          onRemove: this.handleSortRemove.bind(this),
+          onToggleOrder: this.handleSortOrderToggle.bind(this),
+        },
+        actions: {
+          edit: this.handleEdit.bind(this),
+          bumpMajor: (id: string) => this.handleVersionBump(id, 'major'),
+          bumpMinor: (id: string) => this.handleVersionBump(id, 'minor'),
+          bumpPatch: (id: string) => this.handleVersionBump(id, 'patch'),
+          delete: this.handleDelete.bind(this),
+          restore: this.handleRestore.bind(this),
+          purge: this.handlePurge.bind(this),
+        },
+        trash: {
+          visible: trashVisible,
+          count: trashedDocuments.length,
+          retentionDays: environment.trash.retentionDays,
+          onToggle: this.handleTrashToggle.bind(this),
+        },
+        searchQuery,
+        searchError,
+        onSearch: this.handleSearch.bind(this),
+        facets: {
+          counts: facetCounts,
+          selection: facetSelection,
+          open: this.store.isFacetPanelOpen(),
+          onToggleFacet: this.handleFacetToggle.bind(this),
+          onClear: this.handleFacetClear.bind(this),
+          onTogglePanel: this.handleFacetPanelToggle.bind(this),
+        },
+        detail: {
+          document: openDocumentId ? this.store.getDocument(openDocumentId) : undefined,
+          activity: openDocumentId ? this.store.getActivity(openDocumentId) : [],
+          revisions: openDocumentId ? this.store.getRevisions(openDocumentId) : [],
+          onOpen: this.handleOpenDocument.bind(this),
+          onClose: this.handleCloseDocument.bind(this),
+          onRestoreRevision: this.handleRestoreRevision.bind(this),
+        },
+        connection: {
+          state: this.wsManager.getConnectionState(),
+          onRetry: this.handleRetryConnection.bind(this),
+        },
+        storage: {
+          health: storageHealth,
+          action: this.getStorageAction(storageHealth.status),
+        },
+      }
     );
   }
 
   private handleSort(field: SortField): void {
-    const currentField = this.store.getSortField();
-    const currentOrder = this.store.getSortOrder();
+    const criteria = this.store.getSortCriteria();
+    this.store.setSortCriteria(this.sortingService.toggleSort(criteria, field));
+  }
+
+  private handleSortAdd(field: SortField): void {
+    const criteria = this.store.getSortCriteria();
+    this.store.setSortCriteria(this.sortingService.addSortCriterion(criteria, field));
+  }
 
-    const result = this.sortingService.toggleSort(currentField, currentOrder, field);
-    this.store.setSortField(result.field);
-    this.store.setSortOrder(result.order);
+  private handleSortRemove(index: number): void {
+    const criteria = this.store.getSortCriteria();
+    this.store.setSortCriteria(this.sortingService.removeSortCriterion(criteria, index));
+  }
+
+  private handleSortOrderToggle(index: number): void {
+    const criteria = this.store.getSortCriteria();
+    this.store.setSortCriteria(this.sortingService.toggleSortOrder(criteria, index));
   }
 
   private handleViewModeChange(mode: 'list' | 'grid'): void {
@@ -66,15 +165,227 @@ export class DocumentController {
   private handleCreate(): void {
     this.view.showModal((document: Document) => {
       this.store.addDocument(document);
+      this.recordActivity(document.ID, 'created');
       this.notificationService.notifyDocumentCreated(document);
     });
   }
 
-  private handleNewDocument(document: Document): void {
-    this.store.addDocument(document);
+  private handleEdit(id: string): void {
+    const existing = this.store.getDocument(id);
+    if (!existing) return;
+
+    this.view.showModal((document: Document) => {
+      this.store.updateDocument(document);
+      this.recordActivity(document.ID, 'updated');
+      this.notificationService.notifyDocumentUpdated(document);
+    }, existing);
+  }
+
+  private handleVersionBump(id: string, release: VersionBump): void {
+    const existing = this.store.getDocument(id);
+    if (!existing) return;
+
+    const version = bumpDocumentVersion(existing.Version, release);
+    if (version === null) {
+      console.warn(`Cannot bump unreadable version "${existing.Version}" of document ${id}`);
+      return;
+    }
+
+    const bumped: Document = { ...existing, Version: version, UpdatedAt: new Date() };
+    this.store.updateDocument(bumped);
+    this.recordActivity(id, 'updated');
+    this.notificationService.notifyVersionBumped(bumped, existing.Version);
+  }
+
+  private handleDelete(id: string): void {
+    const existing = this.store.getDocument(id);
+    if (!existing) return;
+
+    this.view.showConfirm(
+      {
+        title: 'Delete document',
+        message: `"${existing.Title}" will be moved to the trash.`,
+        confirmLabel: 'Delete',
+      },
+      () => {
+        const trashed = this.store.trashDocument(id);
+        if (!trashed) return;
+        this.recordActivity(id, 'trashed');
+
+        this.notificationService.notifyDocumentDeleted(trashed, () => {
+          if (this.store.restoreDocument(id)) {
+            this.recordActivity(id, 'restored');
+          }
+        });
+      }
+    );
+  }
+
+  private handleRestore(id: string): void {
+    const restored = this.store.restoreDocument(id);
+    if (restored) {
+      this.recordActivity(id, 'restored');
+      this.notificationService.notifyDocumentRestored(restored);
+    }
+  }
+
+  private handlePurge(id: string): void {
+    const existing = this.store.getDocument(id);
+    if (!existing) return;
+
+    this.view.showConfirm(
+      {
+        title: 'Delete forever',
+        message: `"${existing.Title}" will be permanently deleted. This cannot be undone.`,
+        confirmLabel: 'Delete forever',
+      },
+      () => {
+        const removed = this.store.removeDocument(id);
+        if (removed) {
+          this.notificationService.notifyDocumentPurged(removed);
+        }
+      }
+    );
+  }
+
+  private handleSearch(query: string): void {
+    this.store.setSearchQuery(query);
+  }
+
+  private handleFacetToggle(group: FacetGroup, value: string): void {
+    this.store.toggleFacet(group, value);
+  }
+
+  private handleFacetClear(): void {
+    this.store.clearFacets();
+  }
+
+  private handleFacetPanelToggle(): void {
+    this.store.setFacetPanelOpen(!this.store.isFacetPanelOpen());
+  }
+
+  private handleTrashToggle(): void {
+    this.store.setTrashVisible(!this.store.isTrashVisible());
+  }
+
+  private handleOpenDocument(id: string): void {
+    this.store.setOpenDocument(id);
+  }
+
+  private handleCloseDocument(): void {
+    this.store.setOpenDocument(undefined);
+  }
+
+  private handleRestoreRevision(documentId: string, revisionId: string): void {
+    const restored = this.store.restoreRevision(documentId, revisionId);
+    if (restored) {
+      this.recordActivity(documentId, 'reverted');
+      this.notificationService.notifyRevisionRestored(restored);
+    }
+  }
+
+  /**
+   * Emptying the trash frees space without losing anything the user still sees,
+   * but once a save has failed only a backup keeps the unsaved changes
+   */
+  private getStorageAction(status: StorageStatus): NotificationAction {
+    return status === 'warning' && this.store.getTrashedDocuments().length > 0
+      ? { label: 'Empty trash', onClick: this.handleEmptyTrash.bind(this) }
+      : { label: 'Export backup', onClick: this.handleExportBackup.bind(this) };
+  }
+
+  private handleEmptyTrash(): void {
+    const count = this.store.getTrashedDocuments().length;
+    if (count === 0) return;
+
+    this.view.showConfirm(
+      {
+        title: 'Empty trash',
+        message: `${count} ${count === 1 ? 'document' : 'documents'} in the trash will be permanently deleted. This cannot be undone.`,
+        confirmLabel: 'Empty trash',
+      },
+      () => this.store.purgeExpiredDocuments(0)
+    );
+  }
+
+  private handleExportBackup(): void {
+    const documents = [...this.store.getDocuments(), ...this.store.getTrashedDocuments()];
+    const date = new Date().toISOString().slice(0, 10);
+    this.view.downloadFile(
+      `document-backup-${date}.json`,
+      JSON.stringify(createEnvelope(documents), null, 2)
+    );
+  }
+
+  private recordActivity(documentId: string, type: ActivityType, userName?: string): void {
+    this.store.recordActivity({ documentId, type, timestamp: new Date(), userName });
+  }
+
+  private handleNewDocument(
+    document: Document,
+    author: string | undefined = document.Contributors[0]?.Name
+  ): void {
+    // Documents relayed by the leader tab may already have arrived through the cross-tab Store sync
+    if (!this.store.getDocument(document.ID)) {
+      this.store.addDocument(document);
+    }
+    this.recordActivity(document.ID, 'received', author);
     this.notificationService.notifyDocumentReceived(document);
   }
 
+  /**
+   * Messages reach every tab twice, relayed by the leader tab and through the Store sync,
+   * so the Store is only changed when it does not hold the change yet
+   */
+  private handleRemoteUpdate(document: Document, author?: string): void {
+    const existing = this.store.getDocument(document.ID);
+    if (!existing) {
+      this.handleNewDocument(document, author);
+      return;
+    }
+
+    if (existing.Version !== document.Version || diffDocuments(existing, document).length > 0) {
+      // The server does not know about the local trash
+      const updated: Document = { ...document };
+      if (existing.DeletedAt) {
+        updated.DeletedAt = existing.DeletedAt;
+      }
+      this.store.updateDocument(updated, author, { keepUpdatedAt: true });
+    }
+    this.recordActivity(document.ID, 'updated', author);
+    this.notificationService.notifyRemoteUpdate(document, author);
+  }
+
+  private handleRemoteDelete(id: string, author?: string): void {
+    const existing = this.store.getDocument(id);
+    if (!existing) return;
+
+    // Moved to the trash rather than removed, so the local copy can still be recovered
+    if (!isTrashed(existing)) {
+      this.store.trashDocument(id);
+    }
+    this.recordActivity(id, 'trashed', author);
+    this.notificationService.notifyRemoteDelete(existing, author);
+  }
+
+  private handleContributorJoined(id: string, contributor: Contributors): void {
+    const existing = this.store.getDocument(id);
+    if (!existing) return;
+
+    if (!existing.Contributors.some(c => c.ID === contributor.ID)) {
+      this.store.updateDocument(
+        { ...existing, Contributors: [...existing.Contributors, contributor] },
+        contributor.Name
+      );
+    }
+    this.recordActivity(id, 'joined', contributor.Name);
+    this.notificationService.notifyContributorJoined(existing, contributor);
+  }
+
+  private handleRetryConnection(): void {
+    this.wsManager.retry();
+  }
+
   connect(): void {
     this.wsManager.connect();
   }
@@ -2,6 +2,7 @@ import './style.css';
 import { DocumentController } from './controllers/documentController';
 import { Store } from './store/store';
 import { ApiService } from './services/apiService';
+import { RouterService } from './services/routerService';
 
 const apiService = new ApiService();
 
@@ -11,24 +12,31 @@ app.innerHTML = '<div id="document-container"></div>';
 
 const controller = new DocumentController('document-container');
 
-// Fetch documents from API (works offline with localStorage)
-apiService
-  .fetchDocuments()
-  .then(documents => {
-    const store = Store.getInstance();
-    // Only add documents if localStorage is empty (first load)
-    if (store.getDocuments().length === 0) {
-      documents.forEach(doc => store.addDocument(doc));
+// Restore sort, view, filters and open document from the URL, and keep it in sync
+const router = new RouterService();
+router.start();
+
+// Live updates do not wait for storage, which another tab can hold up while it upgrades
+controller.connect();
+
+// Fetch documents from API (works offline with the stored documents)
+const store = Store.getInstance();
+// Checked as soon as storage loads, before documents received live could make it look non-empty
+const isFirstLoad = store.whenLoaded().then(() => store.getDocuments().length === 0);
+Promise.all([apiService.fetchDocuments(), isFirstLoad])
+  .then(([documents, firstLoad]) => {
+    // Only add documents if storage is empty (first load)
+    if (firstLoad) {
+      documents.filter(doc => !store.getDocument(doc.ID)).forEach(doc => store.addDocument(doc));
     }
-    controller.connect();
   })
   .catch(error => {
+    // App continues to work with the stored documents
     console.warn('Server unavailable, running in offline mode:', error);
-    // App continues to work with localStorage data
-    controller.connect(); // Still attempt WebSocket connection
   });
 
 // Cleanup on page unload
 window.addEventListener('beforeunload', () => {
   controller.disconnect();
+  router.stop();
 });
@@ -0,0 +1,18 @@
+export type ActivityType =
+  | 'created'
+  | 'updated'
+  | 'reverted'
+  | 'trashed'
+  | 'restored'
+  | 'received'
+  | 'joined';
+
+/**
+ * A change to a document, kept in memory for the detail drawer
+ */
+export interface ActivityEntry {
+  documentId: string;
+  type: ActivityType;
+  timestamp: Date;
+  userName?: string;
+}
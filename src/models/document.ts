@@ -11,8 +11,20 @@ export interface Document {
   Attachments: string[];
   CreatedAt: Date;
   UpdatedAt: Date;
+  DeletedAt?: Date;
 }
 
-export type SortField = 'Title' | 'Version' | 'CreatedAt';
+export type SortField =
+  | 'Title'
+  | 'Version'
+  | 'CreatedAt'
+  | 'UpdatedAt'
+  | 'ContributorCount'
+  | 'AttachmentCount';
 export type SortOrder = 'asc' | 'desc';
+
+export interface SortCriterion {
+  field: SortField;
+  order: SortOrder;
+}
 export type ViewMode = 'list' | 'grid';
@@ -0,0 +1,14 @@
+export type FacetGroup = 'contributor' | 'extension' | 'month';
+
+/**
+ * Selected facet values per group; values within a group are OR-ed, groups are AND-ed
+ */
+export type FacetSelection = Record<FacetGroup, string[]>;
+
+export interface FacetOption {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export type FacetCounts = Record<FacetGroup, FacetOption[]>;
@@ -0,0 +1,4 @@
+export interface NotificationAction {
+  label: string;
+  onClick: () => void;
+}
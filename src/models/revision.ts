@@ -0,0 +1,17 @@
+import type { Document } from './document';
+
+/**
+ * A saved copy of a document; the newest revision matches the current document
+ */
+export interface Revision {
+  id: string;
+  documentId: string;
+  snapshot: Document;
+  savedAt: Date;
+  // Undefined for changes made in this browser
+  author?: string;
+}
+
+export type RevisionChange =
+  | { field: 'Title'; from: string; to: string }
+  | { field: 'Contributors' | 'Attachments'; added: string[]; removed: string[] };
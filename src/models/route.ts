@@ -0,0 +1,15 @@
+import type { SortCriterion, ViewMode } from './document';
+import type { FacetSelection } from './facet';
+
+/**
+ * The part of the UI state that is addressable through the URL
+ * Sort and view mode are optional so links without them keep the user's saved preferences
+ */
+export interface RouteState {
+  sortCriteria?: SortCriterion[];
+  viewMode?: ViewMode;
+  searchQuery: string;
+  facets: FacetSelection;
+  trashVisible: boolean;
+  documentId?: string;
+}
@@ -1,3 +1,8 @@
+import type { Contributors, Document } from './document';
+
+/**
+ * The bare notification sent by servers predating the typed protocol; it always means "new document"
+ */
 export interface SocketsNotification {
   Timestamp: string;
   UserID: string;
@@ -5,3 +10,68 @@ export interface SocketsNotification {
   DocumentID: string;
   DocumentTitle: string;
 }
+
+interface SocketEnvelope {
+  // Protocol version the server wrote the message with
+  version: number;
+  // Who made the change, when the server knows
+  user?: Contributors;
+}
+
+/**
+ * A decoded WebSocket message, discriminated by `type`
+ */
+export type SocketMessage =
+  | (SocketEnvelope & { type: 'document.created'; document: Document })
+  | (SocketEnvelope & { type: 'document.updated'; document: Document })
+  | (SocketEnvelope & { type: 'document.deleted'; documentId: string })
+  | (SocketEnvelope & {
+      type: 'contributor.joined';
+      documentId: string;
+      contributor: Contributors;
+    });
+
+export type SocketMessageType = SocketMessage['type'];
+
+/**
+ * How long to wait between reconnection attempts and when to give up
+ * The delay for attempt n is `initialDelay * multiplier^(n - 1)`, capped at `maxDelay`,
+ * then shortened by up to `jitter` (a fraction from 0 to 1) so tabs do not reconnect in lockstep
+ */
+export interface ReconnectPolicy {
+  initialDelay: number;
+  maxDelay: number;
+  multiplier: number;
+  jitter: number;
+  // Infinity retries until the connection is closed on purpose
+  maxAttempts: number;
+}
+
+/**
+ * Where the WebSocket connection stands, as shown to the user
+ * The app connects on startup, so it starts as `connecting`; `offline` means reconnection gave up
+ */
+export type ConnectionState =
+  | { status: 'connecting' }
+  | { status: 'open' }
+  | { status: 'reconnecting'; attempt: number; maxAttempts: number }
+  | { status: 'offline' };
+
+/**
+ * What the leader tab and its followers exchange about the single WebSocket connection
+ */
+export type SocketRelayMessage =
+  | { type: 'socket.message'; message: SocketMessage }
+  | { type: 'connection.state'; state: ConnectionState }
+  | { type: 'connection.stateRequested' }
+  | { type: 'connection.retryRequested' }
+  | { type: 'connection.verifyRequested' };
+
+/**
+ * How often an open connection is checked with a ping, and how long to wait for the pong
+ * An interval of 0 turns the heartbeat off, for servers that do not answer pings
+ */
+export interface HeartbeatPolicy {
+  interval: number;
+  timeout: number;
+}
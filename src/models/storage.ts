@@ -0,0 +1,16 @@
+/**
+ * Bytes used and available for persisted data
+ */
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+export type StorageStatus = 'ok' | 'warning' | 'error';
+
+export interface StorageHealth {
+  status: StorageStatus;
+  usage?: StorageUsage;
+  // Why the last save failed, when status is 'error'
+  error?: string;
+}
@@ -0,0 +1,13 @@
+import type { Document, SortCriterion, ViewMode } from './document';
+
+/**
+ * A change made in one tab, sent to the other tabs of the same origin
+ * The sender has already persisted the change, so receivers only update their in-memory state
+ */
+export type SyncMessage =
+  | { type: 'document.saved'; document: Document }
+  | { type: 'documents.deleted'; ids: string[] }
+  | {
+      type: 'preferences.changed';
+      preferences: { sortCriteria: SortCriterion[]; viewMode: ViewMode };
+    };
@@ -2,10 +2,6 @@ import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { ApiService } from './apiService';
 import { Document } from '../models/document';
 
-vi.mock('../utils/documentUtils', () => ({
-  parseDocumentDates: vi.fn((doc: Document) => doc),
-}));
-
 describe('ApiService', () => {
   let apiService: ApiService;
   let mockFetch: ReturnType<typeof vi.fn>;
@@ -136,21 +132,97 @@ describe('ApiService', () => {
       await expect(apiService.fetchDocuments()).rejects.toThrow('Network error');
     });
 
-    it('should parse document dates after fetching', async () => {
+    it('should revive serialized dates', async () => {
       // Arrange
       apiService = new ApiService();
       const mockResponse = {
         ok: true,
-        json: vi.fn().mockResolvedValue(mockDocuments),
+        json: vi.fn().mockResolvedValue(JSON.parse(JSON.stringify(mockDocuments))),
+      };
+      mockFetch.mockResolvedValue(mockResponse);
+
+      // Act
+      const result = await apiService.fetchDocuments();
+
+      // Assert
+      expect(result).toEqual(mockDocuments);
+      expect(result[0].CreatedAt).toBeInstanceOf(Date);
+    });
+
+    it('should drop invalid records, log the failing field and count them', async () => {
+      // Arrange
+      apiService = new ApiService();
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const mockResponse = {
+        ok: true,
+        json: vi
+          .fn()
+          .mockResolvedValue([mockDocuments[0], { ...mockDocuments[1], Title: 7 }, null]),
       };
       mockFetch.mockResolvedValue(mockResponse);
-      const { parseDocumentDates } = await import('../utils/documentUtils');
 
       // Act
+      const result = await apiService.fetchDocuments();
       await apiService.fetchDocuments();
 
       // Assert
-      expect(parseDocumentDates).toHaveBeenCalledTimes(2);
+      expect(result).toEqual([mockDocuments[0]]);
+      expect(warnSpy).toHaveBeenCalledWith('Dropped 2 of 3 documents from the API:', [
+        '[1] Title must be a string',
+        '[2] document must be an object',
+      ]);
+      expect(apiService.getDroppedRecordCount()).toBe(4);
+      warnSpy.mockRestore();
+    });
+
+    it('should repair records with missing lists and UpdatedAt', async () => {
+      // Arrange
+      apiService = new ApiService();
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const mockResponse = {
+        ok: true,
+        json: vi.fn().mockResolvedValue([
+          {
+            ID: 'doc-3',
+            Title: 'Sparse',
+            Version: 1,
+            CreatedAt: '2024-01-17T10:30:00Z',
+          },
+        ]),
+      };
+      mockFetch.mockResolvedValue(mockResponse);
+
+      // Act
+      const result = await apiService.fetchDocuments();
+
+      // Assert
+      expect(result).toEqual([
+        {
+          ID: 'doc-3',
+          Title: 'Sparse',
+          Contributors: [],
+          Version: 1,
+          Attachments: [],
+          CreatedAt: new Date('2024-01-17T10:30:00Z'),
+          UpdatedAt: new Date('2024-01-17T10:30:00Z'),
+        },
+      ]);
+      expect(warnSpy).toHaveBeenCalledWith(
+        'Repaired document doc-3 from the API: Contributors, Attachments, UpdatedAt'
+      );
+      expect(apiService.getDroppedRecordCount()).toBe(0);
+      warnSpy.mockRestore();
+    });
+
+    it('should throw when the payload is not an array', async () => {
+      // Arrange
+      apiService = new ApiService();
+      mockFetch.mockResolvedValue({ ok: true, json: vi.fn().mockResolvedValue({ items: [] }) });
+
+      // Act & Assert
+      await expect(apiService.fetchDocuments()).rejects.toThrow(
+        'Failed to fetch documents: expected an array'
+      );
     });
 
     it('should return empty array when no documents are returned', async () => {
@@ -1,10 +1,11 @@
 import { Document } from '../models/document';
-import { parseDocumentDates } from '../utils/documentUtils';
+import { validateDocument } from '../utils/validationUtils';
 import { environment } from '../config/environment';
 
 export class ApiService {
   private baseUrl: string;
   private fetchFn: typeof fetch;
+  private droppedRecords = 0;
 
   constructor(baseUrl = environment.api.baseUrl, fetchFn: typeof fetch = globalThis.fetch) {
     this.baseUrl = baseUrl;
@@ -12,12 +13,50 @@ export class ApiService {
     this.fetchFn = fetchFn.bind(globalThis);
   }
 
+  /**
+   * Fetches the server's documents, validating each record before it reaches the store
+   * Records with missing lists or UpdatedAt are repaired; records that cannot be repaired are dropped
+   */
   async fetchDocuments(): Promise<Document[]> {
     const response = await this.fetchFn(`${this.baseUrl}/documents`);
     if (!response.ok) {
       throw new Error(`Failed to fetch documents: ${response.statusText}`);
     }
-    const data = await response.json();
-    return data.map((doc: Document) => parseDocumentDates(doc));
+    const data: unknown = await response.json();
+    if (!Array.isArray(data)) {
+      throw new Error('Failed to fetch documents: expected an array');
+    }
+
+    const documents: Document[] = [];
+    const problems: string[] = [];
+    data.forEach((record, index) => {
+      const result = validateDocument(record, { repair: true });
+      if (!result.valid) {
+        problems.push(`[${index}] ${result.field} ${result.message}`);
+        return;
+      }
+      if (result.repairs) {
+        console.warn(
+          `Repaired document ${result.value.ID} from the API: ${result.repairs.join(', ')}`
+        );
+      }
+      documents.push(result.value);
+    });
+
+    if (problems.length > 0) {
+      this.droppedRecords += problems.length;
+      console.warn(
+        `Dropped ${problems.length} of ${data.length} documents from the API:`,
+        problems
+      );
+    }
+    return documents;
+  }
+
+  /**
+   * Number of records dropped as invalid since this service was created
+   */
+  getDroppedRecordCount(): number {
+    return this.droppedRecords;
   }
 }
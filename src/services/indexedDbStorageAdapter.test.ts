@@ -0,0 +1,300 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IndexedDbStorageAdapter } from './indexedDbStorageAdapter';
+import { loadDocuments, loadQuarantine, saveDocuments } from '../utils/storageUtils';
+import { SCHEMA_VERSION } from '../utils/schemaUtils';
+import type { Document } from '../models/document';
+
+interface FakeRequest {
+  result?: unknown;
+  error: Error | null;
+  onsuccess: (() => void) | null;
+  onerror: (() => void) | null;
+  onblocked?: (() => void) | null;
+  onupgradeneeded?: ((event: { oldVersion: number }) => void) | null;
+}
+
+/**
+ * Minimal in-memory IndexedDB covering the calls the adapter makes
+ * Writes are staged per transaction and only applied when it commits
+ */
+function createFakeIndexedDb(initial: { records?: unknown[]; schemaVersion?: number } = {}) {
+  const records = new Map<string, unknown>(
+    (initial.records ?? []).map(record => [(record as Document).ID, record])
+  );
+  const meta = new Map<string, unknown>();
+  if (initial.schemaVersion !== undefined) meta.set('schemaVersion', initial.schemaVersion);
+  // Seeded records mean the database already exists
+  let version = initial.records ? 1 : 0;
+  let failWrites = false;
+  let blockOpen = false;
+  const connections: Array<{ close: () => void; onversionchange: (() => void) | null }> = [];
+
+  const createRequest = (): FakeRequest => ({ error: null, onsuccess: null, onerror: null });
+  const respond = (request: FakeRequest, result: () => unknown) => {
+    setTimeout(() => {
+      request.result = result();
+      request.onsuccess?.();
+    });
+    return request;
+  };
+
+  const createStore = (
+    data: Map<string, unknown>,
+    keyPath: string | null,
+    staged: Array<() => void>
+  ) => ({
+    put: (value: unknown, key?: string) =>
+      staged.push(() =>
+        data.set(key ?? (value as Record<string, string>)[keyPath!], structuredClone(value))
+      ),
+    delete: (key: string) => staged.push(() => data.delete(key)),
+    get: (key: string) => respond(createRequest(), () => structuredClone(data.get(key))),
+    getAll: () => respond(createRequest(), () => [...data.values()].map(v => structuredClone(v))),
+  });
+
+  const createTransaction = () => {
+    const staged: Array<() => void> = [];
+    const transaction = {
+      error: null as Error | null,
+      oncomplete: null as (() => void) | null,
+      onerror: null as (() => void) | null,
+      onabort: null as (() => void) | null,
+      objectStore: (name: string) =>
+        name === 'meta' ? createStore(meta, null, staged) : createStore(records, 'ID', staged),
+    };
+    setTimeout(() => {
+      if (failWrites && staged.length > 0) {
+        transaction.error = new Error('QuotaExceededError');
+        transaction.onabort?.();
+        return;
+      }
+      staged.forEach(write => write());
+      transaction.oncomplete?.();
+    });
+    return transaction;
+  };
+
+  const factory = {
+    open: vi.fn((_name: string, requestedVersion: number) => {
+      const request = createRequest();
+      setTimeout(() => {
+        if (blockOpen) {
+          request.onblocked?.();
+          return;
+        }
+        const stores = new Set(version > 0 ? ['documents'] : []);
+        request.result = {
+          objectStoreNames: { contains: (name: string) => stores.has(name) },
+          transaction: createTransaction,
+          createObjectStore: (name: string) => {
+            stores.add(name);
+            return { put: (value: unknown, key: string) => meta.set(key, value) };
+          },
+          close: vi.fn(),
+          onversionchange: null,
+        };
+        connections.push(request.result as (typeof connections)[number]);
+        if (version < requestedVersion) {
+          request.onupgradeneeded?.({ oldVersion: version });
+          version = requestedVersion;
+        }
+        request.onsuccess?.();
+      });
+      return request;
+    }),
+  };
+
+  return {
+    factory: factory as unknown as IDBFactory,
+    records,
+    meta,
+    connections,
+    failWrites: () => {
+      failWrites = true;
+    },
+    blockOpen: () => {
+      blockOpen = true;
+    },
+  };
+}
+
+describe('IndexedDbStorageAdapter', () => {
+  let fake: ReturnType<typeof createFakeIndexedDb>;
+  let adapter: IndexedDbStorageAdapter;
+
+  const createDocument = (id: string): Document => ({
+    ID: id,
+    Title: `Document ${id}`,
+    Contributors: [{ ID: 'user-1', Name: 'Alice' }],
+    Version: '1.0.0',
+    Attachments: [],
+    CreatedAt: new Date('2024-01-15T10:30:00Z'),
+    UpdatedAt: new Date('2024-01-15T10:30:00Z'),
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    fake = createFakeIndexedDb();
+    adapter = new IndexedDbStorageAdapter(fake.factory);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should store each document as its own record', async () => {
+    // Arrange & Act
+    await adapter.saveDocument(createDocument('doc-1'));
+    await adapter.saveDocument(createDocument('doc-2'));
+
+    // Assert
+    expect([...fake.records.keys()]).toEqual(['doc-1', 'doc-2']);
+    expect(await adapter.loadDocuments()).toEqual([
+      createDocument('doc-1'),
+      createDocument('doc-2'),
+    ]);
+  });
+
+  it('should replace a document with the same ID', async () => {
+    // Arrange
+    await adapter.saveDocument(createDocument('doc-1'));
+
+    // Act
+    await adapter.saveDocument({ ...createDocument('doc-1'), Title: 'Renamed' });
+
+    // Assert
+    expect((fake.records.get('doc-1') as Document).Title).toBe('Renamed');
+  });
+
+  it('should delete documents by ID in one transaction', async () => {
+    // Arrange
+    await adapter.saveDocument(createDocument('doc-1'));
+    await adapter.saveDocument(createDocument('doc-2'));
+
+    // Act
+    await adapter.deleteDocuments(['doc-1', 'doc-2']);
+
+    // Assert
+    expect(fake.records.size).toBe(0);
+  });
+
+  it('should open the database only once', async () => {
+    // Arrange & Act
+    await adapter.loadDocuments();
+    await adapter.saveDocument(createDocument('doc-1'));
+
+    // Assert
+    expect(fake.factory.open).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject writes the database refuses', async () => {
+    // Arrange
+    await adapter.loadDocuments();
+    fake.failWrites();
+
+    // Act & Assert
+    await expect(adapter.saveDocument(createDocument('doc-1'))).rejects.toThrow(
+      'QuotaExceededError'
+    );
+  });
+
+  it('should close the connection when another tab upgrades the database', async () => {
+    // Arrange
+    await adapter.loadDocuments();
+    const [connection] = fake.connections;
+
+    // Act
+    connection.onversionchange?.();
+    await adapter.loadDocuments();
+
+    // Assert
+    expect(connection.close).toHaveBeenCalled();
+    expect(fake.factory.open).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject when another tab blocks the upgrade', async () => {
+    // Arrange
+    fake.blockOpen();
+
+    // Act & Assert
+    await expect(adapter.loadDocuments()).rejects.toThrow('blocked by another open tab');
+  });
+
+  describe('schema', () => {
+    it('should record the schema version in a new database', async () => {
+      // Arrange & Act
+      await adapter.loadDocuments();
+
+      // Assert
+      expect(fake.meta.get('schemaVersion')).toBe(SCHEMA_VERSION);
+    });
+
+    it('should quarantine and remove records that fail validation', async () => {
+      // Arrange
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const broken = { ...createDocument('doc-2'), Attachments: 'file.pdf' };
+      fake = createFakeIndexedDb({ records: [createDocument('doc-1'), broken], schemaVersion: 1 });
+      adapter = new IndexedDbStorageAdapter(fake.factory);
+
+      // Act
+      const documents = await adapter.loadDocuments();
+
+      // Assert
+      expect(documents.map(d => d.ID)).toEqual(['doc-1']);
+      expect(fake.records.has('doc-2')).toBe(false);
+      expect(loadQuarantine()).toEqual([
+        expect.objectContaining({ record: expect.objectContaining({ ID: 'doc-2' }) }),
+      ]);
+    });
+
+    it('should read databases created before the schema was tracked as schema 1', async () => {
+      // Arrange
+      fake = createFakeIndexedDb({ records: [createDocument('doc-1')] });
+      adapter = new IndexedDbStorageAdapter(fake.factory);
+
+      // Act
+      const documents = await adapter.loadDocuments();
+
+      // Assert
+      expect(documents).toEqual([createDocument('doc-1')]);
+    });
+  });
+
+  describe('legacy migration', () => {
+    it('should move documents from localStorage into the database', async () => {
+      // Arrange
+      saveDocuments([createDocument('doc-1'), createDocument('doc-2')]);
+
+      // Act
+      const documents = await adapter.loadDocuments();
+
+      // Assert
+      expect(documents.map(d => d.ID)).toEqual(['doc-1', 'doc-2']);
+      expect(documents[0].CreatedAt).toBeInstanceOf(Date);
+      expect(localStorage.getItem('documents')).toBeNull();
+    });
+
+    it('should only migrate once', async () => {
+      // Arrange
+      saveDocuments([createDocument('doc-1')]);
+      await adapter.loadDocuments();
+      await adapter.deleteDocuments(['doc-1']);
+
+      // Act
+      const documents = await new IndexedDbStorageAdapter(fake.factory).loadDocuments();
+
+      // Assert
+      expect(documents).toEqual([]);
+    });
+
+    it('should keep the legacy key when the migration fails', async () => {
+      // Arrange
+      saveDocuments([createDocument('doc-1')]);
+      fake.failWrites();
+
+      // Act & Assert
+      await expect(adapter.loadDocuments()).rejects.toThrow('QuotaExceededError');
+      expect(loadDocuments().map(d => d.ID)).toEqual(['doc-1']);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import type { Document } from '../models/document';
+import type { StorageUsage } from '../models/storage';
+import type { StorageAdapter } from './storageAdapter';
+import { clearDocuments, loadDocuments, quarantineRecords } from '../utils/storageUtils';
+import { SCHEMA_VERSION, upgradeDocuments } from '../utils/schemaUtils';
+
+const DB_NAME = 'document-manager';
+const DB_VERSION = 2;
+const DOCUMENTS_STORE = 'documents';
+const META_STORE = 'meta';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Stores each document as its own IndexedDB record, keyed by ID
+ * Writes touch a single record and never block the main thread on serializing the whole list
+ */
+export class IndexedDbStorageAdapter implements StorageAdapter {
+  private database: Promise<IDBDatabase> | null = null;
+
+  /**
+   * @param factory - Optional IndexedDB factory for dependency injection
+   */
+  constructor(private factory: IDBFactory = indexedDB) {}
+
+  /**
+   * Loads every record, upgrading older records to the current schema
+   * Records that cannot be read are quarantined and removed so they are reported only once
+   */
+  async loadDocuments(): Promise<Document[]> {
+    const db = await this.open();
+    const transaction = db.transaction([DOCUMENTS_STORE, META_STORE], 'readonly');
+    const [records, storedVersion] = await Promise.all([
+      requestToPromise(transaction.objectStore(DOCUMENTS_STORE).getAll()),
+      requestToPromise(transaction.objectStore(META_STORE).get(SCHEMA_VERSION_KEY)),
+    ]);
+
+    // Databases created before the schema was tracked hold schema 1 records
+    const schemaVersion = typeof storedVersion === 'number' ? storedVersion : 1;
+    const { documents, quarantined } = upgradeDocuments({ schemaVersion, documents: records });
+    quarantineRecords(quarantined);
+
+    if (quarantined.length > 0 || schemaVersion < SCHEMA_VERSION) {
+      await this.write((documentStore, metaStore) => {
+        quarantined.forEach(({ record }) => {
+          const id = (record as Partial<Document> | null)?.ID;
+          if (id !== undefined) documentStore.delete(id);
+        });
+        if (schemaVersion < SCHEMA_VERSION) {
+          documents.forEach(doc => documentStore.put(doc));
+          metaStore.put(SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+        }
+      });
+    }
+
+    return documents;
+  }
+
+  async saveDocument(document: Document): Promise<void> {
+    await this.write(store => store.put(document));
+  }
+
+  async deleteDocuments(ids: string[]): Promise<void> {
+    await this.write(store => ids.forEach(id => store.delete(id)));
+  }
+
+  async estimateUsage(): Promise<StorageUsage | null> {
+    if (!navigator.storage?.estimate) return null;
+
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return quota > 0 ? { usage, quota } : null;
+  }
+
+  private async write(
+    operation: (documentStore: IDBObjectStore, metaStore: IDBObjectStore) => void
+  ): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([DOCUMENTS_STORE, META_STORE], 'readwrite');
+    operation(transaction.objectStore(DOCUMENTS_STORE), transaction.objectStore(META_STORE));
+    await transactionToPromise(transaction);
+  }
+
+  /**
+   * Opens the database once, moving documents saved by older versions out of localStorage
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = this.openDatabase().then(async db => {
+        await this.migrateLegacyDocuments(db);
+        return db;
+      });
+      // Let a later call retry after a failed open, e.g. when the user blocked storage
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    const request = this.factory.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) {
+        db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'ID' });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        const metaStore = db.createObjectStore(META_STORE);
+        // A new database starts at the current schema; older ones are upgraded on load
+        if (event.oldVersion === 0) {
+          metaStore.put(SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+        }
+      }
+    };
+
+    return new Promise((resolve, reject) => {
+      let blocked = false;
+      request.onsuccess = () => {
+        const db = request.result;
+        if (blocked) {
+          // The open was already given up on; don't hold a connection nobody uses
+          db.close();
+          return;
+        }
+        // Let a newer version opened in another tab upgrade, and reopen on the next call
+        db.onversionchange = () => {
+          db.close();
+          this.database = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      // A tab still running an older version holds its connection open; waiting would never end
+      request.onblocked = () => {
+        blocked = true;
+        reject(new Error('Database upgrade is blocked by another open tab'));
+      };
+    });
+  }
+
+  /**
+   * Copies the legacy `documents` key into the database in one transaction, then removes it
+   * The key is only removed after the copy commits, so an interrupted migration is retried
+   */
+  private async migrateLegacyDocuments(db: IDBDatabase): Promise<void> {
+    // Already upgraded and validated, so the records are stored at the current schema
+    const legacy = loadDocuments();
+    if (legacy.length === 0) return;
+
+    const transaction = db.transaction(DOCUMENTS_STORE, 'readwrite');
+    const store = transaction.objectStore(DOCUMENTS_STORE);
+    legacy.forEach(doc => store.put(doc));
+    await transactionToPromise(transaction);
+
+    clearDocuments();
+  }
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { LeaderElectionService } from './leaderElectionService';
+
+interface PendingRequest {
+  signal: AbortSignal;
+  callback: () => Promise<void>;
+  resolve: (held: Promise<void>) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Grants the lock by hand, the way the browser does when the previous holder lets go
+ */
+function createFakeLocks() {
+  const pending: PendingRequest[] = [];
+  const locks = {
+    request: vi.fn(
+      (_name: string, options: { signal: AbortSignal }, callback: () => Promise<void>) =>
+        new Promise((resolve, reject) => {
+          const request = { signal: options.signal, callback, resolve, reject };
+          pending.push(request);
+          options.signal.addEventListener('abort', () =>
+            reject(new DOMException('The request was aborted', 'AbortError'))
+          );
+        })
+    ),
+  };
+  return {
+    locks: locks as unknown as LockManager,
+    grant: () => {
+      const request = pending.shift()!;
+      const held = request.callback();
+      request.resolve(held);
+      return held;
+    },
+    fail: (error: unknown) => pending.shift()!.reject(error),
+  };
+}
+
+describe('LeaderElectionService', () => {
+  let fake: ReturnType<typeof createFakeLocks>;
+
+  beforeEach(() => {
+    fake = createFakeLocks();
+  });
+
+  it('should elect every tab right away without Web Locks', () => {
+    // Arrange
+    const election = new LeaderElectionService(null);
+    const onElected = vi.fn();
+
+    // Act
+    election.start(onElected);
+
+    // Assert
+    expect(onElected).toHaveBeenCalledTimes(1);
+    expect(election.isLeader()).toBe(true);
+  });
+
+  it('should wait for the lock before electing the tab', () => {
+    // Arrange
+    const election = new LeaderElectionService(fake.locks);
+    const onElected = vi.fn();
+
+    // Act
+    election.start(onElected);
+
+    // Assert
+    expect(onElected).not.toHaveBeenCalled();
+    expect(election.isLeader()).toBe(false);
+    fake.grant();
+    expect(onElected).toHaveBeenCalledTimes(1);
+    expect(election.isLeader()).toBe(true);
+  });
+
+  it('should only request the lock once while waiting', () => {
+    // Arrange
+    const election = new LeaderElectionService(fake.locks);
+
+    // Act
+    election.start(vi.fn());
+    election.start(vi.fn());
+
+    // Assert
+    expect(fake.locks.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should release the lock when stopped so another tab can take over', async () => {
+    // Arrange
+    const election = new LeaderElectionService(fake.locks);
+    election.start(vi.fn());
+    const held = fake.grant();
+
+    // Act
+    election.stop();
+
+    // Assert
+    await expect(held).resolves.toBeUndefined();
+    expect(election.isLeader()).toBe(false);
+  });
+
+  it('should stop waiting for the lock without reporting an error', async () => {
+    // Arrange
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const election = new LeaderElectionService(fake.locks);
+    const onElected = vi.fn();
+    election.start(onElected);
+
+    // Act
+    election.stop();
+    await Promise.resolve();
+
+    // Assert
+    expect(onElected).not.toHaveBeenCalled();
+    expect(consoleErrorSpy).not.toHaveBeenCalled();
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should log a failed lock request', async () => {
+    // Arrange
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const election = new LeaderElectionService(fake.locks);
+    election.start(vi.fn());
+
+    // Act
+    fake.fail(new DOMException('Denied', 'SecurityError'));
+    await Promise.resolve();
+
+    // Assert
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      'Leader election failed:',
+      expect.any(DOMException)
+    );
+    consoleErrorSpy.mockRestore();
+  });
+});
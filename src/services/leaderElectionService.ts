@@ -0,0 +1,73 @@
+const LOCK_NAME = 'document-manager:websocket';
+
+/**
+ * Service electing one leader among the open tabs with the Web Locks API
+ * The leader holds an exclusive lock until it stops or its tab closes; the browser then
+ * grants the lock to the next waiting tab, so failover needs no heartbeat
+ */
+export class LeaderElectionService {
+  private locks: LockManager | null;
+  private leader = false;
+  private abortController: AbortController | null = null;
+  private releaseLock: (() => void) | null = null;
+
+  /**
+   * @param locks - Optional lock manager for dependency injection, null makes every tab a leader
+   */
+  constructor(locks?: LockManager | null) {
+    this.locks =
+      locks !== undefined
+        ? locks
+        : typeof navigator !== 'undefined'
+          ? navigator.locks || null
+          : null;
+  }
+
+  /**
+   * Waits for leadership in the background
+   * @param onElected - Invoked once this tab becomes the leader, right away without Web Locks support
+   */
+  start(onElected: () => void): void {
+    if (this.abortController || this.leader) return;
+
+    if (!this.locks) {
+      this.leader = true;
+      onElected();
+      return;
+    }
+
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    this.locks
+      .request(LOCK_NAME, { signal: abortController.signal }, () => {
+        this.abortController = null;
+        this.leader = true;
+        onElected();
+        // Held until stop() resolves it or the tab closes
+        return new Promise<void>(resolve => {
+          this.releaseLock = resolve;
+        });
+      })
+      .catch(error => {
+        if (abortController.signal.aborted) return;
+        // Let a later start() try again
+        this.abortController = null;
+        console.error('Leader election failed:', error);
+      });
+  }
+
+  /**
+   * Gives up leadership, or stops waiting for it
+   */
+  stop(): void {
+    this.abortController?.abort();
+    this.abortController = null;
+    this.releaseLock?.();
+    this.releaseLock = null;
+    this.leader = false;
+  }
+
+  isLeader(): boolean {
+    return this.leader;
+  }
+}
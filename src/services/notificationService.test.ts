@@ -75,6 +75,126 @@ describe('NotificationService', () => {
     });
   });
 
+  describe('notifyDocumentUpdated', () => {
+    it('should show notification with correct message when document is updated', () => {
+      // Arrange
+      const expectedMessage = `Document updated: ${sampleDocument.Title}`;
+
+      // Act
+      notificationService.notifyDocumentUpdated(sampleDocument);
+
+      // Assert
+      expect(mockDisplayer.showNotification).toHaveBeenCalledTimes(1);
+      expect(mockDisplayer.showNotification).toHaveBeenCalledWith(expectedMessage);
+    });
+  });
+
+  describe('notifyDocumentDeleted', () => {
+    it('should show notification with an undo action', () => {
+      // Arrange
+      const onUndo = vi.fn();
+
+      // Act
+      notificationService.notifyDocumentDeleted(sampleDocument, onUndo);
+
+      // Assert
+      expect(mockDisplayer.showNotification).toHaveBeenCalledWith(
+        `Moved to trash: ${sampleDocument.Title}`,
+        { label: 'Undo', onClick: onUndo }
+      );
+    });
+  });
+
+  describe('notifyDocumentRestored', () => {
+    it('should show notification when a document is restored', () => {
+      // Arrange & Act
+      notificationService.notifyDocumentRestored(sampleDocument);
+
+      // Assert
+      expect(mockDisplayer.showNotification).toHaveBeenCalledWith(
+        `Document restored: ${sampleDocument.Title}`
+      );
+    });
+  });
+
+  describe('notifyDocumentPurged', () => {
+    it('should show notification when a document is permanently deleted', () => {
+      // Arrange & Act
+      notificationService.notifyDocumentPurged(sampleDocument);
+
+      // Assert
+      expect(mockDisplayer.showNotification).toHaveBeenCalledWith(
+        `Permanently deleted: ${sampleDocument.Title}`
+      );
+    });
+  });
+
+  describe('notifyVersionBumped', () => {
+    it('should show the previous and new version', () => {
+      // Arrange & Act
+      notificationService.notifyVersionBumped({ ...sampleDocument, Version: '1.1.0' }, 1);
+
+      // Assert
+      expect(mockDisplayer.showNotification).toHaveBeenCalledWith(
+        'Test Document bumped from 1 to 1.1.0'
+      );
+    });
+  });
+
+  describe('notifyRevisionRestored', () => {
+    it('should show the restored version and title', () => {
+      // Arrange & Act
+      notificationService.notifyRevisionRestored(sampleDocument);
+
+      // Assert
+      expect(mockDisplayer.showNotification).toHaveBeenCalledWith(
+        `Restored version ${sampleDocument.Version} of ${sampleDocument.Title}`
+      );
+    });
+  });
+
+  describe('notifyRemoteUpdate', () => {
+    it('should name who updated the document', () => {
+      // Arrange & Act
+      notificationService.notifyRemoteUpdate(sampleDocument, 'Jane Smith');
+
+      // Assert
+      expect(mockDisplayer.showNotification).toHaveBeenCalledWith(
+        'Jane Smith updated Test Document'
+      );
+    });
+
+    it('should fall back when the author is unknown', () => {
+      // Arrange & Act
+      notificationService.notifyRemoteUpdate(sampleDocument);
+
+      // Assert
+      expect(mockDisplayer.showNotification).toHaveBeenCalledWith('Someone updated Test Document');
+    });
+  });
+
+  describe('notifyRemoteDelete', () => {
+    it('should name who deleted the document', () => {
+      // Arrange & Act
+      notificationService.notifyRemoteDelete(sampleDocument, 'Jane Smith');
+
+      // Assert
+      expect(mockDisplayer.showNotification).toHaveBeenCalledWith(
+        'Jane Smith deleted Test Document'
+      );
+    });
+  });
+
+  describe('notifyContributorJoined', () => {
+    it('should name the new contributor and the document', () => {
+      // Arrange & Act
+      notificationService.notifyContributorJoined(sampleDocument, { ID: '3', Name: 'Ana' });
+
+      // Assert
+      expect(mockDisplayer.showNotification).toHaveBeenCalledWith('Ana joined Test Document');
+    });
+  });
+
   describe('notifyDocumentReceived', () => {
     it('should show notification with correct message when document is received', () => {
       // Arrange
@@ -1,11 +1,12 @@
-import type { Document } from '../models/document';
+import type { Contributors, Document } from '../models/document';
+import type { NotificationAction } from '../models/notification';
 
 /**
  * Interface for notification display capability
  * Allows decoupling from specific view implementations
  */
 export interface NotificationDisplayer {
-  showNotification(message: string): void;
+  showNotification(message: string, action?: NotificationAction): void;
 }
 
 /**
@@ -23,6 +24,63 @@ export class NotificationService {
     this.notificationDisplayer.showNotification(`Document created: ${document.Title}`);
   }
 
+  /**
+   * Shows a notification when a document is edited by the user
+   * @param document - The document that was updated
+   */
+  notifyDocumentUpdated(document: Document): void {
+    this.notificationDisplayer.showNotification(`Document updated: ${document.Title}`);
+  }
+
+  /**
+   * Shows a notification with an "Undo" action when a document is moved to the trash
+   * @param document - The document that was deleted
+   * @param onUndo - Invoked if the user clicks "Undo" before the toast hides
+   */
+  notifyDocumentDeleted(document: Document, onUndo: () => void): void {
+    this.notificationDisplayer.showNotification(`Moved to trash: ${document.Title}`, {
+      label: 'Undo',
+      onClick: onUndo,
+    });
+  }
+
+  /**
+   * Shows a notification when a document is restored from the trash
+   * @param document - The document that was restored
+   */
+  notifyDocumentRestored(document: Document): void {
+    this.notificationDisplayer.showNotification(`Document restored: ${document.Title}`);
+  }
+
+  /**
+   * Shows a notification when a document is permanently deleted
+   * @param document - The document that was purged
+   */
+  notifyDocumentPurged(document: Document): void {
+    this.notificationDisplayer.showNotification(`Permanently deleted: ${document.Title}`);
+  }
+
+  /**
+   * Shows a notification when a document's version is bumped
+   * @param document - The document with its new version
+   * @param previousVersion - The version before the bump
+   */
+  notifyVersionBumped(document: Document, previousVersion: number | string): void {
+    this.notificationDisplayer.showNotification(
+      `${document.Title} bumped from ${previousVersion} to ${document.Version}`
+    );
+  }
+
+  /**
+   * Shows a notification when an earlier revision of a document is restored
+   * @param document - The document with the restored content
+   */
+  notifyRevisionRestored(document: Document): void {
+    this.notificationDisplayer.showNotification(
+      `Restored version ${document.Version} of ${document.Title}`
+    );
+  }
+
   /**
    * Shows a notification when a document is received via WebSocket
    * @param document - The document that was received
@@ -31,6 +89,33 @@ export class NotificationService {
     this.notificationDisplayer.showNotification(`New document added: ${document.Title}`);
   }
 
+  /**
+   * Shows a notification when a document is edited elsewhere and the change arrives via WebSocket
+   * @param document - The updated document
+   * @param author - Who made the change, if known
+   */
+  notifyRemoteUpdate(document: Document, author?: string): void {
+    this.notificationDisplayer.showNotification(`${author ?? 'Someone'} updated ${document.Title}`);
+  }
+
+  /**
+   * Shows a notification when a document is deleted elsewhere and moved to the trash here
+   * @param document - The document that was deleted
+   * @param author - Who deleted it, if known
+   */
+  notifyRemoteDelete(document: Document, author?: string): void {
+    this.notificationDisplayer.showNotification(`${author ?? 'Someone'} deleted ${document.Title}`);
+  }
+
+  /**
+   * Shows a notification when someone joins a document as a contributor
+   * @param document - The document that was joined
+   * @param contributor - The new contributor
+   */
+  notifyContributorJoined(document: Document, contributor: Contributors): void {
+    this.notificationDisplayer.showNotification(`${contributor.Name} joined ${document.Title}`);
+  }
+
   /**
    * Shows a custom notification message
    * @param message - The message to display
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RouterService } from './routerService';
+import { Store } from '../store/store';
+import * as storageUtils from '../utils/storageUtils';
+
+vi.mock('../utils/storageUtils');
+
+describe('RouterService', () => {
+  let store: Store;
+  let router: RouterService;
+
+  const navigate = (hash: string) => {
+    window.history.pushState(null, '', hash);
+    window.dispatchEvent(new PopStateEvent('popstate'));
+  };
+
+  beforeEach(async () => {
+    // Arrange - Fresh store with in-memory storage and a clean URL
+    vi.mocked(storageUtils.loadDocuments).mockReturnValue([]);
+    vi.mocked(storageUtils.loadPreferences).mockReturnValue({});
+    vi.mocked(storageUtils.loadRevisions).mockReturnValue([]);
+    // @ts-expect-error - accessing private static for testing
+    Store.instance = undefined;
+    store = Store.getInstance();
+    await store.whenLoaded();
+    window.history.replaceState(null, '', '#');
+    router = new RouterService(store, window);
+  });
+
+  afterEach(() => {
+    router.stop();
+    vi.restoreAllMocks();
+  });
+
+  describe('start', () => {
+    it('should apply the URL to the store', () => {
+      // Arrange
+      window.history.replaceState(
+        null,
+        '',
+        '#sort=Title:asc,Version:desc&view=grid&q=report&contributor=Alice&trash=1&doc=doc-1'
+      );
+
+      // Act
+      router.start();
+
+      // Assert
+      expect(store.getSortCriteria()).toEqual([
+        { field: 'Title', order: 'asc' },
+        { field: 'Version', order: 'desc' },
+      ]);
+      expect(store.getViewMode()).toBe('grid');
+      expect(store.getSearchQuery()).toBe('report');
+      expect(store.getFacetSelection().contributor).toEqual(['Alice']);
+      expect(store.isTrashVisible()).toBe(true);
+      expect(store.getOpenDocumentId()).toBe('doc-1');
+    });
+
+    it("should not save the URL's sort and view as preferences", () => {
+      // Arrange
+      window.history.replaceState(null, '', '#sort=Title:asc&view=grid');
+
+      // Act
+      router.start();
+
+      // Assert
+      expect(store.getViewMode()).toBe('grid');
+      expect(storageUtils.savePreferences).not.toHaveBeenCalled();
+    });
+
+    it('should keep saved preferences when the URL has no sort or view', () => {
+      // Arrange
+      store.setViewMode('grid');
+      store.setSortCriteria([{ field: 'Title', order: 'asc' }]);
+
+      // Act
+      router.start();
+
+      // Assert
+      expect(store.getViewMode()).toBe('grid');
+      expect(store.getSortField()).toBe('Title');
+      expect(window.location.hash).toBe('#sort=Title%3Aasc&view=grid');
+    });
+
+    it('should write the canonical URL without adding a history entry', () => {
+      // Arrange
+      const pushSpy = vi.spyOn(window.history, 'pushState');
+      window.history.replaceState(null, '', '#view=table&q=draft');
+
+      // Act
+      router.start();
+
+      // Assert
+      expect(window.location.hash).toBe('#sort=CreatedAt%3Adesc&view=list&q=draft');
+      expect(pushSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('store to URL', () => {
+    beforeEach(() => {
+      router.start();
+    });
+
+    it('should push a history entry when the view changes', () => {
+      // Arrange
+      const pushSpy = vi.spyOn(window.history, 'pushState');
+
+      // Act
+      store.setViewMode('grid');
+      store.toggleFacet('extension', 'pdf');
+
+      // Assert
+      expect(pushSpy).toHaveBeenCalledTimes(2);
+      expect(window.location.hash).toBe('#sort=CreatedAt%3Adesc&view=grid&extension=pdf');
+    });
+
+    it('should replace the history entry when only the search changes', () => {
+      // Arrange
+      const pushSpy = vi.spyOn(window.history, 'pushState');
+      const replaceSpy = vi.spyOn(window.history, 'replaceState');
+
+      // Act
+      store.setSearchQuery('rep');
+      store.setSearchQuery('report');
+
+      // Assert
+      expect(pushSpy).not.toHaveBeenCalled();
+      expect(replaceSpy).toHaveBeenCalledTimes(2);
+      expect(window.location.hash).toContain('q=report');
+    });
+
+    it('should include the open document', () => {
+      // Act
+      store.setOpenDocument('doc-7');
+
+      // Assert
+      expect(window.location.hash).toContain('doc=doc-7');
+    });
+  });
+
+  describe('URL to store', () => {
+    beforeEach(() => {
+      router.start();
+    });
+
+    it('should apply back/forward navigation', () => {
+      // Act
+      navigate('#sort=Version:asc&view=grid&month=2024-01');
+
+      // Assert
+      expect(store.getSortCriteria()).toEqual([{ field: 'Version', order: 'asc' }]);
+      expect(store.getViewMode()).toBe('grid');
+      expect(store.getFacetSelection().month).toEqual(['2024-01']);
+    });
+
+    it('should clear filters that are missing from the URL', () => {
+      // Arrange
+      store.setSearchQuery('report');
+      store.setOpenDocument('doc-1');
+
+      // Act
+      navigate('#sort=CreatedAt:desc&view=list');
+
+      // Assert
+      expect(store.getSearchQuery()).toBe('');
+      expect(store.getOpenDocumentId()).toBeUndefined();
+    });
+
+    it('should not push history entries while applying navigation', () => {
+      // Arrange
+      const pushSpy = vi.spyOn(window.history, 'pushState');
+
+      // Act
+      window.history.replaceState(null, '', '#view=grid&trash=1');
+      window.dispatchEvent(new HashChangeEvent('hashchange'));
+
+      // Assert
+      expect(pushSpy).not.toHaveBeenCalled();
+      expect(store.isTrashVisible()).toBe(true);
+    });
+  });
+
+  describe('stop', () => {
+    it('should stop syncing in both directions', () => {
+      // Arrange
+      router.start();
+      router.stop();
+
+      // Act
+      store.setViewMode('grid');
+      navigate('#view=list&q=draft');
+
+      // Assert
+      expect(store.getSearchQuery()).toBe('');
+      expect(window.location.hash).toBe('#view=list&q=draft');
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import type { RouteState } from '../models/route';
+import { Store } from '../store/store';
+import { parseRoute, serializeRoute } from '../utils/routeUtils';
+
+/**
+ * Service keeping the URL hash and the Store in sync
+ * Store changes are written to the URL, and links or back/forward navigation are applied to the Store
+ */
+export class RouterService {
+  private store: Store;
+  private window: Window;
+  private applying = false;
+  private lastRoute: RouteState | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private handleNavigation = () => this.applyLocation();
+
+  /**
+   * @param store - Optional Store instance for dependency injection
+   * @param win - Optional window whose location and history are used
+   */
+  constructor(store?: Store, win?: Window) {
+    this.store = store || Store.getInstance();
+    this.window = win || window;
+  }
+
+  /**
+   * Applies the current URL to the Store and starts tracking changes in both directions
+   */
+  start(): void {
+    if (this.unsubscribe) return;
+
+    this.applyLocation();
+    this.unsubscribe = this.store.subscribe(() => this.syncLocation());
+    this.window.addEventListener('popstate', this.handleNavigation);
+    this.window.addEventListener('hashchange', this.handleNavigation);
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.window.removeEventListener('popstate', this.handleNavigation);
+    this.window.removeEventListener('hashchange', this.handleNavigation);
+  }
+
+  /**
+   * Applies the route in the URL to the Store, then rewrites the URL in its canonical form
+   * A link's sort and view only apply to this tab; they do not replace the saved preferences
+   */
+  private applyLocation(): void {
+    const route = parseRoute(this.window.location.hash);
+
+    this.applying = true;
+    try {
+      if (
+        route.sortCriteria &&
+        JSON.stringify(route.sortCriteria) !== JSON.stringify(this.store.getSortCriteria())
+      ) {
+        this.store.setSortCriteria(route.sortCriteria, { persist: false });
+      }
+      if (route.viewMode && route.viewMode !== this.store.getViewMode()) {
+        this.store.setViewMode(route.viewMode, { persist: false });
+      }
+      this.store.setSearchQuery(route.searchQuery);
+      if (JSON.stringify(route.facets) !== JSON.stringify(this.store.getFacetSelection())) {
+        this.store.setFacetSelection(route.facets);
+      }
+      if (route.trashVisible !== this.store.isTrashVisible()) {
+        this.store.setTrashVisible(route.trashVisible);
+      }
+      this.store.setOpenDocument(route.documentId);
+    } finally {
+      this.applying = false;
+    }
+
+    this.syncLocation(true);
+  }
+
+  /**
+   * Writes the Store state to the URL
+   * Search-only changes replace the current history entry so typing does not flood back navigation
+   */
+  private syncLocation(replace = false): void {
+    if (this.applying) return;
+
+    const route = this.getRoute();
+    const hash = serializeRoute(route);
+    const searchOnly =
+      this.lastRoute !== null &&
+      serializeRoute({ ...route, searchQuery: '' }) ===
+        serializeRoute({ ...this.lastRoute, searchQuery: '' });
+    this.lastRoute = route;
+
+    if (hash === this.window.location.hash) return;
+
+    if (replace || searchOnly) {
+      this.window.history.replaceState(null, '', hash);
+    } else {
+      this.window.history.pushState(null, '', hash);
+    }
+  }
+
+  private getRoute(): RouteState {
+    return {
+      sortCriteria: this.store.getSortCriteria(),
+      viewMode: this.store.getViewMode(),
+      searchQuery: this.store.getSearchQuery(),
+      facets: this.store.getFacetSelection(),
+      trashVisible: this.store.isTrashVisible(),
+      documentId: this.store.getOpenDocumentId(),
+    };
+  }
+}
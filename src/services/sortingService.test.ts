@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { SortingService, SortResult } from './sortingService';
-import { SortField } from '../models/document';
+import { SortCriterion, SortField } from '../models/document';
 
 describe('SortingService', () => {
   let sortingService: SortingService;
@@ -14,148 +14,162 @@ describe('SortingService', () => {
     describe('when clicking the same field', () => {
       it('should toggle from ascending to descending', () => {
         // Arrange
-        const currentField: SortField = 'Title';
-        const currentOrder: 'asc' | 'desc' = 'asc';
+        const criteria: SortCriterion[] = [{ field: 'Title', order: 'asc' }];
         const newField: SortField = 'Title';
 
         // Act
-        const result: SortResult = sortingService.toggleSort(currentField, currentOrder, newField);
+        const result: SortResult = sortingService.toggleSort(criteria, newField);
 
         // Assert
-        expect(result).toEqual({
-          field: 'Title',
-          order: 'desc',
-        });
+        expect(result).toEqual([{ field: 'Title', order: 'desc' }]);
       });
 
       it('should toggle from descending to ascending', () => {
         // Arrange
-        const currentField: SortField = 'Title';
-        const currentOrder: 'asc' | 'desc' = 'desc';
+        const criteria: SortCriterion[] = [{ field: 'Title', order: 'desc' }];
         const newField: SortField = 'Title';
 
         // Act
-        const result: SortResult = sortingService.toggleSort(currentField, currentOrder, newField);
+        const result: SortResult = sortingService.toggleSort(criteria, newField);
 
         // Assert
-        expect(result).toEqual({
-          field: 'Title',
-          order: 'asc',
-        });
+        expect(result).toEqual([{ field: 'Title', order: 'asc' }]);
       });
 
       it('should toggle Version field from ascending to descending', () => {
         // Arrange
-        const currentField: SortField = 'Version';
-        const currentOrder: 'asc' | 'desc' = 'asc';
+        const criteria: SortCriterion[] = [{ field: 'Version', order: 'asc' }];
         const newField: SortField = 'Version';
 
         // Act
-        const result: SortResult = sortingService.toggleSort(currentField, currentOrder, newField);
+        const result: SortResult = sortingService.toggleSort(criteria, newField);
 
         // Assert
-        expect(result).toEqual({
-          field: 'Version',
-          order: 'desc',
-        });
+        expect(result).toEqual([{ field: 'Version', order: 'desc' }]);
       });
 
       it('should toggle CreatedAt field from descending to ascending', () => {
         // Arrange
-        const currentField: SortField = 'CreatedAt';
-        const currentOrder: 'asc' | 'desc' = 'desc';
+        const criteria: SortCriterion[] = [{ field: 'CreatedAt', order: 'desc' }];
         const newField: SortField = 'CreatedAt';
 
         // Act
-        const result: SortResult = sortingService.toggleSort(currentField, currentOrder, newField);
+        const result: SortResult = sortingService.toggleSort(criteria, newField);
 
         // Assert
-        expect(result).toEqual({
-          field: 'CreatedAt',
-          order: 'asc',
-        });
+        expect(result).toEqual([{ field: 'CreatedAt', order: 'asc' }]);
       });
     });
 
     describe('when clicking a different field', () => {
       it('should switch to new field with ascending order', () => {
         // Arrange
-        const currentField: SortField = 'Title';
-        const currentOrder: 'asc' | 'desc' = 'asc';
+        const criteria: SortCriterion[] = [{ field: 'Title', order: 'asc' }];
         const newField: SortField = 'Version';
 
         // Act
-        const result: SortResult = sortingService.toggleSort(currentField, currentOrder, newField);
+        const result: SortResult = sortingService.toggleSort(criteria, newField);
 
         // Assert
-        expect(result).toEqual({
-          field: 'Version',
-          order: 'asc',
-        });
+        expect(result).toEqual([{ field: 'Version', order: 'asc' }]);
       });
 
       it('should switch to new field with ascending order regardless of current order', () => {
         // Arrange
-        const currentField: SortField = 'Title';
-        const currentOrder: 'asc' | 'desc' = 'desc';
+        const criteria: SortCriterion[] = [{ field: 'Title', order: 'desc' }];
         const newField: SortField = 'CreatedAt';
 
         // Act
-        const result: SortResult = sortingService.toggleSort(currentField, currentOrder, newField);
+        const result: SortResult = sortingService.toggleSort(criteria, newField);
 
         // Assert
-        expect(result).toEqual({
-          field: 'CreatedAt',
-          order: 'asc',
-        });
+        expect(result).toEqual([{ field: 'CreatedAt', order: 'asc' }]);
       });
 
       it('should switch from Version to Title with ascending order', () => {
         // Arrange
-        const currentField: SortField = 'Version';
-        const currentOrder: 'asc' | 'desc' = 'desc';
+        const criteria: SortCriterion[] = [{ field: 'Version', order: 'desc' }];
         const newField: SortField = 'Title';
 
         // Act
-        const result: SortResult = sortingService.toggleSort(currentField, currentOrder, newField);
+        const result: SortResult = sortingService.toggleSort(criteria, newField);
 
         // Assert
-        expect(result).toEqual({
-          field: 'Title',
-          order: 'asc',
-        });
+        expect(result).toEqual([{ field: 'Title', order: 'asc' }]);
       });
 
       it('should switch from CreatedAt to Version with ascending order', () => {
         // Arrange
-        const currentField: SortField = 'CreatedAt';
-        const currentOrder: 'asc' | 'desc' = 'asc';
+        const criteria: SortCriterion[] = [{ field: 'CreatedAt', order: 'asc' }];
         const newField: SortField = 'Version';
 
         // Act
-        const result: SortResult = sortingService.toggleSort(currentField, currentOrder, newField);
+        const result: SortResult = sortingService.toggleSort(criteria, newField);
 
         // Assert
-        expect(result).toEqual({
-          field: 'Version',
-          order: 'asc',
-        });
+        expect(result).toEqual([{ field: 'Version', order: 'asc' }]);
       });
 
       it('should switch from Title to CreatedAt with ascending order', () => {
         // Arrange
-        const currentField: SortField = 'Title';
-        const currentOrder: 'asc' | 'desc' = 'desc';
+        const criteria: SortCriterion[] = [{ field: 'Title', order: 'desc' }];
         const newField: SortField = 'CreatedAt';
 
         // Act
-        const result: SortResult = sortingService.toggleSort(currentField, currentOrder, newField);
+        const result: SortResult = sortingService.toggleSort(criteria, newField);
 
         // Assert
-        expect(result).toEqual({
-          field: 'CreatedAt',
-          order: 'asc',
-        });
+        expect(result).toEqual([{ field: 'CreatedAt', order: 'asc' }]);
+      });
+    });
+
+    describe('when sorting by activity and count fields', () => {
+      it('should toggle UpdatedAt field from ascending to descending', () => {
+        // Arrange
+        const criteria: SortCriterion[] = [{ field: 'UpdatedAt', order: 'asc' }];
+        const newField: SortField = 'UpdatedAt';
+
+        // Act
+        const result: SortResult = sortingService.toggleSort(criteria, newField);
+
+        // Assert
+        expect(result).toEqual([{ field: 'UpdatedAt', order: 'desc' }]);
+      });
+
+      it('should toggle ContributorCount field from descending to ascending', () => {
+        // Arrange
+        const criteria: SortCriterion[] = [{ field: 'ContributorCount', order: 'desc' }];
+        const newField: SortField = 'ContributorCount';
+
+        // Act
+        const result: SortResult = sortingService.toggleSort(criteria, newField);
+
+        // Assert
+        expect(result).toEqual([{ field: 'ContributorCount', order: 'asc' }]);
+      });
+
+      it('should switch from CreatedAt to AttachmentCount with ascending order', () => {
+        // Arrange
+        const criteria: SortCriterion[] = [{ field: 'CreatedAt', order: 'desc' }];
+        const newField: SortField = 'AttachmentCount';
+
+        // Act
+        const result: SortResult = sortingService.toggleSort(criteria, newField);
+
+        // Assert
+        expect(result).toEqual([{ field: 'AttachmentCount', order: 'asc' }]);
+      });
+
+      it('should switch from AttachmentCount to UpdatedAt with ascending order', () => {
+        // Arrange
+        const criteria: SortCriterion[] = [{ field: 'AttachmentCount', order: 'asc' }];
+        const newField: SortField = 'UpdatedAt';
+
+        // Act
+        const result: SortResult = sortingService.toggleSort(criteria, newField);
+
+        // Assert
+        expect(result).toEqual([{ field: 'UpdatedAt', order: 'asc' }]);
       });
     });
 
@@ -163,50 +177,172 @@ describe('SortingService', () => {
       it('should handle multiple toggles on the same field', () => {
         // Arrange
         const field: SortField = 'Title';
-        let currentOrder: 'asc' | 'desc' = 'asc';
+        let criteria: SortCriterion[] = [{ field, order: 'asc' }];
 
         // Act - First toggle
-        let result = sortingService.toggleSort(field, currentOrder, field);
+        criteria = sortingService.toggleSort(criteria, field);
 
         // Assert - First toggle
-        expect(result.order).toBe('desc');
+        expect(criteria[0].order).toBe('desc');
 
         // Act - Second toggle
-        currentOrder = result.order;
-        result = sortingService.toggleSort(field, currentOrder, field);
+        criteria = sortingService.toggleSort(criteria, field);
 
         // Assert - Second toggle
-        expect(result.order).toBe('asc');
+        expect(criteria[0].order).toBe('asc');
 
         // Act - Third toggle
-        currentOrder = result.order;
-        result = sortingService.toggleSort(field, currentOrder, field);
+        criteria = sortingService.toggleSort(criteria, field);
 
         // Assert - Third toggle
-        expect(result.order).toBe('desc');
+        expect(criteria[0].order).toBe('desc');
       });
 
       it('should always return ascending when switching fields multiple times', () => {
         // Arrange
-        let currentField: SortField = 'Title';
-        let currentOrder: 'asc' | 'desc' = 'desc';
+        let criteria: SortCriterion[] = [{ field: 'Title', order: 'desc' }];
 
         // Act & Assert - Switch to Version
-        let result = sortingService.toggleSort(currentField, currentOrder, 'Version');
-        expect(result).toEqual({ field: 'Version', order: 'asc' });
+        criteria = sortingService.toggleSort(criteria, 'Version');
+        expect(criteria).toEqual([{ field: 'Version', order: 'asc' }]);
 
         // Act & Assert - Switch to CreatedAt
-        currentField = result.field;
-        currentOrder = result.order;
-        result = sortingService.toggleSort(currentField, currentOrder, 'CreatedAt');
-        expect(result).toEqual({ field: 'CreatedAt', order: 'asc' });
+        criteria = sortingService.toggleSort(criteria, 'CreatedAt');
+        expect(criteria).toEqual([{ field: 'CreatedAt', order: 'asc' }]);
 
         // Act & Assert - Switch back to Title
-        currentField = result.field;
-        currentOrder = result.order;
-        result = sortingService.toggleSort(currentField, currentOrder, 'Title');
-        expect(result).toEqual({ field: 'Title', order: 'asc' });
+        criteria = sortingService.toggleSort(criteria, 'Title');
+        expect(criteria).toEqual([{ field: 'Title', order: 'asc' }]);
+      });
+
+      it('should start a new stack when there are no criteria', () => {
+        // Arrange & Act
+        const result = sortingService.toggleSort([], 'Title');
+
+        // Assert
+        expect(result).toEqual([{ field: 'Title', order: 'asc' }]);
+      });
+    });
+
+    describe('with tie-breakers', () => {
+      const stack: SortCriterion[] = [
+        { field: 'Version', order: 'desc' },
+        { field: 'Title', order: 'asc' },
+        { field: 'CreatedAt', order: 'desc' },
+      ];
+
+      it('should keep tie-breakers when toggling the primary order', () => {
+        // Arrange & Act
+        const result = sortingService.toggleSort(stack, 'Version');
+
+        // Assert
+        expect(result).toEqual([
+          { field: 'Version', order: 'asc' },
+          { field: 'Title', order: 'asc' },
+          { field: 'CreatedAt', order: 'desc' },
+        ]);
       });
+
+      it('should promote a tie-breaker field without keeping a duplicate', () => {
+        // Arrange & Act
+        const result = sortingService.toggleSort(stack, 'Title');
+
+        // Assert
+        expect(result).toEqual([
+          { field: 'Title', order: 'asc' },
+          { field: 'CreatedAt', order: 'desc' },
+        ]);
+      });
+
+      it('should not mutate the given criteria', () => {
+        // Arrange
+        const criteria: SortCriterion[] = [{ field: 'Title', order: 'asc' }];
+
+        // Act
+        sortingService.toggleSort(criteria, 'Title');
+
+        // Assert
+        expect(criteria).toEqual([{ field: 'Title', order: 'asc' }]);
+      });
+    });
+  });
+
+  describe('addSortCriterion', () => {
+    it('should append a new field in ascending order', () => {
+      // Arrange
+      const criteria: SortCriterion[] = [{ field: 'Version', order: 'desc' }];
+
+      // Act
+      const result = sortingService.addSortCriterion(criteria, 'Title');
+
+      // Assert
+      expect(result).toEqual([
+        { field: 'Version', order: 'desc' },
+        { field: 'Title', order: 'asc' },
+      ]);
+    });
+
+    it('should toggle the order of a field that is already in the stack', () => {
+      // Arrange
+      const criteria: SortCriterion[] = [
+        { field: 'Version', order: 'desc' },
+        { field: 'Title', order: 'asc' },
+      ];
+
+      // Act
+      const result = sortingService.addSortCriterion(criteria, 'Title');
+
+      // Assert
+      expect(result).toEqual([
+        { field: 'Version', order: 'desc' },
+        { field: 'Title', order: 'desc' },
+      ]);
+    });
+  });
+
+  describe('toggleSortOrder', () => {
+    it('should reverse only the criterion at the given index', () => {
+      // Arrange
+      const criteria: SortCriterion[] = [
+        { field: 'Version', order: 'desc' },
+        { field: 'Title', order: 'asc' },
+      ];
+
+      // Act
+      const result = sortingService.toggleSortOrder(criteria, 0);
+
+      // Assert
+      expect(result).toEqual([
+        { field: 'Version', order: 'asc' },
+        { field: 'Title', order: 'asc' },
+      ]);
+    });
+  });
+
+  describe('removeSortCriterion', () => {
+    const criteria: SortCriterion[] = [
+      { field: 'Version', order: 'desc' },
+      { field: 'Title', order: 'asc' },
+      { field: 'CreatedAt', order: 'desc' },
+    ];
+
+    it('should remove a tie-breaker', () => {
+      // Arrange & Act
+      const result = sortingService.removeSortCriterion(criteria, 1);
+
+      // Assert
+      expect(result).toEqual([
+        { field: 'Version', order: 'desc' },
+        { field: 'CreatedAt', order: 'desc' },
+      ]);
+    });
+
+    it('should never remove the primary criterion', () => {
+      // Arrange & Act
+      const result = sortingService.removeSortCriterion(criteria, 0);
+
+      // Assert
+      expect(result).toBe(criteria);
     });
   });
 
@@ -1,9 +1,9 @@
-import { SortField } from '../models/document';
+import { SortCriterion, SortField } from '../models/document';
 
-export interface SortResult {
-  field: SortField;
-  order: 'asc' | 'desc';
-}
+/**
+ * Ordered sort criteria; the first entry is the primary sort, later entries break ties
+ */
+export type SortResult = SortCriterion[];
 
 /**
  * Service responsible for sorting logic
@@ -11,29 +11,50 @@ export interface SortResult {
  */
 export class SortingService {
   /**
-   * Determines the new sort field and order based on current state and user selection
-   * @param currentField - The currently active sort field
-   * @param currentOrder - The current sort order ('asc' or 'desc')
+   * Determines the new sort stack when the user picks a primary sort field
+   * @param criteria - The current sort stack, primary criterion first
    * @param newField - The field the user wants to sort by
-   * @returns The new sort field and order
+   * @returns The new sort stack; tie-breakers other than the new field are kept
    */
-  toggleSort(
-    currentField: SortField,
-    currentOrder: 'asc' | 'desc',
-    newField: SortField
-  ): SortResult {
+  toggleSort(criteria: SortCriterion[], newField: SortField): SortResult {
+    const [primary, ...tieBreakers] = criteria;
+
     // If clicking the same field, toggle the order
-    if (newField === currentField) {
-      return {
-        field: currentField,
-        order: currentOrder === 'asc' ? 'desc' : 'asc',
-      };
+    if (primary?.field === newField) {
+      return [{ field: newField, order: primary.order === 'asc' ? 'desc' : 'asc' }, ...tieBreakers];
     }
 
     // If clicking a different field, start with ascending order
-    return {
-      field: newField,
-      order: 'asc',
-    };
+    return [
+      { field: newField, order: 'asc' },
+      ...tieBreakers.filter(criterion => criterion.field !== newField),
+    ];
+  }
+
+  /**
+   * Adds a "then by" criterion at the end of the stack
+   * A field that is already sorted on has its order toggled instead
+   */
+  addSortCriterion(criteria: SortCriterion[], field: SortField): SortResult {
+    const index = criteria.findIndex(criterion => criterion.field === field);
+    if (index !== -1) {
+      return this.toggleSortOrder(criteria, index);
+    }
+
+    return [...criteria, { field, order: 'asc' }];
+  }
+
+  toggleSortOrder(criteria: SortCriterion[], index: number): SortResult {
+    return criteria.map((criterion, i) =>
+      i === index ? { ...criterion, order: criterion.order === 'asc' ? 'desc' : 'asc' } : criterion
+    );
+  }
+
+  /**
+   * Removes a tie-breaker; the primary criterion can only be replaced, never removed
+   */
+  removeSortCriterion(criteria: SortCriterion[], index: number): SortResult {
+    if (index <= 0) return criteria;
+    return criteria.filter((_, i) => i !== index);
   }
 }
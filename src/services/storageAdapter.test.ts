@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createStorageAdapter, LocalStorageAdapter } from './storageAdapter';
+import { IndexedDbStorageAdapter } from './indexedDbStorageAdapter';
+import { loadDocuments, saveDocuments } from '../utils/storageUtils';
+import type { Document } from '../models/document';
+
+describe('LocalStorageAdapter', () => {
+  const createDocument = (id: string): Document => ({
+    ID: id,
+    Title: `Document ${id}`,
+    Contributors: [],
+    Version: 1,
+    Attachments: [],
+    CreatedAt: new Date('2024-01-15T10:30:00Z'),
+    UpdatedAt: new Date('2024-01-15T10:30:00Z'),
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should load documents from the legacy key', async () => {
+    // Arrange
+    saveDocuments([createDocument('doc-1')]);
+
+    // Act
+    const documents = await new LocalStorageAdapter().loadDocuments();
+
+    // Assert
+    expect(documents).toEqual([createDocument('doc-1')]);
+  });
+
+  it('should insert new documents and replace existing ones', async () => {
+    // Arrange
+    saveDocuments([createDocument('doc-1')]);
+    const adapter = new LocalStorageAdapter();
+
+    // Act
+    await adapter.saveDocument(createDocument('doc-2'));
+    await adapter.saveDocument({ ...createDocument('doc-1'), Title: 'Renamed' });
+
+    // Assert
+    expect(loadDocuments().map(d => [d.ID, d.Title])).toEqual([
+      ['doc-1', 'Renamed'],
+      ['doc-2', 'Document doc-2'],
+    ]);
+  });
+
+  it('should keep stored documents when saving before loading', async () => {
+    // Arrange
+    saveDocuments([createDocument('doc-1')]);
+
+    // Act
+    await new LocalStorageAdapter().saveDocument(createDocument('doc-2'));
+
+    // Assert
+    expect(loadDocuments()).toHaveLength(2);
+  });
+
+  it('should keep documents another tab saved since the last write', async () => {
+    // Arrange
+    const adapter = new LocalStorageAdapter();
+    await adapter.saveDocument(createDocument('doc-1'));
+    saveDocuments([...loadDocuments(), createDocument('doc-2')]);
+
+    // Act
+    await adapter.saveDocument(createDocument('doc-3'));
+
+    // Assert
+    expect(loadDocuments().map(d => d.ID)).toEqual(['doc-1', 'doc-2', 'doc-3']);
+  });
+
+  it('should delete documents by ID', async () => {
+    // Arrange
+    saveDocuments([createDocument('doc-1'), createDocument('doc-2'), createDocument('doc-3')]);
+
+    // Act
+    await new LocalStorageAdapter().deleteDocuments(['doc-1', 'doc-3']);
+
+    // Assert
+    expect(loadDocuments().map(d => d.ID)).toEqual(['doc-2']);
+  });
+
+  it('should estimate usage from what localStorage holds', async () => {
+    // Arrange
+    saveDocuments([createDocument('doc-1')]);
+
+    // Act
+    const estimate = await new LocalStorageAdapter().estimateUsage();
+
+    // Assert
+    expect(estimate?.usage).toBe('documents'.length + localStorage.getItem('documents')!.length);
+  });
+});
+
+describe('createStorageAdapter', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should use IndexedDB when available', () => {
+    // Arrange
+    vi.stubGlobal('indexedDB', {});
+
+    // Act & Assert
+    expect(createStorageAdapter()).toBeInstanceOf(IndexedDbStorageAdapter);
+  });
+
+  it('should fall back to localStorage without IndexedDB', () => {
+    // Arrange
+    vi.stubGlobal('indexedDB', undefined);
+
+    // Act & Assert
+    expect(createStorageAdapter()).toBeInstanceOf(LocalStorageAdapter);
+  });
+});
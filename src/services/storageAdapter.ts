@@ -0,0 +1,61 @@
+import type { Document } from '../models/document';
+import type { StorageUsage } from '../models/storage';
+import { getLocalStorageUsage, loadDocuments, saveDocuments } from '../utils/storageUtils';
+import { IndexedDbStorageAdapter } from './indexedDbStorageAdapter';
+
+/**
+ * Interface for document persistence
+ * Allows the Store to work with any backend that saves documents record by record
+ */
+export interface StorageAdapter {
+  loadDocuments(): Promise<Document[]>;
+  /**
+   * Inserts the document, or replaces the stored copy with the same ID
+   */
+  saveDocument(document: Document): Promise<void>;
+  deleteDocuments(ids: string[]): Promise<void>;
+  /**
+   * @returns Current usage against the quota, or null if the browser cannot tell
+   */
+  estimateUsage(): Promise<StorageUsage | null>;
+}
+
+/**
+ * Fallback for browsers without IndexedDB
+ * Keeps every document under the single legacy `documents` key, rewriting it on each change
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  async loadDocuments(): Promise<Document[]> {
+    return [...this.getDocuments().values()];
+  }
+
+  async saveDocument(document: Document): Promise<void> {
+    const documents = this.getDocuments();
+    documents.set(document.ID, document);
+    saveDocuments([...documents.values()]);
+  }
+
+  async deleteDocuments(ids: string[]): Promise<void> {
+    const documents = this.getDocuments();
+    ids.forEach(id => documents.delete(id));
+    saveDocuments([...documents.values()]);
+  }
+
+  async estimateUsage(): Promise<StorageUsage | null> {
+    return getLocalStorageUsage();
+  }
+
+  // Reread on every change, so a save never overwrites documents another tab wrote since
+  private getDocuments(): Map<string, Document> {
+    return new Map(loadDocuments().map(doc => [doc.ID, doc]));
+  }
+}
+
+/**
+ * Picks IndexedDB when the browser supports it, localStorage otherwise
+ */
+export function createStorageAdapter(): StorageAdapter {
+  return typeof indexedDB !== 'undefined'
+    ? new IndexedDbStorageAdapter()
+    : new LocalStorageAdapter();
+}
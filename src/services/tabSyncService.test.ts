@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TabSyncService } from './tabSyncService';
+import type { SyncMessage } from '../models/sync';
+
+describe('TabSyncService', () => {
+  let channel: BroadcastChannel;
+
+  beforeEach(() => {
+    channel = {
+      postMessage: vi.fn(),
+      close: vi.fn(),
+      onmessage: null,
+    } as unknown as BroadcastChannel;
+  });
+
+  const receive = (message: SyncMessage) =>
+    channel.onmessage?.(new MessageEvent('message', { data: message }));
+
+  it('should post published changes to the channel', () => {
+    // Arrange
+    const service = new TabSyncService(channel);
+    const message: SyncMessage = { type: 'documents.deleted', ids: ['doc-1'] };
+
+    // Act
+    service.publish(message);
+
+    // Assert
+    expect(channel.postMessage).toHaveBeenCalledWith(message);
+  });
+
+  it('should pass changes from other tabs to subscribers until they unsubscribe', () => {
+    // Arrange
+    const service = new TabSyncService(channel);
+    const listener = vi.fn();
+    const unsubscribe = service.subscribe(listener);
+    const message: SyncMessage = { type: 'documents.deleted', ids: ['doc-1'] };
+
+    // Act
+    receive(message);
+    unsubscribe();
+    receive(message);
+
+    // Assert
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(message);
+  });
+
+  it('should log changes that cannot be sent', () => {
+    // Arrange
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(channel.postMessage).mockImplementation(() => {
+      throw new DOMException('Could not be cloned', 'DataCloneError');
+    });
+
+    // Act
+    new TabSyncService(channel).publish({ type: 'documents.deleted', ids: [] });
+
+    // Assert
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      'Failed to sync change to other tabs:',
+      expect.any(DOMException)
+    );
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should do nothing without a channel', () => {
+    // Arrange
+    const service = new TabSyncService(null);
+
+    // Act & Assert
+    expect(() => service.publish({ type: 'documents.deleted', ids: [] })).not.toThrow();
+  });
+
+  it('should close the channel and drop subscribers', () => {
+    // Arrange
+    const service = new TabSyncService(channel);
+    const listener = vi.fn();
+    service.subscribe(listener);
+
+    // Act
+    service.close();
+    receive({ type: 'documents.deleted', ids: [] });
+
+    // Assert
+    expect(channel.close).toHaveBeenCalled();
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,51 @@
+import type { SyncMessage } from '../models/sync';
+
+const CHANNEL_NAME = 'document-manager';
+
+type SyncListener<T> = (message: T) => void;
+
+/**
+ * Service relaying messages between tabs over a BroadcastChannel, by default the Store's changes
+ * A tab never receives its own messages; without BroadcastChannel support each tab works on its own
+ */
+export class TabSyncService<T = SyncMessage> {
+  private channel: BroadcastChannel | null;
+  private listeners: Set<SyncListener<T>> = new Set();
+
+  /**
+   * @param channel - Optional channel for dependency injection, null disables syncing
+   * @param name - Name of the channel opened when none is injected
+   */
+  constructor(channel?: BroadcastChannel | null, name: string = CHANNEL_NAME) {
+    this.channel =
+      channel !== undefined
+        ? channel
+        : typeof BroadcastChannel !== 'undefined'
+          ? new BroadcastChannel(name)
+          : null;
+    if (this.channel) {
+      this.channel.onmessage = (event: MessageEvent<T>) =>
+        this.listeners.forEach(listener => listener(event.data));
+    }
+  }
+
+  publish(message: T): void {
+    try {
+      this.channel?.postMessage(message);
+    } catch (error) {
+      // Other tabs catch up on their next reload
+      console.error('Failed to sync change to other tabs:', error);
+    }
+  }
+
+  subscribe(listener: SyncListener<T>): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  close(): void {
+    this.channel?.close();
+    this.channel = null;
+    this.listeners.clear();
+  }
+}
@@ -1,13 +1,13 @@
-import { describe, it, expect, beforeEach, vi, MockedFunction } from 'vitest';
-import { WebSocketManager } from './webSocketManager';
+import { describe, it, expect, beforeEach, afterEach, vi, MockedFunction } from 'vitest';
+import { WebSocketManager, type SocketEventHandlers } from './webSocketManager';
 import { WebSocketService } from './webSocketService';
+import { LeaderElectionService } from './leaderElectionService';
+import { TabSyncService } from './tabSyncService';
 import type { Document } from '../models/document';
-import type { SocketsNotification } from '../models/sockets';
-import * as documentUtils from '../utils/documentUtils';
+import type { ConnectionState, SocketMessage, SocketRelayMessage } from '../models/sockets';
 
 // Mock dependencies
 vi.mock('./webSocketService');
-vi.mock('../utils/documentUtils');
 
 const MockedWebSocketService = vi.mocked(WebSocketService);
 
@@ -15,12 +15,19 @@ interface MockWebSocketService {
   connect: MockedFunction<() => void>;
   disconnect: MockedFunction<() => void>;
   send: MockedFunction<(data: unknown) => void>;
+  reconnectNow: MockedFunction<() => void>;
+  verify: MockedFunction<() => void>;
+  onStateChange: MockedFunction<(listener: (state: ConnectionState) => void) => () => void>;
 }
 
+type MockSocketEventHandlers = {
+  [K in keyof SocketEventHandlers]: MockedFunction<SocketEventHandlers[K]>;
+};
+
 describe('WebSocketManager', () => {
   let mockWsService: MockWebSocketService;
-  let mockOnDocumentReceived: MockedFunction<(document: Document) => void>;
-  let sampleNotification: SocketsNotification;
+  let mockHandlers: MockSocketEventHandlers;
+  let sampleMessage: SocketMessage;
   let sampleDocument: Document;
 
   beforeEach(() => {
@@ -31,18 +38,17 @@ describe('WebSocketManager', () => {
       connect: vi.fn(),
       disconnect: vi.fn(),
       send: vi.fn(),
+      reconnectNow: vi.fn(),
+      verify: vi.fn(),
+      onStateChange: vi.fn((_listener: (state: ConnectionState) => void) => () => {}),
     };
 
-    // Arrange - Create mock callback
-    mockOnDocumentReceived = vi.fn();
-
-    // Arrange - Create sample notification
-    sampleNotification = {
-      Timestamp: '2024-01-01T10:00:00Z',
-      UserID: 'user-123',
-      UserName: 'John Doe',
-      DocumentID: 'doc-456',
-      DocumentTitle: 'Test Document',
+    // Arrange - Create mock handlers
+    mockHandlers = {
+      onDocumentCreated: vi.fn(),
+      onDocumentUpdated: vi.fn(),
+      onDocumentDeleted: vi.fn(),
+      onContributorJoined: vi.fn(),
     };
 
     // Arrange - Create sample document
@@ -61,20 +67,25 @@ describe('WebSocketManager', () => {
       UpdatedAt: new Date('2024-01-01T10:00:00Z'),
     };
 
+    // Arrange - Create sample message
+    sampleMessage = {
+      type: 'document.created',
+      version: 1,
+      document: sampleDocument,
+      user: { ID: 'user-123', Name: 'John Doe' },
+    };
+
     // Mock WebSocketService constructor
     MockedWebSocketService.mockImplementation(function (this: WebSocketService) {
       Object.assign(this, mockWsService);
       return this;
     } as unknown as typeof WebSocketService);
-
-    // Mock fromSocketNotification function
-    vi.spyOn(documentUtils, 'fromSocketNotification').mockReturnValue(sampleDocument);
   });
 
   describe('constructor', () => {
     it('should create instance with callback and default WebSocketService', () => {
       // Arrange & Act
-      const manager = new WebSocketManager(mockOnDocumentReceived);
+      const manager = new WebSocketManager(mockHandlers);
 
       // Assert
       expect(manager).toBeInstanceOf(WebSocketManager);
@@ -87,7 +98,7 @@ describe('WebSocketManager', () => {
       const customWsService = mockWsService as unknown as WebSocketService;
 
       // Act
-      const manager = new WebSocketManager(mockOnDocumentReceived, customWsService);
+      const manager = new WebSocketManager(mockHandlers, customWsService);
 
       // Assert
       expect(manager).toBeInstanceOf(WebSocketManager);
@@ -96,7 +107,7 @@ describe('WebSocketManager', () => {
 
     it('should bind handleNotification callback to WebSocketService', () => {
       // Arrange & Act
-      new WebSocketManager(mockOnDocumentReceived);
+      new WebSocketManager(mockHandlers);
 
       // Assert
       expect(MockedWebSocketService).toHaveBeenCalledWith(expect.any(Function));
@@ -108,7 +119,7 @@ describe('WebSocketManager', () => {
   describe('connect', () => {
     it('should call wsService connect method', () => {
       // Arrange
-      const manager = new WebSocketManager(mockOnDocumentReceived);
+      const manager = new WebSocketManager(mockHandlers);
 
       // Act
       manager.connect();
@@ -119,7 +130,7 @@ describe('WebSocketManager', () => {
 
     it('should call connect only once when called once', () => {
       // Arrange
-      const manager = new WebSocketManager(mockOnDocumentReceived);
+      const manager = new WebSocketManager(mockHandlers);
 
       // Act
       manager.connect();
@@ -130,7 +141,7 @@ describe('WebSocketManager', () => {
 
     it('should call connect multiple times when called multiple times', () => {
       // Arrange
-      const manager = new WebSocketManager(mockOnDocumentReceived);
+      const manager = new WebSocketManager(mockHandlers);
 
       // Act
       manager.connect();
@@ -145,7 +156,7 @@ describe('WebSocketManager', () => {
   describe('disconnect', () => {
     it('should call wsService disconnect method', () => {
       // Arrange
-      const manager = new WebSocketManager(mockOnDocumentReceived);
+      const manager = new WebSocketManager(mockHandlers);
 
       // Act
       manager.disconnect();
@@ -156,7 +167,7 @@ describe('WebSocketManager', () => {
 
     it('should call disconnect after connect', () => {
       // Arrange
-      const manager = new WebSocketManager(mockOnDocumentReceived);
+      const manager = new WebSocketManager(mockHandlers);
       manager.connect();
 
       // Act
@@ -171,7 +182,7 @@ describe('WebSocketManager', () => {
   describe('send', () => {
     it('should call wsService send method with data', () => {
       // Arrange
-      const manager = new WebSocketManager(mockOnDocumentReceived);
+      const manager = new WebSocketManager(mockHandlers);
       const testData = { message: 'test' };
 
       // Act
@@ -184,7 +195,7 @@ describe('WebSocketManager', () => {
 
     it('should send string data', () => {
       // Arrange
-      const manager = new WebSocketManager(mockOnDocumentReceived);
+      const manager = new WebSocketManager(mockHandlers);
       const testData = 'test message';
 
       // Act
@@ -196,7 +207,7 @@ describe('WebSocketManager', () => {
 
     it('should send object data', () => {
       // Arrange
-      const manager = new WebSocketManager(mockOnDocumentReceived);
+      const manager = new WebSocketManager(mockHandlers);
       const testData = { type: 'ping', timestamp: Date.now() };
 
       // Act
@@ -208,7 +219,7 @@ describe('WebSocketManager', () => {
 
     it('should send array data', () => {
       // Arrange
-      const manager = new WebSocketManager(mockOnDocumentReceived);
+      const manager = new WebSocketManager(mockHandlers);
       const testData = [1, 2, 3, 4, 5];
 
       // Act
@@ -220,7 +231,7 @@ describe('WebSocketManager', () => {
 
     it('should send null data', () => {
       // Arrange
-      const manager = new WebSocketManager(mockOnDocumentReceived);
+      const manager = new WebSocketManager(mockHandlers);
 
       // Act
       manager.send(null);
@@ -230,105 +241,390 @@ describe('WebSocketManager', () => {
     });
   });
 
-  describe('handleNotification (private method)', () => {
-    it('should transform notification and call onDocumentReceived callback', () => {
+  describe('message routing', () => {
+    it('should pass created documents and their author to onDocumentCreated', () => {
+      // Arrange
+      new WebSocketManager(mockHandlers);
+      const handleMessageCallback = MockedWebSocketService.mock.calls[0][0];
+
+      // Act
+      handleMessageCallback(sampleMessage);
+
+      // Assert
+      expect(mockHandlers.onDocumentCreated).toHaveBeenCalledTimes(1);
+      expect(mockHandlers.onDocumentCreated).toHaveBeenCalledWith(sampleDocument, 'John Doe');
+    });
+
+    it('should pass updated documents to onDocumentUpdated', () => {
+      // Arrange
+      new WebSocketManager(mockHandlers);
+      const handleMessageCallback = MockedWebSocketService.mock.calls[0][0];
+
+      // Act
+      handleMessageCallback({ type: 'document.updated', version: 1, document: sampleDocument });
+
+      // Assert
+      expect(mockHandlers.onDocumentUpdated).toHaveBeenCalledWith(sampleDocument, undefined);
+      expect(mockHandlers.onDocumentCreated).not.toHaveBeenCalled();
+    });
+
+    it('should pass deleted document IDs to onDocumentDeleted', () => {
+      // Arrange
+      new WebSocketManager(mockHandlers);
+      const handleMessageCallback = MockedWebSocketService.mock.calls[0][0];
+
+      // Act
+      handleMessageCallback({
+        type: 'document.deleted',
+        version: 1,
+        documentId: 'doc-456',
+        user: { ID: 'user-999', Name: 'Jane Smith' },
+      });
+
+      // Assert
+      expect(mockHandlers.onDocumentDeleted).toHaveBeenCalledWith('doc-456', 'Jane Smith');
+    });
+
+    it('should pass new contributors to onContributorJoined', () => {
+      // Arrange
+      new WebSocketManager(mockHandlers);
+      const handleMessageCallback = MockedWebSocketService.mock.calls[0][0];
+      const contributor = { ID: 'user-999', Name: 'Jane Smith' };
+
+      // Act
+      handleMessageCallback({
+        type: 'contributor.joined',
+        version: 1,
+        documentId: 'doc-456',
+        contributor,
+      });
+
+      // Assert
+      expect(mockHandlers.onContributorJoined).toHaveBeenCalledWith('doc-456', contributor);
+    });
+  });
+
+  describe('leader election', () => {
+    let onElected: (() => void) | undefined;
+    let election: LeaderElectionService;
+    let relay: TabSyncService<SocketRelayMessage>;
+    let relayChannel: BroadcastChannel;
+
+    beforeEach(() => {
+      onElected = undefined;
+      election = {
+        start: vi.fn((callback: () => void) => {
+          onElected = callback;
+        }),
+        stop: vi.fn(),
+        isLeader: vi.fn().mockReturnValue(false),
+      } as unknown as LeaderElectionService;
+      relayChannel = {
+        postMessage: vi.fn(),
+        close: vi.fn(),
+        onmessage: null,
+      } as unknown as BroadcastChannel;
+      relay = new TabSyncService<SocketRelayMessage>(relayChannel);
+    });
+
+    it('should only connect once the tab is elected leader', () => {
+      // Arrange
+      const manager = new WebSocketManager(mockHandlers, undefined, election, relay);
+
+      // Act
+      manager.connect();
+
+      // Assert
+      expect(mockWsService.connect).not.toHaveBeenCalled();
+      onElected?.();
+      expect(mockWsService.connect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should relay received messages to the other tabs', () => {
+      // Arrange
+      new WebSocketManager(mockHandlers, undefined, election, relay);
+      const handleMessageCallback = MockedWebSocketService.mock.calls[0][0];
+
+      // Act
+      handleMessageCallback(sampleMessage);
+
+      // Assert
+      expect(mockHandlers.onDocumentCreated).toHaveBeenCalledWith(sampleDocument, 'John Doe');
+      expect(relayChannel.postMessage).toHaveBeenCalledWith({
+        type: 'socket.message',
+        message: sampleMessage,
+      });
+    });
+
+    it('should route messages relayed by the leader tab without relaying them again', () => {
+      // Arrange
+      new WebSocketManager(mockHandlers, undefined, election, relay);
+
+      // Act
+      relayChannel.onmessage?.(
+        new MessageEvent('message', { data: { type: 'socket.message', message: sampleMessage } })
+      );
+
+      // Assert
+      expect(mockHandlers.onDocumentCreated).toHaveBeenCalledWith(sampleDocument, 'John Doe');
+      expect(relayChannel.postMessage).not.toHaveBeenCalled();
+    });
+
+    it('should give up leadership on disconnect', () => {
+      // Arrange
+      const manager = new WebSocketManager(mockHandlers, undefined, election, relay);
+      manager.connect();
+
+      // Act
+      manager.disconnect();
+
+      // Assert
+      expect(election.stop).toHaveBeenCalledTimes(1);
+      expect(mockWsService.disconnect).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('connection state', () => {
+    let election: LeaderElectionService;
+    let relay: TabSyncService<SocketRelayMessage>;
+    let relayChannel: BroadcastChannel;
+    let isLeader: boolean;
+
+    const relayed = (data: SocketRelayMessage) =>
+      relayChannel.onmessage?.(new MessageEvent('message', { data }));
+
+    beforeEach(() => {
+      isLeader = true;
+      election = {
+        start: vi.fn(),
+        stop: vi.fn(),
+        isLeader: vi.fn(() => isLeader),
+      } as unknown as LeaderElectionService;
+      relayChannel = {
+        postMessage: vi.fn(),
+        close: vi.fn(),
+        onmessage: null,
+      } as unknown as BroadcastChannel;
+      relay = new TabSyncService<SocketRelayMessage>(relayChannel);
+    });
+
+    it('should start connecting', () => {
+      // Arrange & Act
+      const manager = new WebSocketManager(mockHandlers, undefined, election, relay);
+
+      // Assert
+      expect(manager.getConnectionState()).toEqual({ status: 'connecting' });
+    });
+
+    it('should pass on state changes from the WebSocketService and relay them', () => {
       // Arrange
-      new WebSocketManager(mockOnDocumentReceived);
-      const handleNotificationCallback = MockedWebSocketService.mock.calls[0][0];
+      const manager = new WebSocketManager(mockHandlers, undefined, election, relay);
+      const listener = vi.fn();
+      manager.onConnectionStateChange(listener);
+      const onStateChange = mockWsService.onStateChange.mock.calls[0][0];
+      const state: ConnectionState = { status: 'reconnecting', attempt: 2, maxAttempts: 5 };
 
       // Act
-      handleNotificationCallback(sampleNotification);
+      onStateChange(state);
 
       // Assert
-      expect(documentUtils.fromSocketNotification).toHaveBeenCalledTimes(1);
-      expect(documentUtils.fromSocketNotification).toHaveBeenCalledWith(sampleNotification);
-      expect(mockOnDocumentReceived).toHaveBeenCalledTimes(1);
-      expect(mockOnDocumentReceived).toHaveBeenCalledWith(sampleDocument);
+      expect(listener).toHaveBeenCalledWith(state);
+      expect(manager.getConnectionState()).toEqual(state);
+      expect(relayChannel.postMessage).toHaveBeenCalledWith({ type: 'connection.state', state });
     });
 
-    it('should handle multiple notifications', () => {
+    it('should stop notifying after unsubscribing', () => {
       // Arrange
-      new WebSocketManager(mockOnDocumentReceived);
-      const handleNotificationCallback = MockedWebSocketService.mock.calls[0][0];
-      const notification2: SocketsNotification = {
-        ...sampleNotification,
-        DocumentID: 'doc-789',
-        DocumentTitle: 'Second Document',
-      };
-      const document2: Document = {
-        ...sampleDocument,
-        ID: 'doc-789',
-        Title: 'Second Document',
-      };
-      const mapperSpy = vi.spyOn(documentUtils, 'fromSocketNotification');
-      mapperSpy.mockReturnValueOnce(sampleDocument).mockReturnValueOnce(document2);
+      const manager = new WebSocketManager(mockHandlers, undefined, election, relay);
+      const listener = vi.fn();
+      const unsubscribe = manager.onConnectionStateChange(listener);
+      const onStateChange = mockWsService.onStateChange.mock.calls[0][0];
 
       // Act
-      handleNotificationCallback(sampleNotification);
-      handleNotificationCallback(notification2);
+      unsubscribe();
+      onStateChange({ status: 'open' });
 
       // Assert
-      expect(documentUtils.fromSocketNotification).toHaveBeenCalledTimes(2);
-      expect(mockOnDocumentReceived).toHaveBeenCalledTimes(2);
-      expect(mockOnDocumentReceived).toHaveBeenNthCalledWith(1, sampleDocument);
-      expect(mockOnDocumentReceived).toHaveBeenNthCalledWith(2, document2);
+      expect(listener).not.toHaveBeenCalled();
     });
 
-    it('should handle notification with different user', () => {
+    it("should show the leader tab's state in follower tabs", () => {
       // Arrange
-      new WebSocketManager(mockOnDocumentReceived);
-      const handleNotificationCallback = MockedWebSocketService.mock.calls[0][0];
-      const notificationDifferentUser: SocketsNotification = {
-        Timestamp: '2024-01-02T15:30:00Z',
-        UserID: 'user-999',
-        UserName: 'Jane Smith',
-        DocumentID: 'doc-111',
-        DocumentTitle: 'Another Document',
-      };
+      isLeader = false;
+      const manager = new WebSocketManager(mockHandlers, undefined, election, relay);
+      const listener = vi.fn();
+      manager.onConnectionStateChange(listener);
 
       // Act
-      handleNotificationCallback(notificationDifferentUser);
+      relayed({ type: 'connection.state', state: { status: 'open' } });
+
+      // Assert
+      expect(listener).toHaveBeenCalledWith({ status: 'open' });
+      expect(manager.getConnectionState()).toEqual({ status: 'open' });
+    });
+
+    it("should ignore other tabs' state in the leader tab", () => {
+      // Arrange
+      const manager = new WebSocketManager(mockHandlers, undefined, election, relay);
+
+      // Act
+      relayed({ type: 'connection.state', state: { status: 'open' } });
+
+      // Assert
+      expect(manager.getConnectionState()).toEqual({ status: 'connecting' });
+    });
+
+    it("should ask for the leader tab's state when a follower connects", () => {
+      // Arrange
+      isLeader = false;
+      const manager = new WebSocketManager(mockHandlers, undefined, election, relay);
+
+      // Act
+      manager.connect();
 
       // Assert
-      expect(documentUtils.fromSocketNotification).toHaveBeenCalledTimes(1);
-      expect(documentUtils.fromSocketNotification).toHaveBeenCalledWith(notificationDifferentUser);
-      expect(mockOnDocumentReceived).toHaveBeenCalledTimes(1);
+      expect(manager.getConnectionState()).toEqual({ status: 'connecting' });
+      expect(relayChannel.postMessage).toHaveBeenCalledWith({ type: 'connection.stateRequested' });
+    });
+
+    it('should answer state requests in the leader tab', () => {
+      // Arrange
+      new WebSocketManager(mockHandlers, undefined, election, relay);
+      mockWsService.onStateChange.mock.calls[0][0]({ status: 'open' });
+      vi.mocked(relayChannel.postMessage).mockClear();
+
+      // Act
+      relayed({ type: 'connection.stateRequested' });
+
+      // Assert
+      expect(relayChannel.postMessage).toHaveBeenCalledWith({
+        type: 'connection.state',
+        state: { status: 'open' },
+      });
+    });
+
+    it('should reconnect immediately on retry in the leader tab', () => {
+      // Arrange
+      const manager = new WebSocketManager(mockHandlers, undefined, election, relay);
+
+      // Act
+      manager.retry();
+
+      // Assert
+      expect(mockWsService.reconnectNow).toHaveBeenCalledTimes(1);
+      expect(relayChannel.postMessage).not.toHaveBeenCalled();
+    });
+
+    it('should ask the leader tab to retry from a follower tab', () => {
+      // Arrange
+      isLeader = false;
+      const manager = new WebSocketManager(mockHandlers, undefined, election, relay);
+
+      // Act
+      manager.retry();
+
+      // Assert
+      expect(mockWsService.reconnectNow).not.toHaveBeenCalled();
+      expect(relayChannel.postMessage).toHaveBeenCalledWith({ type: 'connection.retryRequested' });
+    });
+
+    it('should retry when a follower tab asks the leader tab', () => {
+      // Arrange
+      new WebSocketManager(mockHandlers, undefined, election, relay);
+
+      // Act
+      relayed({ type: 'connection.retryRequested' });
+
+      // Assert
+      expect(mockWsService.reconnectNow).toHaveBeenCalledTimes(1);
+    });
+
+    describe('when a tab becomes visible', () => {
+      let manager: WebSocketManager;
+
+      beforeEach(() => {
+        vi.spyOn(document, 'visibilityState', 'get').mockReturnValue('visible');
+        manager = new WebSocketManager(mockHandlers, undefined, election, relay);
+      });
+
+      afterEach(() => {
+        manager.disconnect();
+        vi.restoreAllMocks();
+      });
+
+      it('should ask the leader tab to verify the connection from a follower tab', () => {
+        // Arrange
+        isLeader = false;
+        manager.connect();
+        vi.mocked(relayChannel.postMessage).mockClear();
+
+        // Act
+        document.dispatchEvent(new Event('visibilitychange'));
+
+        // Assert
+        expect(relayChannel.postMessage).toHaveBeenCalledWith({
+          type: 'connection.verifyRequested',
+        });
+      });
+
+      it('should leave the check to the WebSocketService in the leader tab', () => {
+        // Arrange
+        manager.connect();
+
+        // Act
+        document.dispatchEvent(new Event('visibilitychange'));
+
+        // Assert
+        expect(relayChannel.postMessage).not.toHaveBeenCalled();
+      });
+
+      it('should stop asking after disconnecting', () => {
+        // Arrange
+        isLeader = false;
+        manager.connect();
+        manager.disconnect();
+        vi.mocked(relayChannel.postMessage).mockClear();
+
+        // Act
+        document.dispatchEvent(new Event('visibilitychange'));
+
+        // Assert
+        expect(relayChannel.postMessage).not.toHaveBeenCalled();
+      });
     });
 
-    it('should preserve callback context when handling notification', () => {
+    it('should verify the connection when a follower tab asks the leader tab', () => {
       // Arrange
-      const callbackSpy = vi.fn();
-      new WebSocketManager(callbackSpy);
-      const handleNotificationCallback = MockedWebSocketService.mock.calls[0][0];
+      new WebSocketManager(mockHandlers, undefined, election, relay);
 
       // Act
-      handleNotificationCallback(sampleNotification);
+      relayed({ type: 'connection.verifyRequested' });
 
       // Assert
-      expect(callbackSpy).toHaveBeenCalledWith(sampleDocument);
+      expect(mockWsService.verify).toHaveBeenCalledTimes(1);
     });
   });
 
   describe('integration scenarios', () => {
     it('should handle full lifecycle: connect, receive, disconnect', () => {
       // Arrange
-      const manager = new WebSocketManager(mockOnDocumentReceived);
-      const handleNotificationCallback = MockedWebSocketService.mock.calls[0][0];
+      const manager = new WebSocketManager(mockHandlers);
+      const handleMessageCallback = MockedWebSocketService.mock.calls[0][0];
 
       // Act
       manager.connect();
-      handleNotificationCallback(sampleNotification);
+      handleMessageCallback(sampleMessage);
       manager.disconnect();
 
       // Assert
       expect(mockWsService.connect).toHaveBeenCalledTimes(1);
-      expect(mockOnDocumentReceived).toHaveBeenCalledWith(sampleDocument);
+      expect(mockHandlers.onDocumentCreated).toHaveBeenCalledWith(sampleDocument, 'John Doe');
       expect(mockWsService.disconnect).toHaveBeenCalledTimes(1);
     });
 
     it('should handle send after connect', () => {
       // Arrange
-      const manager = new WebSocketManager(mockOnDocumentReceived);
+      const manager = new WebSocketManager(mockHandlers);
       const testData = { action: 'subscribe' };
 
       // Act
@@ -342,7 +638,7 @@ describe('WebSocketManager', () => {
 
     it('should handle multiple connect and disconnect cycles', () => {
       // Arrange
-      const manager = new WebSocketManager(mockOnDocumentReceived);
+      const manager = new WebSocketManager(mockHandlers);
 
       // Act
       manager.connect();
@@ -1,47 +1,172 @@
-import { Document } from '../models/document';
-import { SocketsNotification } from '../models/sockets';
-import { fromSocketNotification } from '../utils/documentUtils';
+import type { Contributors, Document } from '../models/document';
+import type { ConnectionState, SocketMessage, SocketRelayMessage } from '../models/sockets';
 import { WebSocketService } from './webSocketService';
+import { LeaderElectionService } from './leaderElectionService';
+import { TabSyncService } from './tabSyncService';
+
+const RELAY_CHANNEL_NAME = 'document-manager:websocket';
+
+/**
+ * Callbacks for each kind of WebSocket message
+ * `author` is the user who made the change, when the server sent one
+ */
+export interface SocketEventHandlers {
+  onDocumentCreated(document: Document, author?: string): void;
+  onDocumentUpdated(document: Document, author?: string): void;
+  onDocumentDeleted(documentId: string, author?: string): void;
+  onContributorJoined(documentId: string, contributor: Contributors): void;
+}
 
 /**
- * Manager responsible for WebSocket lifecycle and data transformation
- * Handles connection management and maps socket notifications to documents
+ * Manager responsible for WebSocket lifecycle and message routing
+ * Handles connection management and dispatches each decoded message to its handler
+ * Only the leader tab opens a connection; it relays what it receives and its connection state
+ * to the other tabs, and reconnects when one of them asks to retry
  */
 export class WebSocketManager {
   private wsService: WebSocketService;
+  private election: LeaderElectionService;
+  private relay: TabSyncService<SocketRelayMessage>;
+  private connectionState: ConnectionState = { status: 'connecting' };
+  private stateListeners = new Set<(state: ConnectionState) => void>();
+  // Only the leader's socket watches visibility, so followers ask it to check when they are shown
+  private handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible' && !this.election.isLeader()) {
+      this.relay.publish({ type: 'connection.verifyRequested' });
+    }
+  };
 
   /**
-   * @param onDocumentReceived - Callback invoked when a document is received via WebSocket
+   * @param handlers - Callbacks invoked for messages received via WebSocket
    * @param wsService - Optional WebSocketService instance for dependency injection
+   * @param election - Optional LeaderElectionService instance for dependency injection
+   * @param relay - Optional channel to the other tabs for dependency injection
    */
   constructor(
-    private onDocumentReceived: (document: Document) => void,
-    wsService?: WebSocketService
+    private handlers: SocketEventHandlers,
+    wsService?: WebSocketService,
+    election?: LeaderElectionService,
+    relay?: TabSyncService<SocketRelayMessage>
   ) {
-    this.wsService = wsService || new WebSocketService(this.handleNotification.bind(this));
+    this.wsService = wsService || new WebSocketService(this.handleMessage.bind(this));
+    this.election = election || new LeaderElectionService();
+    this.relay = relay || new TabSyncService<SocketRelayMessage>(undefined, RELAY_CHANNEL_NAME);
+    this.relay.subscribe(message => this.handleRelayMessage(message));
+    this.wsService.onStateChange(state => {
+      this.setConnectionState(state);
+      this.relay.publish({ type: 'connection.state', state });
+    });
   }
 
   /**
-   * Handles incoming WebSocket notifications
-   * Transforms socket notification to document and forwards to callback
-   * @param notification - The socket notification received
+   * Handles incoming WebSocket messages, passing them on to the follower tabs
+   * @param message - The decoded socket message
    */
-  private handleNotification(notification: SocketsNotification): void {
-    const document = fromSocketNotification(notification);
-    this.onDocumentReceived(document);
+  private handleMessage(message: SocketMessage): void {
+    this.dispatch(message);
+    this.relay.publish({ type: 'socket.message', message });
+  }
+
+  private handleRelayMessage(message: SocketRelayMessage): void {
+    switch (message.type) {
+      case 'socket.message':
+        this.dispatch(message.message);
+        break;
+      case 'connection.state':
+        // The leader shows its own connection's state
+        if (!this.election.isLeader()) {
+          this.setConnectionState(message.state);
+        }
+        break;
+      case 'connection.stateRequested':
+        if (this.election.isLeader()) {
+          this.relay.publish({ type: 'connection.state', state: this.connectionState });
+        }
+        break;
+      case 'connection.retryRequested':
+        if (this.election.isLeader()) {
+          this.wsService.reconnectNow();
+        }
+        break;
+      case 'connection.verifyRequested':
+        if (this.election.isLeader()) {
+          this.wsService.verify();
+        }
+        break;
+    }
+  }
+
+  private dispatch(message: SocketMessage): void {
+    const author = message.user?.Name;
+    switch (message.type) {
+      case 'document.created':
+        this.handlers.onDocumentCreated(message.document, author);
+        break;
+      case 'document.updated':
+        this.handlers.onDocumentUpdated(message.document, author);
+        break;
+      case 'document.deleted':
+        this.handlers.onDocumentDeleted(message.documentId, author);
+        break;
+      case 'contributor.joined':
+        this.handlers.onContributorJoined(message.documentId, message.contributor);
+        break;
+    }
   }
 
   /**
-   * Establishes WebSocket connection
+   * Establishes the WebSocket connection once this tab is elected leader
+   * Follower tabs wait and take over the connection when the leader tab closes
    */
   connect(): void {
-    this.wsService.connect();
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    if (this.election.isLeader()) {
+      this.wsService.connect();
+      return;
+    }
+    this.election.start(() => this.wsService.connect());
+    // Followers show the leader's connection; ask for it in case this tab opened after its last change
+    if (!this.election.isLeader()) {
+      this.setConnectionState({ status: 'connecting' });
+      this.relay.publish({ type: 'connection.stateRequested' });
+    }
+  }
+
+  /**
+   * Reconnects straight away, through the leader tab when this tab is a follower
+   */
+  retry(): void {
+    if (this.election.isLeader()) {
+      this.wsService.reconnectNow();
+    } else {
+      this.relay.publish({ type: 'connection.retryRequested' });
+    }
+  }
+
+  getConnectionState(): ConnectionState {
+    return this.connectionState;
+  }
+
+  /**
+   * Subscribes to connection state changes, including those relayed by the leader tab
+   * @returns Unsubscribe function
+   */
+  onConnectionStateChange(listener: (state: ConnectionState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => this.stateListeners.delete(listener);
+  }
+
+  private setConnectionState(state: ConnectionState): void {
+    this.connectionState = state;
+    this.stateListeners.forEach(listener => listener(state));
   }
 
   /**
-   * Closes WebSocket connection
+   * Closes WebSocket connection and hands leadership to another tab
    */
   disconnect(): void {
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    this.election.stop();
     this.wsService.disconnect();
   }
 
@@ -1,6 +1,12 @@
 import { describe, it, expect, beforeEach, vi, afterEach, MockedFunction } from 'vitest';
 import { WebSocketService } from './webSocketService';
-import { SocketsNotification } from '../models/sockets';
+import type {
+  ConnectionState,
+  HeartbeatPolicy,
+  ReconnectPolicy,
+  SocketMessage,
+  SocketsNotification,
+} from '../models/sockets';
 
 interface MockWebSocket {
   onopen: ((event: Event) => void) | null;
@@ -17,10 +23,21 @@ const WS_CONNECTING = 0;
 const WS_OPEN = 1;
 const WS_CLOSED = 3;
 
+// The fixed schedule older versions used: 5 attempts, 3 seconds apart
+const fixedPolicy: ReconnectPolicy = {
+  initialDelay: 3000,
+  maxDelay: 3000,
+  multiplier: 1,
+  jitter: 0,
+  maxAttempts: 5,
+};
+
+const heartbeatPolicy: HeartbeatPolicy = { interval: 1000, timeout: 500 };
+
 describe('WebSocketService', () => {
   let service: WebSocketService;
   let mockWebSocket: MockWebSocket;
-  let onDocumentReceived: MockedFunction<(notification: SocketsNotification) => void>;
+  let onMessage: MockedFunction<(message: SocketMessage) => void>;
   let consoleWarnSpy: MockedFunction<typeof console.warn>;
   let consoleErrorSpy: MockedFunction<typeof console.error>;
 
@@ -47,6 +64,10 @@ describe('WebSocketService', () => {
     // Arrange - Mock WebSocket constructor globally with property setters
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     (global as any).WebSocket = class MockWebSocketClass {
+      static readonly CONNECTING = WS_CONNECTING;
+      static readonly OPEN = WS_OPEN;
+      static readonly CLOSED = WS_CLOSED;
+
       onopen: ((event: Event) => void) | null = null;
       onmessage: ((event: MessageEvent) => void) | null = null;
       onerror: ((event: Event) => void) | null = null;
@@ -63,13 +84,16 @@ describe('WebSocketService', () => {
     };
 
     // Arrange - Create callback mock
-    onDocumentReceived = vi.fn();
+    onMessage = vi.fn();
   });
 
   afterEach(() => {
-    // Cleanup - Restore timers and mocks
+    // Cleanup - Stop listening for the online event
+    service?.disconnect();
+
+    // Cleanup - Restore timers and mocks, including WebSocket constructor implementations
     vi.useRealTimers();
-    vi.clearAllMocks();
+    vi.restoreAllMocks();
     consoleWarnSpy.mockRestore();
     consoleErrorSpy.mockRestore();
   });
@@ -104,7 +128,7 @@ describe('WebSocketService', () => {
   describe('connect', () => {
     beforeEach(() => {
       // Arrange - Create service instance before each test
-      service = new WebSocketService(onDocumentReceived);
+      service = new WebSocketService(onMessage);
     });
 
     it('should create WebSocket connection with correct URL', () => {
@@ -138,7 +162,7 @@ describe('WebSocketService', () => {
       );
     });
 
-    it('should setup onmessage handler that parses and forwards notifications', () => {
+    it('should setup onmessage handler that decodes bare notifications as created documents', () => {
       // Arrange
       const mockNotification: SocketsNotification = {
         Timestamp: '2024-01-01T10:00:00Z',
@@ -158,8 +182,94 @@ describe('WebSocketService', () => {
       }
 
       // Assert
-      expect(onDocumentReceived).toHaveBeenCalledTimes(1);
-      expect(onDocumentReceived).toHaveBeenCalledWith(mockNotification);
+      expect(onMessage).toHaveBeenCalledTimes(1);
+      expect(onMessage).toHaveBeenCalledWith({
+        type: 'document.created',
+        version: 1,
+        document: expect.objectContaining({ ID: 'doc-456', Title: 'Test Document' }),
+        user: { ID: 'user-123', Name: 'John Doe' },
+      });
+    });
+
+    it('should forward typed messages', () => {
+      // Arrange
+      service.connect();
+
+      // Act
+      mockWebSocket.onmessage?.(
+        new MessageEvent('message', {
+          data: JSON.stringify({ type: 'document.deleted', version: 1, documentId: 'doc-456' }),
+        })
+      );
+
+      // Assert
+      expect(onMessage).toHaveBeenCalledWith({
+        type: 'document.deleted',
+        version: 1,
+        documentId: 'doc-456',
+      });
+    });
+
+    it('should drop messages that cannot be decoded and name the field', () => {
+      // Arrange
+      service.connect();
+
+      // Act
+      mockWebSocket.onmessage?.(
+        new MessageEvent('message', {
+          data: JSON.stringify({ type: 'document.deleted', version: 1 }),
+        })
+      );
+
+      // Assert
+      expect(onMessage).not.toHaveBeenCalled();
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        'Ignoring WebSocket message: documentId must be a non-empty string (1 dropped)'
+      );
+    });
+
+    it('should count dropped messages, including unparseable frames', () => {
+      // Arrange
+      service.connect();
+
+      // Act
+      mockWebSocket.onmessage?.(new MessageEvent('message', { data: '{' }));
+      mockWebSocket.onmessage?.(
+        new MessageEvent('message', { data: JSON.stringify({ type: 'unknown', version: 1 }) })
+      );
+
+      // Assert
+      expect(service.getDroppedMessageCount()).toBe(2);
+    });
+
+    it('should forward repaired documents and log what was repaired', () => {
+      // Arrange
+      service.connect();
+      const document = {
+        ID: 'doc-1',
+        Title: 'Report',
+        Version: 1,
+        CreatedAt: '2024-01-15T10:30:00.000Z',
+        UpdatedAt: '2024-01-15T10:30:00.000Z',
+      };
+
+      // Act
+      mockWebSocket.onmessage?.(
+        new MessageEvent('message', {
+          data: JSON.stringify({ type: 'document.created', version: 1, document }),
+        })
+      );
+
+      // Assert
+      expect(onMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          document: expect.objectContaining({ Contributors: [], Attachments: [] }),
+        })
+      );
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        'Repaired WebSocket message: document.Contributors, document.Attachments'
+      );
+      expect(service.getDroppedMessageCount()).toBe(0);
     });
 
     it('should handle invalid JSON in message gracefully', () => {
@@ -174,7 +284,7 @@ describe('WebSocketService', () => {
       }
 
       // Assert
-      expect(onDocumentReceived).not.toHaveBeenCalled();
+      expect(onMessage).not.toHaveBeenCalled();
       expect(consoleErrorSpy).toHaveBeenCalledWith(
         'Error parsing WebSocket message:',
         expect.any(Error)
@@ -237,7 +347,7 @@ describe('WebSocketService', () => {
   describe('disconnect', () => {
     beforeEach(() => {
       // Arrange - Create service instance before each test
-      service = new WebSocketService(onDocumentReceived);
+      service = new WebSocketService(onMessage, fixedPolicy);
     });
 
     it('should close WebSocket connection when connected', () => {
@@ -295,7 +405,7 @@ describe('WebSocketService', () => {
   describe('send', () => {
     beforeEach(() => {
       // Arrange - Create service instance before each test
-      service = new WebSocketService(onDocumentReceived);
+      service = new WebSocketService(onMessage);
     });
 
     it('should send stringified data when WebSocket is open', () => {
@@ -350,7 +460,7 @@ describe('WebSocketService', () => {
   describe('message handling', () => {
     beforeEach(() => {
       // Arrange - Create service instance and connect before each test
-      service = new WebSocketService(onDocumentReceived);
+      service = new WebSocketService(onMessage);
       service.connect();
     });
 
@@ -374,8 +484,8 @@ describe('WebSocketService', () => {
       }
 
       // Assert
-      expect(onDocumentReceived).toHaveBeenCalledTimes(1);
-      expect(onDocumentReceived).toHaveBeenCalledWith(mockNotification);
+      expect(onMessage).toHaveBeenCalledTimes(1);
+      expect(onMessage).toHaveBeenCalledWith(expect.objectContaining({ type: 'document.created' }));
     });
 
     it('should not call callback when JSON parsing fails', () => {
@@ -387,7 +497,7 @@ describe('WebSocketService', () => {
       mockWebSocket.onmessage?.(messageEvent);
 
       // Assert
-      expect(onDocumentReceived).not.toHaveBeenCalled();
+      expect(onMessage).not.toHaveBeenCalled();
     });
 
     it.skip('should log error when JSON parsing fails', () => {
@@ -419,7 +529,7 @@ describe('WebSocketService', () => {
       }
 
       // Assert
-      expect(onDocumentReceived).not.toHaveBeenCalled();
+      expect(onMessage).not.toHaveBeenCalled();
       expect(consoleErrorSpy).toHaveBeenCalled();
     });
   });
@@ -427,7 +537,7 @@ describe('WebSocketService', () => {
   describe('reconnection', () => {
     beforeEach(() => {
       // Arrange - Create service instance before each test
-      service = new WebSocketService(onDocumentReceived);
+      service = new WebSocketService(onMessage, fixedPolicy);
     });
 
     it('should attempt reconnection after connection closes', () => {
@@ -513,8 +623,8 @@ describe('WebSocketService', () => {
       // Arrange
       service.connect();
 
-      // Act - Exhaust all reconnection attempts
-      for (let i = 0; i < 5; i++) {
+      // Act - Exhaust all reconnection attempts, then fail once more
+      for (let i = 0; i < 6; i++) {
         if (mockWebSocket.onclose) {
           mockWebSocket.onclose(new CloseEvent('close'));
         }
@@ -527,6 +637,139 @@ describe('WebSocketService', () => {
       );
     });
 
+    it('should back off exponentially up to the cap, with jitter', () => {
+      // Arrange
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      service = new WebSocketService(onMessage, {
+        initialDelay: 1000,
+        maxDelay: 3000,
+        multiplier: 2,
+        jitter: 0.5,
+        maxAttempts: Infinity,
+      });
+      service.connect();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const WebSocketConstructorSpy = vi.spyOn(global, 'WebSocket' as any);
+      const waits: number[] = [];
+
+      // Act - Measure how long each attempt takes to open a new socket
+      for (let i = 0; i < 4; i++) {
+        WebSocketConstructorSpy.mockClear();
+        mockWebSocket.onclose?.(new CloseEvent('close'));
+        let waited = 0;
+        while (WebSocketConstructorSpy.mock.calls.length === 0) {
+          vi.advanceTimersByTime(1);
+          waited++;
+        }
+        waits.push(waited);
+      }
+
+      // Assert - 1000, 2000, 4000 capped to 3000, each shortened by a quarter
+      expect(waits).toEqual([750, 1500, 2250, 2250]);
+      vi.mocked(Math.random).mockRestore();
+    });
+
+    it('should keep retrying without a limit when maxAttempts is Infinity', () => {
+      // Arrange
+      service = new WebSocketService(onMessage, { ...fixedPolicy, maxAttempts: Infinity });
+      service.connect();
+
+      // Act
+      for (let i = 0; i < 20; i++) {
+        mockWebSocket.onclose?.(new CloseEvent('close'));
+        vi.advanceTimersByTime(3000);
+      }
+
+      // Assert
+      expect(consoleWarnSpy).toHaveBeenCalledWith('🔄 Reconnection attempt 20...');
+      expect(consoleWarnSpy).not.toHaveBeenCalledWith(
+        '📴 Running in offline mode - data saved locally'
+      );
+    });
+
+    it('should not reconnect after disconnecting on purpose', () => {
+      // Arrange
+      service.connect();
+      const closedSocket = mockWebSocket;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const WebSocketConstructorSpy = vi.spyOn(global, 'WebSocket' as any);
+      WebSocketConstructorSpy.mockClear();
+
+      // Act
+      service.disconnect();
+      closedSocket.onclose?.(new CloseEvent('close'));
+      vi.advanceTimersByTime(3000);
+
+      // Assert
+      expect(WebSocketConstructorSpy).not.toHaveBeenCalled();
+    });
+
+    it('should reconnect immediately when the browser comes back online', () => {
+      // Arrange
+      service.connect();
+      mockWebSocket.onclose?.(new CloseEvent('close'));
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const WebSocketConstructorSpy = vi.spyOn(global, 'WebSocket' as any);
+      WebSocketConstructorSpy.mockClear();
+
+      // Act
+      window.dispatchEvent(new Event('online'));
+      vi.advanceTimersByTime(3000);
+
+      // Assert - The pending attempt is replaced, not added to
+      expect(WebSocketConstructorSpy).toHaveBeenCalledTimes(1);
+      expect(consoleWarnSpy).toHaveBeenCalledWith('🌐 Back online - reconnecting now');
+    });
+
+    it('should resume after giving up when the browser comes back online', () => {
+      // Arrange
+      service.connect();
+      for (let i = 0; i < 6; i++) {
+        mockWebSocket.onclose?.(new CloseEvent('close'));
+        vi.advanceTimersByTime(3000);
+      }
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const WebSocketConstructorSpy = vi.spyOn(global, 'WebSocket' as any);
+      WebSocketConstructorSpy.mockClear();
+
+      // Act
+      window.dispatchEvent(new Event('online'));
+      mockWebSocket.onclose?.(new CloseEvent('close'));
+
+      // Assert - Attempts start again from the first
+      expect(WebSocketConstructorSpy).toHaveBeenCalledTimes(1);
+      expect(consoleWarnSpy).toHaveBeenLastCalledWith('🔄 Reconnection attempt 1/5...');
+    });
+
+    it('should ignore the online event while connected', () => {
+      // Arrange
+      service.connect();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const WebSocketConstructorSpy = vi.spyOn(global, 'WebSocket' as any);
+      WebSocketConstructorSpy.mockClear();
+
+      // Act
+      window.dispatchEvent(new Event('online'));
+
+      // Assert
+      expect(WebSocketConstructorSpy).not.toHaveBeenCalled();
+    });
+
+    it('should stop listening for the online event after disconnecting', () => {
+      // Arrange
+      service.connect();
+      service.disconnect();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const WebSocketConstructorSpy = vi.spyOn(global, 'WebSocket' as any);
+      WebSocketConstructorSpy.mockClear();
+
+      // Act
+      window.dispatchEvent(new Event('online'));
+
+      // Assert
+      expect(WebSocketConstructorSpy).not.toHaveBeenCalled();
+    });
+
     it.skip('should reset reconnect attempts when connection opens successfully', () => {
       // Arrange
       service.connect();
@@ -546,4 +789,319 @@ describe('WebSocketService', () => {
       );
     });
   });
+
+  describe('connection state', () => {
+    let states: ConnectionState[];
+
+    beforeEach(() => {
+      // Arrange - Record every state the service reports
+      service = new WebSocketService(onMessage, fixedPolicy);
+      states = [];
+      service.onStateChange(state => states.push(state));
+    });
+
+    it('should be connecting before the first attempt', () => {
+      expect(service.getState()).toEqual({ status: 'connecting' });
+    });
+
+    it('should report connecting, then open', () => {
+      // Act
+      service.connect();
+      mockWebSocket.onopen?.(new Event('open'));
+
+      // Assert
+      expect(states).toEqual([{ status: 'connecting' }, { status: 'open' }]);
+      expect(service.getState()).toEqual({ status: 'open' });
+    });
+
+    it('should report each reconnection attempt and then offline', () => {
+      // Arrange
+      service.connect();
+
+      // Act
+      for (let i = 0; i < 6; i++) {
+        mockWebSocket.onclose?.(new CloseEvent('close'));
+        vi.advanceTimersByTime(3000);
+      }
+
+      // Assert
+      expect(states).toEqual([
+        { status: 'connecting' },
+        { status: 'reconnecting', attempt: 1, maxAttempts: 5 },
+        { status: 'reconnecting', attempt: 2, maxAttempts: 5 },
+        { status: 'reconnecting', attempt: 3, maxAttempts: 5 },
+        { status: 'reconnecting', attempt: 4, maxAttempts: 5 },
+        { status: 'reconnecting', attempt: 5, maxAttempts: 5 },
+        { status: 'offline' },
+      ]);
+    });
+
+    it('should report offline after disconnecting', () => {
+      // Arrange
+      service.connect();
+      mockWebSocket.onopen?.(new Event('open'));
+
+      // Act
+      service.disconnect();
+
+      // Assert
+      expect(service.getState()).toEqual({ status: 'offline' });
+    });
+
+    it('should stop notifying after unsubscribing', () => {
+      // Arrange
+      const listener = vi.fn();
+      const unsubscribe = service.onStateChange(listener);
+
+      // Act
+      unsubscribe();
+      service.connect();
+
+      // Assert
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reconnectNow', () => {
+    beforeEach(() => {
+      // Arrange - Create service instance before each test
+      service = new WebSocketService(onMessage, fixedPolicy);
+    });
+
+    it('should connect immediately after giving up', () => {
+      // Arrange
+      service.connect();
+      for (let i = 0; i < 6; i++) {
+        mockWebSocket.onclose?.(new CloseEvent('close'));
+        vi.advanceTimersByTime(3000);
+      }
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const WebSocketConstructorSpy = vi.spyOn(global, 'WebSocket' as any);
+      WebSocketConstructorSpy.mockClear();
+
+      // Act
+      service.reconnectNow();
+
+      // Assert
+      expect(WebSocketConstructorSpy).toHaveBeenCalledTimes(1);
+      expect(service.getState()).toEqual({ status: 'connecting' });
+    });
+
+    it('should cancel the pending attempt instead of adding another', () => {
+      // Arrange
+      service.connect();
+      mockWebSocket.onclose?.(new CloseEvent('close'));
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const WebSocketConstructorSpy = vi.spyOn(global, 'WebSocket' as any);
+      WebSocketConstructorSpy.mockClear();
+
+      // Act
+      service.reconnectNow();
+      vi.advanceTimersByTime(3000);
+
+      // Assert
+      expect(WebSocketConstructorSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should replace a socket that is still connecting', () => {
+      // Arrange
+      service.connect();
+      const stalledSocket = mockWebSocket;
+
+      // Act
+      service.reconnectNow();
+
+      // Assert
+      expect(stalledSocket.close).toHaveBeenCalledTimes(1);
+      expect(mockWebSocket).not.toBe(stalledSocket);
+    });
+  });
+
+  describe('heartbeat', () => {
+    const open = () => {
+      service.connect();
+      mockWebSocket.readyState = WS_OPEN;
+      mockWebSocket.onopen?.(new Event('open'));
+    };
+    const receive = (data: unknown) =>
+      mockWebSocket.onmessage?.(new MessageEvent('message', { data: JSON.stringify(data) }));
+
+    beforeEach(() => {
+      // Arrange - Create service instance with a short heartbeat
+      service = new WebSocketService(onMessage, fixedPolicy, heartbeatPolicy);
+    });
+
+    it('should ping after the interval once the connection opens', () => {
+      // Arrange
+      open();
+
+      // Act
+      vi.advanceTimersByTime(999);
+      const sentEarly = mockWebSocket.send.mock.calls.length;
+      vi.advanceTimersByTime(1);
+
+      // Assert
+      expect(sentEarly).toBe(0);
+      expect(mockWebSocket.send).toHaveBeenCalledWith(JSON.stringify({ type: 'ping', version: 1 }));
+    });
+
+    it('should keep the connection when the pong arrives in time', () => {
+      // Arrange
+      open();
+      const socket = mockWebSocket;
+      vi.advanceTimersByTime(1000);
+
+      // Act
+      receive({ type: 'pong' });
+      vi.advanceTimersByTime(500);
+
+      // Assert
+      expect(socket.close).not.toHaveBeenCalled();
+      expect(onMessage).not.toHaveBeenCalled();
+      expect(service.getState()).toEqual({ status: 'open' });
+    });
+
+    it('should delay the next ping while messages are arriving', () => {
+      // Arrange
+      open();
+
+      // Act
+      vi.advanceTimersByTime(800);
+      receive({ type: 'document.deleted', version: 1, documentId: 'doc-1' });
+      vi.advanceTimersByTime(800);
+
+      // Assert
+      expect(mockWebSocket.send).not.toHaveBeenCalled();
+    });
+
+    it('should reconnect when no pong arrives before the timeout', () => {
+      // Arrange
+      open();
+      const staleSocket = mockWebSocket;
+
+      // Act
+      vi.advanceTimersByTime(1000 + 500);
+
+      // Assert
+      expect(staleSocket.close).toHaveBeenCalledTimes(1);
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        '💤 WebSocket stopped responding - reconnecting...'
+      );
+      expect(service.getState()).toEqual({ status: 'reconnecting', attempt: 1, maxAttempts: 5 });
+
+      // Act - The stale socket closing late must not schedule a second attempt
+      staleSocket.onclose?.(new CloseEvent('close'));
+      vi.advanceTimersByTime(3000);
+
+      // Assert
+      expect(mockWebSocket).not.toBe(staleSocket);
+      expect(consoleWarnSpy).not.toHaveBeenCalledWith('🔄 Reconnection attempt 2/5...');
+    });
+
+    it('should not ping after disconnecting', () => {
+      // Arrange
+      open();
+      const socket = mockWebSocket;
+
+      // Act
+      service.disconnect();
+      vi.advanceTimersByTime(5000);
+
+      // Assert
+      expect(socket.send).not.toHaveBeenCalled();
+    });
+
+    it('should not ping when the interval is 0', () => {
+      // Arrange
+      service = new WebSocketService(onMessage, fixedPolicy, { interval: 0, timeout: 500 });
+      open();
+
+      // Act
+      vi.advanceTimersByTime(60_000);
+      document.dispatchEvent(new Event('visibilitychange'));
+
+      // Assert
+      expect(mockWebSocket.send).not.toHaveBeenCalled();
+    });
+
+    describe('when the tab becomes visible', () => {
+      let visibilityState: DocumentVisibilityState;
+
+      beforeEach(() => {
+        visibilityState = 'visible';
+        vi.spyOn(document, 'visibilityState', 'get').mockImplementation(() => visibilityState);
+      });
+
+      it('should ping straight away to verify the connection', () => {
+        // Arrange
+        open();
+
+        // Act
+        document.dispatchEvent(new Event('visibilitychange'));
+
+        // Assert
+        expect(mockWebSocket.send).toHaveBeenCalledWith(
+          JSON.stringify({ type: 'ping', version: 1 })
+        );
+      });
+
+      it('should not ping when the tab is hidden', () => {
+        // Arrange
+        open();
+        visibilityState = 'hidden';
+
+        // Act
+        document.dispatchEvent(new Event('visibilitychange'));
+
+        // Assert
+        expect(mockWebSocket.send).not.toHaveBeenCalled();
+      });
+
+      it('should not send a second ping while waiting for a pong', () => {
+        // Arrange
+        open();
+        document.dispatchEvent(new Event('visibilitychange'));
+
+        // Act
+        document.dispatchEvent(new Event('visibilitychange'));
+
+        // Assert
+        expect(mockWebSocket.send).toHaveBeenCalledTimes(1);
+      });
+
+      it('should reconnect now instead of waiting for a pending attempt', () => {
+        // Arrange
+        open();
+        mockWebSocket.onclose?.(new CloseEvent('close'));
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const WebSocketConstructorSpy = vi.spyOn(global, 'WebSocket' as any);
+        WebSocketConstructorSpy.mockClear();
+
+        // Act
+        document.dispatchEvent(new Event('visibilitychange'));
+
+        // Assert
+        expect(WebSocketConstructorSpy).toHaveBeenCalledTimes(1);
+        expect(service.getState()).toEqual({ status: 'connecting' });
+      });
+
+      it('should leave a reconnection attempt that already started alone', () => {
+        // Arrange
+        open();
+        mockWebSocket.onclose?.(new CloseEvent('close'));
+        vi.advanceTimersByTime(3000);
+        const connecting = mockWebSocket;
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const WebSocketConstructorSpy = vi.spyOn(global, 'WebSocket' as any);
+        WebSocketConstructorSpy.mockClear();
+
+        // Act
+        document.dispatchEvent(new Event('visibilitychange'));
+
+        // Assert
+        expect(WebSocketConstructorSpy).not.toHaveBeenCalled();
+        expect(connecting.close).not.toHaveBeenCalled();
+      });
+    });
+  });
 });
@@ -1,20 +1,56 @@
-import { SocketsNotification } from '../models/sockets';
+import type {
+  ConnectionState,
+  HeartbeatPolicy,
+  ReconnectPolicy,
+  SocketMessage,
+} from '../models/sockets';
 import { environment } from '../config/environment';
+import { createPing, decodeSocketMessage, isPong } from '../utils/socketMessageUtils';
+import { canReconnect, getReconnectDelay } from '../utils/reconnectUtils';
 
 export class WebSocketService {
   private ws: WebSocket | null = null;
-  private onDocumentReceived: (notification: SocketsNotification) => void;
+  private onMessage: (message: SocketMessage) => void;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 3000;
   private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimeout: ReturnType<typeof setTimeout> | null = null;
+  private pongTimeout: ReturnType<typeof setTimeout> | null = null;
+  private droppedMessages = 0;
+  private state: ConnectionState = { status: 'connecting' };
+  private stateListeners = new Set<(state: ConnectionState) => void>();
+  private handleOnline = () => {
+    // Already connected or connecting
+    if (this.ws) return;
+    console.warn('🌐 Back online - reconnecting now');
+    this.reconnectNow();
+  };
+  // Timers are throttled in background tabs, so check the connection as soon as the user is back
+  private handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') this.verify();
+  };
 
-  constructor(onDocumentReceived: (notification: SocketsNotification) => void) {
-    this.onDocumentReceived = onDocumentReceived;
+  /**
+   * @param onMessage - Callback invoked with each decoded message; frames that cannot be decoded are dropped
+   * @param reconnectPolicy - Optional backoff and retry limit, defaults to the environment's
+   * @param heartbeatPolicy - Optional ping interval and pong timeout, defaults to the environment's
+   */
+  constructor(
+    onMessage: (message: SocketMessage) => void,
+    private reconnectPolicy: ReconnectPolicy = environment.websocket.reconnect,
+    private heartbeatPolicy: HeartbeatPolicy = environment.websocket.heartbeat
+  ) {
+    this.onMessage = onMessage;
   }
 
   connect(): void {
     const wsUrl = environment.websocket.url;
+    // Registering the same listener twice is a no-op, so reconnects can call this freely
+    window.addEventListener('online', this.handleOnline);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    // A scheduled attempt keeps showing its number until it opens or fails
+    if (this.reconnectAttempts === 0) {
+      this.setState({ status: 'connecting' });
+    }
 
     try {
       this.ws = new WebSocket(wsUrl);
@@ -22,15 +58,36 @@ export class WebSocketService {
       this.ws.onopen = () => {
         console.warn('✅ WebSocket connected - real-time updates enabled');
         this.reconnectAttempts = 0;
+        this.setState({ status: 'open' });
+        this.scheduleHeartbeat();
       };
 
       this.ws.onmessage = event => {
+        // Any frame proves the connection is alive, so the next ping can wait
+        this.scheduleHeartbeat();
+
+        let data: unknown;
         try {
-          const notification: SocketsNotification = JSON.parse(event.data);
-          this.onDocumentReceived(notification);
+          data = JSON.parse(event.data);
         } catch (error) {
+          this.droppedMessages++;
           console.error('Error parsing WebSocket message:', error);
+          return;
+        }
+        if (isPong(data)) return;
+
+        const result = decodeSocketMessage(data);
+        if (!result.valid) {
+          this.droppedMessages++;
+          console.warn(
+            `Ignoring WebSocket message: ${result.field} ${result.message} (${this.droppedMessages} dropped)`
+          );
+          return;
+        }
+        if (result.repairs) {
+          console.warn(`Repaired WebSocket message: ${result.repairs.join(', ')}`);
         }
+        this.onMessage(result.value);
       };
 
       this.ws.onerror = () => {
@@ -38,6 +95,8 @@ export class WebSocketService {
       };
 
       this.ws.onclose = () => {
+        this.ws = null;
+        this.stopHeartbeat();
         console.warn('🔌 WebSocket disconnected - attempting reconnection...');
         this.attemptReconnect();
       };
@@ -48,17 +107,114 @@ export class WebSocketService {
   }
 
   private attemptReconnect(): void {
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
+    if (canReconnect(this.reconnectPolicy, this.reconnectAttempts)) {
       this.reconnectAttempts++;
-      console.warn(
-        `🔄 Reconnection attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts}...`
-      );
-      this.reconnectTimeout = setTimeout(() => this.connect(), this.reconnectDelay);
+      const { maxAttempts } = this.reconnectPolicy;
+      const progress = Number.isFinite(maxAttempts)
+        ? `${this.reconnectAttempts}/${maxAttempts}`
+        : `${this.reconnectAttempts}`;
+      console.warn(`🔄 Reconnection attempt ${progress}...`);
+      const delay = getReconnectDelay(this.reconnectPolicy, this.reconnectAttempts);
+      this.reconnectTimeout = setTimeout(() => {
+        this.reconnectTimeout = null;
+        this.connect();
+      }, delay);
+      this.setState({ status: 'reconnecting', attempt: this.reconnectAttempts, maxAttempts });
     } else {
       console.warn('📴 Running in offline mode - data saved locally');
+      this.setState({ status: 'offline' });
+    }
+  }
+
+  private scheduleHeartbeat(): void {
+    this.stopHeartbeat();
+    if (!(this.heartbeatPolicy.interval > 0)) return;
+
+    this.heartbeatTimeout = setTimeout(() => this.ping(), this.heartbeatPolicy.interval);
+  }
+
+  /**
+   * Sends a ping and treats the connection as dead if nothing comes back in time
+   * A half-open socket, e.g. after the laptop slept, never fires `onclose` on its own
+   */
+  private ping(): void {
+    if (!(this.heartbeatPolicy.interval > 0) || this.pongTimeout) return;
+
+    this.send(createPing());
+    this.pongTimeout = setTimeout(() => {
+      console.warn('💤 WebSocket stopped responding - reconnecting...');
+      this.dropConnection();
+      this.attemptReconnect();
+    }, this.heartbeatPolicy.timeout);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimeout) {
+      clearTimeout(this.heartbeatTimeout);
+      this.heartbeatTimeout = null;
+    }
+    if (this.pongTimeout) {
+      clearTimeout(this.pongTimeout);
+      this.pongTimeout = null;
+    }
+  }
+
+  /**
+   * Closes the socket without the `onclose` handler scheduling a reconnection
+   */
+  private dropConnection(): void {
+    this.stopHeartbeat();
+    if (this.ws) {
+      this.ws.onclose = null;
+      this.ws.close();
+      this.ws = null;
     }
   }
 
+  /**
+   * Pings an open connection, or brings a scheduled reconnection forward
+   * Used when this tab, or a follower tab relying on it, becomes visible again
+   */
+  verify(): void {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ping();
+    } else if (this.reconnectTimeout) {
+      this.reconnectNow();
+    }
+  }
+
+  /**
+   * Reconnects straight away, even after giving up, instead of waiting out the current backoff delay
+   * Used when the browser comes back online and when the user asks to retry
+   */
+  reconnectNow(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.dropConnection();
+    this.reconnectAttempts = 0;
+    this.connect();
+  }
+
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Subscribes to connection state changes
+   * @returns Unsubscribe function
+   */
+  onStateChange(listener: (state: ConnectionState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => this.stateListeners.delete(listener);
+  }
+
+  private setState(state: ConnectionState): void {
+    this.state = state;
+    this.stateListeners.forEach(listener => listener(state));
+  }
+
   disconnect(): void {
     // Clear any pending reconnection attempts
     if (this.reconnectTimeout) {
@@ -66,12 +222,20 @@ export class WebSocketService {
       this.reconnectTimeout = null;
     }
 
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
+    window.removeEventListener('online', this.handleOnline);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    // Closing on purpose must not schedule a reconnection
+    this.dropConnection();
 
     this.reconnectAttempts = 0;
+    this.setState({ status: 'offline' });
+  }
+
+  /**
+   * Number of frames dropped as unreadable or invalid since this service was created
+   */
+  getDroppedMessageCount(): number {
+    return this.droppedMessages;
   }
 
   send(data: unknown): void {
@@ -2,6 +2,9 @@ import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { Store } from './store';
 import { Document } from '../models/document';
 import * as storageUtils from '../utils/storageUtils';
+import type { StorageAdapter } from '../services/storageAdapter';
+import { TabSyncService } from '../services/tabSyncService';
+import type { SyncMessage } from '../models/sync';
 
 // Mock storage utilities
 vi.mock('../utils/storageUtils');
@@ -49,6 +52,9 @@ describe('Store', () => {
     vi.clearAllMocks();
     vi.mocked(storageUtils.loadDocuments).mockReturnValue([]);
     vi.mocked(storageUtils.saveDocuments).mockImplementation(() => {});
+    vi.mocked(storageUtils.saveRevisions).mockImplementation(() => {});
+    vi.mocked(storageUtils.loadPreferences).mockReturnValue({});
+    vi.mocked(storageUtils.loadRevisions).mockReturnValue([]);
 
     // Reset singleton instance for each test
     // @ts-expect-error - accessing private static for testing
@@ -84,9 +90,280 @@ describe('Store', () => {
     });
   });
 
+  describe('loading', () => {
+    const createStorage = (load: Promise<Document[]>): StorageAdapter => ({
+      loadDocuments: vi.fn().mockReturnValue(load),
+      saveDocument: vi.fn().mockResolvedValue(undefined),
+      deleteDocuments: vi.fn().mockResolvedValue(undefined),
+      estimateUsage: vi.fn().mockResolvedValue(null),
+    });
+
+    it('should load documents asynchronously and notify once loaded', async () => {
+      const storage = createStorage(Promise.resolve([...mockDocuments]));
+      store = Store.getInstance(storage);
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      expect(store.getDocuments()).toHaveLength(0);
+
+      await store.whenLoaded();
+
+      expect(store.getDocuments()).toHaveLength(3);
+      expect(listener).toHaveBeenCalled();
+    });
+
+    it('should keep documents added while loading', async () => {
+      let resolveLoad!: (documents: Document[]) => void;
+      const storage = createStorage(new Promise(resolve => (resolveLoad = resolve)));
+      store = Store.getInstance(storage);
+      const received = { ...mockDocuments[0], ID: 'doc-live' };
+
+      store.addDocument(received);
+      resolveLoad([...mockDocuments, received]);
+      await store.whenLoaded();
+
+      expect(store.getDocuments().map(d => d.ID)).toHaveLength(4);
+      expect(storage.saveDocument).toHaveBeenCalledWith(received);
+    });
+
+    it('should start empty when loading fails', async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      store = Store.getInstance(createStorage(Promise.reject(new Error('Blocked'))));
+
+      await store.whenLoaded();
+
+      expect(store.getDocuments()).toEqual([]);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to load documents:', expect.any(Error));
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should save and delete documents record by record', async () => {
+      const storage = createStorage(Promise.resolve([...mockDocuments]));
+      store = Store.getInstance(storage);
+      await store.whenLoaded();
+
+      store.trashDocument('doc-1');
+      store.removeDocument('doc-2');
+
+      expect(storage.saveDocument).toHaveBeenCalledWith(
+        expect.objectContaining({ ID: 'doc-1', DeletedAt: expect.any(Date) })
+      );
+      expect(storage.deleteDocuments).toHaveBeenCalledWith(['doc-2']);
+    });
+
+    it('should log failed writes without undoing the change', async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const storage = createStorage(Promise.resolve([]));
+      vi.mocked(storage.saveDocument).mockRejectedValue(new Error('QuotaExceededError'));
+      store = Store.getInstance(storage);
+      await store.whenLoaded();
+
+      store.addDocument(mockDocuments[0]);
+      await Promise.resolve();
+
+      expect(store.getDocument('doc-1')).toBeDefined();
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to save documents:', expect.any(Error));
+      expect(store.getStorageHealth()).toEqual({ status: 'error', error: 'QuotaExceededError' });
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should warn when usage crosses the warning threshold', async () => {
+      const storage = createStorage(Promise.resolve([]));
+      vi.mocked(storage.estimateUsage).mockResolvedValue({ usage: 90, quota: 100 });
+      store = Store.getInstance(storage);
+      await store.whenLoaded();
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      store.addDocument(mockDocuments[0]);
+      await vi.waitFor(() => expect(store.getStorageHealth().status).toBe('warning'));
+
+      expect(store.getStorageHealth().usage).toEqual({ usage: 90, quota: 100 });
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep the error while another document saves successfully', async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const storage = createStorage(Promise.resolve([]));
+      vi.mocked(storage.saveDocument).mockRejectedValueOnce(new Error('QuotaExceededError'));
+      vi.mocked(storage.estimateUsage).mockResolvedValue({ usage: 10, quota: 100 });
+      store = Store.getInstance(storage);
+      await store.whenLoaded();
+
+      store.addDocument(mockDocuments[0]);
+      await vi.waitFor(() => expect(store.getStorageHealth().status).toBe('error'));
+      store.addDocument(mockDocuments[1]);
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(storage.estimateUsage).not.toHaveBeenCalled();
+      expect(store.getStorageHealth().status).toBe('error');
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should clear the error once every failed document is written again', async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const storage = createStorage(Promise.resolve([]));
+      vi.mocked(storage.saveDocument).mockRejectedValueOnce(new Error('QuotaExceededError'));
+      vi.mocked(storage.estimateUsage).mockResolvedValue({ usage: 10, quota: 100 });
+      store = Store.getInstance(storage);
+      await store.whenLoaded();
+
+      store.addDocument(mockDocuments[0]);
+      await vi.waitFor(() => expect(store.getStorageHealth().status).toBe('error'));
+      store.updateDocument({ ...mockDocuments[0], Title: 'Saved again' });
+      await vi.waitFor(() => expect(store.getStorageHealth().status).toBe('ok'));
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should treat a deleted document as no longer failing', async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const storage = createStorage(Promise.resolve([]));
+      vi.mocked(storage.saveDocument).mockRejectedValueOnce(new Error('QuotaExceededError'));
+      vi.mocked(storage.estimateUsage).mockResolvedValue({ usage: 10, quota: 100 });
+      store = Store.getInstance(storage);
+      await store.whenLoaded();
+
+      store.addDocument(mockDocuments[0]);
+      await vi.waitFor(() => expect(store.getStorageHealth().status).toBe('error'));
+      store.removeDocument('doc-1');
+      await vi.waitFor(() => expect(store.getStorageHealth().status).toBe('ok'));
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should keep the status when usage cannot be estimated', async () => {
+      const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const storage = createStorage(Promise.resolve([]));
+      vi.mocked(storage.estimateUsage).mockRejectedValue(new Error('SecurityError'));
+      store = Store.getInstance(storage);
+      await store.whenLoaded();
+
+      store.addDocument(mockDocuments[0]);
+      await vi.waitFor(() => expect(consoleWarnSpy).toHaveBeenCalled());
+
+      expect(store.getStorageHealth().status).toBe('ok');
+      consoleWarnSpy.mockRestore();
+    });
+  });
+
+  describe('cross-tab sync', () => {
+    let channel: BroadcastChannel;
+    let storage: StorageAdapter;
+
+    const receive = (message: SyncMessage) =>
+      channel.onmessage?.(new MessageEvent('message', { data: message }));
+
+    beforeEach(async () => {
+      channel = {
+        postMessage: vi.fn(),
+        close: vi.fn(),
+        onmessage: null,
+      } as unknown as BroadcastChannel;
+      storage = {
+        loadDocuments: vi.fn().mockResolvedValue([{ ...mockDocuments[0] }]),
+        saveDocument: vi.fn().mockResolvedValue(undefined),
+        deleteDocuments: vi.fn().mockResolvedValue(undefined),
+        estimateUsage: vi.fn().mockResolvedValue(null),
+      };
+      store = Store.getInstance(storage, new TabSyncService(channel));
+      await store.whenLoaded();
+    });
+
+    it('should send saved and deleted documents to other tabs', () => {
+      store.addDocument(mockDocuments[1]);
+      store.trashDocument('doc-1');
+      store.removeDocument('doc-2');
+
+      expect(vi.mocked(channel.postMessage).mock.calls.map(([message]) => message)).toEqual([
+        { type: 'document.saved', document: mockDocuments[1] },
+        {
+          type: 'document.saved',
+          document: expect.objectContaining({ ID: 'doc-1', DeletedAt: expect.any(Date) }),
+        },
+        { type: 'documents.deleted', ids: ['doc-2'] },
+      ]);
+    });
+
+    it('should save revisions before other tabs are told to reload them', () => {
+      const calls: string[] = [];
+      vi.mocked(storageUtils.saveRevisions).mockImplementation(() => calls.push('save'));
+      vi.mocked(channel.postMessage).mockImplementation(() => calls.push('publish'));
+
+      store.updateDocument({ ...mockDocuments[0], Title: 'Alpha Fixed' });
+
+      expect(calls).toEqual(['save', 'publish']);
+    });
+
+    it('should send preference changes to other tabs', () => {
+      store.setViewMode('grid');
+
+      expect(channel.postMessage).toHaveBeenCalledWith({
+        type: 'preferences.changed',
+        preferences: { sortCriteria: [{ field: 'CreatedAt', order: 'desc' }], viewMode: 'grid' },
+      });
+    });
+
+    it('should not send preferences set with persist: false', () => {
+      store.setViewMode('grid', { persist: false });
+
+      expect(channel.postMessage).not.toHaveBeenCalled();
+    });
+
+    it('should merge documents added in another tab without saving them again', () => {
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      receive({ type: 'document.saved', document: mockDocuments[1] });
+
+      expect(store.getDocument('doc-2')).toEqual(mockDocuments[1]);
+      expect(storage.saveDocument).not.toHaveBeenCalled();
+      expect(storageUtils.loadRevisions).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply edits from another tab and ignore older copies', () => {
+      const edited = {
+        ...mockDocuments[0],
+        Title: 'Edited elsewhere',
+        UpdatedAt: new Date('2024-02-01T00:00:00Z'),
+      };
+
+      receive({ type: 'document.saved', document: edited });
+      receive({ type: 'document.saved', document: mockDocuments[0] });
+
+      expect(store.getDocument('doc-1')?.Title).toBe('Edited elsewhere');
+      expect(store.getDocuments()).toHaveLength(1);
+    });
+
+    it('should drop documents deleted in another tab', () => {
+      receive({ type: 'documents.deleted', ids: ['doc-1'] });
+
+      expect(store.getDocument('doc-1')).toBeUndefined();
+      expect(storage.deleteDocuments).not.toHaveBeenCalled();
+
+      // The ID is free again once the document is gone
+      store.addDocument(mockDocuments[0]);
+      expect(store.getDocument('doc-1')).toBeDefined();
+    });
+
+    it('should apply preferences from another tab without saving or sending them', () => {
+      receive({
+        type: 'preferences.changed',
+        preferences: { sortCriteria: [{ field: 'Title', order: 'asc' }], viewMode: 'grid' },
+      });
+
+      expect(store.getViewMode()).toBe('grid');
+      expect(store.getSortField()).toBe('Title');
+      expect(storageUtils.savePreferences).not.toHaveBeenCalled();
+    });
+  });
+
   describe('subscribe', () => {
-    beforeEach(() => {
+    beforeEach(async () => {
       store = Store.getInstance();
+      await store.whenLoaded();
     });
 
     it('should call listener when store changes', () => {
@@ -142,9 +419,10 @@ describe('Store', () => {
   });
 
   describe('getDocuments', () => {
-    beforeEach(() => {
+    beforeEach(async () => {
       vi.mocked(storageUtils.loadDocuments).mockReturnValue([...mockDocuments]);
       store = Store.getInstance();
+      await store.whenLoaded();
     });
 
     it('should return sorted documents', () => {
@@ -180,9 +458,10 @@ describe('Store', () => {
   });
 
   describe('addDocument', () => {
-    beforeEach(() => {
+    beforeEach(async () => {
       vi.mocked(storageUtils.loadDocuments).mockReturnValue([...mockDocuments]);
       store = Store.getInstance();
+      await store.whenLoaded();
     });
 
     it('should add new document to store', () => {
@@ -276,177 +555,1033 @@ describe('Store', () => {
     });
   });
 
-  describe('sorting', () => {
-    beforeEach(() => {
+  describe('updateDocument', () => {
+    beforeEach(async () => {
       vi.mocked(storageUtils.loadDocuments).mockReturnValue([...mockDocuments]);
       store = Store.getInstance();
+      await store.whenLoaded();
     });
 
-    describe('sort by Title', () => {
-      it('should sort documents by title ascending', () => {
-        store.setSortField('Title');
-        store.setSortOrder('asc');
-
-        const docs = store.getDocuments();
-        expect(docs[0].Title).toBe('Alpha Document');
-        expect(docs[1].Title).toBe('Beta Document');
-        expect(docs[2].Title).toBe('Charlie Document');
-      });
-
-      it('should sort documents by title descending', () => {
-        store.setSortField('Title');
-        store.setSortOrder('desc');
+    it('should replace the document with the same ID', () => {
+      store.updateDocument({ ...mockDocuments[0], Title: 'Alpha Fixed' });
 
-        const docs = store.getDocuments();
-        expect(docs[0].Title).toBe('Charlie Document');
-        expect(docs[1].Title).toBe('Beta Document');
-        expect(docs[2].Title).toBe('Alpha Document');
-      });
+      const docs = store.getDocuments();
+      expect(docs).toHaveLength(3);
+      expect(store.getDocument('doc-1')?.Title).toBe('Alpha Fixed');
     });
 
-    describe('sort by Version', () => {
-      it('should sort semantic versions correctly ascending', () => {
-        store.setSortField('Version');
-        store.setSortOrder('asc');
+    it('should bump UpdatedAt', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-02-01T00:00:00Z'));
 
-        const docs = store.getDocuments();
-        expect(docs[0].Version).toBe('1.0.0');
-        expect(docs[1].Version).toBe('2.5.1');
-        expect(docs[2].Version).toBe(3);
-      });
+      store.updateDocument({ ...mockDocuments[0], Title: 'Alpha Fixed' });
 
-      it('should sort semantic versions correctly descending', () => {
-        store.setSortField('Version');
-        store.setSortOrder('desc');
+      expect(store.getDocument('doc-1')?.UpdatedAt.toISOString()).toBe('2024-02-01T00:00:00.000Z');
+      expect(store.getDocument('doc-1')?.CreatedAt).toEqual(mockDocuments[0].CreatedAt);
+      vi.useRealTimers();
+    });
 
-        const docs = store.getDocuments();
-        // Mixed version types: semantic versions are compared separately from numeric
-        expect(docs[0].Version).toBe('2.5.1');
-        expect(docs[1].Version).toBe('1.0.0');
-        expect(docs[2].Version).toBe(3);
-      });
+    it('should keep the given UpdatedAt when asked to', () => {
+      const serverTime = new Date('2024-03-01T12:00:00Z');
 
-      it('should handle mixed version formats', () => {
-        const mixedVersionDocs: Document[] = [
-          { ...mockDocuments[0], ID: 'v1', Version: '1.0.0' },
-          { ...mockDocuments[0], ID: 'v2', Version: '1.2.0' },
-          { ...mockDocuments[0], ID: 'v3', Version: '1.1.5' },
-          { ...mockDocuments[0], ID: 'v4', Version: 2 },
-        ];
+      store.updateDocument(
+        { ...mockDocuments[0], Title: 'Alpha Fixed', UpdatedAt: serverTime },
+        'Bob',
+        {
+          keepUpdatedAt: true,
+        }
+      );
 
-        vi.mocked(storageUtils.loadDocuments).mockReturnValue(mixedVersionDocs);
-        // @ts-expect-error - reset singleton
-        Store.instance = undefined;
-        store = Store.getInstance();
+      expect(store.getDocument('doc-1')?.UpdatedAt).toEqual(serverTime);
+    });
 
-        store.setSortField('Version');
-        store.setSortOrder('asc');
+    it('should save and notify after updating', () => {
+      const listener = vi.fn();
+      store.subscribe(listener);
 
-        const docs = store.getDocuments();
-        expect(docs[0].Version).toBe('1.0.0');
-        expect(docs[1].Version).toBe('1.1.5');
-        expect(docs[2].Version).toBe('1.2.0');
-        expect(docs[3].Version).toBe(2);
-      });
+      store.updateDocument({ ...mockDocuments[1], Version: '2.6.0' });
+
+      expect(storageUtils.saveDocuments).toHaveBeenCalledWith(
+        expect.arrayContaining([expect.objectContaining({ ID: 'doc-2', Version: '2.6.0' })])
+      );
+      expect(listener).toHaveBeenCalledTimes(1);
     });
 
-    describe('sort by CreatedAt', () => {
-      it('should sort by creation date ascending', () => {
-        store.setSortField('CreatedAt');
-        store.setSortOrder('asc');
+    it('should ignore unknown documents', () => {
+      const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const listener = vi.fn();
+      store.subscribe(listener);
 
-        const docs = store.getDocuments();
-        expect(docs[0].CreatedAt.toISOString()).toBe('2024-01-14T10:30:00.000Z');
-        expect(docs[1].CreatedAt.toISOString()).toBe('2024-01-15T10:30:00.000Z');
-        expect(docs[2].CreatedAt.toISOString()).toBe('2024-01-16T10:30:00.000Z');
-      });
+      store.updateDocument({ ...mockDocuments[0], ID: 'missing' });
 
-      it('should sort by creation date descending', () => {
-        store.setSortField('CreatedAt');
-        store.setSortOrder('desc');
+      expect(consoleWarnSpy).toHaveBeenCalledWith('Document with ID missing does not exist');
+      expect(storageUtils.saveDocuments).not.toHaveBeenCalled();
+      expect(listener).not.toHaveBeenCalled();
 
-        const docs = store.getDocuments();
-        expect(docs[0].CreatedAt.toISOString()).toBe('2024-01-16T10:30:00.000Z');
-        expect(docs[1].CreatedAt.toISOString()).toBe('2024-01-15T10:30:00.000Z');
-        expect(docs[2].CreatedAt.toISOString()).toBe('2024-01-14T10:30:00.000Z');
-      });
+      consoleWarnSpy.mockRestore();
     });
   });
 
-  describe('setSortField', () => {
-    beforeEach(() => {
+  describe('revisions', () => {
+    beforeEach(async () => {
+      vi.mocked(storageUtils.loadDocuments).mockReturnValue([...mockDocuments]);
       store = Store.getInstance();
+      await store.whenLoaded();
     });
 
-    it('should update sort field', () => {
-      store.setSortField('Title');
-      expect(store.getSortField()).toBe('Title');
+    it('should not record a revision when a document is added', () => {
+      store.addDocument({ ...mockDocuments[0], ID: 'doc-new' });
+
+      expect(store.getRevisions('doc-new')).toEqual([]);
+      expect(storageUtils.saveRevisions).not.toHaveBeenCalled();
     });
 
-    it('should notify listeners when sort field changes', () => {
-      const listener = vi.fn();
-      store.subscribe(listener);
+    it('should record the added copy as the baseline of its first update', () => {
+      const doc = { ...mockDocuments[0], ID: 'doc-new' };
+      store.addDocument(doc);
 
-      store.setSortField('Version');
+      store.updateDocument({ ...doc, Title: 'Renamed' });
 
-      expect(listener).toHaveBeenCalledTimes(1);
+      expect(store.getRevisions('doc-new').map(r => r.snapshot.Title)).toEqual([
+        'Renamed',
+        'Alpha Document',
+      ]);
     });
-  });
 
-  describe('setSortOrder', () => {
-    beforeEach(() => {
-      store = Store.getInstance();
+    it('should record a baseline before the first update of an existing document', () => {
+      store.updateDocument({ ...mockDocuments[0], Title: 'Alpha Fixed' });
+
+      const revisions = store.getRevisions('doc-1');
+      expect(revisions.map(r => r.snapshot.Title)).toEqual(['Alpha Fixed', 'Alpha Document']);
+      expect(revisions[1].savedAt).toEqual(mockDocuments[0].UpdatedAt);
     });
 
-    it('should update sort order', () => {
-      store.setSortOrder('asc');
-      expect(store.getSortOrder()).toBe('asc');
+    it('should keep revisions of each update, newest first', () => {
+      store.updateDocument({ ...mockDocuments[0], Version: '1.1.0' });
+      store.updateDocument({ ...mockDocuments[0], Version: '1.2.0' }, 'Bob');
+
+      const revisions = store.getRevisions('doc-1');
+      expect(revisions.map(r => r.snapshot.Version)).toEqual(['1.2.0', '1.1.0', '1.0.0']);
+      expect(revisions[0].author).toBe('Bob');
+      expect(store.getRevisions('doc-2')).toEqual([]);
     });
 
-    it('should notify listeners when sort order changes', () => {
-      const listener = vi.fn();
-      store.subscribe(listener);
+    it('should cap the number of revisions per document', () => {
+      for (let i = 0; i < 25; i++) {
+        store.updateDocument({ ...mockDocuments[0], Version: `1.${i}.0` });
+      }
 
-      store.setSortOrder('asc');
+      const revisions = store.getRevisions('doc-1');
+      expect(revisions).toHaveLength(20);
+      expect(revisions[0].snapshot.Version).toBe('1.24.0');
+    });
 
-      expect(listener).toHaveBeenCalledTimes(1);
+    it('should restore an earlier revision as a new revision', () => {
+      store.updateDocument({ ...mockDocuments[0], Title: 'Alpha Fixed' });
+      const baseline = store.getRevisions('doc-1')[1];
+
+      const restored = store.restoreRevision('doc-1', baseline.id);
+
+      expect(restored?.Title).toBe('Alpha Document');
+      expect(store.getDocument('doc-1')?.Title).toBe('Alpha Document');
+      expect(store.getRevisions('doc-1').map(r => r.snapshot.Title)).toEqual([
+        'Alpha Document',
+        'Alpha Fixed',
+        'Alpha Document',
+      ]);
     });
-  });
 
-  describe('view mode', () => {
-    beforeEach(() => {
-      store = Store.getInstance();
+    it('should keep the trash state when restoring a revision', () => {
+      store.updateDocument({ ...mockDocuments[0], Title: 'Alpha Fixed' });
+      const baseline = store.getRevisions('doc-1')[1];
+      store.trashDocument('doc-1');
+
+      store.restoreRevision('doc-1', baseline.id);
+
+      expect(store.getDocument('doc-1')?.DeletedAt).toBeInstanceOf(Date);
     });
 
-    it('should default to list view mode', () => {
-      expect(store.getViewMode()).toBe('list');
+    it('should warn about unknown revisions', () => {
+      const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(store.restoreRevision('doc-1', 'missing')).toBeUndefined();
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        'Revision missing of document doc-1 does not exist'
+      );
+
+      consoleWarnSpy.mockRestore();
     });
 
-    it('should update view mode to grid', () => {
-      store.setViewMode('grid');
-      expect(store.getViewMode()).toBe('grid');
+    it('should drop revisions of permanently removed documents', () => {
+      store.updateDocument({ ...mockDocuments[0], Title: 'Alpha Fixed' });
+
+      store.removeDocument('doc-1');
+
+      expect(store.getRevisions('doc-1')).toEqual([]);
+      expect(storageUtils.saveRevisions).toHaveBeenLastCalledWith([]);
     });
 
-    it('should update view mode to list', () => {
-      store.setViewMode('grid');
-      store.setViewMode('list');
-      expect(store.getViewMode()).toBe('list');
+    it('should cap the number of revisions across documents', () => {
+      const ids = Array.from({ length: 30 }, (_, i) => `doc-many-${i}`);
+      ids.forEach(ID => store.addDocument({ ...mockDocuments[0], ID }));
+
+      for (let i = 0; i < 20; i++) {
+        ids.forEach(ID => store.updateDocument({ ...mockDocuments[0], ID, Version: `1.${i}.0` }));
+      }
+
+      const total = ids.reduce((sum, id) => sum + store.getRevisions(id).length, 0);
+      expect(total).toBe(500);
     });
 
-    it('should notify listeners when view mode changes', () => {
+    it('should report a revision that cannot be saved through the storage health', async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(storageUtils.saveRevisions).mockImplementation(() => {
+        throw new DOMException('Storage is full', 'QuotaExceededError');
+      });
+
+      store.updateDocument({ ...mockDocuments[0], Title: 'Alpha Fixed' });
+
+      await vi.waitFor(() =>
+        expect(store.getStorageHealth()).toMatchObject({
+          status: 'error',
+          error: 'Storage is full',
+        })
+      );
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should restore persisted revisions on creation', async () => {
+      const persisted = [
+        {
+          id: 'rev-1',
+          documentId: 'doc-2',
+          snapshot: mockDocuments[1],
+          savedAt: new Date('2024-01-01'),
+        },
+      ];
+      vi.mocked(storageUtils.loadRevisions).mockReturnValue(persisted);
+      // @ts-expect-error - reset singleton
+      Store.instance = undefined;
+
+      store = Store.getInstance();
+      await store.whenLoaded();
+
+      expect(store.getRevisions('doc-2')).toEqual(persisted);
+    });
+  });
+
+  describe('removeDocument', () => {
+    beforeEach(async () => {
+      vi.mocked(storageUtils.loadDocuments).mockReturnValue([...mockDocuments]);
+      store = Store.getInstance();
+      await store.whenLoaded();
+    });
+
+    it('should remove the document and return it', () => {
+      const removed = store.removeDocument('doc-2');
+
+      expect(removed).toEqual(mockDocuments[1]);
+      expect(store.getDocuments()).toHaveLength(2);
+      expect(store.getDocument('doc-2')).toBeUndefined();
+    });
+
+    it('should persist the remaining documents and notify', () => {
       const listener = vi.fn();
       store.subscribe(listener);
 
-      store.setViewMode('grid');
+      store.removeDocument('doc-1');
 
+      const saved = vi.mocked(storageUtils.saveDocuments).mock.calls[0][0];
+      expect(saved.map(d => d.ID)).toEqual(['doc-2', 'doc-3']);
       expect(listener).toHaveBeenCalledTimes(1);
     });
+
+    it('should allow re-adding a removed document', () => {
+      const removed = store.removeDocument('doc-1');
+
+      store.addDocument(removed!);
+
+      expect(store.getDocuments()).toHaveLength(3);
+      expect(store.getDocument('doc-1')).toEqual(mockDocuments[0]);
+    });
+
+    it('should ignore unknown documents', () => {
+      const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      const removed = store.removeDocument('missing');
+
+      expect(removed).toBeUndefined();
+      expect(storageUtils.saveDocuments).not.toHaveBeenCalled();
+      expect(listener).not.toHaveBeenCalled();
+
+      consoleWarnSpy.mockRestore();
+    });
+  });
+
+  describe('trash', () => {
+    beforeEach(async () => {
+      vi.mocked(storageUtils.loadDocuments).mockReturnValue([...mockDocuments]);
+      store = Store.getInstance();
+      await store.whenLoaded();
+    });
+
+    it('should hide trashed documents from getDocuments', () => {
+      store.trashDocument('doc-1');
+
+      expect(store.getDocuments().map(d => d.ID)).not.toContain('doc-1');
+      expect(store.getTrashedDocuments().map(d => d.ID)).toEqual(['doc-1']);
+    });
+
+    it('should stamp DeletedAt and persist trashed documents', () => {
+      const trashed = store.trashDocument('doc-2');
+
+      expect(trashed?.DeletedAt).toBeInstanceOf(Date);
+      expect(storageUtils.saveDocuments).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          expect.objectContaining({ ID: 'doc-2', DeletedAt: expect.any(Date) }),
+        ])
+      );
+    });
+
+    it('should keep trashed documents addressable by ID', () => {
+      store.trashDocument('doc-1');
+
+      expect(store.getDocument('doc-1')?.DeletedAt).toBeInstanceOf(Date);
+    });
+
+    it('should restore a trashed document', () => {
+      store.trashDocument('doc-1');
+
+      const restored = store.restoreDocument('doc-1');
+
+      expect(restored).toBeDefined();
+      expect('DeletedAt' in restored!).toBe(false);
+      expect(store.getDocuments().map(d => d.ID)).toContain('doc-1');
+      expect(store.getTrashedDocuments()).toHaveLength(0);
+    });
+
+    it('should not trash a document twice or restore an active one', () => {
+      const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      store.trashDocument('doc-1');
+
+      expect(store.trashDocument('doc-1')).toBeUndefined();
+      expect(store.restoreDocument('doc-2')).toBeUndefined();
+
+      consoleWarnSpy.mockRestore();
+    });
+
+    it('should notify listeners on trash and restore', () => {
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      store.trashDocument('doc-1');
+      store.restoreDocument('doc-1');
+
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should toggle trash visibility and notify', () => {
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      expect(store.isTrashVisible()).toBe(false);
+      store.setTrashVisible(true);
+
+      expect(store.isTrashVisible()).toBe(true);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('search query', () => {
+    beforeEach(async () => {
+      store = Store.getInstance();
+      await store.whenLoaded();
+    });
+
+    it('should default to an empty query', () => {
+      expect(store.getSearchQuery()).toBe('');
+    });
+
+    it('should update the query and notify', () => {
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      store.setSearchQuery('alpha');
+
+      expect(store.getSearchQuery()).toBe('alpha');
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not notify when the query is unchanged', () => {
+      store.setSearchQuery('alpha');
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      store.setSearchQuery('alpha');
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('facets', () => {
+    beforeEach(async () => {
+      store = Store.getInstance();
+      await store.whenLoaded();
+    });
+
+    it('should default to no selected facets and an open panel', () => {
+      expect(store.getFacetSelection()).toEqual({ contributor: [], extension: [], month: [] });
+      expect(store.isFacetPanelOpen()).toBe(true);
+    });
+
+    it('should select and deselect facet values', () => {
+      store.toggleFacet('contributor', 'Alice');
+      store.toggleFacet('contributor', 'Bob');
+      store.toggleFacet('extension', 'pdf');
+      store.toggleFacet('contributor', 'Alice');
+
+      expect(store.getFacetSelection()).toEqual({
+        contributor: ['Bob'],
+        extension: ['pdf'],
+        month: [],
+      });
+    });
+
+    it('should not mutate a previously returned selection', () => {
+      const before = store.getFacetSelection();
+
+      store.toggleFacet('month', '2024-01');
+
+      expect(before.month).toEqual([]);
+    });
+
+    it('should notify on facet changes', () => {
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      store.toggleFacet('extension', 'pdf');
+      store.clearFacets();
+      store.setFacetPanelOpen(false);
+
+      expect(listener).toHaveBeenCalledTimes(3);
+      expect(store.getFacetSelection().extension).toEqual([]);
+      expect(store.isFacetPanelOpen()).toBe(false);
+    });
+
+    it('should replace the whole selection', () => {
+      const listener = vi.fn();
+      store.subscribe(listener);
+      store.toggleFacet('contributor', 'Alice');
+
+      store.setFacetSelection({ contributor: [], extension: ['pdf'], month: ['2024-01'] });
+
+      expect(store.getFacetSelection()).toEqual({
+        contributor: [],
+        extension: ['pdf'],
+        month: ['2024-01'],
+      });
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('activity', () => {
+    beforeEach(async () => {
+      store = Store.getInstance();
+      await store.whenLoaded();
+    });
+
+    it('should return activity for a document, newest first', () => {
+      store.recordActivity({ documentId: 'doc-1', type: 'created', timestamp: new Date(1) });
+      store.recordActivity({ documentId: 'doc-2', type: 'created', timestamp: new Date(2) });
+      store.recordActivity({ documentId: 'doc-1', type: 'updated', timestamp: new Date(3) });
+
+      expect(store.getActivity('doc-1').map(entry => entry.type)).toEqual(['updated', 'created']);
+      expect(store.getActivity('doc-3')).toEqual([]);
+    });
+
+    it('should notify when activity is recorded', () => {
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      store.recordActivity({ documentId: 'doc-1', type: 'received', timestamp: new Date() });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only keep the most recent entries', () => {
+      for (let i = 0; i < 150; i++) {
+        store.recordActivity({ documentId: 'doc-1', type: 'updated', timestamp: new Date(i) });
+      }
+
+      const activity = store.getActivity('doc-1');
+      expect(activity).toHaveLength(100);
+      expect(activity[0].timestamp.getTime()).toBe(149);
+    });
+  });
+
+  describe('open document', () => {
+    beforeEach(async () => {
+      store = Store.getInstance();
+      await store.whenLoaded();
+    });
+
+    it('should have no open document by default', () => {
+      expect(store.getOpenDocumentId()).toBeUndefined();
+    });
+
+    it('should open and close a document', () => {
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      store.setOpenDocument('doc-1');
+      expect(store.getOpenDocumentId()).toBe('doc-1');
+
+      store.setOpenDocument(undefined);
+      expect(store.getOpenDocumentId()).toBeUndefined();
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not notify when the open document does not change', () => {
+      const listener = vi.fn();
+      store.setOpenDocument('doc-1');
+      store.subscribe(listener);
+
+      store.setOpenDocument('doc-1');
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purgeExpiredDocuments', () => {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+
+    it('should purge expired trash on startup', async () => {
+      const expired = { ...mockDocuments[0], DeletedAt: new Date(Date.now() - 31 * DAY_MS) };
+      const recent = { ...mockDocuments[1], DeletedAt: new Date(Date.now() - DAY_MS) };
+      vi.mocked(storageUtils.loadDocuments).mockReturnValue([expired, recent, mockDocuments[2]]);
+
+      store = Store.getInstance();
+      await store.whenLoaded();
+
+      expect(store.getDocument('doc-1')).toBeUndefined();
+      expect(store.getTrashedDocuments().map(d => d.ID)).toEqual(['doc-2']);
+      expect(storageUtils.saveDocuments).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not save when nothing expired', async () => {
+      vi.mocked(storageUtils.loadDocuments).mockReturnValue([...mockDocuments]);
+
+      store = Store.getInstance();
+      await store.whenLoaded();
+
+      expect(storageUtils.saveDocuments).not.toHaveBeenCalled();
+    });
+
+    it('should respect a custom retention period', async () => {
+      const trashed = { ...mockDocuments[0], DeletedAt: new Date(Date.now() - 2 * DAY_MS) };
+      vi.mocked(storageUtils.loadDocuments).mockReturnValue([trashed, mockDocuments[1]]);
+      store = Store.getInstance();
+      await store.whenLoaded();
+
+      const purged = store.purgeExpiredDocuments(1);
+
+      expect(purged).toBe(1);
+      expect(store.getDocument('doc-1')).toBeUndefined();
+    });
+
+    it('should never purge active documents', async () => {
+      vi.mocked(storageUtils.loadDocuments).mockReturnValue([...mockDocuments]);
+      store = Store.getInstance();
+      await store.whenLoaded();
+
+      expect(store.purgeExpiredDocuments(0)).toBe(0);
+      expect(store.getDocuments()).toHaveLength(3);
+    });
+  });
+
+  describe('getDocument', () => {
+    beforeEach(async () => {
+      vi.mocked(storageUtils.loadDocuments).mockReturnValue([...mockDocuments]);
+      store = Store.getInstance();
+      await store.whenLoaded();
+    });
+
+    it('should return the document with the given ID', () => {
+      expect(store.getDocument('doc-2')).toEqual(mockDocuments[1]);
+    });
+
+    it('should return undefined for unknown IDs', () => {
+      expect(store.getDocument('missing')).toBeUndefined();
+    });
+  });
+
+  describe('sorting', () => {
+    beforeEach(async () => {
+      vi.mocked(storageUtils.loadDocuments).mockReturnValue([...mockDocuments]);
+      store = Store.getInstance();
+      await store.whenLoaded();
+    });
+
+    describe('sort by Title', () => {
+      it('should sort documents by title ascending', () => {
+        store.setSortField('Title');
+        store.setSortOrder('asc');
+
+        const docs = store.getDocuments();
+        expect(docs[0].Title).toBe('Alpha Document');
+        expect(docs[1].Title).toBe('Beta Document');
+        expect(docs[2].Title).toBe('Charlie Document');
+      });
+
+      it('should sort documents by title descending', () => {
+        store.setSortField('Title');
+        store.setSortOrder('desc');
+
+        const docs = store.getDocuments();
+        expect(docs[0].Title).toBe('Charlie Document');
+        expect(docs[1].Title).toBe('Beta Document');
+        expect(docs[2].Title).toBe('Alpha Document');
+      });
+    });
+
+    describe('sort by Version', () => {
+      it('should sort semantic versions correctly ascending', () => {
+        store.setSortField('Version');
+        store.setSortOrder('asc');
+
+        const docs = store.getDocuments();
+        expect(docs[0].Version).toBe('1.0.0');
+        expect(docs[1].Version).toBe('2.5.1');
+        expect(docs[2].Version).toBe(3);
+      });
+
+      it('should sort semantic versions correctly descending', () => {
+        store.setSortField('Version');
+        store.setSortOrder('desc');
+
+        const docs = store.getDocuments();
+        // Bare numbers compare as major versions (3 -> 3.0.0)
+        expect(docs[0].Version).toBe(3);
+        expect(docs[1].Version).toBe('2.5.1');
+        expect(docs[2].Version).toBe('1.0.0');
+      });
+
+      it('should handle mixed version formats', async () => {
+        const mixedVersionDocs: Document[] = [
+          { ...mockDocuments[0], ID: 'v1', Version: '1.0.0' },
+          { ...mockDocuments[0], ID: 'v2', Version: '1.2.0' },
+          { ...mockDocuments[0], ID: 'v3', Version: '1.1.5' },
+          { ...mockDocuments[0], ID: 'v4', Version: 2 },
+        ];
+
+        vi.mocked(storageUtils.loadDocuments).mockReturnValue(mixedVersionDocs);
+        // @ts-expect-error - reset singleton
+        Store.instance = undefined;
+        store = Store.getInstance();
+        await store.whenLoaded();
+
+        store.setSortField('Version');
+        store.setSortOrder('asc');
+
+        const docs = store.getDocuments();
+        expect(docs[0].Version).toBe('1.0.0');
+        expect(docs[1].Version).toBe('1.1.5');
+        expect(docs[2].Version).toBe('1.2.0');
+        expect(docs[3].Version).toBe(2);
+      });
+    });
+
+    describe('sort by CreatedAt', () => {
+      it('should sort by creation date ascending', () => {
+        store.setSortField('CreatedAt');
+        store.setSortOrder('asc');
+
+        const docs = store.getDocuments();
+        expect(docs[0].CreatedAt.toISOString()).toBe('2024-01-14T10:30:00.000Z');
+        expect(docs[1].CreatedAt.toISOString()).toBe('2024-01-15T10:30:00.000Z');
+        expect(docs[2].CreatedAt.toISOString()).toBe('2024-01-16T10:30:00.000Z');
+      });
+
+      it('should sort by creation date descending', () => {
+        store.setSortField('CreatedAt');
+        store.setSortOrder('desc');
+
+        const docs = store.getDocuments();
+        expect(docs[0].CreatedAt.toISOString()).toBe('2024-01-16T10:30:00.000Z');
+        expect(docs[1].CreatedAt.toISOString()).toBe('2024-01-15T10:30:00.000Z');
+        expect(docs[2].CreatedAt.toISOString()).toBe('2024-01-14T10:30:00.000Z');
+      });
+    });
+
+    describe('sort by UpdatedAt', () => {
+      const editedDocuments: Document[] = [
+        { ...mockDocuments[0], UpdatedAt: new Date('2024-02-01T10:30:00Z') },
+        { ...mockDocuments[1], UpdatedAt: new Date('2024-01-20T10:30:00Z') },
+        { ...mockDocuments[2], UpdatedAt: new Date('2024-03-01T10:30:00Z') },
+      ];
+
+      beforeEach(async () => {
+        vi.mocked(storageUtils.loadDocuments).mockReturnValue(editedDocuments);
+        // @ts-expect-error - reset singleton
+        Store.instance = undefined;
+        store = Store.getInstance();
+        await store.whenLoaded();
+      });
+
+      it('should sort by last update ascending', () => {
+        store.setSortField('UpdatedAt');
+        store.setSortOrder('asc');
+
+        const docs = store.getDocuments();
+        expect(docs.map(doc => doc.ID)).toEqual(['doc-2', 'doc-1', 'doc-3']);
+      });
+
+      it('should sort by last update descending', () => {
+        store.setSortField('UpdatedAt');
+        store.setSortOrder('desc');
+
+        const docs = store.getDocuments();
+        expect(docs.map(doc => doc.ID)).toEqual(['doc-3', 'doc-1', 'doc-2']);
+      });
+    });
+
+    describe('sort by ContributorCount', () => {
+      const teamDocuments: Document[] = [
+        { ...mockDocuments[0], Contributors: [{ ID: 'user-1', Name: 'Alice' }] },
+        {
+          ...mockDocuments[1],
+          Contributors: [
+            { ID: 'user-1', Name: 'Alice' },
+            { ID: 'user-2', Name: 'Bob' },
+          ],
+        },
+        { ...mockDocuments[2], Contributors: [] },
+      ];
+
+      beforeEach(async () => {
+        vi.mocked(storageUtils.loadDocuments).mockReturnValue(teamDocuments);
+        // @ts-expect-error - reset singleton
+        Store.instance = undefined;
+        store = Store.getInstance();
+        await store.whenLoaded();
+      });
+
+      it('should sort by number of contributors ascending', () => {
+        store.setSortField('ContributorCount');
+        store.setSortOrder('asc');
+
+        const docs = store.getDocuments();
+        expect(docs.map(doc => doc.Contributors.length)).toEqual([0, 1, 2]);
+      });
+
+      it('should sort by number of contributors descending', () => {
+        store.setSortField('ContributorCount');
+        store.setSortOrder('desc');
+
+        const docs = store.getDocuments();
+        expect(docs.map(doc => doc.Contributors.length)).toEqual([2, 1, 0]);
+      });
+    });
+
+    describe('sort by AttachmentCount', () => {
+      const attachedDocuments: Document[] = [
+        { ...mockDocuments[0], Attachments: ['a.pdf', 'b.pdf', 'c.pdf'] },
+        { ...mockDocuments[1], Attachments: [] },
+        { ...mockDocuments[2], Attachments: ['a.pdf'] },
+      ];
+
+      beforeEach(async () => {
+        vi.mocked(storageUtils.loadDocuments).mockReturnValue(attachedDocuments);
+        // @ts-expect-error - reset singleton
+        Store.instance = undefined;
+        store = Store.getInstance();
+        await store.whenLoaded();
+      });
+
+      it('should sort by number of attachments ascending', () => {
+        store.setSortField('AttachmentCount');
+        store.setSortOrder('asc');
+
+        const docs = store.getDocuments();
+        expect(docs.map(doc => doc.ID)).toEqual(['doc-2', 'doc-3', 'doc-1']);
+      });
+
+      it('should sort by number of attachments descending', () => {
+        store.setSortField('AttachmentCount');
+        store.setSortOrder('desc');
+
+        const docs = store.getDocuments();
+        expect(docs.map(doc => doc.ID)).toEqual(['doc-1', 'doc-3', 'doc-2']);
+      });
+    });
+  });
+
+  describe('sort criteria', () => {
+    const tiedDocuments: Document[] = [
+      { ...mockDocuments[0], ID: 'doc-b', Title: 'Beta', Version: '2.0.0' },
+      { ...mockDocuments[0], ID: 'doc-a', Title: 'Alpha', Version: '2.0.0' },
+      { ...mockDocuments[0], ID: 'doc-c', Title: 'Gamma', Version: '1.0.0' },
+      { ...mockDocuments[0], ID: 'doc-d', Title: 'Alpha', Version: '2.0.0' },
+    ];
+
+    beforeEach(async () => {
+      vi.mocked(storageUtils.loadDocuments).mockReturnValue([...tiedDocuments]);
+      store = Store.getInstance();
+      await store.whenLoaded();
+    });
+
+    it('should default to newest first', () => {
+      expect(store.getSortCriteria()).toEqual([{ field: 'CreatedAt', order: 'desc' }]);
+    });
+
+    it('should break ties with later criteria', () => {
+      store.setSortCriteria([
+        { field: 'Version', order: 'desc' },
+        { field: 'Title', order: 'desc' },
+      ]);
+
+      const docs = store.getDocuments();
+      expect(docs.map(doc => doc.ID)).toEqual(['doc-b', 'doc-a', 'doc-d', 'doc-c']);
+    });
+
+    it('should fall back to ID when every criterion ties', () => {
+      store.setSortCriteria([
+        { field: 'Version', order: 'desc' },
+        { field: 'Title', order: 'asc' },
+      ]);
+
+      const docs = store.getDocuments();
+      expect(docs.map(doc => doc.ID)).toEqual(['doc-a', 'doc-d', 'doc-b', 'doc-c']);
+    });
+
+    it('should render ties in the same order regardless of insertion order', async () => {
+      store.setSortCriteria([{ field: 'Version', order: 'desc' }]);
+      const first = store.getDocuments().map(doc => doc.ID);
+
+      vi.mocked(storageUtils.loadDocuments).mockReturnValue([...tiedDocuments].reverse());
+      // @ts-expect-error - reset singleton
+      Store.instance = undefined;
+      store = Store.getInstance();
+      await store.whenLoaded();
+      store.setSortCriteria([{ field: 'Version', order: 'desc' }]);
+
+      expect(store.getDocuments().map(doc => doc.ID)).toEqual(first);
+    });
+
+    it('should notify when the criteria change', () => {
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      store.setSortCriteria([{ field: 'Title', order: 'asc' }]);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore an empty stack', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      store.setSortCriteria([]);
+
+      expect(store.getSortCriteria()).toEqual([{ field: 'CreatedAt', order: 'desc' }]);
+      expect(warnSpy).toHaveBeenCalledWith('Sort criteria cannot be empty');
+      warnSpy.mockRestore();
+    });
+
+    it('should not expose the internal criteria for mutation', () => {
+      store.getSortCriteria()[0].order = 'asc';
+
+      expect(store.getSortOrder()).toBe('desc');
+    });
+
+    it('should keep tie-breakers when the primary field changes', () => {
+      store.setSortCriteria([
+        { field: 'Version', order: 'desc' },
+        { field: 'Title', order: 'asc' },
+      ]);
+
+      store.setSortField('Title');
+
+      expect(store.getSortCriteria()).toEqual([{ field: 'Title', order: 'desc' }]);
+
+      store.setSortCriteria([
+        { field: 'Version', order: 'desc' },
+        { field: 'Title', order: 'asc' },
+      ]);
+      store.setSortField('CreatedAt');
+      store.setSortOrder('asc');
+
+      expect(store.getSortCriteria()).toEqual([
+        { field: 'CreatedAt', order: 'asc' },
+        { field: 'Title', order: 'asc' },
+      ]);
+    });
+  });
+
+  describe('setSortField', () => {
+    beforeEach(async () => {
+      store = Store.getInstance();
+      await store.whenLoaded();
+    });
+
+    it('should update sort field', () => {
+      store.setSortField('Title');
+      expect(store.getSortField()).toBe('Title');
+    });
+
+    it('should notify listeners when sort field changes', () => {
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      store.setSortField('Version');
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('setSortOrder', () => {
+    beforeEach(async () => {
+      store = Store.getInstance();
+      await store.whenLoaded();
+    });
+
+    it('should update sort order', () => {
+      store.setSortOrder('asc');
+      expect(store.getSortOrder()).toBe('asc');
+    });
+
+    it('should notify listeners when sort order changes', () => {
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      store.setSortOrder('asc');
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('view mode', () => {
+    beforeEach(async () => {
+      store = Store.getInstance();
+      await store.whenLoaded();
+    });
+
+    it('should default to list view mode', () => {
+      expect(store.getViewMode()).toBe('list');
+    });
+
+    it('should update view mode to grid', () => {
+      store.setViewMode('grid');
+      expect(store.getViewMode()).toBe('grid');
+    });
+
+    it('should update view mode to list', () => {
+      store.setViewMode('grid');
+      store.setViewMode('list');
+      expect(store.getViewMode()).toBe('list');
+    });
+
+    it('should notify listeners when view mode changes', () => {
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      store.setViewMode('grid');
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('preferences', () => {
+    it('should restore the sort stack and view mode on creation', async () => {
+      vi.mocked(storageUtils.loadPreferences).mockReturnValue({
+        sortCriteria: [
+          { field: 'Title', order: 'asc' },
+          { field: 'Version', order: 'desc' },
+        ],
+        viewMode: 'grid',
+      });
+
+      store = Store.getInstance();
+      await store.whenLoaded();
+
+      expect(store.getSortField()).toBe('Title');
+      expect(store.getSortOrder()).toBe('asc');
+      expect(store.getSortCriteria()).toHaveLength(2);
+      expect(store.getViewMode()).toBe('grid');
+    });
+
+    it('should keep the defaults for missing preferences', async () => {
+      vi.mocked(storageUtils.loadPreferences).mockReturnValue({ viewMode: 'grid' });
+
+      store = Store.getInstance();
+      await store.whenLoaded();
+
+      expect(store.getSortCriteria()).toEqual([{ field: 'CreatedAt', order: 'desc' }]);
+      expect(store.getViewMode()).toBe('grid');
+    });
+
+    it('should save preferences when the sort or view mode changes', async () => {
+      store = Store.getInstance();
+      await store.whenLoaded();
+
+      store.setSortField('Version');
+      store.setSortOrder('asc');
+      store.setViewMode('grid');
+
+      expect(storageUtils.savePreferences).toHaveBeenCalledTimes(3);
+      expect(storageUtils.savePreferences).toHaveBeenLastCalledWith({
+        sortCriteria: [{ field: 'Version', order: 'asc' }],
+        viewMode: 'grid',
+      });
+    });
+
+    it('should save preferences when the sort criteria are replaced', async () => {
+      store = Store.getInstance();
+      await store.whenLoaded();
+
+      store.setSortCriteria([
+        { field: 'Title', order: 'asc' },
+        { field: 'CreatedAt', order: 'desc' },
+      ]);
+
+      expect(storageUtils.savePreferences).toHaveBeenCalledWith({
+        sortCriteria: [
+          { field: 'Title', order: 'asc' },
+          { field: 'CreatedAt', order: 'desc' },
+        ],
+        viewMode: 'list',
+      });
+    });
+
+    it('should neither save nor send preferences set with persist: false', async () => {
+      store = Store.getInstance();
+      await store.whenLoaded();
+
+      store.setSortCriteria([{ field: 'Title', order: 'asc' }], { persist: false });
+      store.setViewMode('grid', { persist: false });
+
+      expect(store.getSortField()).toBe('Title');
+      expect(store.getViewMode()).toBe('grid');
+      expect(storageUtils.savePreferences).not.toHaveBeenCalled();
+    });
+
+    it('should not save preferences for other state changes', async () => {
+      store = Store.getInstance();
+      await store.whenLoaded();
+
+      store.setSearchQuery('report');
+      store.setTrashVisible(true);
+
+      expect(storageUtils.savePreferences).not.toHaveBeenCalled();
+    });
   });
 
   describe('integration scenarios', () => {
-    beforeEach(() => {
+    beforeEach(async () => {
       vi.mocked(storageUtils.loadDocuments).mockReturnValue([...mockDocuments]);
       store = Store.getInstance();
+      await store.whenLoaded();
     });
 
     it('should handle complete workflow: add document, change sort, change view', () => {
@@ -1,70 +1,237 @@
-import { Document, SortField, SortOrder, ViewMode } from '../models/document';
-import { saveDocuments, loadDocuments } from '../utils/storageUtils';
+import { Document, SortCriterion, SortField, SortOrder, ViewMode } from '../models/document';
+import type { FacetGroup, FacetSelection } from '../models/facet';
+import type { ActivityEntry } from '../models/activity';
+import type { Revision } from '../models/revision';
+import type { StorageHealth, StorageUsage } from '../models/storage';
+import type { SyncMessage } from '../models/sync';
+import {
+  savePreferences,
+  loadPreferences,
+  saveRevisions,
+  loadRevisions,
+} from '../utils/storageUtils';
+import { createStorageAdapter, type StorageAdapter } from '../services/storageAdapter';
+import { TabSyncService } from '../services/tabSyncService';
+import { isTrashed } from '../utils/documentUtils';
+import { compareVersions } from '../utils/versionUtils';
+import { createEmptyFacetSelection } from '../utils/facetUtils';
+import { capRevisions, createRevision } from '../utils/revisionUtils';
+import { environment } from '../config/environment';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_ACTIVITY_ENTRIES = 100;
 
 // Re-export for backward compatibility
 export type { ViewMode };
 
 type Listener = () => void;
 
+function compareByField(a: Document, b: Document, field: SortField): number {
+  switch (field) {
+    case 'Title':
+      return a.Title.localeCompare(b.Title);
+    case 'Version':
+      return compareVersions(a.Version, b.Version);
+    case 'CreatedAt':
+      return a.CreatedAt.getTime() - b.CreatedAt.getTime();
+    case 'UpdatedAt':
+      return a.UpdatedAt.getTime() - b.UpdatedAt.getTime();
+    case 'ContributorCount':
+      return a.Contributors.length - b.Contributors.length;
+    case 'AttachmentCount':
+      return a.Attachments.length - b.Attachments.length;
+  }
+}
+
 export class Store {
   private static instance: Store;
   private documents: Document[] = [];
   private listeners: Set<Listener> = new Set();
-  private sortField: SortField = 'CreatedAt';
-  private sortOrder: SortOrder = 'desc';
+  private sortCriteria: SortCriterion[] = [{ field: 'CreatedAt', order: 'desc' }];
   private viewMode: ViewMode = 'list';
+  private trashVisible = false;
+  private searchQuery = '';
+  private facetSelection: FacetSelection = createEmptyFacetSelection();
+  private facetPanelOpen = true;
+  private openDocumentId: string | undefined;
+  private activity: ActivityEntry[] = [];
+  // Oldest first, across all documents
+  private revisions: Revision[] = [];
+  private storage: StorageAdapter;
+  private sync: TabSyncService;
+  private loaded: Promise<void>;
+  private storageHealth: StorageHealth = { status: 'ok' };
+  // IDs of documents whose latest write failed and has not been redone successfully since
+  private failedWrites = new Set<string>();
 
-  private constructor() {
-    this.documents = loadDocuments();
+  private constructor(storage?: StorageAdapter, sync?: TabSyncService) {
+    this.storage = storage || createStorageAdapter();
+    this.sync = sync || new TabSyncService();
+    this.revisions = loadRevisions();
+    this.restorePreferences();
+    this.loaded = this.loadDocuments();
+    this.sync.subscribe(message => this.applyRemoteChange(message));
   }
 
-  private sortDocuments(docs: Document[]): Document[] {
-    return docs.sort((a, b) => {
-      let comparison = 0;
-
-      switch (this.sortField) {
-        case 'Title':
-          comparison = a.Title.localeCompare(b.Title);
-          break;
-        case 'Version':
-          comparison = this.compareVersions(a.Version, b.Version);
-          break;
-        case 'CreatedAt':
-          comparison = a.CreatedAt.getTime() - b.CreatedAt.getTime();
-          break;
+  /**
+   * Loads the stored documents, keeping any document added while loading (e.g. over the WebSocket)
+   */
+  private async loadDocuments(): Promise<void> {
+    try {
+      const stored = (await this.storage.loadDocuments()).filter(
+        doc => !this.documentMap.has(doc.ID)
+      );
+      stored.forEach(doc => this.documentMap.set(doc.ID, true));
+      this.documents = [...stored, ...this.documents];
+    } catch (error) {
+      console.error('Failed to load documents:', error);
+    }
+
+    this.purgeExpiredDocuments();
+    this.notify();
+  }
+
+  /**
+   * Resolves once the stored documents are loaded; until then the Store only holds new documents
+   */
+  whenLoaded(): Promise<void> {
+    return this.loaded;
+  }
+
+  /**
+   * Writes run in the background and the in-memory state stays authoritative
+   * A failed write is reported through the storage health so the user can save their work elsewhere,
+   * and the error stays until every document it affected has been written successfully
+   * @param ids - The documents saved or deleted by the write
+   */
+  private persist(write: Promise<unknown>, ids: string[]): void {
+    write.then(
+      () => {
+        ids.forEach(id => this.failedWrites.delete(id));
+        if (this.failedWrites.size === 0) {
+          return this.checkStorageUsage();
+        }
+      },
+      error => {
+        ids.forEach(id => this.failedWrites.add(id));
+        console.error('Failed to save documents:', error);
+        this.setStorageHealth({
+          status: 'error',
+          usage: this.storageHealth.usage,
+          error: error instanceof Error ? error.message : String(error),
+        });
       }
+    );
+  }
 
-      return this.sortOrder === 'asc' ? comparison : -comparison;
-    });
+  /**
+   * Warns once usage crosses the configured share of the quota; also clears an error once no failed write is left
+   */
+  private async checkStorageUsage(): Promise<void> {
+    let usage: StorageUsage | null = null;
+    try {
+      usage = await this.storage.estimateUsage();
+    } catch (error) {
+      console.warn('Failed to estimate storage usage:', error);
+    }
+
+    const nearlyFull =
+      usage && usage.usage / usage.quota >= environment.storage.warningPercent / 100;
+    this.setStorageHealth({ status: nearlyFull ? 'warning' : 'ok', usage: usage ?? undefined });
+  }
+
+  /**
+   * Listeners are only notified when the status changes, not on every new usage estimate
+   */
+  private setStorageHealth(health: StorageHealth): void {
+    const changed = health.status !== this.storageHealth.status;
+    this.storageHealth = health;
+    if (changed) {
+      this.notify();
+    }
   }
 
-  private compareVersions(a: number | string, b: number | string): number {
-    const aStr = String(a);
-    const bStr = String(b);
+  getStorageHealth(): StorageHealth {
+    return { ...this.storageHealth };
+  }
+
+  /**
+   * Restores the sort stack and view mode, keeping the defaults for anything missing or invalid
+   */
+  private restorePreferences(): void {
+    const { sortCriteria, viewMode } = loadPreferences();
+    if (sortCriteria) this.sortCriteria = sortCriteria;
+    if (viewMode) this.viewMode = viewMode;
+  }
 
-    // If both are semantic versions (x.x.x), compare them properly
-    if (aStr.includes('.') && bStr.includes('.')) {
-      const aParts = aStr.split('.').map(n => parseInt(n) || 0);
-      const bParts = bStr.split('.').map(n => parseInt(n) || 0);
+  private persistPreferences(): void {
+    const preferences = { sortCriteria: this.getSortCriteria(), viewMode: this.viewMode };
+    savePreferences(preferences);
+    this.sync.publish({ type: 'preferences.changed', preferences });
+  }
 
-      for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
-        const diff = (aParts[i] || 0) - (bParts[i] || 0);
-        if (diff !== 0) return diff;
+  /**
+   * Merges a change made in another tab without persisting it again, so tabs never overwrite each other
+   * Revisions are reread because the sending tab saved them before sending the change
+   */
+  private applyRemoteChange(message: SyncMessage): void {
+    switch (message.type) {
+      case 'document.saved': {
+        const { document } = message;
+        const index = this.documents.findIndex(doc => doc.ID === document.ID);
+        if (index === -1) {
+          this.documents.push(document);
+          this.documentMap.set(document.ID, true);
+        } else if (document.UpdatedAt.getTime() >= this.documents[index].UpdatedAt.getTime()) {
+          this.documents[index] = document;
+        } else {
+          // A slower message about an edit this tab has already seen a newer copy of
+          return;
+        }
+        this.revisions = loadRevisions();
+        break;
       }
-      return 0;
+      case 'documents.deleted':
+        this.documents = this.documents.filter(doc => !message.ids.includes(doc.ID));
+        message.ids.forEach(id => this.documentMap.delete(id));
+        this.revisions = loadRevisions();
+        break;
+      case 'preferences.changed':
+        this.sortCriteria = message.preferences.sortCriteria;
+        this.viewMode = message.preferences.viewMode;
+        break;
     }
+    this.notify();
+  }
 
-    // Fallback to numeric comparison
-    return Number(a) - Number(b);
+  /**
+   * Sorts by each criterion in turn, falling back to ID so ties render in a stable order
+   */
+  private sortDocuments(docs: Document[]): Document[] {
+    return docs.sort((a, b) => {
+      for (const { field, order } of this.sortCriteria) {
+        // Incomparable values (NaN) count as ties and fall through to the next criterion
+        const comparison = compareByField(a, b, field) || 0;
+        if (comparison !== 0) {
+          return order === 'asc' ? comparison : -comparison;
+        }
+      }
+
+      return a.ID.localeCompare(b.ID);
+    });
   }
 
   private notify(): void {
     this.listeners.forEach(listener => listener());
   }
 
-  static getInstance(): Store {
+  /**
+   * @param storage - Optional storage adapter for dependency injection, used on first call only
+   * @param sync - Optional cross-tab sync for dependency injection, used on first call only
+   */
+  static getInstance(storage?: StorageAdapter, sync?: TabSyncService): Store {
     if (!Store.instance) {
-      Store.instance = new Store();
+      Store.instance = new Store(storage, sync);
     }
     return Store.instance;
   }
@@ -87,36 +254,327 @@ export class Store {
     // Add to documents array and map
     this.documents.push(document);
     this.documentMap.set(document.ID, true);
-    saveDocuments(this.documents);
+    // No revision yet; the first update records this copy as its baseline
+    this.persist(this.storage.saveDocument(document), [document.ID]);
+    this.sync.publish({ type: 'document.saved', document });
 
     // Notify listeners
     this.notify();
   }
 
+  /**
+   * @param author - Who made the change, when it did not originate in this browser
+   * @param options.keepUpdatedAt - Keep the document's own `UpdatedAt`, e.g. the server's time of a remote change,
+   * instead of stamping the current time
+   */
+  updateDocument(
+    document: Document,
+    author?: string,
+    { keepUpdatedAt = false }: { keepUpdatedAt?: boolean } = {}
+  ): void {
+    const index = this.documents.findIndex(doc => doc.ID === document.ID);
+    if (index === -1) {
+      console.warn(`Document with ID ${document.ID} does not exist`);
+      return;
+    }
+
+    // Documents saved before history existed get their current copy as a baseline to diff against
+    if (!this.revisions.some(revision => revision.documentId === document.ID)) {
+      this.revisions.push({
+        ...createRevision(this.documents[index]),
+        savedAt: this.documents[index].UpdatedAt,
+      });
+    }
+
+    this.documents[index] = {
+      ...document,
+      UpdatedAt: keepUpdatedAt ? document.UpdatedAt : new Date(),
+    };
+    this.addRevision(this.documents[index], author);
+    this.persist(
+      Promise.all([this.storage.saveDocument(this.documents[index]), this.writeRevisions()]),
+      [document.ID]
+    );
+    this.sync.publish({ type: 'document.saved', document: this.documents[index] });
+
+    this.notify();
+  }
+
+  removeDocument(id: string): Document | undefined {
+    const index = this.documents.findIndex(doc => doc.ID === id);
+    if (index === -1) {
+      console.warn(`Document with ID ${id} does not exist`);
+      return undefined;
+    }
+
+    const [removed] = this.documents.splice(index, 1);
+    this.documentMap.delete(id);
+    this.removeRevisions([id]);
+    this.persist(Promise.all([this.storage.deleteDocuments([id]), this.writeRevisions()]), [id]);
+    this.sync.publish({ type: 'documents.deleted', ids: [id] });
+
+    this.notify();
+    return removed;
+  }
+
+  /**
+   * Soft-deletes a document by moving it to the trash
+   * @returns The trashed document, or undefined if it does not exist or is already trashed
+   */
+  trashDocument(id: string): Document | undefined {
+    return this.setDeletedAt(id, new Date());
+  }
+
+  /**
+   * Moves a trashed document back to the document list
+   * @returns The restored document, or undefined if it is not in the trash
+   */
+  restoreDocument(id: string): Document | undefined {
+    return this.setDeletedAt(id, undefined);
+  }
+
+  /**
+   * Permanently removes trashed documents older than the retention period
+   * @param retentionDays - Days a document stays in the trash before being purged
+   * @returns The number of purged documents
+   */
+  purgeExpiredDocuments(retentionDays: number = environment.trash.retentionDays): number {
+    const cutoff = Date.now() - retentionDays * DAY_MS;
+    const expired = this.documents.filter(
+      doc => isTrashed(doc) && doc.DeletedAt!.getTime() <= cutoff
+    );
+    if (expired.length === 0) return 0;
+
+    this.documents = this.documents.filter(doc => !expired.includes(doc));
+    expired.forEach(doc => this.documentMap.delete(doc.ID));
+    const ids = expired.map(doc => doc.ID);
+    this.removeRevisions(ids);
+    this.persist(Promise.all([this.storage.deleteDocuments(ids), this.writeRevisions()]), ids);
+    this.sync.publish({ type: 'documents.deleted', ids });
+
+    this.notify();
+    return expired.length;
+  }
+
+  private setDeletedAt(id: string, deletedAt: Date | undefined): Document | undefined {
+    const index = this.documents.findIndex(doc => doc.ID === id);
+    if (index === -1 || isTrashed(this.documents[index]) === Boolean(deletedAt)) {
+      console.warn(`Document with ID ${id} cannot be ${deletedAt ? 'trashed' : 'restored'}`);
+      return undefined;
+    }
+
+    const updated: Document = { ...this.documents[index], DeletedAt: deletedAt };
+    if (!deletedAt) {
+      delete updated.DeletedAt;
+    }
+    this.documents[index] = updated;
+    this.persist(this.storage.saveDocument(updated), [updated.ID]);
+    this.sync.publish({ type: 'document.saved', document: updated });
+
+    this.notify();
+    return updated;
+  }
+
+  /**
+   * Returns the saved revisions of a document, newest first
+   */
+  getRevisions(documentId: string): Revision[] {
+    return this.revisions.filter(revision => revision.documentId === documentId).reverse();
+  }
+
+  /**
+   * Saves the content of an earlier revision as a new revision, so the restore can itself be undone
+   * @returns The updated document, or undefined if the document or revision does not exist
+   */
+  restoreRevision(documentId: string, revisionId: string): Document | undefined {
+    const current = this.getDocument(documentId);
+    const revision = this.revisions.find(r => r.id === revisionId && r.documentId === documentId);
+    if (!current || !revision) {
+      console.warn(`Revision ${revisionId} of document ${documentId} does not exist`);
+      return undefined;
+    }
+
+    const restored: Document = { ...revision.snapshot, CreatedAt: current.CreatedAt };
+    if (current.DeletedAt) {
+      restored.DeletedAt = current.DeletedAt;
+    }
+    this.updateDocument(restored);
+    return this.getDocument(documentId);
+  }
+
+  private addRevision(document: Document, author?: string): void {
+    this.revisions = capRevisions(
+      [...this.revisions, createRevision(document, author)],
+      environment.history.maxRevisionsPerDocument,
+      environment.history.maxRevisions
+    );
+  }
+
+  private removeRevisions(documentIds: string[]): void {
+    this.revisions = this.revisions.filter(revision => !documentIds.includes(revision.documentId));
+  }
+
+  /**
+   * Saves right away, so other tabs reload the new revision when they receive the change,
+   * and hands the outcome to the document change's `persist` so a failure is reported with it
+   */
+  private writeRevisions(): Promise<void> {
+    return new Promise<void>(resolve => {
+      saveRevisions(this.revisions);
+      resolve();
+    });
+  }
+
+  getDocument(id: string): Document | undefined {
+    return this.documents.find(doc => doc.ID === id);
+  }
+
+  /**
+   * Returns the active (non-trashed) documents in the current sort order
+   */
   getDocuments(): Document[] {
-    return this.sortDocuments([...this.documents]);
+    return this.sortDocuments(this.documents.filter(doc => !isTrashed(doc)));
+  }
+
+  getTrashedDocuments(): Document[] {
+    return this.sortDocuments(this.documents.filter(isTrashed));
+  }
+
+  setTrashVisible(visible: boolean): void {
+    this.trashVisible = visible;
+    this.notify();
+  }
+
+  isTrashVisible(): boolean {
+    return this.trashVisible;
+  }
+
+  setSearchQuery(query: string): void {
+    if (query === this.searchQuery) return;
+    this.searchQuery = query;
+    this.notify();
+  }
+
+  getSearchQuery(): string {
+    return this.searchQuery;
+  }
+
+  /**
+   * Selects the facet value if it is not selected yet, otherwise deselects it
+   */
+  toggleFacet(group: FacetGroup, value: string): void {
+    const selected = this.facetSelection[group];
+    this.facetSelection = {
+      ...this.facetSelection,
+      [group]: selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value],
+    };
+    this.notify();
+  }
+
+  setFacetSelection(selection: FacetSelection): void {
+    this.facetSelection = { ...selection };
+    this.notify();
+  }
+
+  clearFacets(): void {
+    this.facetSelection = createEmptyFacetSelection();
+    this.notify();
+  }
+
+  getFacetSelection(): FacetSelection {
+    return this.facetSelection;
+  }
+
+  setFacetPanelOpen(open: boolean): void {
+    this.facetPanelOpen = open;
+    this.notify();
+  }
+
+  isFacetPanelOpen(): boolean {
+    return this.facetPanelOpen;
+  }
+
+  /**
+   * Marks a document as open, or closes it when no ID is given
+   */
+  setOpenDocument(id: string | undefined): void {
+    if (id === this.openDocumentId) return;
+    this.openDocumentId = id;
+    this.notify();
+  }
+
+  getOpenDocumentId(): string | undefined {
+    return this.openDocumentId;
+  }
+
+  /**
+   * Records a document change; only the most recent entries across all documents are kept
+   */
+  recordActivity(entry: ActivityEntry): void {
+    this.activity = [entry, ...this.activity].slice(0, MAX_ACTIVITY_ENTRIES);
+    this.notify();
+  }
+
+  /**
+   * Returns the recorded activity for a document, newest first
+   */
+  getActivity(documentId: string): ActivityEntry[] {
+    return this.activity.filter(entry => entry.documentId === documentId);
+  }
+
+  /**
+   * Replaces the whole sort stack; criteria after the first break ties
+   * @param options.persist - Pass false for state that is not the user's choice, e.g. from a shared link,
+   * so it is neither saved as a preference nor sent to the other tabs
+   */
+  setSortCriteria(criteria: SortCriterion[], { persist = true }: { persist?: boolean } = {}): void {
+    if (criteria.length === 0) {
+      console.warn('Sort criteria cannot be empty');
+      return;
+    }
+    this.sortCriteria = criteria.map(criterion => ({ ...criterion }));
+    if (persist) this.persistPreferences();
+    this.notify();
+  }
+
+  getSortCriteria(): SortCriterion[] {
+    return this.sortCriteria.map(criterion => ({ ...criterion }));
   }
 
+  /**
+   * Replaces the primary sort field, dropping it from the tie-breakers
+   */
   setSortField(field: SortField): void {
-    this.sortField = field;
+    const [primary, ...tieBreakers] = this.sortCriteria;
+    this.sortCriteria = [
+      { field, order: primary.order },
+      ...tieBreakers.filter(criterion => criterion.field !== field),
+    ];
+    this.persistPreferences();
     this.notify();
   }
 
   setSortOrder(order: SortOrder): void {
-    this.sortOrder = order;
+    const [primary, ...tieBreakers] = this.sortCriteria;
+    this.sortCriteria = [{ ...primary, order }, ...tieBreakers];
+    this.persistPreferences();
     this.notify();
   }
 
   getSortField(): SortField {
-    return this.sortField;
+    return this.sortCriteria[0].field;
   }
 
   getSortOrder(): SortOrder {
-    return this.sortOrder;
+    return this.sortCriteria[0].order;
   }
 
-  setViewMode(mode: ViewMode): void {
+  /**
+   * @param options.persist - Pass false to change the view without saving it or sending it to the other tabs
+   */
+  setViewMode(mode: ViewMode, { persist = true }: { persist?: boolean } = {}): void {
     this.viewMode = mode;
+    if (persist) this.persistPreferences();
     this.notify();
   }
 
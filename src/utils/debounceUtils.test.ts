@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { debounce } from './debounceUtils';
+
+describe('debounce', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should invoke the function after the wait time', () => {
+    const fn = vi.fn();
+    const debounced = debounce(fn, 200);
+
+    debounced('a');
+    vi.advanceTimersByTime(199);
+    expect(fn).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(fn).toHaveBeenCalledWith('a');
+  });
+
+  it('should only invoke once with the latest arguments for rapid calls', () => {
+    const fn = vi.fn();
+    const debounced = debounce(fn, 200);
+
+    debounced('a');
+    vi.advanceTimersByTime(100);
+    debounced('ab');
+    vi.advanceTimersByTime(100);
+    debounced('abc');
+    vi.advanceTimersByTime(200);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(fn).toHaveBeenCalledWith('abc');
+  });
+
+  it('should not invoke the function after cancel', () => {
+    const fn = vi.fn();
+    const debounced = debounce(fn, 200);
+
+    debounced('a');
+    debounced.cancel();
+    vi.advanceTimersByTime(500);
+
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('should allow new calls after cancel', () => {
+    const fn = vi.fn();
+    const debounced = debounce(fn, 200);
+
+    debounced('a');
+    debounced.cancel();
+    debounced('b');
+    vi.advanceTimersByTime(200);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(fn).toHaveBeenCalledWith('b');
+  });
+});
@@ -0,0 +1,31 @@
+export interface Debounced<Args extends unknown[]> {
+  (...args: Args): void;
+  cancel(): void;
+}
+
+/**
+ * Delays invoking fn until wait ms have passed since the last call
+ */
+export function debounce<Args extends unknown[]>(
+  fn: (...args: Args) => void,
+  wait: number
+): Debounced<Args> {
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+
+  const debounced = (...args: Args) => {
+    if (timeout) clearTimeout(timeout);
+    timeout = setTimeout(() => {
+      timeout = null;
+      fn(...args);
+    }, wait);
+  };
+
+  debounced.cancel = () => {
+    if (timeout) {
+      clearTimeout(timeout);
+      timeout = null;
+    }
+  };
+
+  return debounced;
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { fromSocketNotification, parseDocumentDates } from './documentUtils';
+import { fromSocketNotification, isTrashed, parseDocumentDates } from './documentUtils';
 import type { SocketsNotification } from '../models/sockets';
 import type { Document } from '../models/document';
 
@@ -163,4 +163,58 @@ describe('parseDocumentDates', () => {
     expect(doc.CreatedAt).toBe(originalCreatedAt);
     expect(doc.UpdatedAt).toBe(originalUpdatedAt);
   });
+
+  it('should revive DeletedAt for trashed documents', () => {
+    const doc = {
+      ID: 'doc-123',
+      Title: 'Trashed Doc',
+      Contributors: [],
+      Version: 1,
+      Attachments: [],
+      CreatedAt: '2024-01-15T10:30:00Z',
+      UpdatedAt: '2024-01-20T15:45:00Z',
+      DeletedAt: '2024-02-01T08:00:00Z',
+    } as unknown as Document;
+
+    const result = parseDocumentDates(doc);
+
+    expect(result.DeletedAt).toBeInstanceOf(Date);
+    expect(result.DeletedAt?.toISOString()).toBe('2024-02-01T08:00:00.000Z');
+  });
+
+  it('should not add DeletedAt to active documents', () => {
+    const doc: Document = {
+      ID: 'doc-123',
+      Title: 'Active Doc',
+      Contributors: [],
+      Version: 1,
+      Attachments: [],
+      CreatedAt: new Date('2024-01-15T10:30:00Z'),
+      UpdatedAt: new Date('2024-01-15T10:30:00Z'),
+    };
+
+    const result = parseDocumentDates(doc);
+
+    expect('DeletedAt' in result).toBe(false);
+  });
+});
+
+describe('isTrashed', () => {
+  const doc: Document = {
+    ID: 'doc-123',
+    Title: 'Doc',
+    Contributors: [],
+    Version: 1,
+    Attachments: [],
+    CreatedAt: new Date('2024-01-15T10:30:00Z'),
+    UpdatedAt: new Date('2024-01-15T10:30:00Z'),
+  };
+
+  it('should return false for active documents', () => {
+    expect(isTrashed(doc)).toBe(false);
+  });
+
+  it('should return true when DeletedAt is set', () => {
+    expect(isTrashed({ ...doc, DeletedAt: new Date() })).toBe(true);
+  });
 });
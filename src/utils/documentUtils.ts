@@ -23,5 +23,10 @@ export function parseDocumentDates(doc: Document): Document {
     ...doc,
     CreatedAt: new Date(doc.CreatedAt),
     UpdatedAt: new Date(doc.UpdatedAt),
+    ...(doc.DeletedAt ? { DeletedAt: new Date(doc.DeletedAt) } : {}),
   };
 }
+
+export function isTrashed(doc: Document): boolean {
+  return doc.DeletedAt instanceof Date;
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeFacets,
+  createEmptyFacetSelection,
+  filterByFacets,
+  getAttachmentExtension,
+  getCreatedMonth,
+  hasFacetSelection,
+  matchesFacets,
+} from './facetUtils';
+import type { Document } from '../models/document';
+
+describe('facetUtils', () => {
+  const base: Document = {
+    ID: 'doc-1',
+    Title: 'Report',
+    Contributors: [
+      { ID: 'user-1', Name: 'Ada' },
+      { ID: 'user-2', Name: 'Grace' },
+    ],
+    Version: '1.0.0',
+    Attachments: ['summary.PDF', 'data.xlsx', 'appendix.pdf'],
+    CreatedAt: new Date(2026, 0, 20),
+    UpdatedAt: new Date(2026, 0, 20),
+  };
+  const second: Document = {
+    ...base,
+    ID: 'doc-2',
+    Contributors: [{ ID: 'user-1', Name: 'Ada' }],
+    Attachments: ['notes'],
+    CreatedAt: new Date(2026, 2, 5),
+  };
+  const third: Document = {
+    ...base,
+    ID: 'doc-3',
+    Contributors: [{ ID: 'user-3', Name: 'Linus' }],
+    Attachments: ['budget.xlsx'],
+    CreatedAt: new Date(2025, 11, 31),
+  };
+
+  describe('getAttachmentExtension', () => {
+    it('should return the lowercase extension', () => {
+      expect(getAttachmentExtension('Report.Final.PDF')).toBe('pdf');
+    });
+
+    it('should return null for names without an extension', () => {
+      expect(getAttachmentExtension('README')).toBeNull();
+      expect(getAttachmentExtension('.gitignore')).toBeNull();
+      expect(getAttachmentExtension('trailing.')).toBeNull();
+    });
+  });
+
+  describe('getCreatedMonth', () => {
+    it('should format the creation month as YYYY-MM', () => {
+      expect(getCreatedMonth(third)).toBe('2025-12');
+    });
+  });
+
+  describe('hasFacetSelection', () => {
+    it('should detect whether any facet is selected', () => {
+      expect(hasFacetSelection(createEmptyFacetSelection())).toBe(false);
+      expect(hasFacetSelection({ ...createEmptyFacetSelection(), month: ['2026-01'] })).toBe(true);
+    });
+  });
+
+  describe('computeFacets', () => {
+    it('should count documents per contributor, most common first', () => {
+      const facets = computeFacets([base, second, third]);
+
+      expect(facets.contributor).toEqual([
+        { value: 'Ada', label: 'Ada', count: 2 },
+        { value: 'Grace', label: 'Grace', count: 1 },
+        { value: 'Linus', label: 'Linus', count: 1 },
+      ]);
+    });
+
+    it('should count each extension once per document', () => {
+      const facets = computeFacets([base, second, third]);
+
+      expect(facets.extension).toEqual([
+        { value: 'xlsx', label: '.xlsx', count: 2 },
+        { value: 'pdf', label: '.pdf', count: 1 },
+      ]);
+    });
+
+    it('should list creation months newest first', () => {
+      const facets = computeFacets([base, second, third]);
+
+      expect(facets.month).toEqual([
+        { value: '2026-03', label: 'Mar 2026', count: 1 },
+        { value: '2026-01', label: 'Jan 2026', count: 1 },
+        { value: '2025-12', label: 'Dec 2025', count: 1 },
+      ]);
+    });
+
+    it('should keep selected values that no longer match any document', () => {
+      const selection = { ...createEmptyFacetSelection(), contributor: ['Margaret'] };
+
+      const facets = computeFacets([second], selection);
+
+      expect(facets.contributor).toContainEqual({ value: 'Margaret', label: 'Margaret', count: 0 });
+    });
+
+    it('should return empty groups for no documents', () => {
+      expect(computeFacets([])).toEqual({ contributor: [], extension: [], month: [] });
+    });
+
+    it("should count each group over the documents matching the other groups' selections", () => {
+      const selection = { ...createEmptyFacetSelection(), extension: ['xlsx'] };
+
+      const facets = computeFacets([base, second, third], selection);
+      const unfiltered = computeFacets([base, second, third]);
+
+      expect(facets.extension).toEqual(unfiltered.extension);
+      expect(facets.contributor).toEqual([
+        { value: 'Ada', label: 'Ada', count: 1 },
+        { value: 'Grace', label: 'Grace', count: 1 },
+        { value: 'Linus', label: 'Linus', count: 1 },
+      ]);
+    });
+  });
+
+  describe('matchesFacets', () => {
+    it('should match any selected value within a group', () => {
+      const selection = { ...createEmptyFacetSelection(), contributor: ['Grace', 'Linus'] };
+
+      expect(matchesFacets(base, selection)).toBe(true);
+      expect(matchesFacets(second, selection)).toBe(false);
+      expect(matchesFacets(third, selection)).toBe(true);
+    });
+
+    it('should require a match in every selected group', () => {
+      const selection = {
+        contributor: ['Ada'],
+        extension: ['xlsx'],
+        month: [],
+      };
+
+      expect(matchesFacets(base, selection)).toBe(true);
+      expect(matchesFacets(second, selection)).toBe(false);
+    });
+  });
+
+  describe('filterByFacets', () => {
+    it('should return all documents without a selection', () => {
+      const documents = [base, second];
+
+      expect(filterByFacets(documents, createEmptyFacetSelection())).toBe(documents);
+    });
+
+    it('should keep matching documents in order', () => {
+      const selection = { ...createEmptyFacetSelection(), month: ['2026-01', '2025-12'] };
+
+      expect(filterByFacets([base, second, third], selection)).toEqual([base, third]);
+    });
+  });
+});
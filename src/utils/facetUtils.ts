@@ -0,0 +1,125 @@
+import type { Document } from '../models/document';
+import type { FacetCounts, FacetGroup, FacetOption, FacetSelection } from '../models/facet';
+
+export const FACET_GROUPS: FacetGroup[] = ['contributor', 'extension', 'month'];
+
+const MONTH_NAMES = [
+  'Jan',
+  'Feb',
+  'Mar',
+  'Apr',
+  'May',
+  'Jun',
+  'Jul',
+  'Aug',
+  'Sep',
+  'Oct',
+  'Nov',
+  'Dec',
+];
+
+export function createEmptyFacetSelection(): FacetSelection {
+  return { contributor: [], extension: [], month: [] };
+}
+
+export function hasFacetSelection(selection: FacetSelection): boolean {
+  return FACET_GROUPS.some(group => selection[group].length > 0);
+}
+
+/**
+ * Returns the lowercase file extension of an attachment, or null when it has none
+ */
+export function getAttachmentExtension(fileName: string): string | null {
+  const dot = fileName.lastIndexOf('.');
+  if (dot <= 0 || dot === fileName.length - 1) return null;
+  return fileName.slice(dot + 1).toLowerCase();
+}
+
+/**
+ * Returns the creation month of a document as YYYY-MM in local time
+ */
+export function getCreatedMonth(doc: Document): string {
+  const month = String(doc.CreatedAt.getMonth() + 1).padStart(2, '0');
+  return `${doc.CreatedAt.getFullYear()}-${month}`;
+}
+
+function getFacetValues(doc: Document, group: FacetGroup): string[] {
+  switch (group) {
+    case 'contributor':
+      return [...new Set(doc.Contributors.map(c => c.Name))];
+    case 'extension':
+      return [
+        ...new Set(
+          doc.Attachments.map(getAttachmentExtension).filter((ext): ext is string => ext !== null)
+        ),
+      ];
+    case 'month':
+      return [getCreatedMonth(doc)];
+  }
+}
+
+function getFacetLabel(group: FacetGroup, value: string): string {
+  switch (group) {
+    case 'extension':
+      return `.${value}`;
+    case 'month': {
+      const [year, month] = value.split('-');
+      return `${MONTH_NAMES[Number(month) - 1]} ${year}`;
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Counts how many documents carry each facet value
+ * Each group is counted over the documents matching the other groups' selections, so a count
+ * is the number of results ticking that value would give; ticking a value never changes the
+ * counts of its own group. Selected values are always listed, with a zero count when nothing
+ * matches them any more
+ */
+export function computeFacets(
+  documents: Document[],
+  selection: FacetSelection = createEmptyFacetSelection()
+): FacetCounts {
+  const result = {} as FacetCounts;
+
+  FACET_GROUPS.forEach(group => {
+    const counts = new Map<string, number>();
+    selection[group].forEach(value => counts.set(value, 0));
+    filterByFacets(documents, { ...selection, [group]: [] }).forEach(doc => {
+      getFacetValues(doc, group).forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+    });
+
+    const options: FacetOption[] = Array.from(counts, ([value, count]) => ({
+      value,
+      label: getFacetLabel(group, value),
+      count,
+    }));
+
+    // Months read newest first; other groups by popularity, then alphabetically
+    result[group] = options.sort((a, b) =>
+      group === 'month'
+        ? b.value.localeCompare(a.value)
+        : b.count - a.count || a.label.localeCompare(b.label)
+    );
+  });
+
+  return result;
+}
+
+/**
+ * A document matches when, for every group with a selection, it has at least one selected value
+ */
+export function matchesFacets(doc: Document, selection: FacetSelection): boolean {
+  return FACET_GROUPS.every(group => {
+    const selected = selection[group];
+    if (selected.length === 0) return true;
+    return getFacetValues(doc, group).some(value => selected.includes(value));
+  });
+}
+
+export function filterByFacets(documents: Document[], selection: FacetSelection): Document[] {
+  if (!hasFacetSelection(selection)) return documents;
+  return documents.filter(doc => matchesFacets(doc, selection));
+}
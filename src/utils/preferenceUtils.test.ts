@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { isSortField, isSortOrder, isViewMode, parseSortCriteria } from './preferenceUtils';
+
+describe('preferenceUtils', () => {
+  describe('type guards', () => {
+    it('should accept known values', () => {
+      expect(isSortField('AttachmentCount')).toBe(true);
+      expect(isSortOrder('desc')).toBe(true);
+      expect(isViewMode('grid')).toBe(true);
+    });
+
+    it('should reject unknown values, prototype keys and non-strings', () => {
+      expect(isSortField('Author')).toBe(false);
+      expect(isSortField('constructor')).toBe(false);
+      expect(isSortOrder('sideways')).toBe(false);
+      expect(isViewMode('table')).toBe(false);
+      expect(isViewMode(undefined)).toBe(false);
+      expect(isSortField(1)).toBe(false);
+    });
+  });
+
+  describe('parseSortCriteria', () => {
+    it('should keep valid criteria in order', () => {
+      expect(
+        parseSortCriteria([
+          { field: 'Version', order: 'desc' },
+          { field: 'Title', order: 'asc' },
+        ])
+      ).toEqual([
+        { field: 'Version', order: 'desc' },
+        { field: 'Title', order: 'asc' },
+      ]);
+    });
+
+    it('should drop invalid and duplicate criteria', () => {
+      expect(
+        parseSortCriteria([
+          { field: 'Author', order: 'asc' },
+          { field: 'Title' },
+          'Version',
+          null,
+          { field: 'Title', order: 'asc' },
+          { field: 'Title', order: 'desc' },
+        ])
+      ).toEqual([{ field: 'Title', order: 'asc' }]);
+    });
+
+    it('should strip unknown properties', () => {
+      expect(parseSortCriteria([{ field: 'Title', order: 'asc', extra: true }])).toEqual([
+        { field: 'Title', order: 'asc' },
+      ]);
+    });
+
+    it('should return an empty stack for non-arrays', () => {
+      expect(parseSortCriteria(undefined)).toEqual([]);
+      expect(parseSortCriteria({ field: 'Title', order: 'asc' })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import type { SortCriterion, SortField, SortOrder, ViewMode } from '../models/document';
+
+const SORT_FIELDS: Record<SortField, true> = {
+  Title: true,
+  Version: true,
+  CreatedAt: true,
+  UpdatedAt: true,
+  ContributorCount: true,
+  AttachmentCount: true,
+};
+const SORT_ORDERS: Record<SortOrder, true> = { asc: true, desc: true };
+const VIEW_MODES: Record<ViewMode, true> = { list: true, grid: true };
+
+function isKeyOf<T extends string>(record: Record<T, true>, value: unknown): value is T {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(record, value);
+}
+
+export function isSortField(value: unknown): value is SortField {
+  return isKeyOf(SORT_FIELDS, value);
+}
+
+export function isSortOrder(value: unknown): value is SortOrder {
+  return isKeyOf(SORT_ORDERS, value);
+}
+
+export function isViewMode(value: unknown): value is ViewMode {
+  return isKeyOf(VIEW_MODES, value);
+}
+
+/**
+ * Validates an untrusted sort stack (e.g. from storage or the URL)
+ * Drops unknown or duplicate fields and unknown orders instead of discarding the whole stack
+ */
+export function parseSortCriteria(value: unknown): SortCriterion[] {
+  if (!Array.isArray(value)) return [];
+
+  const criteria: SortCriterion[] = [];
+  for (const item of value) {
+    if (
+      isSortField(item?.field) &&
+      isSortOrder(item?.order) &&
+      !criteria.some(criterion => criterion.field === item.field)
+    ) {
+      criteria.push({ field: item.field, order: item.order });
+    }
+  }
+  return criteria;
+}
@@ -0,0 +1,246 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateQuery,
+  filterByQuery,
+  getHighlightTerms,
+  parseQuery,
+  QueryParseError,
+} from './queryUtils';
+import type { Document } from '../models/document';
+
+describe('queryUtils', () => {
+  const report: Document = {
+    ID: 'doc-1',
+    Title: 'Quarterly Report',
+    Contributors: [{ ID: 'user-1', Name: 'Ada Lovelace' }],
+    Version: '2.1.0',
+    Attachments: ['summary.pdf'],
+    CreatedAt: new Date(2026, 2, 15, 10, 30),
+    UpdatedAt: new Date(2026, 3, 1, 9, 0),
+  };
+
+  const notes: Document = {
+    ID: 'doc-2',
+    Title: 'Meeting Notes',
+    Contributors: [],
+    Version: 1,
+    Attachments: [],
+    CreatedAt: new Date(2025, 11, 31, 23, 59),
+    UpdatedAt: new Date(2025, 11, 31, 23, 59),
+  };
+
+  const matches = (query: string, doc: Document) => evaluateQuery(doc, parseQuery(query));
+
+  const parseError = (query: string): QueryParseError => {
+    try {
+      parseQuery(query);
+    } catch (error) {
+      if (error instanceof QueryParseError) return error;
+      throw error;
+    }
+    throw new Error(`Expected "${query}" to be rejected`);
+  };
+
+  describe('parseQuery', () => {
+    it('should return no clauses for a blank query', () => {
+      expect(parseQuery('   ').clauses).toEqual([]);
+    });
+
+    it('should treat unprefixed terms as plain text', () => {
+      expect(parseQuery('Report "Ada Lovelace"').clauses).toEqual([
+        { kind: 'text', value: 'report' },
+        { kind: 'text', value: 'ada lovelace' },
+      ]);
+    });
+
+    it('should keep quoted values with spaces together', () => {
+      expect(parseQuery('contributor:"Ada Lovelace"').clauses).toEqual([
+        { kind: 'field', field: 'Contributors', operator: '~', value: 'ada lovelace' },
+      ]);
+    });
+
+    it('should parse exact and contains text operators', () => {
+      expect(parseQuery('title:~report title:=notes').clauses).toEqual([
+        { kind: 'field', field: 'Title', operator: '~', value: 'report' },
+        { kind: 'field', field: 'Title', operator: '=', value: 'notes' },
+      ]);
+    });
+
+    it('should parse version comparisons', () => {
+      expect(parseQuery('version:>=2.0.0 version:3').clauses).toEqual([
+        { kind: 'version', operator: '>=', value: '2.0.0' },
+        { kind: 'version', operator: '=', value: '3' },
+      ]);
+    });
+
+    it('should accept filter names in any case', () => {
+      expect(parseQuery('HAS:Attachments').clauses).toEqual([
+        { kind: 'has', field: 'Attachments' },
+      ]);
+    });
+
+    it('should parse month ranges as inclusive of the last month', () => {
+      const [clause] = parseQuery('created:2026-01..2026-06').clauses;
+
+      expect(clause).toEqual({
+        kind: 'date',
+        field: 'CreatedAt',
+        from: new Date(2026, 0, 1),
+        to: new Date(2026, 6, 1),
+      });
+    });
+
+    it('should treat quoted text containing a colon as plain text', () => {
+      expect(parseQuery('"notes:v2"').clauses).toEqual([{ kind: 'text', value: 'notes:v2' }]);
+    });
+  });
+
+  describe('parse errors', () => {
+    it('should reject unknown filters and list the valid ones', () => {
+      const error = parseError('report owner:ada');
+
+      expect(error.message).toContain('Unknown filter "owner:"');
+      expect(error.message).toContain('contributor:');
+      expect(error.position).toBe(7);
+    });
+
+    it('should not treat object prototype keys as filters', () => {
+      expect(parseError('constructor:x').message).toContain('Unknown filter "constructor:"');
+      expect(parseError('has:toString').message).toContain('Unknown value "tostring"');
+    });
+
+    it('should reject an unterminated quote', () => {
+      expect(parseError('contributor:"Ada Lovelace').message).toBe(
+        'Missing closing quote in contributor:"Ada'
+      );
+    });
+
+    it('should reject a missing value', () => {
+      expect(parseError('title:').message).toBe('Missing value after title:');
+      expect(parseError('title:~').message).toBe('Missing value after title:~');
+    });
+
+    it('should reject malformed versions', () => {
+      expect(parseError('version:>=two').message).toBe(
+        'Invalid version "two" in version:>=two. Use a version like 2, 2.0.0 or 2.0.0-beta.1'
+      );
+    });
+
+    it('should reject malformed dates', () => {
+      expect(parseError('created:2026/01').message).toContain('Invalid date "2026/01"');
+    });
+
+    it('should reject dates that do not exist', () => {
+      expect(parseError('created:2026-02-30').message).toBe(
+        '"2026-02-30" in created:2026-02-30 is not a calendar date'
+      );
+      expect(parseError('created:2026-13').message).toContain('is not a calendar date');
+    });
+
+    it('should reject backwards and empty ranges', () => {
+      expect(parseError('created:2026-06..2026-01').message).toContain('ends before it starts');
+      expect(parseError('created:..').message).toContain('Invalid date range');
+    });
+
+    it('should reject unknown has: values', () => {
+      expect(parseError('has:comments').message).toBe(
+        'Unknown value "comments" for has:. Use has:attachments or has:contributors'
+      );
+    });
+  });
+
+  describe('evaluateQuery', () => {
+    it('should match everything for an empty query', () => {
+      expect(matches('', report)).toBe(true);
+      expect(matches('', notes)).toBe(true);
+    });
+
+    it('should match plain text across title, contributors and attachments', () => {
+      expect(matches('lovelace summary', report)).toBe(true);
+      expect(matches('lovelace notes', report)).toBe(false);
+    });
+
+    it('should match contributors by partial name', () => {
+      expect(matches('contributor:"ada love"', report)).toBe(true);
+      expect(matches('contributor:ada', notes)).toBe(false);
+    });
+
+    it('should match exact titles case-insensitively', () => {
+      expect(matches('title:="quarterly report"', report)).toBe(true);
+      expect(matches('title:=quarterly', report)).toBe(false);
+    });
+
+    it('should match attachments', () => {
+      expect(matches('attachment:.pdf', report)).toBe(true);
+    });
+
+    it('should compare semantic versions', () => {
+      expect(matches('version:>=2.0.0', report)).toBe(true);
+      expect(matches('version:<2.1.0', report)).toBe(false);
+      expect(matches('version:2.1', report)).toBe(true);
+    });
+
+    it('should compare bare numeric versions against semantic ones', () => {
+      expect(matches('version:<2.0.0', notes)).toBe(true);
+      expect(matches('version:1', notes)).toBe(true);
+      expect(matches('version:>1', report)).toBe(true);
+    });
+
+    it('should rank prereleases below their release', () => {
+      expect(matches('version:>2.1.0-rc.1', report)).toBe(true);
+      expect(matches('version:<2.1.0-rc.1', { ...report, Version: '2.1.0-beta' })).toBe(true);
+      expect(matches('version:2.1.0', { ...report, Version: '2.1.0+build.7' })).toBe(true);
+    });
+
+    it('should not match documents without a readable version', () => {
+      expect(matches('version:>=0', { ...report, Version: 'draft' })).toBe(false);
+    });
+
+    it('should match dates within a period', () => {
+      expect(matches('created:2026-03', report)).toBe(true);
+      expect(matches('created:2026', notes)).toBe(false);
+      expect(matches('created:2025-12-31', notes)).toBe(true);
+    });
+
+    it('should match date ranges and comparisons', () => {
+      expect(matches('created:2026-01..2026-06', report)).toBe(true);
+      expect(matches('created:2026-01..', notes)).toBe(false);
+      expect(matches('created:..2025', notes)).toBe(true);
+      expect(matches('created:>2025', report)).toBe(true);
+      expect(matches('created:<2026-03-15', report)).toBe(false);
+      expect(matches('updated:<=2026-04-01', report)).toBe(true);
+    });
+
+    it('should match has: filters', () => {
+      expect(matches('has:attachments has:contributors', report)).toBe(true);
+      expect(matches('has:attachments', notes)).toBe(false);
+    });
+
+    it('should require every clause to match', () => {
+      const query =
+        'contributor:"Ada Lovelace" version:>=2.0.0 created:2026-01..2026-06 has:attachments title:~report';
+
+      expect(matches(query, report)).toBe(true);
+      expect(matches(`${query} notes`, report)).toBe(false);
+    });
+  });
+
+  describe('filterByQuery', () => {
+    it('should keep matching documents in order', () => {
+      expect(filterByQuery([report, notes], parseQuery('version:<3'))).toEqual([report, notes]);
+      expect(filterByQuery([report, notes], parseQuery('has:attachments'))).toEqual([report]);
+    });
+  });
+
+  describe('getHighlightTerms', () => {
+    it('should return text and text-field values', () => {
+      expect(
+        getHighlightTerms('report contributor:"Ada Lovelace" version:>=2 has:attachments')
+      ).toEqual(['report', 'ada lovelace']);
+    });
+
+    it('should return nothing for invalid queries', () => {
+      expect(getHighlightTerms('title:"unterminated')).toEqual([]);
+    });
+  });
+});
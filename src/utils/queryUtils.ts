@@ -0,0 +1,325 @@
+import type { Document } from '../models/document';
+import { containsText } from './searchUtils';
+import { compareVersions, parseVersion } from './versionUtils';
+
+export type ComparisonOperator = '=' | '>' | '>=' | '<' | '<=';
+export type TextMatchOperator = '~' | '=';
+export type QueryListField = 'Contributors' | 'Attachments';
+export type QueryTextField = 'Title' | QueryListField;
+export type QueryDateField = 'CreatedAt' | 'UpdatedAt';
+
+export type QueryClause =
+  | { kind: 'text'; value: string }
+  | { kind: 'field'; field: QueryTextField; operator: TextMatchOperator; value: string }
+  | { kind: 'version'; operator: ComparisonOperator; value: string }
+  | { kind: 'date'; field: QueryDateField; from?: Date; to?: Date }
+  | { kind: 'has'; field: QueryListField };
+
+/**
+ * A parsed filter query; a document matches when every clause matches
+ */
+export interface ParsedQuery {
+  clauses: QueryClause[];
+}
+
+/**
+ * Thrown for malformed queries; position is the index of the offending term in the input
+ */
+export class QueryParseError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'QueryParseError';
+    this.position = position;
+  }
+}
+
+interface RawTerm {
+  raw: string;
+  position: number;
+}
+
+interface DatePeriod {
+  start: Date;
+  end: Date;
+}
+
+const TEXT_FIELDS: Record<string, QueryTextField> = {
+  title: 'Title',
+  contributor: 'Contributors',
+  attachment: 'Attachments',
+};
+
+const DATE_FIELDS: Record<string, QueryDateField> = {
+  created: 'CreatedAt',
+  updated: 'UpdatedAt',
+};
+
+const HAS_VALUES: Record<string, QueryListField> = {
+  attachments: 'Attachments',
+  contributors: 'Contributors',
+};
+
+const FILTER_NAMES = [...Object.keys(TEXT_FIELDS), 'version', ...Object.keys(DATE_FIELDS), 'has'];
+
+const DATE_PATTERN = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/;
+
+/**
+ * Splits the input on whitespace, keeping double-quoted sections together
+ */
+function splitTerms(input: string): RawTerm[] {
+  const terms: RawTerm[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
+
+    const position = index;
+    let raw = '';
+    while (index < input.length && !/\s/.test(input[index])) {
+      if (input[index] === '"') {
+        const closing = input.indexOf('"', index + 1);
+        if (closing === -1) {
+          throw new QueryParseError(
+            `Missing closing quote in ${input.slice(position).split(/\s/)[0]}`,
+            position
+          );
+        }
+        raw += input.slice(index, closing + 1);
+        index = closing + 1;
+      } else {
+        raw += input[index];
+        index++;
+      }
+    }
+    terms.push({ raw, position });
+  }
+
+  return terms;
+}
+
+function lookup<T>(map: Record<string, T>, key: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(map, key) ? map[key] : undefined;
+}
+
+function unquote(value: string): string {
+  return value.replace(/"/g, '');
+}
+
+function parseDatePeriod(value: string, term: RawTerm): DatePeriod {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) {
+    throw new QueryParseError(
+      `Invalid date "${value}" in ${term.raw}. Use YYYY, YYYY-MM or YYYY-MM-DD`,
+      term.position
+    );
+  }
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : undefined;
+  const day = match[3] ? Number(match[3]) : undefined;
+  const start = new Date(year, month ?? 0, day ?? 1);
+
+  if (
+    (month !== undefined && (month < 0 || month > 11)) ||
+    (day !== undefined && start.getDate() !== day)
+  ) {
+    throw new QueryParseError(`"${value}" in ${term.raw} is not a calendar date`, term.position);
+  }
+
+  const end =
+    day !== undefined
+      ? new Date(year, month ?? 0, day + 1)
+      : month !== undefined
+        ? new Date(year, month + 1, 1)
+        : new Date(year + 1, 0, 1);
+
+  return { start, end };
+}
+
+function parseDateClause(field: QueryDateField, operand: string, term: RawTerm): QueryClause {
+  const comparison = /^(>=|<=|>|<)(.*)$/.exec(operand);
+  if (comparison) {
+    const period = parseDatePeriod(comparison[2], term);
+    switch (comparison[1]) {
+      case '>=':
+        return { kind: 'date', field, from: period.start };
+      case '>':
+        return { kind: 'date', field, from: period.end };
+      case '<=':
+        return { kind: 'date', field, to: period.end };
+      default:
+        return { kind: 'date', field, to: period.start };
+    }
+  }
+
+  if (operand.includes('..')) {
+    const [fromText, toText, ...rest] = operand.split('..');
+    if (rest.length > 0 || (!fromText && !toText)) {
+      throw new QueryParseError(
+        `Invalid date range in ${term.raw}. Use FROM..TO, FROM.. or ..TO`,
+        term.position
+      );
+    }
+    const from = fromText ? parseDatePeriod(fromText, term).start : undefined;
+    const to = toText ? parseDatePeriod(toText, term).end : undefined;
+    if (from && to && from >= to) {
+      throw new QueryParseError(`Date range in ${term.raw} ends before it starts`, term.position);
+    }
+    return { kind: 'date', field, from, to };
+  }
+
+  const period = parseDatePeriod(operand, term);
+  return { kind: 'date', field, from: period.start, to: period.end };
+}
+
+function parseFieldClause(name: string, operand: string, term: RawTerm): QueryClause {
+  if (!unquote(operand)) {
+    throw new QueryParseError(`Missing value after ${name}:`, term.position);
+  }
+
+  const textField = lookup(TEXT_FIELDS, name);
+  if (textField) {
+    const operator: TextMatchOperator = operand.startsWith('=') ? '=' : '~';
+    const value = unquote(operand.replace(/^[~=]/, '')).toLowerCase();
+    if (!value) {
+      throw new QueryParseError(`Missing value after ${term.raw}`, term.position);
+    }
+    return {
+      kind: 'field',
+      field: textField,
+      operator,
+      value,
+    };
+  }
+
+  if (name === 'version') {
+    const match = /^(>=|<=|>|<|=)?(.*)$/.exec(unquote(operand)) as RegExpExecArray;
+    const value = match[2];
+    if (!parseVersion(value)) {
+      throw new QueryParseError(
+        `Invalid version "${value}" in ${term.raw}. Use a version like 2, 2.0.0 or 2.0.0-beta.1`,
+        term.position
+      );
+    }
+    return { kind: 'version', operator: (match[1] as ComparisonOperator) || '=', value };
+  }
+
+  const dateField = lookup(DATE_FIELDS, name);
+  if (dateField) {
+    return parseDateClause(dateField, unquote(operand), term);
+  }
+
+  if (name === 'has') {
+    const value = unquote(operand).toLowerCase();
+    const field = lookup(HAS_VALUES, value);
+    if (!field) {
+      throw new QueryParseError(
+        `Unknown value "${value}" for has:. Use has:attachments or has:contributors`,
+        term.position
+      );
+    }
+    return { kind: 'has', field };
+  }
+
+  throw new QueryParseError(
+    `Unknown filter "${name}:". Use ${FILTER_NAMES.map(filter => `${filter}:`).join(', ')}, ` +
+      'or wrap the text in quotes to search for it',
+    term.position
+  );
+}
+
+/**
+ * Parses a filter query such as `contributor:"Ada Lovelace" version:>=2.0.0 has:attachments`
+ * Terms without a filter prefix are plain search text
+ */
+export function parseQuery(input: string): ParsedQuery {
+  const clauses: QueryClause[] = [];
+
+  splitTerms(input).forEach(term => {
+    const match = /^([a-z]+):(.*)$/i.exec(term.raw);
+    if (match) {
+      clauses.push(parseFieldClause(match[1].toLowerCase(), match[2], term));
+      return;
+    }
+
+    const value = unquote(term.raw).toLowerCase();
+    if (value) {
+      clauses.push({ kind: 'text', value });
+    }
+  });
+
+  return { clauses };
+}
+
+function matchesClause(doc: Document, clause: QueryClause): boolean {
+  switch (clause.kind) {
+    case 'text':
+      return containsText(doc, clause.value);
+    case 'field': {
+      const values =
+        clause.field === 'Title'
+          ? [doc.Title]
+          : clause.field === 'Contributors'
+            ? doc.Contributors.map(c => c.Name)
+            : doc.Attachments;
+      return values.some(value =>
+        clause.operator === '='
+          ? value.toLowerCase() === clause.value
+          : value.toLowerCase().includes(clause.value)
+      );
+    }
+    case 'version': {
+      // Documents without a readable version never match a version filter
+      if (!parseVersion(doc.Version)) return false;
+      const diff = compareVersions(doc.Version, clause.value);
+      switch (clause.operator) {
+        case '>':
+          return diff > 0;
+        case '>=':
+          return diff >= 0;
+        case '<':
+          return diff < 0;
+        case '<=':
+          return diff <= 0;
+        default:
+          return diff === 0;
+      }
+    }
+    case 'date': {
+      const time = doc[clause.field].getTime();
+      return (
+        (!clause.from || time >= clause.from.getTime()) &&
+        (!clause.to || time < clause.to.getTime())
+      );
+    }
+    case 'has':
+      return doc[clause.field].length > 0;
+  }
+}
+
+export function evaluateQuery(doc: Document, query: ParsedQuery): boolean {
+  return query.clauses.every(clause => matchesClause(doc, clause));
+}
+
+export function filterByQuery(documents: Document[], query: ParsedQuery): Document[] {
+  return documents.filter(doc => evaluateQuery(doc, query));
+}
+
+/**
+ * Returns the text worth highlighting for a query; invalid queries highlight nothing
+ */
+export function getHighlightTerms(input: string): string[] {
+  try {
+    return parseQuery(input).clauses.flatMap(clause =>
+      clause.kind === 'text' || clause.kind === 'field' ? [clause.value] : []
+    );
+  } catch (error) {
+    if (error instanceof QueryParseError) return [];
+    throw error;
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { canReconnect, getReconnectDelay } from './reconnectUtils';
+import type { ReconnectPolicy } from '../models/sockets';
+
+describe('getReconnectDelay', () => {
+  const policy: ReconnectPolicy = {
+    initialDelay: 1000,
+    maxDelay: 30000,
+    multiplier: 2,
+    jitter: 0.5,
+    maxAttempts: Infinity,
+  };
+  const noJitter = () => 0;
+
+  it.each([
+    [1, 1000],
+    [2, 2000],
+    [3, 4000],
+    [5, 16000],
+  ])('should back off exponentially on attempt %i', (attempt, delay) => {
+    expect(getReconnectDelay(policy, attempt, noJitter)).toBe(delay);
+  });
+
+  it('should cap the delay at maxDelay', () => {
+    expect(getReconnectDelay(policy, 6, noJitter)).toBe(30000);
+    expect(getReconnectDelay(policy, 50, noJitter)).toBe(30000);
+  });
+
+  it('should shorten the delay by up to the jitter fraction', () => {
+    expect(getReconnectDelay(policy, 3, () => 1)).toBe(2000);
+    expect(getReconnectDelay(policy, 3, () => 0.5)).toBe(3000);
+  });
+
+  it('should keep a fixed delay with a multiplier of 1 and no jitter', () => {
+    const fixed = { ...policy, multiplier: 1, jitter: 0, initialDelay: 3000 };
+
+    expect(getReconnectDelay(fixed, 1)).toBe(3000);
+    expect(getReconnectDelay(fixed, 4)).toBe(3000);
+  });
+});
+
+describe('canReconnect', () => {
+  it('should allow attempts up to maxAttempts', () => {
+    const policy = { initialDelay: 0, maxDelay: 0, multiplier: 1, jitter: 0, maxAttempts: 2 };
+
+    expect(canReconnect(policy, 1)).toBe(true);
+    expect(canReconnect(policy, 2)).toBe(false);
+  });
+
+  it('should always allow another attempt when maxAttempts is Infinity', () => {
+    const policy = {
+      initialDelay: 0,
+      maxDelay: 0,
+      multiplier: 1,
+      jitter: 0,
+      maxAttempts: Infinity,
+    };
+
+    expect(canReconnect(policy, 10_000)).toBe(true);
+  });
+});
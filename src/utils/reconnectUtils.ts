@@ -0,0 +1,22 @@
+import type { ReconnectPolicy } from '../models/sockets';
+
+/**
+ * Milliseconds to wait before the given reconnection attempt, counting from 1
+ * @param random - Source of randomness for the jitter, injectable for tests
+ */
+export function getReconnectDelay(
+  policy: ReconnectPolicy,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  const backoff = policy.initialDelay * policy.multiplier ** Math.max(attempt - 1, 0);
+  const capped = Math.min(backoff, policy.maxDelay);
+  return Math.round(capped * (1 - policy.jitter * random()));
+}
+
+/**
+ * Whether another attempt is allowed after `attempts` have already been made
+ */
+export function canReconnect(policy: ReconnectPolicy, attempts: number): boolean {
+  return attempts < policy.maxAttempts;
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { capRevisions, createRevision, diffDocuments } from './revisionUtils';
+import type { Document } from '../models/document';
+import type { Revision } from '../models/revision';
+
+describe('revisionUtils', () => {
+  const doc: Document = {
+    ID: 'doc-1',
+    Title: 'Report',
+    Contributors: [
+      { ID: 'user-1', Name: 'Alice' },
+      { ID: 'user-2', Name: 'Bob' },
+    ],
+    Version: '1.0.0',
+    Attachments: ['a.pdf', 'b.pdf'],
+    CreatedAt: new Date('2024-01-01'),
+    UpdatedAt: new Date('2024-01-02'),
+  };
+
+  describe('createRevision', () => {
+    it('should snapshot the document with a unique ID', () => {
+      const first = createRevision(doc, 'Alice');
+      const second = createRevision(doc);
+
+      expect(first.documentId).toBe('doc-1');
+      expect(first.snapshot).toEqual(doc);
+      expect(first.snapshot).not.toBe(doc);
+      expect(first.author).toBe('Alice');
+      expect(first.savedAt).toBeInstanceOf(Date);
+      expect(second.id).not.toBe(first.id);
+      expect('author' in second).toBe(false);
+    });
+
+    it('should leave out the trash state', () => {
+      const revision = createRevision({ ...doc, DeletedAt: new Date() });
+
+      expect(revision.snapshot.DeletedAt).toBeUndefined();
+    });
+  });
+
+  describe('diffDocuments', () => {
+    it('should return no changes for identical content', () => {
+      expect(diffDocuments(doc, { ...doc, Version: '2.0.0', UpdatedAt: new Date() })).toEqual([]);
+    });
+
+    it('should report title changes', () => {
+      expect(diffDocuments(doc, { ...doc, Title: 'Final report' })).toEqual([
+        { field: 'Title', from: 'Report', to: 'Final report' },
+      ]);
+    });
+
+    it('should report added and removed contributors by name', () => {
+      const next = {
+        ...doc,
+        Contributors: [doc.Contributors[1], { ID: 'user-3', Name: 'Carol' }],
+      };
+
+      expect(diffDocuments(doc, next)).toEqual([
+        { field: 'Contributors', added: ['Carol'], removed: ['Alice'] },
+      ]);
+    });
+
+    it('should show a renamed contributor as removed and added', () => {
+      const next = {
+        ...doc,
+        Contributors: [{ ID: 'user-1', Name: 'Alicia' }, doc.Contributors[1]],
+      };
+
+      expect(diffDocuments(doc, next)).toEqual([
+        { field: 'Contributors', added: ['Alicia'], removed: ['Alice'] },
+      ]);
+    });
+
+    it('should ignore reordering', () => {
+      const next = {
+        ...doc,
+        Contributors: [...doc.Contributors].reverse(),
+        Attachments: [...doc.Attachments].reverse(),
+      };
+
+      expect(diffDocuments(doc, next)).toEqual([]);
+    });
+
+    it('should report attachment changes together with other fields', () => {
+      const next = { ...doc, Title: 'Renamed', Attachments: ['b.pdf', 'c.pdf'] };
+
+      expect(diffDocuments(doc, next)).toEqual([
+        { field: 'Title', from: 'Report', to: 'Renamed' },
+        { field: 'Attachments', added: ['c.pdf'], removed: ['a.pdf'] },
+      ]);
+    });
+  });
+
+  describe('capRevisions', () => {
+    const revision = (id: string, documentId: string): Revision => ({
+      id,
+      documentId,
+      snapshot: { ...doc, ID: documentId },
+      savedAt: new Date(),
+    });
+
+    it('should keep the newest revisions per document in order', () => {
+      const revisions = [
+        revision('a1', 'a'),
+        revision('b1', 'b'),
+        revision('a2', 'a'),
+        revision('a3', 'a'),
+        revision('b2', 'b'),
+      ];
+
+      expect(capRevisions(revisions, 2).map(r => r.id)).toEqual(['b1', 'a2', 'a3', 'b2']);
+    });
+
+    it('should also keep only the newest revisions overall', () => {
+      const revisions = [
+        revision('a1', 'a'),
+        revision('b1', 'b'),
+        revision('a2', 'a'),
+        revision('b2', 'b'),
+      ];
+
+      expect(capRevisions(revisions, 2, 3).map(r => r.id)).toEqual(['b1', 'a2', 'b2']);
+    });
+
+    it('should return all revisions when under the cap', () => {
+      const revisions = [revision('a1', 'a'), revision('b1', 'b')];
+
+      expect(capRevisions(revisions, 5)).toEqual(revisions);
+    });
+  });
+});
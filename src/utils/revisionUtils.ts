@@ -0,0 +1,80 @@
+import type { Document } from '../models/document';
+import type { Revision, RevisionChange } from '../models/revision';
+
+/**
+ * Creates a revision from a document; trash state is not part of a revision
+ */
+export function createRevision(document: Document, author?: string): Revision {
+  const snapshot: Document = { ...document };
+  delete snapshot.DeletedAt;
+
+  return {
+    id: crypto.randomUUID(),
+    documentId: document.ID,
+    snapshot,
+    savedAt: new Date(),
+    ...(author ? { author } : {}),
+  };
+}
+
+/**
+ * Lists the title, contributor and attachment changes between two copies of a document
+ * Contributors are matched by ID, so a renamed contributor shows as removed and added
+ */
+export function diffDocuments(previous: Document, next: Document): RevisionChange[] {
+  const changes: RevisionChange[] = [];
+
+  if (previous.Title !== next.Title) {
+    changes.push({ field: 'Title', from: previous.Title, to: next.Title });
+  }
+
+  const contributorKey = (c: Document['Contributors'][number]) => `${c.ID}\u0000${c.Name}`;
+  const previousContributors = new Set(previous.Contributors.map(contributorKey));
+  const nextContributors = new Set(next.Contributors.map(contributorKey));
+  const addedContributors = next.Contributors.filter(
+    c => !previousContributors.has(contributorKey(c))
+  ).map(c => c.Name);
+  const removedContributors = previous.Contributors.filter(
+    c => !nextContributors.has(contributorKey(c))
+  ).map(c => c.Name);
+  if (addedContributors.length > 0 || removedContributors.length > 0) {
+    changes.push({
+      field: 'Contributors',
+      added: addedContributors,
+      removed: removedContributors,
+    });
+  }
+
+  const addedAttachments = next.Attachments.filter(a => !previous.Attachments.includes(a));
+  const removedAttachments = previous.Attachments.filter(a => !next.Attachments.includes(a));
+  if (addedAttachments.length > 0 || removedAttachments.length > 0) {
+    changes.push({ field: 'Attachments', added: addedAttachments, removed: removedAttachments });
+  }
+
+  return changes;
+}
+
+/**
+ * Keeps only the newest revisions of each document, and the newest overall
+ * @param revisions - All revisions, oldest first
+ * @param maxPerDocument - Revisions kept per document
+ * @param maxTotal - Revisions kept across all documents
+ */
+export function capRevisions(
+  revisions: Revision[],
+  maxPerDocument: number,
+  maxTotal = Infinity
+): Revision[] {
+  const kept = new Map<string, number>();
+  const result: Revision[] = [];
+
+  for (let i = revisions.length - 1; i >= 0 && result.length < maxTotal; i--) {
+    const count = kept.get(revisions[i].documentId) ?? 0;
+    if (count < maxPerDocument) {
+      kept.set(revisions[i].documentId, count + 1);
+      result.unshift(revisions[i]);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { parseRoute, serializeRoute } from './routeUtils';
+import { createEmptyFacetSelection } from './facetUtils';
+import type { RouteState } from '../models/route';
+
+describe('routeUtils', () => {
+  const fullRoute: RouteState = {
+    sortCriteria: [
+      { field: 'Version', order: 'desc' },
+      { field: 'Title', order: 'asc' },
+    ],
+    viewMode: 'grid',
+    searchQuery: 'title:"annual report" & more',
+    facets: { contributor: ['Alice', 'Bob'], extension: ['pdf'], month: ['2024-01'] },
+    trashVisible: true,
+    documentId: 'doc 1/2',
+  };
+
+  describe('serializeRoute', () => {
+    it('should serialize the whole state', () => {
+      const hash = serializeRoute(fullRoute);
+
+      expect(hash.startsWith('#')).toBe(true);
+      const params = new URLSearchParams(hash.slice(1));
+      expect(params.get('sort')).toBe('Version:desc,Title:asc');
+      expect(params.get('view')).toBe('grid');
+      expect(params.get('q')).toBe('title:"annual report" & more');
+      expect(params.getAll('contributor')).toEqual(['Alice', 'Bob']);
+      expect(params.get('trash')).toBe('1');
+      expect(params.get('doc')).toBe('doc 1/2');
+    });
+
+    it('should leave out empty filters', () => {
+      const hash = serializeRoute({
+        sortCriteria: [{ field: 'CreatedAt', order: 'desc' }],
+        viewMode: 'list',
+        searchQuery: '   ',
+        facets: createEmptyFacetSelection(),
+        trashVisible: false,
+      });
+
+      expect(hash).toBe('#sort=CreatedAt%3Adesc&view=list');
+    });
+  });
+
+  describe('parseRoute', () => {
+    it('should round-trip a serialized route', () => {
+      expect(parseRoute(serializeRoute(fullRoute))).toEqual(fullRoute);
+    });
+
+    it('should return empty filters for an empty hash', () => {
+      expect(parseRoute('')).toEqual({
+        searchQuery: '',
+        facets: createEmptyFacetSelection(),
+        trashVisible: false,
+      });
+    });
+
+    it('should accept hashes with a leading slash or question mark', () => {
+      expect(parseRoute('#/?view=grid').viewMode).toBe('grid');
+      expect(parseRoute('#?q=draft').searchQuery).toBe('draft');
+    });
+
+    it('should ignore invalid sort criteria and view modes', () => {
+      const route = parseRoute('#sort=Author:asc,Title:up,Version:desc&view=table');
+
+      expect(route.sortCriteria).toEqual([{ field: 'Version', order: 'desc' }]);
+      expect(route.viewMode).toBeUndefined();
+    });
+
+    it('should leave out the sort when no criterion is valid', () => {
+      expect(parseRoute('#sort=Author:asc').sortCriteria).toBeUndefined();
+    });
+
+    it('should drop duplicate and empty facet values', () => {
+      const route = parseRoute('#contributor=Alice&contributor=Alice&contributor=&month=2024-01');
+
+      expect(route.facets).toEqual({ contributor: ['Alice'], extension: [], month: ['2024-01'] });
+    });
+
+    it('should ignore unknown parameters', () => {
+      expect(parseRoute('#color=red&trash=yes')).toEqual({
+        searchQuery: '',
+        facets: createEmptyFacetSelection(),
+        trashVisible: false,
+      });
+    });
+  });
+});
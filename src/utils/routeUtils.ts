@@ -0,0 +1,76 @@
+import type { RouteState } from '../models/route';
+import { createEmptyFacetSelection, FACET_GROUPS } from './facetUtils';
+import { isViewMode, parseSortCriteria } from './preferenceUtils';
+
+/**
+ * Serializes the route into a URL hash, e.g. `#sort=Title:asc,Version:desc&view=grid&q=report`
+ * Empty filters are left out so shared links stay short
+ */
+export function serializeRoute(route: RouteState): string {
+  const params = new URLSearchParams();
+
+  if (route.sortCriteria?.length) {
+    params.set(
+      'sort',
+      route.sortCriteria.map(criterion => `${criterion.field}:${criterion.order}`).join(',')
+    );
+  }
+  if (route.viewMode) {
+    params.set('view', route.viewMode);
+  }
+  if (route.searchQuery.trim()) {
+    params.set('q', route.searchQuery);
+  }
+  FACET_GROUPS.forEach(group => {
+    route.facets[group].forEach(value => params.append(group, value));
+  });
+  if (route.trashVisible) {
+    params.set('trash', '1');
+  }
+  if (route.documentId) {
+    params.set('doc', route.documentId);
+  }
+
+  return `#${params.toString()}`;
+}
+
+/**
+ * Parses a URL hash back into a route; unknown or invalid parameters are ignored
+ */
+export function parseRoute(hash: string): RouteState {
+  const params = new URLSearchParams(hash.replace(/^#\/?\??/, ''));
+  const route: RouteState = {
+    searchQuery: params.get('q') ?? '',
+    facets: createEmptyFacetSelection(),
+    trashVisible: params.get('trash') === '1',
+  };
+
+  const sortCriteria = parseSortCriteria(
+    (params.get('sort') ?? '')
+      .split(',')
+      .filter(Boolean)
+      .map(part => {
+        const [field, order] = part.split(':');
+        return { field, order };
+      })
+  );
+  if (sortCriteria.length > 0) {
+    route.sortCriteria = sortCriteria;
+  }
+
+  const viewMode = params.get('view');
+  if (isViewMode(viewMode)) {
+    route.viewMode = viewMode;
+  }
+
+  FACET_GROUPS.forEach(group => {
+    route.facets[group] = [...new Set(params.getAll(group).filter(Boolean))];
+  });
+
+  const documentId = params.get('doc');
+  if (documentId) {
+    route.documentId = documentId;
+  }
+
+  return route;
+}
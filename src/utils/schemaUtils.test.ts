@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createEnvelope,
+  MIGRATIONS,
+  readEnvelope,
+  SCHEMA_VERSION,
+  upgradeDocuments,
+  type RecordMigration,
+} from './schemaUtils';
+import type { Document } from '../models/document';
+
+const storedDocument = {
+  ID: 'doc-1',
+  Title: 'Report',
+  Contributors: [{ ID: 'user-1', Name: 'Alice' }],
+  Version: '1.0.0',
+  Attachments: ['report.pdf'],
+  CreatedAt: '2024-01-15T10:30:00.000Z',
+  UpdatedAt: '2024-01-16T10:30:00.000Z',
+};
+
+describe('SCHEMA_VERSION', () => {
+  it('should follow the number of registered migrations', () => {
+    expect(SCHEMA_VERSION).toBe(MIGRATIONS.length + 1);
+  });
+});
+
+describe('createEnvelope', () => {
+  it('should tag documents with the current schema version', () => {
+    const documents = [{ ...storedDocument } as unknown as Document];
+
+    expect(createEnvelope(documents)).toEqual({ schemaVersion: SCHEMA_VERSION, documents });
+  });
+});
+
+describe('readEnvelope', () => {
+  it('should read bare arrays as schema 1', () => {
+    expect(readEnvelope([storedDocument])).toEqual({
+      schemaVersion: 1,
+      documents: [storedDocument],
+    });
+  });
+
+  it('should read envelopes as they are', () => {
+    const envelope = { schemaVersion: 3, documents: [] };
+
+    expect(readEnvelope(envelope)).toBe(envelope);
+  });
+
+  it.each([null, 'documents', { documents: [] }, { schemaVersion: 1.5, documents: [] }])(
+    'should reject %j',
+    data => {
+      expect(() => readEnvelope(data)).toThrow('Unrecognized document storage format');
+    }
+  );
+});
+
+describe('upgradeDocuments', () => {
+  // Schema 1 -> 2 renames Name to Title, schema 2 -> 3 adds Attachments
+  const migrations: RecordMigration[] = [
+    ({ Name, ...record }) => ({ ...record, Title: Name }),
+    record => ({ ...record, Attachments: record.Attachments ?? [] }),
+  ];
+  const { Title, Attachments, ...schema1Record } = storedDocument;
+  const v1 = { ...schema1Record, Name: Title };
+
+  it('should apply every migration in order to records from an older schema', () => {
+    const { documents, quarantined } = upgradeDocuments(
+      { schemaVersion: 1, documents: [v1] },
+      migrations
+    );
+
+    expect(quarantined).toEqual([]);
+    expect(documents[0].Title).toBe('Report');
+    expect(documents[0].Attachments).toEqual([]);
+  });
+
+  it('should only apply the migrations after the stored schema', () => {
+    const { documents } = upgradeDocuments(
+      { schemaVersion: 2, documents: [{ ...schema1Record, Title, Attachments }] },
+      migrations
+    );
+
+    expect(documents[0].Title).toBe('Report');
+    expect(documents[0].Attachments).toEqual(['report.pdf']);
+  });
+
+  it('should revive dates', () => {
+    const { documents } = upgradeDocuments([storedDocument]);
+
+    expect(documents[0].CreatedAt).toEqual(new Date('2024-01-15T10:30:00.000Z'));
+  });
+
+  it('should quarantine records that fail validation with the failing field', () => {
+    const broken = { ...storedDocument, ID: 'doc-2', Contributors: 'Alice' };
+
+    const { documents, quarantined } = upgradeDocuments([storedDocument, broken]);
+
+    expect(documents.map(d => d.ID)).toEqual(['doc-1']);
+    expect(quarantined).toEqual([
+      {
+        record: broken,
+        reason: 'Contributors must be an array',
+        schemaVersion: 1,
+        quarantinedAt: expect.any(String),
+      },
+    ]);
+  });
+
+  it('should quarantine records whose migration throws', () => {
+    const failing: RecordMigration[] = [
+      () => {
+        throw new Error('Unexpected shape');
+      },
+    ];
+
+    const { documents, quarantined } = upgradeDocuments([storedDocument], failing);
+
+    expect(documents).toEqual([]);
+    expect(quarantined[0].reason).toBe('Migration from schema 1 failed: Error: Unexpected shape');
+  });
+
+  it('should keep records from a newer schema that still validate', () => {
+    const { documents } = upgradeDocuments({
+      schemaVersion: SCHEMA_VERSION + 1,
+      documents: [storedDocument],
+    });
+
+    expect(documents).toHaveLength(1);
+  });
+});
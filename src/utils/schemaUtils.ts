@@ -0,0 +1,91 @@
+import type { Document } from '../models/document';
+import { validateDocument } from './validationUtils';
+
+export type RecordMigration = (record: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Ordered migrations for stored documents: MIGRATIONS[n - 1] upgrades a record from schema n to n + 1
+ * Whenever the Document shape changes, append a migration; the schema version follows automatically
+ */
+export const MIGRATIONS: RecordMigration[] = [];
+
+export const SCHEMA_VERSION = MIGRATIONS.length + 1;
+
+/**
+ * Stored documents tagged with the schema version they were written with
+ */
+export interface DocumentEnvelope {
+  schemaVersion: number;
+  documents: unknown[];
+}
+
+/**
+ * A stored record that could not be upgraded or validated, kept so it can be recovered by hand
+ */
+export interface QuarantinedRecord {
+  record: unknown;
+  reason: string;
+  schemaVersion: number;
+  quarantinedAt: string;
+}
+
+export function createEnvelope(documents: Document[]): DocumentEnvelope {
+  return { schemaVersion: SCHEMA_VERSION, documents };
+}
+
+/**
+ * Reads a stored payload; bare arrays were written before the envelope existed and count as schema 1
+ * @throws Error if the payload is neither an envelope nor an array
+ */
+export function readEnvelope(data: unknown): DocumentEnvelope {
+  if (Array.isArray(data)) {
+    return { schemaVersion: 1, documents: data };
+  }
+  if (
+    typeof data === 'object' &&
+    data !== null &&
+    Number.isInteger((data as DocumentEnvelope).schemaVersion) &&
+    Array.isArray((data as DocumentEnvelope).documents)
+  ) {
+    return data as DocumentEnvelope;
+  }
+  throw new Error('Unrecognized document storage format');
+}
+
+/**
+ * Upgrades every record of a stored payload to the current schema and validates it
+ * A record that fails is quarantined on its own instead of discarding the whole payload
+ * @param migrations - Optional migration list, defaults to MIGRATIONS
+ */
+export function upgradeDocuments(
+  data: unknown,
+  migrations: RecordMigration[] = MIGRATIONS
+): { documents: Document[]; quarantined: QuarantinedRecord[] } {
+  const { schemaVersion, documents: records } = readEnvelope(data);
+  const documents: Document[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+  const quarantine = (record: unknown, reason: string) =>
+    quarantined.push({ record, reason, schemaVersion, quarantinedAt: new Date().toISOString() });
+
+  for (const record of records) {
+    let upgraded: unknown = record;
+    try {
+      // Records from a newer schema cannot be downgraded; they are kept if they still validate
+      for (const migrate of migrations.slice(schemaVersion - 1)) {
+        upgraded = migrate(upgraded as Record<string, unknown>);
+      }
+    } catch (error) {
+      quarantine(record, `Migration from schema ${schemaVersion} failed: ${String(error)}`);
+      continue;
+    }
+
+    const result = validateDocument(upgraded);
+    if (result.valid) {
+      documents.push(result.value);
+    } else {
+      quarantine(record, `${result.field} ${result.message}`);
+    }
+  }
+
+  return { documents, quarantined };
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { containsText, highlightMatches, tokenizeSearch } from './searchUtils';
+import type { Document } from '../models/document';
+
+describe('searchUtils', () => {
+  const doc: Document = {
+    ID: 'doc-1',
+    Title: 'Quarterly Report',
+    Contributors: [
+      { ID: 'user-1', Name: 'Ada Lovelace' },
+      { ID: 'user-2', Name: 'Grace Hopper' },
+    ],
+    Version: '1.0.0',
+    Attachments: ['summary.pdf', 'figures.xlsx'],
+    CreatedAt: new Date('2024-01-15T10:30:00Z'),
+    UpdatedAt: new Date('2024-01-15T10:30:00Z'),
+  };
+
+  describe('tokenizeSearch', () => {
+    it('should split on whitespace and lowercase terms', () => {
+      expect(tokenizeSearch('  Ada   REPORT ')).toEqual(['ada', 'report']);
+    });
+
+    it('should return no terms for blank queries', () => {
+      expect(tokenizeSearch('   ')).toEqual([]);
+    });
+  });
+
+  describe('containsText', () => {
+    it('should match titles', () => {
+      expect(containsText(doc, 'quarterly')).toBe(true);
+    });
+
+    it('should match contributor names', () => {
+      expect(containsText(doc, 'hopper')).toBe(true);
+    });
+
+    it('should match attachments', () => {
+      expect(containsText(doc, '.xlsx')).toBe(true);
+    });
+
+    it('should match phrases within a single field', () => {
+      expect(containsText(doc, 'ada lovelace')).toBe(true);
+      expect(containsText(doc, 'report ada')).toBe(false);
+    });
+
+    it('should not match IDs or versions', () => {
+      expect(containsText(doc, 'doc-1')).toBe(false);
+      expect(containsText(doc, '1.0.0')).toBe(false);
+    });
+  });
+
+  describe('highlightMatches', () => {
+    it('should escape text without a query', () => {
+      expect(highlightMatches('<b>Report</b>', '')).toBe('&lt;b&gt;Report&lt;/b&gt;');
+    });
+
+    it('should wrap matches in mark elements preserving original case', () => {
+      expect(highlightMatches('Quarterly Report', 'report')).toBe('Quarterly <mark>Report</mark>');
+    });
+
+    it('should highlight every occurrence of every term', () => {
+      expect(highlightMatches('Ada and ada', 'ada')).toBe('<mark>Ada</mark> and <mark>ada</mark>');
+    });
+
+    it('should merge overlapping matches', () => {
+      expect(highlightMatches('Lovelace', 'love elace')).toBe('<mark>Lovelace</mark>');
+    });
+
+    it('should escape both matched and unmatched segments', () => {
+      expect(highlightMatches('R&D <plan>', '&d')).toBe('R<mark>&amp;D</mark> &lt;plan&gt;');
+    });
+
+    it('should accept pre-split terms including phrases', () => {
+      expect(highlightMatches('Ada Lovelace', ['Ada Lovelace'])).toBe('<mark>Ada Lovelace</mark>');
+    });
+
+    it('should return escaped text when nothing matches', () => {
+      expect(highlightMatches('Budget', 'report')).toBe('Budget');
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import type { Document } from '../models/document';
+import { escapeHtml } from './htmlUtils';
+
+/**
+ * Splits a search query into lowercase terms, ignoring extra whitespace
+ */
+export function tokenizeSearch(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Checks whether a lowercase term appears in the title, a contributor name or an attachment
+ */
+export function containsText(doc: Document, term: string): boolean {
+  return [doc.Title, ...doc.Contributors.map(c => c.Name), ...doc.Attachments].some(value =>
+    value.toLowerCase().includes(term)
+  );
+}
+
+/**
+ * Escapes text for HTML and wraps every search term match in a <mark> element
+ */
+export function highlightMatches(text: string, query: string | string[]): string {
+  const terms =
+    typeof query === 'string'
+      ? tokenizeSearch(query)
+      : query.map(term => term.toLowerCase()).filter(Boolean);
+  if (terms.length === 0) return escapeHtml(text);
+
+  const lower = text.toLowerCase();
+  const ranges: Array<[number, number]> = [];
+  terms.forEach(term => {
+    let index = lower.indexOf(term);
+    while (index !== -1) {
+      ranges.push([index, index + term.length]);
+      index = lower.indexOf(term, index + term.length);
+    }
+  });
+  if (ranges.length === 0) return escapeHtml(text);
+
+  // Merge overlapping ranges so nested terms produce a single mark
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [ranges[0]];
+  ranges.slice(1).forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  });
+
+  let result = '';
+  let cursor = 0;
+  merged.forEach(([start, end]) => {
+    result += escapeHtml(text.slice(cursor, start));
+    result += `<mark>${escapeHtml(text.slice(start, end))}</mark>`;
+    cursor = end;
+  });
+  return result + escapeHtml(text.slice(cursor));
+}
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createPing,
+  decodeSocketMessage,
+  isPong,
+  SOCKET_PROTOCOL_VERSION,
+} from './socketMessageUtils';
+
+describe('decodeSocketMessage', () => {
+  const document = {
+    ID: 'doc-1',
+    Title: 'Report',
+    Contributors: [{ ID: 'user-1', Name: 'Alice' }],
+    Version: '1.2.0',
+    Attachments: ['report.pdf'],
+    CreatedAt: '2024-01-15T10:30:00.000Z',
+    UpdatedAt: '2024-01-16T10:30:00.000Z',
+  };
+
+  it('should read bare notifications as created documents', () => {
+    const result = decodeSocketMessage({
+      Timestamp: '2024-01-15T10:30:00.000Z',
+      UserID: 'user-1',
+      UserName: 'Alice',
+      DocumentID: 'doc-1',
+      DocumentTitle: 'Report',
+    });
+
+    expect(result).toEqual({
+      valid: true,
+      value: {
+        type: 'document.created',
+        version: 1,
+        document: {
+          ID: 'doc-1',
+          Title: 'Report',
+          Contributors: [{ ID: 'user-1', Name: 'Alice' }],
+          Version: 1,
+          Attachments: [],
+          CreatedAt: new Date('2024-01-15T10:30:00.000Z'),
+          UpdatedAt: new Date('2024-01-15T10:30:00.000Z'),
+        },
+        user: { ID: 'user-1', Name: 'Alice' },
+      },
+    });
+  });
+
+  it.each(['document.created', 'document.updated'])(
+    'should decode %s with the full document and revived dates',
+    type => {
+      const result = decodeSocketMessage({ type, version: 1, document });
+
+      expect(result.valid && result.value).toEqual({
+        type,
+        version: 1,
+        document: {
+          ...document,
+          CreatedAt: new Date('2024-01-15T10:30:00.000Z'),
+          UpdatedAt: new Date('2024-01-16T10:30:00.000Z'),
+        },
+      });
+    }
+  );
+
+  it('should decode document.deleted with the user who deleted it', () => {
+    const result = decodeSocketMessage({
+      type: 'document.deleted',
+      version: 1,
+      documentId: 'doc-1',
+      user: { ID: 'user-2', Name: 'Bob' },
+    });
+
+    expect(result.valid && result.value).toEqual({
+      type: 'document.deleted',
+      version: 1,
+      documentId: 'doc-1',
+      user: { ID: 'user-2', Name: 'Bob' },
+    });
+  });
+
+  it('should decode contributor.joined', () => {
+    const result = decodeSocketMessage({
+      type: 'contributor.joined',
+      version: 1,
+      documentId: 'doc-1',
+      contributor: { ID: 'user-2', Name: 'Bob' },
+    });
+
+    expect(result.valid && result.value).toEqual({
+      type: 'contributor.joined',
+      version: 1,
+      documentId: 'doc-1',
+      contributor: { ID: 'user-2', Name: 'Bob' },
+    });
+  });
+
+  it('should repair documents with missing lists and report the repaired fields', () => {
+    const result = decodeSocketMessage({
+      type: 'document.updated',
+      version: 1,
+      document: { ...document, Contributors: null, Attachments: ['report.pdf', 3] },
+    });
+
+    expect(result).toEqual({
+      valid: true,
+      value: expect.objectContaining({
+        document: expect.objectContaining({ Contributors: [], Attachments: ['report.pdf'] }),
+      }),
+      repairs: ['document.Contributors', 'document.Attachments'],
+    });
+  });
+
+  it.each([
+    [null, 'message', 'must be an object'],
+    [{ DocumentID: 'doc-1' }, 'Timestamp', 'must be a valid date'],
+    [{ type: 'document.deleted', documentId: 'doc-1' }, 'version', 'must be a positive integer'],
+    [
+      { type: 'document.deleted', version: SOCKET_PROTOCOL_VERSION + 1, documentId: 'doc-1' },
+      'version',
+      `must be at most ${SOCKET_PROTOCOL_VERSION}`,
+    ],
+    [{ type: 'document.renamed', version: 1 }, 'type', 'must be a known message type'],
+    [{ type: 'document.created', version: 1 }, 'document', 'must be an object'],
+    [
+      { type: 'document.updated', version: 1, document: { ...document, Title: 7 } },
+      'document.Title',
+      'must be a string',
+    ],
+    [
+      { type: 'document.deleted', version: 1, documentId: '' },
+      'documentId',
+      'must be a non-empty string',
+    ],
+    [
+      {
+        type: 'contributor.joined',
+        version: 1,
+        documentId: 'doc-1',
+        contributor: { ID: 'user-2' },
+      },
+      'contributor.Name',
+      'must be a string',
+    ],
+    [
+      { type: 'document.deleted', version: 1, documentId: 'doc-1', user: 'Bob' },
+      'user',
+      'must be an object',
+    ],
+  ])('should reject %j at %s', (data, field, message) => {
+    expect(decodeSocketMessage(data)).toEqual({ valid: false, field, message });
+  });
+});
+
+describe('heartbeat messages', () => {
+  it('should create a ping with the protocol version', () => {
+    expect(createPing()).toEqual({ type: 'ping', version: SOCKET_PROTOCOL_VERSION });
+  });
+
+  it.each([
+    [{ type: 'pong' }, true],
+    [{ type: 'pong', version: 1 }, true],
+    [{ type: 'ping' }, false],
+    ['pong', false],
+    [null, false],
+  ])('should read %j as a pong: %s', (data, expected) => {
+    expect(isPong(data)).toBe(expected);
+  });
+});
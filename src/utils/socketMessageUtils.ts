@@ -0,0 +1,106 @@
+import type { Contributors } from '../models/document';
+import type { SocketMessage, SocketMessageType } from '../models/sockets';
+import { fromSocketNotification } from './documentUtils';
+import {
+  invalid,
+  isRecord,
+  validateContributor,
+  validateDocument,
+  validateSocketsNotification,
+  type ValidationResult,
+} from './validationUtils';
+
+/**
+ * Newest protocol version this client understands; messages from a newer server are ignored
+ */
+export const SOCKET_PROTOCOL_VERSION = 1;
+
+/**
+ * The heartbeat the client sends; the server answers with `{ "type": "pong" }`
+ */
+export function createPing(): { type: 'ping'; version: number } {
+  return { type: 'ping', version: SOCKET_PROTOCOL_VERSION };
+}
+
+export function isPong(data: unknown): boolean {
+  return isRecord(data) && data.type === 'pong';
+}
+
+function decodeLegacyNotification(data: Record<string, unknown>): ValidationResult<SocketMessage> {
+  const result = validateSocketsNotification(data);
+  if (!result.valid) return result;
+  const notification = result.value;
+
+  return {
+    valid: true,
+    value: {
+      type: 'document.created',
+      version: 1,
+      document: fromSocketNotification(notification),
+      user: { ID: notification.UserID, Name: notification.UserName },
+    },
+  };
+}
+
+/**
+ * Decodes a parsed WebSocket frame into a typed message
+ * Frames without a `type` are read as the bare notification older servers send
+ */
+export function decodeSocketMessage(data: unknown): ValidationResult<SocketMessage> {
+  if (!isRecord(data)) return invalid('message', 'must be an object');
+  if (data.type === undefined) return decodeLegacyNotification(data);
+
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    return invalid('version', 'must be a positive integer');
+  }
+  if (data.version > SOCKET_PROTOCOL_VERSION) {
+    return invalid('version', `must be at most ${SOCKET_PROTOCOL_VERSION}`);
+  }
+  let user: Contributors | undefined;
+  if (data.user !== undefined) {
+    const result = validateContributor(data.user, 'user');
+    if (!result.valid) return result;
+    user = result.value;
+  }
+  const envelope = { version: data.version, ...(user ? { user } : {}) };
+
+  // Anything else falls through to the default branch
+  const type = data.type as SocketMessageType;
+  switch (type) {
+    case 'document.created':
+    case 'document.updated': {
+      const document = validateDocument(data.document, { repair: true });
+      // Report paths from the message root, e.g. `document.Title`
+      const path = (field: string) => (field === 'document' ? field : `document.${field}`);
+      if (!document.valid) return invalid(path(document.field), document.message);
+
+      const value: SocketMessage = { ...envelope, type, document: document.value };
+      return document.repairs
+        ? { valid: true, value, repairs: document.repairs.map(path) }
+        : { valid: true, value };
+    }
+    case 'document.deleted':
+      if (typeof data.documentId !== 'string' || data.documentId === '') {
+        return invalid('documentId', 'must be a non-empty string');
+      }
+      return { valid: true, value: { ...envelope, type, documentId: data.documentId } };
+    case 'contributor.joined': {
+      if (typeof data.documentId !== 'string' || data.documentId === '') {
+        return invalid('documentId', 'must be a non-empty string');
+      }
+      const contributor = validateContributor(data.contributor);
+      if (!contributor.valid) return contributor;
+      return {
+        valid: true,
+        value: {
+          ...envelope,
+          type,
+          documentId: data.documentId,
+          contributor: contributor.value,
+        },
+      };
+    }
+    default:
+      return invalid('type', 'must be a known message type');
+  }
+}
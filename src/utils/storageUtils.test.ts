@@ -1,6 +1,17 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { saveDocuments, loadDocuments } from './storageUtils';
+import {
+  saveDocuments,
+  loadDocuments,
+  clearDocuments,
+  getLocalStorageUsage,
+  loadQuarantine,
+  savePreferences,
+  loadPreferences,
+  saveRevisions,
+  loadRevisions,
+} from './storageUtils';
 import { Document } from '../models/document';
+import { SCHEMA_VERSION } from './schemaUtils';
 
 describe('storageUtils', () => {
   // Fast: Uses mocked localStorage
@@ -35,9 +46,10 @@ describe('storageUtils', () => {
       expect(stored).not.toBeNull();
 
       const parsed = JSON.parse(stored!);
-      expect(parsed).toHaveLength(1);
-      expect(parsed[0].ID).toBe('doc-1');
-      expect(parsed[0].Title).toBe('Document 1');
+      expect(parsed.schemaVersion).toBe(SCHEMA_VERSION);
+      expect(parsed.documents).toHaveLength(1);
+      expect(parsed.documents[0].ID).toBe('doc-1');
+      expect(parsed.documents[0].Title).toBe('Document 1');
     });
 
     it('should save multiple documents', () => {
@@ -65,7 +77,7 @@ describe('storageUtils', () => {
       saveDocuments(documents);
 
       const stored = localStorage.getItem('documents');
-      const parsed = JSON.parse(stored!);
+      const { documents: parsed } = JSON.parse(stored!);
       expect(parsed).toHaveLength(2);
       expect(parsed[0].ID).toBe('doc-1');
       expect(parsed[1].ID).toBe('doc-2');
@@ -75,7 +87,7 @@ describe('storageUtils', () => {
       saveDocuments([]);
 
       const stored = localStorage.getItem('documents');
-      expect(stored).toBe('[]');
+      expect(JSON.parse(stored!)).toEqual({ schemaVersion: SCHEMA_VERSION, documents: [] });
     });
 
     it('should overwrite existing documents', () => {
@@ -107,7 +119,7 @@ describe('storageUtils', () => {
       saveDocuments(secondBatch);
 
       const stored = localStorage.getItem('documents');
-      const parsed = JSON.parse(stored!);
+      const { documents: parsed } = JSON.parse(stored!);
       expect(parsed).toHaveLength(1);
       expect(parsed[0].ID).toBe('doc-2');
     });
@@ -128,10 +140,20 @@ describe('storageUtils', () => {
       saveDocuments(documents);
 
       const stored = localStorage.getItem('documents');
-      const parsed = JSON.parse(stored!);
+      const { documents: parsed } = JSON.parse(stored!);
       expect(parsed[0].Title).toBe('Test "quotes" & <tags>');
       expect(parsed[0].Contributors[0].Name).toBe("O'Brien");
     });
+
+    it('should let quota errors reach the caller', () => {
+      const setItemSpy = vi.spyOn(localStorage, 'setItem').mockImplementation(() => {
+        throw new DOMException('Storage is full', 'QuotaExceededError');
+      });
+
+      expect(() => saveDocuments([])).toThrow('Storage is full');
+
+      setItemSpy.mockRestore();
+    });
   });
 
   describe('loadDocuments', () => {
@@ -218,14 +240,79 @@ describe('storageUtils', () => {
 
     it('should handle corrupted data gracefully', () => {
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
       localStorage.setItem('documents', 'invalid json{');
 
       const loaded = loadDocuments();
 
       expect(loaded).toEqual([]);
       expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to load documents:', expect.any(Error));
+      expect(loadQuarantine()).toEqual([expect.objectContaining({ record: 'invalid json{' })]);
 
       consoleErrorSpy.mockRestore();
+      consoleWarnSpy.mockRestore();
+    });
+
+    it('should load documents saved before the schema envelope', () => {
+      localStorage.setItem(
+        'documents',
+        JSON.stringify([
+          {
+            ID: 'doc-1',
+            Title: 'Legacy',
+            Contributors: [],
+            Version: 1,
+            Attachments: [],
+            CreatedAt: '2024-01-15T10:30:00.000Z',
+            UpdatedAt: '2024-01-15T10:30:00.000Z',
+          },
+        ])
+      );
+
+      const loaded = loadDocuments();
+
+      expect(loaded.map(d => d.Title)).toEqual(['Legacy']);
+      expect(loaded[0].CreatedAt).toBeInstanceOf(Date);
+    });
+
+    it('should quarantine invalid records and keep the rest', () => {
+      const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const valid = {
+        ID: 'doc-1',
+        Title: 'Valid',
+        Contributors: [],
+        Version: 1,
+        Attachments: [],
+        CreatedAt: '2024-01-15T10:30:00.000Z',
+        UpdatedAt: '2024-01-15T10:30:00.000Z',
+      };
+      const broken = { ...valid, ID: 'doc-2', CreatedAt: 'yesterday' };
+      localStorage.setItem(
+        'documents',
+        JSON.stringify({ schemaVersion: SCHEMA_VERSION, documents: [valid, broken] })
+      );
+
+      const loaded = loadDocuments();
+
+      expect(loaded.map(d => d.ID)).toEqual(['doc-1']);
+      expect(loadQuarantine()).toEqual([
+        expect.objectContaining({ record: broken, reason: 'CreatedAt must be a valid date' }),
+      ]);
+      expect(consoleWarnSpy).toHaveBeenCalled();
+
+      consoleWarnSpy.mockRestore();
+    });
+
+    it('should not quarantine the same record twice', () => {
+      const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      localStorage.setItem('documents', JSON.stringify([{ ID: 'doc-1' }]));
+
+      loadDocuments();
+      loadDocuments();
+
+      expect(loadQuarantine()).toHaveLength(1);
+
+      consoleWarnSpy.mockRestore();
     });
 
     it('should preserve all document properties', () => {
@@ -257,6 +344,187 @@ describe('storageUtils', () => {
     });
   });
 
+  describe('clearDocuments', () => {
+    it('should remove the documents key only', () => {
+      saveDocuments([]);
+      localStorage.setItem('revisions', '[]');
+
+      clearDocuments();
+
+      expect(localStorage.getItem('documents')).toBeNull();
+      expect(localStorage.getItem('revisions')).toBe('[]');
+    });
+  });
+
+  describe('getLocalStorageUsage', () => {
+    it('should count the characters of every key and value', () => {
+      localStorage.setItem('documents', '12345');
+      localStorage.setItem('revisions', '[]');
+
+      expect(getLocalStorageUsage()).toEqual({ usage: 9 + 5 + 9 + 2, quota: 5 * 1024 * 1024 });
+    });
+
+    it('should report no usage for empty storage', () => {
+      expect(getLocalStorageUsage().usage).toBe(0);
+    });
+  });
+
+  describe('revisions', () => {
+    const revision = {
+      id: 'rev-1',
+      documentId: 'doc-1',
+      snapshot: {
+        ID: 'doc-1',
+        Title: 'Report',
+        Contributors: [],
+        Version: '1.0.0',
+        Attachments: [],
+        CreatedAt: new Date('2024-01-01T00:00:00Z'),
+        UpdatedAt: new Date('2024-01-02T00:00:00Z'),
+      },
+      savedAt: new Date('2024-01-02T00:00:00Z'),
+      author: 'Alice',
+    };
+
+    it('should save revisions separately from documents', () => {
+      saveRevisions([revision]);
+
+      expect(localStorage.getItem('revisions')).not.toBeNull();
+      expect(localStorage.getItem('documents')).toBeNull();
+    });
+
+    it('should let quota errors reach the caller', () => {
+      const setItemSpy = vi.spyOn(localStorage, 'setItem').mockImplementation(() => {
+        throw new DOMException('Storage is full', 'QuotaExceededError');
+      });
+
+      expect(() => saveRevisions([revision])).toThrow('Storage is full');
+
+      setItemSpy.mockRestore();
+    });
+
+    it('should restore dates when loading', () => {
+      saveRevisions([revision]);
+
+      const [loaded] = loadRevisions();
+
+      expect(loaded).toEqual(revision);
+      expect(loaded.savedAt).toBeInstanceOf(Date);
+      expect(loaded.snapshot.CreatedAt).toBeInstanceOf(Date);
+    });
+
+    it('should return empty array when no revisions exist', () => {
+      expect(loadRevisions()).toEqual([]);
+    });
+
+    it('should handle corrupted data gracefully', () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      localStorage.setItem('revisions', 'invalid json{');
+
+      expect(loadRevisions()).toEqual([]);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to load revisions:', expect.any(Error));
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('savePreferences', () => {
+    it('should save preferences under a versioned key', () => {
+      savePreferences({ sortCriteria: [{ field: 'Title', order: 'asc' }], viewMode: 'grid' });
+
+      expect(JSON.parse(localStorage.getItem('preferences:v1')!)).toEqual({
+        sortCriteria: [{ field: 'Title', order: 'asc' }],
+        viewMode: 'grid',
+      });
+      expect(localStorage.getItem('documents')).toBeNull();
+    });
+
+    it('should log an error when storage is unavailable', () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const setItemSpy = vi.spyOn(localStorage, 'setItem').mockImplementation(() => {
+        throw new Error('QuotaExceededError');
+      });
+
+      savePreferences({ sortCriteria: [{ field: 'Title', order: 'asc' }], viewMode: 'list' });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Failed to save preferences:',
+        expect.any(Error)
+      );
+
+      setItemSpy.mockRestore();
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('loadPreferences', () => {
+    it('should return an empty object when nothing is stored', () => {
+      expect(loadPreferences()).toEqual({});
+    });
+
+    it('should round-trip saved preferences', () => {
+      const preferences = {
+        sortCriteria: [
+          { field: 'Version', order: 'desc' },
+          { field: 'Title', order: 'asc' },
+        ],
+        viewMode: 'grid',
+      } as const;
+      savePreferences({ ...preferences, sortCriteria: [...preferences.sortCriteria] });
+
+      expect(loadPreferences()).toEqual(preferences);
+    });
+
+    it('should drop sort criteria that are no longer valid', () => {
+      localStorage.setItem(
+        'preferences:v1',
+        JSON.stringify({
+          sortCriteria: [
+            { field: 'Author', order: 'asc' },
+            { field: 'Title', order: 'sideways' },
+            { field: 'Version', order: 'desc' },
+            { field: 'Version', order: 'asc' },
+            null,
+          ],
+          viewMode: 'list',
+        })
+      );
+
+      expect(loadPreferences()).toEqual({
+        sortCriteria: [{ field: 'Version', order: 'desc' }],
+        viewMode: 'list',
+      });
+    });
+
+    it('should leave out an invalid view mode or empty sort stack', () => {
+      localStorage.setItem(
+        'preferences:v1',
+        JSON.stringify({ sortCriteria: [{ field: 'toString', order: 'asc' }], viewMode: 'table' })
+      );
+
+      expect(loadPreferences()).toEqual({});
+    });
+
+    it('should ignore preferences that are not an object', () => {
+      localStorage.setItem('preferences:v1', JSON.stringify('grid'));
+
+      expect(loadPreferences()).toEqual({});
+    });
+
+    it('should handle corrupted data gracefully', () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      localStorage.setItem('preferences:v1', 'invalid json{');
+
+      expect(loadPreferences()).toEqual({});
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Failed to load preferences:',
+        expect.any(Error)
+      );
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
   describe('integration tests', () => {
     it('should maintain data integrity through save and load cycle', () => {
       const original: Document[] = [
@@ -281,5 +549,26 @@ describe('storageUtils', () => {
       expect(loaded[0].CreatedAt.getTime()).toBe(original[0].CreatedAt.getTime());
       expect(loaded[0].UpdatedAt.getTime()).toBe(original[0].UpdatedAt.getTime());
     });
+
+    it('should keep trashed documents in the trash across reloads', () => {
+      const original: Document[] = [
+        {
+          ID: 'doc-1',
+          Title: 'Trashed Document',
+          Contributors: [],
+          Version: 1,
+          Attachments: [],
+          CreatedAt: new Date('2024-01-15T10:30:00Z'),
+          UpdatedAt: new Date('2024-01-20T15:45:00Z'),
+          DeletedAt: new Date('2024-02-01T08:00:00Z'),
+        },
+      ];
+
+      saveDocuments(original);
+      const loaded = loadDocuments();
+
+      expect(loaded[0].DeletedAt).toBeInstanceOf(Date);
+      expect(loaded[0].DeletedAt?.getTime()).toBe(original[0].DeletedAt!.getTime());
+    });
   });
 });
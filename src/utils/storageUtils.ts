@@ -1,26 +1,179 @@
-import { Document } from '../models/document';
+import { Document, SortCriterion, ViewMode } from '../models/document';
+import type { Revision } from '../models/revision';
+import type { StorageUsage } from '../models/storage';
 import { parseDocumentDates } from './documentUtils';
+import { isViewMode, parseSortCriteria } from './preferenceUtils';
+import {
+  createEnvelope,
+  SCHEMA_VERSION,
+  upgradeDocuments,
+  type QuarantinedRecord,
+} from './schemaUtils';
 
 const STORAGE_KEY = 'documents';
+const QUARANTINE_KEY = 'documents:quarantine';
+// Browsers allow about 5 million characters per origin
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
+const REVISIONS_KEY = 'revisions';
+// Bump the version when the preferences shape changes; older entries are then ignored
+const PREFERENCES_KEY = 'preferences:v1';
 
+/**
+ * User preferences restored on page load
+ */
+export interface Preferences {
+  sortCriteria: SortCriterion[];
+  viewMode: ViewMode;
+}
+
+/**
+ * @throws DOMException (QuotaExceededError) when storage is full, so callers can tell the user
+ */
 export function saveDocuments(documents: Document[]): void {
+  const serialized = JSON.stringify(createEnvelope(documents));
+  localStorage.setItem(STORAGE_KEY, serialized);
+}
+
+/**
+ * Measures everything this origin keeps in localStorage, in characters as counted by the quota
+ */
+export function getLocalStorageUsage(): StorageUsage {
+  let usage = 0;
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)!;
+    usage += key.length + (localStorage.getItem(key)?.length ?? 0);
+  }
+  return { usage, quota: LOCAL_STORAGE_QUOTA };
+}
+
+/**
+ * Loads the stored documents, upgrading them to the current schema
+ * Records that cannot be read are quarantined rather than dropped
+ */
+export function loadDocuments(): Document[] {
+  let serialized: string | null = null;
+  try {
+    serialized = localStorage.getItem(STORAGE_KEY);
+    if (!serialized) return [];
+
+    const { documents, quarantined } = upgradeDocuments(JSON.parse(serialized));
+    quarantineRecords(quarantined);
+    return documents;
+  } catch (error) {
+    console.error('Failed to load documents:', error);
+    // Keep the unreadable payload, since the next save overwrites it
+    if (serialized) {
+      quarantineRecords([
+        {
+          record: serialized,
+          reason: String(error),
+          schemaVersion: SCHEMA_VERSION,
+          quarantinedAt: new Date().toISOString(),
+        },
+      ]);
+    }
+    return [];
+  }
+}
+
+/**
+ * Appends records to the quarantine, skipping any record that is already there
+ */
+export function quarantineRecords(records: QuarantinedRecord[]): void {
+  if (records.length === 0) return;
+
   try {
-    const serialized = JSON.stringify(documents);
-    localStorage.setItem(STORAGE_KEY, serialized);
+    const existing = loadQuarantine();
+    const known = new Set(existing.map(entry => JSON.stringify(entry.record)));
+    const added = records.filter(entry => !known.has(JSON.stringify(entry.record)));
+    if (added.length === 0) return;
+
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify([...existing, ...added]));
+    console.warn(
+      `Quarantined ${added.length} unreadable document record(s) under "${QUARANTINE_KEY}"`,
+      added.map(entry => entry.reason)
+    );
   } catch (error) {
-    console.error('Failed to save documents:', error);
+    console.error('Failed to quarantine documents:', error);
   }
 }
 
-export function loadDocuments(): Document[] {
+export function loadQuarantine(): QuarantinedRecord[] {
+  try {
+    const serialized = localStorage.getItem(QUARANTINE_KEY);
+    return serialized ? JSON.parse(serialized) : [];
+  } catch (error) {
+    console.error('Failed to load quarantined documents:', error);
+    return [];
+  }
+}
+
+/**
+ * Drops the legacy documents key once its records have been moved to another storage backend
+ */
+export function clearDocuments(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('Failed to clear documents:', error);
+  }
+}
+
+/**
+ * @throws DOMException (QuotaExceededError) when storage is full, so callers can tell the user
+ */
+export function saveRevisions(revisions: Revision[]): void {
+  localStorage.setItem(REVISIONS_KEY, JSON.stringify(revisions));
+}
+
+export function loadRevisions(): Revision[] {
   try {
-    const serialized = localStorage.getItem(STORAGE_KEY);
+    const serialized = localStorage.getItem(REVISIONS_KEY);
     if (!serialized) return [];
 
     const data = JSON.parse(serialized);
-    return data.map((doc: Document) => parseDocumentDates(doc));
+    return data.map((revision: Revision) => ({
+      ...revision,
+      snapshot: parseDocumentDates(revision.snapshot),
+      savedAt: new Date(revision.savedAt),
+    }));
   } catch (error) {
-    console.error('Failed to load documents:', error);
+    console.error('Failed to load revisions:', error);
     return [];
   }
 }
+
+export function savePreferences(preferences: Preferences): void {
+  try {
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error('Failed to save preferences:', error);
+  }
+}
+
+/**
+ * Loads the stored preferences, leaving out any value that is no longer valid
+ * so callers can keep their defaults for it
+ */
+export function loadPreferences(): Partial<Preferences> {
+  try {
+    const serialized = localStorage.getItem(PREFERENCES_KEY);
+    if (!serialized) return {};
+
+    const data = JSON.parse(serialized);
+    const preferences: Partial<Preferences> = {};
+
+    const sortCriteria = parseSortCriteria(data?.sortCriteria);
+    if (sortCriteria.length > 0) {
+      preferences.sortCriteria = sortCriteria;
+    }
+    if (isViewMode(data?.viewMode)) {
+      preferences.viewMode = data.viewMode;
+    }
+
+    return preferences;
+  } catch (error) {
+    console.error('Failed to load preferences:', error);
+    return {};
+  }
+}
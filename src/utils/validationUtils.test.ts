@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { validateDocument, validateSocketsNotification } from './validationUtils';
+
+describe('validateDocument', () => {
+  const record = {
+    ID: 'doc-1',
+    Title: 'Report',
+    Contributors: [{ ID: 'user-1', Name: 'Alice' }],
+    Version: 2,
+    Attachments: ['report.pdf'],
+    CreatedAt: '2024-01-15T10:30:00.000Z',
+    UpdatedAt: new Date('2024-01-16T10:30:00.000Z'),
+  };
+
+  it('should accept a valid document and revive its dates', () => {
+    const result = validateDocument(record);
+
+    expect(result).toEqual({
+      valid: true,
+      value: {
+        ...record,
+        CreatedAt: new Date('2024-01-15T10:30:00.000Z'),
+        UpdatedAt: new Date('2024-01-16T10:30:00.000Z'),
+      },
+    });
+  });
+
+  it('should keep a valid DeletedAt and ignore a null one', () => {
+    const trashed = validateDocument({ ...record, DeletedAt: '2024-02-01T00:00:00.000Z' });
+    const active = validateDocument({ ...record, DeletedAt: null });
+
+    expect(trashed.valid && trashed.value.DeletedAt).toEqual(new Date('2024-02-01T00:00:00.000Z'));
+    expect(active.valid && 'DeletedAt' in active.value).toBe(false);
+  });
+
+  it('should drop unknown fields', () => {
+    const result = validateDocument({ ...record, Extra: true });
+
+    expect(result.valid && Object.keys(result.value)).not.toContain('Extra');
+  });
+
+  it.each([
+    [null, 'document', 'must be an object'],
+    [[], 'document', 'must be an object'],
+    [{ ...record, ID: '' }, 'ID', 'must be a non-empty string'],
+    [{ ...record, ID: 1 }, 'ID', 'must be a non-empty string'],
+    [{ ...record, Title: undefined }, 'Title', 'must be a string'],
+    [{ ...record, Version: null }, 'Version', 'must be a string or a number'],
+    [{ ...record, Contributors: undefined }, 'Contributors', 'must be an array'],
+    [{ ...record, Contributors: ['Alice'] }, 'Contributors[0]', 'must be an object'],
+    [{ ...record, Contributors: [{ ID: 'user-1' }] }, 'Contributors[0].Name', 'must be a string'],
+    [{ ...record, Attachments: 'report.pdf' }, 'Attachments', 'must be an array of strings'],
+    [{ ...record, Attachments: [1] }, 'Attachments', 'must be an array of strings'],
+    [{ ...record, CreatedAt: 'yesterday' }, 'CreatedAt', 'must be a valid date'],
+    [{ ...record, UpdatedAt: undefined }, 'UpdatedAt', 'must be a valid date'],
+    [{ ...record, DeletedAt: 'soon' }, 'DeletedAt', 'must be a valid date'],
+  ])('should reject %j at %s', (value, field, message) => {
+    expect(validateDocument(value)).toEqual({ valid: false, field, message });
+  });
+
+  describe('with repair', () => {
+    it('should fill missing lists and UpdatedAt and list the repaired fields', () => {
+      const result = validateDocument(
+        { ...record, Contributors: undefined, Attachments: null, UpdatedAt: 'later' },
+        { repair: true }
+      );
+
+      expect(result).toEqual({
+        valid: true,
+        value: {
+          ...record,
+          Contributors: [],
+          Attachments: [],
+          CreatedAt: new Date('2024-01-15T10:30:00.000Z'),
+          UpdatedAt: new Date('2024-01-15T10:30:00.000Z'),
+        },
+        repairs: ['Contributors', 'Attachments', 'UpdatedAt'],
+      });
+    });
+
+    it('should drop invalid contributors and attachments', () => {
+      const result = validateDocument(
+        {
+          ...record,
+          Contributors: [{ ID: 'user-2' }, ...record.Contributors],
+          Attachments: [1, 'report.pdf'],
+        },
+        { repair: true }
+      );
+
+      expect(result.valid && result.value.Contributors).toEqual(record.Contributors);
+      expect(result.valid && result.value.Attachments).toEqual(['report.pdf']);
+      expect(result.valid && result.repairs).toEqual(['Contributors[0].Name', 'Attachments']);
+    });
+
+    it('should not report repairs for a valid document', () => {
+      expect(validateDocument(record, { repair: true })).not.toHaveProperty('repairs');
+    });
+
+    it.each([
+      [{ ...record, ID: undefined }, 'ID'],
+      [{ ...record, Title: null }, 'Title'],
+      [{ ...record, Contributors: 'Alice' }, 'Contributors'],
+      [{ ...record, CreatedAt: undefined }, 'CreatedAt'],
+    ])('should still reject %j at %s', (value, field) => {
+      expect(validateDocument(value, { repair: true })).toMatchObject({ valid: false, field });
+    });
+  });
+});
+
+describe('validateSocketsNotification', () => {
+  const notification = {
+    Timestamp: '2024-01-15T10:30:00.000Z',
+    UserID: 'user-1',
+    UserName: 'Alice',
+    DocumentID: 'doc-1',
+    DocumentTitle: 'Report',
+  };
+
+  it('should accept a valid notification and drop unknown fields', () => {
+    expect(validateSocketsNotification({ ...notification, Extra: true })).toEqual({
+      valid: true,
+      value: notification,
+    });
+  });
+
+  it.each([
+    [null, 'notification', 'must be an object'],
+    [{ ...notification, Timestamp: 'yesterday' }, 'Timestamp', 'must be a valid date'],
+    [{ ...notification, UserID: 1 }, 'UserID', 'must be a string'],
+    [{ ...notification, DocumentTitle: undefined }, 'DocumentTitle', 'must be a string'],
+    [{ ...notification, DocumentID: '' }, 'DocumentID', 'must be a non-empty string'],
+  ])('should reject %j at %s', (value, field, message) => {
+    expect(validateSocketsNotification(value)).toEqual({ valid: false, field, message });
+  });
+});
@@ -0,0 +1,157 @@
+import type { Contributors, Document } from '../models/document';
+import type { SocketsNotification } from '../models/sockets';
+
+/**
+ * `repairs` lists the fields that were fixed up, when repairing was allowed
+ */
+export type ValidationResult<T> =
+  | { valid: true; value: T; repairs?: string[] }
+  | { valid: false; field: string; message: string };
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function invalid(field: string, message: string): ValidationResult<never> {
+  return { valid: false, field, message };
+}
+
+/**
+ * Accepts Date objects and the ISO strings or timestamps they are serialized to
+ */
+function toDate(value: unknown): Date | null {
+  if (!(value instanceof Date) && typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * @param field - Path reported when the value is invalid, e.g. `Contributors[0]`
+ */
+export function validateContributor(
+  value: unknown,
+  field: string = 'contributor'
+): ValidationResult<Contributors> {
+  if (!isRecord(value)) return invalid(field, 'must be an object');
+  if (typeof value.ID !== 'string') return invalid(`${field}.ID`, 'must be a string');
+  if (typeof value.Name !== 'string') return invalid(`${field}.Name`, 'must be a string');
+  return { valid: true, value: { ID: value.ID, Name: value.Name } };
+}
+
+export interface ValidationOptions {
+  // Fill in fields that have a safe default instead of rejecting the record
+  repair?: boolean;
+}
+
+/**
+ * Checks that an untrusted value has the shape of a Document, reporting the first invalid field
+ * Dates are revived from their serialized form
+ * With `repair`, missing or null Contributors and Attachments become empty, invalid entries in
+ * them are dropped and a missing UpdatedAt falls back to CreatedAt; each repaired field is listed
+ */
+export function validateDocument(
+  value: unknown,
+  { repair = false }: ValidationOptions = {}
+): ValidationResult<Document> {
+  if (!isRecord(value)) return invalid('document', 'must be an object');
+  const repairs: string[] = [];
+
+  if (typeof value.ID !== 'string' || value.ID === '') {
+    return invalid('ID', 'must be a non-empty string');
+  }
+  if (typeof value.Title !== 'string') return invalid('Title', 'must be a string');
+  if (typeof value.Version !== 'string' && typeof value.Version !== 'number') {
+    return invalid('Version', 'must be a string or a number');
+  }
+
+  let contributorValues = value.Contributors;
+  if (repair && (contributorValues === undefined || contributorValues === null)) {
+    contributorValues = [];
+    repairs.push('Contributors');
+  }
+  if (!Array.isArray(contributorValues)) return invalid('Contributors', 'must be an array');
+  const contributors: Contributors[] = [];
+  for (const [index, item] of contributorValues.entries()) {
+    const result = validateContributor(item, `Contributors[${index}]`);
+    if (result.valid) {
+      contributors.push(result.value);
+    } else if (repair) {
+      repairs.push(result.field);
+    } else {
+      return result;
+    }
+  }
+
+  let attachmentValues = value.Attachments;
+  if (repair && (attachmentValues === undefined || attachmentValues === null)) {
+    attachmentValues = [];
+    repairs.push('Attachments');
+  }
+  if (!Array.isArray(attachmentValues))
+    return invalid('Attachments', 'must be an array of strings');
+  const attachments = attachmentValues.filter(item => typeof item === 'string');
+  if (attachments.length !== attachmentValues.length) {
+    if (!repair) return invalid('Attachments', 'must be an array of strings');
+    repairs.push('Attachments');
+  }
+
+  const createdAt = toDate(value.CreatedAt);
+  if (!createdAt) return invalid('CreatedAt', 'must be a valid date');
+  let updatedAt = toDate(value.UpdatedAt);
+  if (!updatedAt && repair) {
+    updatedAt = new Date(createdAt);
+    repairs.push('UpdatedAt');
+  }
+  if (!updatedAt) return invalid('UpdatedAt', 'must be a valid date');
+
+  const document: Document = {
+    ID: value.ID,
+    Title: value.Title,
+    Contributors: contributors,
+    Version: value.Version,
+    Attachments: attachments,
+    CreatedAt: createdAt,
+    UpdatedAt: updatedAt,
+  };
+
+  if (value.DeletedAt !== undefined && value.DeletedAt !== null) {
+    const deletedAt = toDate(value.DeletedAt);
+    if (!deletedAt) return invalid('DeletedAt', 'must be a valid date');
+    document.DeletedAt = deletedAt;
+  }
+
+  return repairs.length > 0
+    ? { valid: true, value: document, repairs }
+    : { valid: true, value: document };
+}
+
+/**
+ * Checks the bare notification older servers send, which carries no document body
+ */
+export function validateSocketsNotification(value: unknown): ValidationResult<SocketsNotification> {
+  if (!isRecord(value)) return invalid('notification', 'must be an object');
+
+  // Becomes the document's CreatedAt and UpdatedAt, which sorting reads
+  if (typeof value.Timestamp !== 'string' || !toDate(value.Timestamp)) {
+    return invalid('Timestamp', 'must be a valid date');
+  }
+  for (const field of ['UserID', 'UserName', 'DocumentTitle']) {
+    if (typeof value[field] !== 'string') return invalid(field, 'must be a string');
+  }
+  if (typeof value.DocumentID !== 'string' || value.DocumentID === '') {
+    return invalid('DocumentID', 'must be a non-empty string');
+  }
+
+  return {
+    valid: true,
+    value: {
+      Timestamp: value.Timestamp,
+      UserID: value.UserID as string,
+      UserName: value.UserName as string,
+      DocumentID: value.DocumentID,
+      DocumentTitle: value.DocumentTitle as string,
+    },
+  };
+}
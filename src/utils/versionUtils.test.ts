@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bumpDocumentVersion,
+  bumpVersion,
+  compareVersions,
+  formatVersion,
+  isValidVersion,
+  parseVersion,
+  type ReleaseType,
+} from './versionUtils';
+
+describe('parseVersion', () => {
+  it.each([
+    ['1.2.3', { major: 1, minor: 2, patch: 3, prerelease: [], build: [] }],
+    ['v1.2.3', { major: 1, minor: 2, patch: 3, prerelease: [], build: [] }],
+    ['2.1', { major: 2, minor: 1, patch: 0, prerelease: [], build: [] }],
+    ['4', { major: 4, minor: 0, patch: 0, prerelease: [], build: [] }],
+    [4, { major: 4, minor: 0, patch: 0, prerelease: [], build: [] }],
+    ['1.0.0-alpha.1', { major: 1, minor: 0, patch: 0, prerelease: ['alpha', 1], build: [] }],
+    ['1.0.0-0.3.7', { major: 1, minor: 0, patch: 0, prerelease: [0, 3, 7], build: [] }],
+    [
+      '1.0.0+20130313144700',
+      { major: 1, minor: 0, patch: 0, prerelease: [], build: ['20130313144700'] },
+    ],
+    [
+      '1.0.0-beta+exp.sha.5114f85',
+      { major: 1, minor: 0, patch: 0, prerelease: ['beta'], build: ['exp', 'sha', '5114f85'] },
+    ],
+  ])('should parse %j', (input, expected) => {
+    expect(parseVersion(input)).toEqual(expected);
+  });
+
+  it.each(['', 'draft', '1.2.3.4', '1.0.0-', '1.0.0+', '1.0.0-beta..1', '1.0.0-01', '-1.0.0'])(
+    'should reject %j',
+    input => {
+      expect(parseVersion(input)).toBeNull();
+    }
+  );
+});
+
+describe('isValidVersion', () => {
+  it.each([
+    '0.0.0',
+    '1.2.3',
+    '10.20.30',
+    '1.0.0-alpha',
+    '1.0.0-alpha.beta.1',
+    '1.0.0-x-y-z.--',
+    '1.0.0+build.1',
+    '1.0.0-rc.1+build.1',
+  ])('should accept %j', input => {
+    expect(isValidVersion(input)).toBe(true);
+  });
+
+  it.each(['1', '1.2', 'v1.2.3', '01.2.3', '1.02.3', '1.2.3-01', '1.2.3-', '1.2.3+', '1.2.3 '])(
+    'should reject %j',
+    input => {
+      expect(isValidVersion(input)).toBe(false);
+    }
+  );
+});
+
+describe('formatVersion', () => {
+  it('should round-trip prerelease and build metadata', () => {
+    expect(formatVersion(parseVersion('1.0.0-rc.1+build.5')!)).toBe('1.0.0-rc.1+build.5');
+  });
+
+  it('should pad short versions', () => {
+    expect(formatVersion(parseVersion(3)!)).toBe('3.0.0');
+  });
+});
+
+describe('compareVersions', () => {
+  // Each pair is ordered: the first version has lower precedence than the second
+  it.each([
+    ['1.2.0', '1.10.0'],
+    ['1.9.9', '2.0.0'],
+    ['1.0.0', '2'],
+    [2, '2.0.1'],
+    ['1.0.0-alpha', '1.0.0'],
+    ['1.0.0-alpha', '1.0.0-alpha.1'],
+    ['1.0.0-alpha.1', '1.0.0-alpha.beta'],
+    ['1.0.0-alpha.beta', '1.0.0-beta'],
+    ['1.0.0-beta', '1.0.0-beta.2'],
+    ['1.0.0-beta.2', '1.0.0-beta.11'],
+    ['1.0.0-beta.11', '1.0.0-rc.1'],
+    ['1.0.0-rc.1', '1.0.0'],
+    ['9.9.9', 'draft'],
+  ])('should order %j before %j', (lower, higher) => {
+    expect(compareVersions(lower, higher)).toBeLessThan(0);
+    expect(compareVersions(higher, lower)).toBeGreaterThan(0);
+  });
+
+  it.each([
+    ['2.0', '2.0.0'],
+    ['4', 4],
+    ['v1.2.3', '1.2.3'],
+    ['1.0.0+build.1', '1.0.0+build.2'],
+    ['1.0.0-rc.1+build.1', '1.0.0-rc.1'],
+  ])('should treat %j and %j as equal', (a, b) => {
+    expect(compareVersions(a, b)).toBe(0);
+  });
+
+  it('should order values that are not versions alphabetically', () => {
+    expect(compareVersions('draft', 'final')).toBeLessThan(0);
+  });
+});
+
+describe('bumpVersion', () => {
+  it.each<[number | string, ReleaseType, string | undefined, string]>([
+    ['1.2.3', 'major', undefined, '2.0.0'],
+    ['1.2.3', 'minor', undefined, '1.3.0'],
+    ['1.2.3', 'patch', undefined, '1.2.4'],
+    ['1.2.3', 'prerelease', undefined, '1.2.4-0'],
+    ['1.2.3', 'prerelease', 'beta', '1.2.4-beta.0'],
+    ['1.2.3-beta.0', 'prerelease', 'beta', '1.2.3-beta.1'],
+    ['1.2.3-beta.0', 'prerelease', 'rc', '1.2.3-rc.0'],
+    ['1.2.3-beta', 'prerelease', undefined, '1.2.3-beta.0'],
+    ['1.2.3-0', 'prerelease', undefined, '1.2.3-1'],
+    ['1.0.0-rc.1', 'major', undefined, '1.0.0'],
+    ['1.1.0-rc.1', 'major', undefined, '2.0.0'],
+    ['1.1.0-rc.1', 'minor', undefined, '1.1.0'],
+    ['1.1.1-rc.1', 'minor', undefined, '1.2.0'],
+    ['1.1.1-rc.1', 'patch', undefined, '1.1.1'],
+    ['1.2.3+build.5', 'patch', undefined, '1.2.4'],
+    [3, 'minor', undefined, '3.1.0'],
+    ['v2', 'major', undefined, '3.0.0'],
+  ])('should bump %j by %s (preid %s) to %j', (version, release, preid, expected) => {
+    expect(bumpVersion(version, release, preid)).toBe(expected);
+  });
+
+  it('should return null for values that are not versions', () => {
+    expect(bumpVersion('draft', 'patch')).toBeNull();
+  });
+});
+
+describe('bumpDocumentVersion', () => {
+  it('should keep whole-number versions numeric on a major bump', () => {
+    expect(bumpDocumentVersion(3, 'major')).toBe(4);
+  });
+
+  it('should switch numeric versions to dotted form for minor and patch bumps', () => {
+    expect(bumpDocumentVersion(3, 'minor')).toBe('3.1.0');
+    expect(bumpDocumentVersion(3, 'patch')).toBe('3.0.1');
+  });
+
+  it('should bump dotted versions', () => {
+    expect(bumpDocumentVersion('2.1', 'patch')).toBe('2.1.1');
+    expect(bumpDocumentVersion('2.1.0-rc.1', 'minor')).toBe('2.1.0');
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * A parsed semantic version (https://semver.org)
+ */
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: (string | number)[];
+  build: string[];
+}
+
+export type ReleaseType = 'major' | 'minor' | 'patch' | 'prerelease';
+
+const IDENTIFIER = '[0-9A-Za-z-]+';
+const NUMERIC = '0|[1-9]\\d*';
+const PRERELEASE_IDENTIFIER = `(?:${NUMERIC}|\\d*[A-Za-z-][0-9A-Za-z-]*)`;
+
+const STRICT_PATTERN = new RegExp(
+  `^(${NUMERIC})\\.(${NUMERIC})\\.(${NUMERIC})` +
+    `(?:-(${PRERELEASE_IDENTIFIER}(?:\\.${PRERELEASE_IDENTIFIER})*))?` +
+    `(?:\\+(${IDENTIFIER}(?:\\.${IDENTIFIER})*))?$`
+);
+
+// Also accepts a "v" prefix and missing minor/patch parts, as found in older documents
+const LOOSE_PATTERN = new RegExp(
+  `^[vV]?(\\d+)(?:\\.(\\d+))?(?:\\.(\\d+))?` +
+    `(?:-(${PRERELEASE_IDENTIFIER}(?:\\.${PRERELEASE_IDENTIFIER})*))?` +
+    `(?:\\+(${IDENTIFIER}(?:\\.${IDENTIFIER})*))?$`
+);
+
+/**
+ * Parses a document version; numbers and short forms are padded (3 -> 3.0.0, v2.1 -> 2.1.0)
+ * @returns The parsed version, or null if the value is not a version
+ */
+export function parseVersion(version: number | string): SemVer | null {
+  const match = LOOSE_PATTERN.exec(String(version).trim());
+  if (!match) return null;
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2] ?? 0),
+    patch: Number(match[3] ?? 0),
+    prerelease: match[4] ? match[4].split('.').map(id => (/^\d+$/.test(id) ? Number(id) : id)) : [],
+    build: match[5] ? match[5].split('.') : [],
+  };
+}
+
+/**
+ * Checks that a value is a full semantic version such as 1.0.0, 1.0.0-beta.2 or 1.0.0+build.5
+ */
+export function isValidVersion(version: string): boolean {
+  return STRICT_PATTERN.test(version);
+}
+
+export function formatVersion(version: SemVer): string {
+  const core = `${version.major}.${version.minor}.${version.patch}`;
+  const prerelease = version.prerelease.length > 0 ? `-${version.prerelease.join('.')}` : '';
+  const build = version.build.length > 0 ? `+${version.build.join('.')}` : '';
+  return `${core}${prerelease}${build}`;
+}
+
+function compareIdentifiers(a: string | number, b: string | number): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  // Numeric identifiers always have lower precedence than alphanumeric ones
+  if (typeof a === 'number') return -1;
+  if (typeof b === 'number') return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function comparePrerelease(a: SemVer['prerelease'], b: SemVer['prerelease']): number {
+  // A release has higher precedence than any of its prereleases
+  if (a.length === 0 || b.length === 0) return b.length - a.length;
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const diff = compareIdentifiers(a[i], b[i]);
+    if (diff !== 0) return diff;
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Compares two document versions by semantic version precedence, ignoring build metadata
+ * Values that are not versions sort after all versions, alphabetically among themselves
+ */
+export function compareVersions(a: number | string, b: number | string): number {
+  const aVersion = parseVersion(a);
+  const bVersion = parseVersion(b);
+
+  if (!aVersion || !bVersion) {
+    if (aVersion) return -1;
+    if (bVersion) return 1;
+    return String(a).localeCompare(String(b));
+  }
+
+  return (
+    aVersion.major - bVersion.major ||
+    aVersion.minor - bVersion.minor ||
+    aVersion.patch - bVersion.patch ||
+    comparePrerelease(aVersion.prerelease, bVersion.prerelease)
+  );
+}
+
+/**
+ * Computes the next version, following the same rules as `npm version`:
+ * bumping a prerelease to a release only drops the prerelease (1.0.0-rc.1 -> 1.0.0 for major)
+ * @param preid - Identifier for new prereleases, e.g. "beta"
+ * @returns The next version, or null if the value is not a version
+ */
+export function bumpVersion(
+  version: number | string,
+  release: ReleaseType,
+  preid?: string
+): string | null {
+  const parsed = parseVersion(version);
+  if (!parsed) return null;
+
+  const { major, minor, patch, prerelease } = parsed;
+  const isPrerelease = prerelease.length > 0;
+  const next: SemVer = { major, minor, patch, prerelease: [], build: [] };
+
+  switch (release) {
+    case 'major':
+      if (!isPrerelease || minor !== 0 || patch !== 0) {
+        next.major = major + 1;
+      }
+      next.minor = 0;
+      next.patch = 0;
+      break;
+    case 'minor':
+      if (!isPrerelease || patch !== 0) {
+        next.minor = minor + 1;
+      }
+      next.patch = 0;
+      break;
+    case 'patch':
+      if (!isPrerelease) {
+        next.patch = patch + 1;
+      }
+      break;
+    case 'prerelease':
+      next.prerelease = bumpPrerelease(prerelease, preid);
+      if (!isPrerelease) {
+        next.patch = patch + 1;
+      }
+      break;
+  }
+
+  return formatVersion(next);
+}
+
+function bumpPrerelease(prerelease: SemVer['prerelease'], preid?: string): SemVer['prerelease'] {
+  const base = preid ? [preid] : [];
+  if (prerelease.length === 0 || (preid && prerelease[0] !== preid)) {
+    return [...base, 0];
+  }
+
+  const last = prerelease[prerelease.length - 1];
+  return typeof last === 'number' ? [...prerelease.slice(0, -1), last + 1] : [...prerelease, 0];
+}
+
+export type VersionBump = Exclude<ReleaseType, 'prerelease'>;
+
+/**
+ * Bumps a document version, keeping whole-number versions numeric on a major bump (3 -> 4)
+ * @returns The next version, or null if the current one is not a version
+ */
+export function bumpDocumentVersion(
+  version: number | string,
+  release: VersionBump
+): number | string | null {
+  if (typeof version === 'number' && Number.isInteger(version) && release === 'major') {
+    return version + 1;
+  }
+  return bumpVersion(version, release);
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ActionsComponent } from './actionsComponent';
+import { Document } from '../../models/document';
+
+describe('ActionsComponent', () => {
+  let component: ActionsComponent;
+  let container: HTMLElement;
+
+  const mockDocument: Document = {
+    ID: 'doc-1',
+    Title: 'Test <Document>',
+    Contributors: [],
+    Version: '1.0.0',
+    Attachments: [],
+    CreatedAt: new Date('2024-01-15T10:30:00Z'),
+    UpdatedAt: new Date('2024-01-15T10:30:00Z'),
+  };
+
+  beforeEach(() => {
+    component = new ActionsComponent();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    document.body.removeChild(container);
+  });
+
+  describe('render', () => {
+    it('should render an edit button bound to the document ID', () => {
+      // Arrange & Act
+      const html = component.render(mockDocument);
+
+      // Assert
+      expect(html).toContain('data-action="edit"');
+      expect(html).toContain('data-id="doc-1"');
+    });
+
+    it('should render a delete button bound to the document ID', () => {
+      // Arrange & Act
+      const html = component.render(mockDocument);
+
+      // Assert
+      expect(html).toContain('data-action="delete"');
+    });
+
+    it('should render major, minor and patch bump buttons', () => {
+      // Arrange & Act
+      const html = component.render(mockDocument);
+
+      // Assert
+      expect(html).toContain('data-action="bumpMajor"');
+      expect(html).toContain('data-action="bumpMinor"');
+      expect(html).toContain('data-action="bumpPatch"');
+      expect(html).toContain('aria-label="Bump minor Test &lt;Document&gt;"');
+    });
+
+    it('should not offer version bumps for trashed documents', () => {
+      // Arrange & Act
+      const html = component.render({ ...mockDocument, DeletedAt: new Date() });
+
+      // Assert
+      expect(html).not.toContain('data-action="bumpMajor"');
+    });
+
+    it('should render restore and purge instead of edit and delete for trashed documents', () => {
+      // Arrange & Act
+      const html = component.render({ ...mockDocument, DeletedAt: new Date() });
+
+      // Assert
+      expect(html).toContain('data-action="restore"');
+      expect(html).toContain('data-action="purge"');
+      expect(html).not.toContain('data-action="edit"');
+      expect(html).not.toContain('data-action="delete"');
+    });
+
+    it('should escape the title in the accessible label', () => {
+      // Arrange & Act
+      const html = component.render(mockDocument);
+
+      // Assert
+      expect(html).toContain('aria-label="Edit Test &lt;Document&gt;"');
+    });
+  });
+
+  describe('attachListeners', () => {
+    it('should call the matching handler with the document ID', () => {
+      // Arrange
+      const onEdit = vi.fn();
+      container.innerHTML = component.render(mockDocument);
+      component.attachListeners(container, { edit: onEdit });
+
+      // Act
+      (container.querySelector('[data-action="edit"]') as HTMLElement).click();
+
+      // Assert
+      expect(onEdit).toHaveBeenCalledWith('doc-1');
+    });
+
+    it('should route each button to its own handler', () => {
+      // Arrange
+      const onEdit = vi.fn();
+      const onDelete = vi.fn();
+      container.innerHTML = component.render(mockDocument);
+      component.attachListeners(container, { edit: onEdit, delete: onDelete });
+
+      // Act
+      (container.querySelector('[data-action="delete"]') as HTMLElement).click();
+
+      // Assert
+      expect(onDelete).toHaveBeenCalledWith('doc-1');
+      expect(onEdit).not.toHaveBeenCalled();
+    });
+
+    it('should ignore clicks outside action buttons', () => {
+      // Arrange
+      const onEdit = vi.fn();
+      container.innerHTML = `<span class="other"></span>${component.render(mockDocument)}`;
+      component.attachListeners(container, { edit: onEdit });
+
+      // Act
+      (container.querySelector('.other') as HTMLElement).click();
+
+      // Assert
+      expect(onEdit).not.toHaveBeenCalled();
+    });
+
+    it('should not throw when no handler is registered for the action', () => {
+      // Arrange
+      container.innerHTML = component.render(mockDocument);
+      component.attachListeners(container, {});
+
+      // Act & Assert
+      expect(() =>
+        (container.querySelector('[data-action="edit"]') as HTMLElement).click()
+      ).not.toThrow();
+    });
+
+    it('should stop calling handlers after cleanup', () => {
+      // Arrange
+      const onEdit = vi.fn();
+      container.innerHTML = component.render(mockDocument);
+      const cleanup = component.attachListeners(container, { edit: onEdit });
+
+      // Act
+      cleanup();
+      (container.querySelector('[data-action="edit"]') as HTMLElement).click();
+
+      // Assert
+      expect(onEdit).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import type { Document } from '../../models/document';
+import { escapeHtml } from '../../utils/htmlUtils';
+import { isTrashed } from '../../utils/documentUtils';
+
+export type DocumentAction =
+  | 'edit'
+  | 'bumpMajor'
+  | 'bumpMinor'
+  | 'bumpPatch'
+  | 'delete'
+  | 'restore'
+  | 'purge';
+
+export type DocumentActionHandlers = Partial<Record<DocumentAction, (id: string) => void>>;
+
+const ACTION_LABELS: Record<DocumentAction, string> = {
+  edit: 'Edit',
+  bumpMajor: 'Bump major',
+  bumpMinor: 'Bump minor',
+  bumpPatch: 'Bump patch',
+  delete: 'Delete',
+  restore: 'Restore',
+  purge: 'Delete forever',
+};
+
+const ACTIVE_ACTIONS: DocumentAction[] = ['edit', 'bumpMajor', 'bumpMinor', 'bumpPatch', 'delete'];
+const TRASH_ACTIONS: DocumentAction[] = ['restore', 'purge'];
+
+/**
+ * Renders the per-document action buttons shared by list rows and cards
+ * Listeners are delegated from the document container, so re-rendering rows needs no rebinding
+ */
+export class ActionsComponent {
+  render(doc: Document): string {
+    const id = escapeHtml(String(doc.ID));
+    const title = escapeHtml(doc.Title);
+
+    return `
+      <div class="doc-actions">
+        ${(isTrashed(doc) ? TRASH_ACTIONS : ACTIVE_ACTIONS)
+          .map(
+            action => `
+          <button
+            type="button"
+            class="doc-action"
+            data-action="${action}"
+            data-id="${id}"
+            aria-label="${ACTION_LABELS[action]} ${title}"
+          >
+            ${ACTION_LABELS[action]}
+          </button>
+        `
+          )
+          .join('')}
+      </div>
+    `;
+  }
+
+  attachListeners(container: HTMLElement, handlers: DocumentActionHandlers): () => void {
+    const clickHandler = (event: Event) => {
+      const target = event.target as HTMLElement;
+      const button = target.closest<HTMLElement>('[data-action]');
+      if (!button || !container.contains(button)) return;
+
+      const action = button.dataset.action as DocumentAction;
+      const id = button.dataset.id;
+      if (id) {
+        handlers[action]?.(id);
+      }
+    };
+
+    container.addEventListener('click', clickHandler);
+    return () => {
+      container.removeEventListener('click', clickHandler);
+    };
+  }
+}
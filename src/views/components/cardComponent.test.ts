@@ -208,6 +208,46 @@ describe('CardComponent', () => {
     });
   });
 
+  describe('actions', () => {
+    it('should render an edit action for the document', () => {
+      // Arrange & Act
+      const html = component.render(mockDocument);
+
+      // Assert
+      expect(html).toContain('data-action="edit"');
+      expect(html).toContain('data-id="doc-1"');
+    });
+
+    it('should be focusable and identify its document for opening details', () => {
+      // Arrange & Act
+      const html = component.render(mockDocument);
+
+      // Assert
+      expect(html).toContain('data-document-id="doc-1"');
+      expect(html).toContain('tabindex="0"');
+    });
+  });
+
+  describe('search highlighting', () => {
+    it('should highlight matches in title, contributors and attachments', () => {
+      // Arrange & Act
+      const html = component.render(mockDocument, undefined, 'alice file1 test');
+
+      // Assert
+      expect(html).toContain('<mark>Test</mark> Document');
+      expect(html).toContain('<mark>Alice</mark>');
+      expect(html).toContain('<mark>file1</mark>.pdf');
+    });
+
+    it('should not add marks without a search query', () => {
+      // Arrange & Act
+      const html = component.render(mockDocument);
+
+      // Assert
+      expect(html).not.toContain('<mark>');
+    });
+  });
+
   describe('edge cases', () => {
     it('should render card with empty title', () => {
       // Arrange
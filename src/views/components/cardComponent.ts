@@ -1,21 +1,31 @@
 import type { Document } from '../../models/document';
 import { escapeHtml } from '../../utils/htmlUtils';
+import { highlightMatches } from '../../utils/searchUtils';
+import { ActionsComponent } from './actionsComponent';
 
 export class CardComponent {
-  render(doc: Document, headingId?: string): string {
+  private actionsComponent = new ActionsComponent();
+
+  render(doc: Document, headingId?: string, highlight: string | string[] = ''): string {
     const titleId = headingId ?? `card-${String(doc.ID).replace(/[^a-zA-Z0-9_-]/g, '-')}-title`;
 
     return `
-      <article class="document-card" role="listitem" aria-labelledby="${titleId}">
+      <article
+        class="document-card"
+        role="listitem"
+        aria-labelledby="${titleId}"
+        data-document-id="${escapeHtml(String(doc.ID))}"
+        tabindex="0"
+      >
         <div class="card-title">
-          <h3 id="${titleId}">${escapeHtml(doc.Title)}</h3>
+          <h3 id="${titleId}">${highlightMatches(doc.Title, highlight)}</h3>
           <div class="card-version">Version ${escapeHtml(String(doc.Version))}</div>
         </div>
         
         <div class="card-section">
           ${doc.Contributors.map(
             c => `
-            <div class="card-item">${escapeHtml(c.Name)}</div>
+            <div class="card-item">${highlightMatches(c.Name, highlight)}</div>
           `
           ).join('')}
         </div>
@@ -25,12 +35,14 @@ export class CardComponent {
             doc.Attachments.length > 0
               ? doc.Attachments.map(
                   a => `
-              <div class="card-item">${escapeHtml(a)}</div>
+              <div class="card-item">${highlightMatches(a, highlight)}</div>
             `
                 ).join('')
               : ''
           }
         </div>
+
+        ${this.actionsComponent.render(doc)}
       </article>
     `;
   }
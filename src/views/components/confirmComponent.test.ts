@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ConfirmComponent } from './confirmComponent';
+
+describe('ConfirmComponent', () => {
+  let component: ConfirmComponent;
+  let container: HTMLElement;
+
+  const options = {
+    title: 'Delete document',
+    message: '"Report" will be removed from your documents.',
+    confirmLabel: 'Delete',
+  };
+
+  beforeEach(() => {
+    component = new ConfirmComponent();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    document.body.removeChild(container);
+  });
+
+  describe('render', () => {
+    it('should render a hidden dialog with modal styling', () => {
+      // Arrange & Act
+      const html = component.render(options);
+
+      // Assert
+      expect(html).toContain('role="alertdialog"');
+      expect(html).toContain('modal-content');
+      expect(html).toContain('hidden');
+    });
+
+    it('should render title, message and confirm label', () => {
+      // Arrange & Act
+      const html = component.render(options);
+
+      // Assert
+      expect(html).toContain('Delete document');
+      expect(html).toContain('will be removed from your documents.');
+      expect(html).toContain('Delete');
+    });
+
+    it('should escape user content', () => {
+      // Arrange & Act
+      const html = component.render({ ...options, message: '<img src=x>' });
+
+      // Assert
+      expect(html).not.toContain('<img src=x>');
+      expect(html).toContain('&lt;img src=x&gt;');
+    });
+
+    it('should fall back to a generic confirm label', () => {
+      // Arrange & Act
+      const html = component.render({ title: 'Sure?', message: 'Really?' });
+
+      // Assert
+      expect(html).toContain('Confirm');
+    });
+  });
+
+  describe('show', () => {
+    it('should insert a visible dialog and focus the confirm button', () => {
+      // Arrange & Act
+      component.show(container, options, vi.fn());
+
+      // Assert
+      const dialog = container.querySelector('#confirmDialog');
+      expect(dialog?.classList.contains('hidden')).toBe(false);
+      expect(document.activeElement?.id).toBe('confirmAccept');
+    });
+
+    it('should replace an already open dialog', () => {
+      // Arrange
+      component.show(container, options, vi.fn());
+
+      // Act
+      component.show(container, options, vi.fn());
+
+      // Assert
+      expect(container.querySelectorAll('#confirmDialog')).toHaveLength(1);
+    });
+
+    it('should call onConfirm and close when confirmed', () => {
+      // Arrange
+      const onConfirm = vi.fn();
+      component.show(container, options, onConfirm);
+
+      // Act
+      (container.querySelector('#confirmAccept') as HTMLElement).click();
+      vi.advanceTimersByTime(300);
+
+      // Assert
+      expect(onConfirm).toHaveBeenCalledTimes(1);
+      expect(container.querySelector('#confirmDialog')).toBeNull();
+    });
+
+    it.each(['#confirmCancel', '#confirmClose', '.modal-overlay'])(
+      'should close without confirming when %s is clicked',
+      selector => {
+        // Arrange
+        const onConfirm = vi.fn();
+        component.show(container, options, onConfirm);
+
+        // Act
+        (container.querySelector(selector) as HTMLElement).click();
+        vi.advanceTimersByTime(300);
+
+        // Assert
+        expect(onConfirm).not.toHaveBeenCalled();
+        expect(container.querySelector('#confirmDialog')).toBeNull();
+      }
+    );
+
+    it('should close on Escape', () => {
+      // Arrange
+      const onConfirm = vi.fn();
+      component.show(container, options, onConfirm);
+      const dialog = container.querySelector('#confirmDialog') as HTMLElement;
+
+      // Act
+      dialog.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+
+      // Assert
+      expect(dialog.classList.contains('hidden')).toBe(true);
+      expect(onConfirm).not.toHaveBeenCalled();
+    });
+  });
+});
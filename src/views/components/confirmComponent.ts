@@ -0,0 +1,73 @@
+import { escapeHtml } from '../../utils/htmlUtils';
+
+export interface ConfirmOptions {
+  title: string;
+  message: string;
+  confirmLabel?: string;
+}
+
+/**
+ * Small confirmation dialog reusing the document modal styling
+ */
+export class ConfirmComponent {
+  render(options: ConfirmOptions): string {
+    return `
+      <div
+        id="confirmDialog"
+        class="modal confirm-dialog hidden"
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="confirmTitle"
+        aria-describedby="confirmMessage"
+      >
+        <div class="modal-overlay" aria-hidden="true"></div>
+        <div class="modal-content">
+          <div class="modal-header">
+            <h2 id="confirmTitle">${escapeHtml(options.title)}</h2>
+            <button class="modal-close" id="confirmClose" aria-label="Close">&times;</button>
+          </div>
+          <div class="confirm-body">
+            <p id="confirmMessage" class="confirm-message">${escapeHtml(options.message)}</p>
+            <div class="modal-actions">
+              <button type="button" class="btn-cancel" id="confirmCancel">Cancel</button>
+              <button type="button" class="btn-primary btn-danger" id="confirmAccept">
+                ${escapeHtml(options.confirmLabel ?? 'Confirm')}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  show(container: HTMLElement, options: ConfirmOptions, onConfirm: () => void): void {
+    container.querySelector('#confirmDialog')?.remove();
+    container.insertAdjacentHTML('beforeend', this.render(options));
+
+    const dialog = container.querySelector('#confirmDialog') as HTMLElement | null;
+    if (!dialog) return;
+
+    dialog.classList.remove('hidden');
+    this.attachListeners(dialog, onConfirm);
+    (dialog.querySelector('#confirmAccept') as HTMLButtonElement | null)?.focus();
+  }
+
+  private attachListeners(dialog: HTMLElement, onConfirm: () => void): void {
+    const close = () => {
+      dialog.classList.add('hidden');
+      setTimeout(() => dialog.remove(), 300);
+    };
+
+    dialog.querySelector('#confirmClose')?.addEventListener('click', close);
+    dialog.querySelector('#confirmCancel')?.addEventListener('click', close);
+    dialog.querySelector('.modal-overlay')?.addEventListener('click', close);
+    dialog.addEventListener('keydown', e => {
+      if (e.key === 'Escape') close();
+    });
+
+    dialog.querySelector('#confirmAccept')?.addEventListener('click', () => {
+      close();
+      onConfirm();
+    });
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ConnectionStatusComponent, getConnectionLabel } from './connectionStatusComponent';
+import type { ConnectionState } from '../../models/sockets';
+
+describe('getConnectionLabel', () => {
+  it.each<[ConnectionState, string]>([
+    [{ status: 'connecting' }, 'Connecting…'],
+    [{ status: 'open' }, 'Live'],
+    [{ status: 'reconnecting', attempt: 2, maxAttempts: 5 }, 'Reconnecting (2/5)'],
+    [{ status: 'reconnecting', attempt: 7, maxAttempts: Infinity }, 'Reconnecting (7)'],
+    [{ status: 'offline' }, 'Offline'],
+  ])('should describe %j as %s', (state, label) => {
+    expect(getConnectionLabel(state)).toBe(label);
+  });
+});
+
+describe('ConnectionStatusComponent', () => {
+  let component: ConnectionStatusComponent;
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    component = new ConnectionStatusComponent();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    document.body.removeChild(container);
+  });
+
+  describe('render', () => {
+    it('should show the label in a status pill styled by state', () => {
+      // Arrange & Act
+      container.innerHTML = component.render({
+        status: 'reconnecting',
+        attempt: 1,
+        maxAttempts: 5,
+      });
+
+      // Assert
+      const status = container.querySelector('#connectionStatus');
+      expect(status?.classList.contains('connection-reconnecting')).toBe(true);
+      expect(status?.querySelector('[role="status"]')?.textContent).toContain('Reconnecting (1/5)');
+    });
+
+    it.each<ConnectionState>([{ status: 'connecting' }, { status: 'open' }])(
+      'should not offer a retry button while $status',
+      state => {
+        // Arrange & Act
+        container.innerHTML = component.render(state);
+
+        // Assert
+        expect(container.querySelector('#connectionRetry')).toBeNull();
+      }
+    );
+
+    it.each<ConnectionState>([
+      { status: 'reconnecting', attempt: 3, maxAttempts: Infinity },
+      { status: 'offline' },
+    ])('should offer a retry button while $status', state => {
+      // Arrange & Act
+      container.innerHTML = component.render(state);
+
+      // Assert
+      expect(container.querySelector('#connectionRetry')?.textContent).toBe('Retry now');
+    });
+  });
+
+  describe('attachListeners', () => {
+    it('should call onRetry when the retry button is clicked', () => {
+      // Arrange
+      const onRetry = vi.fn();
+      container.innerHTML = component.render({ status: 'offline' });
+      component.attachListeners(container, onRetry);
+
+      // Act
+      container.querySelector<HTMLButtonElement>('#connectionRetry')?.click();
+
+      // Assert
+      expect(onRetry).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop listening after cleanup', () => {
+      // Arrange
+      const onRetry = vi.fn();
+      container.innerHTML = component.render({ status: 'offline' });
+      const cleanup = component.attachListeners(container, onRetry);
+
+      // Act
+      cleanup();
+      container.querySelector<HTMLButtonElement>('#connectionRetry')?.click();
+
+      // Assert
+      expect(onRetry).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing without a retry button', () => {
+      // Arrange
+      container.innerHTML = component.render({ status: 'open' });
+
+      // Act & Assert
+      expect(() => component.attachListeners(container, vi.fn())()).not.toThrow();
+    });
+  });
+});
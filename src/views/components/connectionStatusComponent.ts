@@ -0,0 +1,50 @@
+import type { ConnectionState } from '../../models/sockets';
+
+/**
+ * Describes the connection in a few words, e.g. "Reconnecting (2/5)"
+ */
+export function getConnectionLabel(state: ConnectionState): string {
+  switch (state.status) {
+    case 'connecting':
+      return 'Connecting…';
+    case 'open':
+      return 'Live';
+    case 'reconnecting':
+      return Number.isFinite(state.maxAttempts)
+        ? `Reconnecting (${state.attempt}/${state.maxAttempts})`
+        : `Reconnecting (${state.attempt})`;
+    case 'offline':
+      return 'Offline';
+  }
+}
+
+/**
+ * Renders the header pill showing whether live updates are arriving
+ * Offers "Retry now" while waiting out a reconnection delay and once reconnection has given up
+ */
+export class ConnectionStatusComponent {
+  render(state: ConnectionState): string {
+    return `
+      <div class="connection-status connection-${state.status}" id="connectionStatus">
+        <span class="connection-pill" role="status">
+          <span class="connection-dot" aria-hidden="true"></span>
+          <span class="visually-hidden">Live updates:</span>
+          ${getConnectionLabel(state)}
+        </span>
+        ${
+          state.status === 'reconnecting' || state.status === 'offline'
+            ? '<button type="button" id="connectionRetry" class="connection-retry">Retry now</button>'
+            : ''
+        }
+      </div>
+    `;
+  }
+
+  attachListeners(container: HTMLElement, onRetry: () => void): () => void {
+    const retryButton = container.querySelector<HTMLButtonElement>('#connectionRetry');
+    if (!retryButton) return () => {};
+
+    retryButton.addEventListener('click', onRetry);
+    return () => retryButton.removeEventListener('click', onRetry);
+  }
+}
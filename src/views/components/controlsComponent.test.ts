@@ -103,6 +103,21 @@ describe('ControlsComponent', () => {
       expect(html).toContain('Name');
       expect(html).toContain('Version');
       expect(html).toContain('Date');
+      expect(html).toContain('Last updated');
+      expect(html).toContain('Number of contributors');
+      expect(html).toContain('Number of attachments');
+    });
+
+    it.each([
+      ['UpdatedAt', 'Last updated'],
+      ['ContributorCount', 'Number of contributors'],
+      ['AttachmentCount', 'Number of attachments'],
+    ] as const)('should select %s option when it is the sort field', (field, label) => {
+      // Arrange & Act
+      const html = component.render(field, 'list');
+
+      // Assert
+      expect(html).toContain(`<option value="${field}" selected>${label}</option>`);
     });
   });
 
@@ -186,6 +201,269 @@ describe('ControlsComponent', () => {
     });
   });
 
+  describe('sort stack', () => {
+    const criteria = [
+      { field: 'Version', order: 'desc' },
+      { field: 'Title', order: 'asc' },
+    ] as const;
+
+    it('should not render the stack without criteria', () => {
+      // Arrange & Act
+      const html = component.render('Title', 'list');
+
+      // Assert
+      expect(html).not.toContain('thenByDropdown');
+      expect(html).not.toContain('sort-order-btn');
+    });
+
+    it('should render an order button per criterion and a chip per tie-breaker', () => {
+      // Arrange & Act
+      container.innerHTML = component.render('Version', 'list', { sortCriteria: [...criteria] });
+
+      // Assert
+      const orderButtons = container.querySelectorAll('.sort-order-btn');
+      expect(orderButtons).toHaveLength(2);
+      expect(orderButtons[0].textContent).toBe('↓');
+      expect(orderButtons[1].textContent).toBe('↑');
+      expect(container.querySelector('.sort-criterion-label')?.textContent).toBe('then Name');
+    });
+
+    it('should only offer fields that are not sorted on yet', () => {
+      // Arrange & Act
+      container.innerHTML = component.render('Version', 'list', { sortCriteria: [...criteria] });
+
+      // Assert
+      const values = Array.from(
+        container.querySelectorAll<HTMLOptionElement>('#thenByDropdown option')
+      ).map(option => option.value);
+      expect(values).toEqual(['', 'CreatedAt', 'UpdatedAt', 'ContributorCount', 'AttachmentCount']);
+    });
+
+    it('should call onSortAdd when a then-by field is picked', () => {
+      // Arrange
+      container.innerHTML = component.render('Version', 'list', { sortCriteria: [...criteria] });
+      const onSortAdd = vi.fn();
+      component.attachListeners(container, vi.fn(), vi.fn(), { onSortAdd });
+      const dropdown = container.querySelector('#thenByDropdown') as HTMLSelectElement;
+
+      // Act
+      dropdown.value = 'CreatedAt';
+      dropdown.dispatchEvent(new Event('change'));
+
+      // Assert
+      expect(onSortAdd).toHaveBeenCalledWith('CreatedAt');
+    });
+
+    it('should call onSortOrderToggle and onSortRemove with the criterion index', () => {
+      // Arrange
+      container.innerHTML = component.render('Version', 'list', { sortCriteria: [...criteria] });
+      const onSortOrderToggle = vi.fn();
+      const onSortRemove = vi.fn();
+      component.attachListeners(container, vi.fn(), vi.fn(), { onSortOrderToggle, onSortRemove });
+
+      // Act
+      container.querySelectorAll<HTMLElement>('.sort-order-btn')[0].click();
+      container.querySelector<HTMLElement>('.sort-remove-btn')!.click();
+
+      // Assert
+      expect(onSortOrderToggle).toHaveBeenCalledWith(0);
+      expect(onSortRemove).toHaveBeenCalledWith(1);
+    });
+
+    it('should not offer removing the primary criterion', () => {
+      // Arrange & Act
+      container.innerHTML = component.render('Version', 'list', {
+        sortCriteria: [criteria[0]],
+      });
+
+      // Assert
+      expect(container.querySelector('.sort-remove-btn')).toBeNull();
+    });
+  });
+
+  describe('trash toggle', () => {
+    it('should not render the trash toggle without trash state', () => {
+      // Arrange & Act
+      const html = component.render('Title', 'list');
+
+      // Assert
+      expect(html).not.toContain('trashToggle');
+    });
+
+    it('should render the trashed document count', () => {
+      // Arrange & Act
+      container.innerHTML = component.render('Title', 'list', {
+        trash: { visible: false, count: 3 },
+      });
+
+      // Assert
+      const toggle = container.querySelector('#trashToggle');
+      expect(toggle?.querySelector('.trash-count')?.textContent).toBe('3');
+      expect(toggle?.getAttribute('aria-pressed')).toBe('false');
+    });
+
+    it('should mark the toggle as pressed while the trash is visible', () => {
+      // Arrange & Act
+      container.innerHTML = component.render('Title', 'list', {
+        trash: { visible: true, count: 0 },
+      });
+
+      // Assert
+      const toggle = container.querySelector('#trashToggle');
+      expect(toggle?.classList.contains('active')).toBe(true);
+      expect(toggle?.getAttribute('aria-pressed')).toBe('true');
+    });
+
+    it('should call onTrashToggle when clicked', () => {
+      // Arrange
+      container.innerHTML = component.render('Title', 'list', {
+        trash: { visible: false, count: 1 },
+      });
+      const onTrashToggle = vi.fn();
+      component.attachListeners(container, vi.fn(), vi.fn(), { onTrashToggle });
+
+      // Act
+      (container.querySelector('#trashToggle') as HTMLElement).click();
+
+      // Assert
+      expect(onTrashToggle).toHaveBeenCalledTimes(1);
+    });
+
+    it('should remove the trash toggle listener on cleanup', () => {
+      // Arrange
+      container.innerHTML = component.render('Title', 'list', {
+        trash: { visible: false, count: 1 },
+      });
+      const onTrashToggle = vi.fn();
+      const cleanup = component.attachListeners(container, vi.fn(), vi.fn(), { onTrashToggle });
+
+      // Act
+      cleanup();
+      (container.querySelector('#trashToggle') as HTMLElement).click();
+
+      // Assert
+      expect(onTrashToggle).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('search input', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should render an empty search box by default', () => {
+      // Arrange & Act
+      container.innerHTML = component.render('Title', 'list');
+
+      // Assert
+      const input = container.querySelector('#searchInput') as HTMLInputElement;
+      expect(input.type).toBe('search');
+      expect(input.value).toBe('');
+    });
+
+    it('should render the current query escaped', () => {
+      // Arrange & Act
+      const html = component.render('Title', 'list', { searchQuery: '"><script>' });
+
+      // Assert
+      expect(html).not.toContain('"><script>');
+      expect(html).toContain('&quot;&gt;&lt;script&gt;');
+    });
+
+    it('should not flag the search box without an error', () => {
+      // Arrange & Act
+      container.innerHTML = component.render('Title', 'list', { searchQuery: 'report' });
+
+      // Assert
+      expect(container.querySelector('#searchError')).toBeNull();
+      expect(container.querySelector('#searchInput')?.hasAttribute('aria-invalid')).toBe(false);
+    });
+
+    it('should show query errors inline and mark the input invalid', () => {
+      // Arrange & Act
+      container.innerHTML = component.render('Title', 'list', {
+        searchQuery: 'owner:<ada>',
+        searchError: 'Unknown filter "<owner>:"',
+      });
+
+      // Assert
+      const input = container.querySelector('#searchInput');
+      expect(input?.getAttribute('aria-invalid')).toBe('true');
+      expect(input?.getAttribute('aria-describedby')).toBe('searchError');
+      expect(container.querySelector('#searchError')?.textContent).toBe(
+        'Unknown filter "<owner>:"'
+      );
+    });
+
+    it('should call onSearch once typing pauses', () => {
+      // Arrange
+      container.innerHTML = component.render('Title', 'list');
+      const onSearch = vi.fn();
+      component.attachListeners(container, vi.fn(), vi.fn(), { onSearch });
+      const input = container.querySelector('#searchInput') as HTMLInputElement;
+
+      // Act
+      input.value = 'rep';
+      input.dispatchEvent(new Event('input'));
+      input.value = 'report';
+      input.dispatchEvent(new Event('input'));
+      vi.advanceTimersByTime(250);
+
+      // Assert
+      expect(onSearch).toHaveBeenCalledTimes(1);
+      expect(onSearch).toHaveBeenCalledWith('report');
+    });
+
+    it('should drop a pending search on cleanup', () => {
+      // Arrange
+      container.innerHTML = component.render('Title', 'list');
+      const onSearch = vi.fn();
+      const cleanup = component.attachListeners(container, vi.fn(), vi.fn(), { onSearch });
+      const input = container.querySelector('#searchInput') as HTMLInputElement;
+      input.value = 'report';
+      input.dispatchEvent(new Event('input'));
+
+      // Act
+      cleanup();
+      vi.advanceTimersByTime(250);
+
+      // Assert
+      expect(onSearch).not.toHaveBeenCalled();
+    });
+
+    it('should dispatch text carried over from a previous render', () => {
+      // Arrange
+      container.innerHTML = component.render('Title', 'list', { searchQuery: 'rep' });
+      const input = container.querySelector('#searchInput') as HTMLInputElement;
+      input.value = 'report';
+      const onSearch = vi.fn();
+
+      // Act
+      component.attachListeners(container, vi.fn(), vi.fn(), { onSearch });
+      vi.advanceTimersByTime(250);
+
+      // Assert
+      expect(onSearch).toHaveBeenCalledWith('report');
+    });
+
+    it('should not dispatch when the value matches the rendered query', () => {
+      // Arrange
+      container.innerHTML = component.render('Title', 'list', { searchQuery: 'report' });
+      const onSearch = vi.fn();
+
+      // Act
+      component.attachListeners(container, vi.fn(), vi.fn(), { onSearch });
+      vi.advanceTimersByTime(250);
+
+      // Assert
+      expect(onSearch).not.toHaveBeenCalled();
+    });
+  });
+
   describe('attachListeners', () => {
     it('should attach sort dropdown listener', () => {
       // Arrange
@@ -1,17 +1,76 @@
-import { SortField, ViewMode } from '../../models/document';
+import { SortCriterion, SortField, ViewMode } from '../../models/document';
+import { escapeHtml } from '../../utils/htmlUtils';
+import { debounce } from '../../utils/debounceUtils';
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+export const SORT_OPTIONS: { field: SortField; label: string }[] = [
+  { field: 'Title', label: 'Name' },
+  { field: 'Version', label: 'Version' },
+  { field: 'CreatedAt', label: 'Date' },
+  { field: 'UpdatedAt', label: 'Last updated' },
+  { field: 'ContributorCount', label: 'Number of contributors' },
+  { field: 'AttachmentCount', label: 'Number of attachments' },
+];
+
+export interface TrashControlState {
+  visible: boolean;
+  count: number;
+}
+
+export interface ControlsOptions {
+  sortCriteria?: SortCriterion[];
+  trash?: TrashControlState;
+  searchQuery?: string;
+  searchError?: string;
+}
+
+export interface ControlsHandlers {
+  onSortAdd?: (field: SortField) => void;
+  onSortRemove?: (index: number) => void;
+  onSortOrderToggle?: (index: number) => void;
+  onTrashToggle?: () => void;
+  onSearch?: (query: string) => void;
+}
+
+export function getSortLabel(field: SortField): string {
+  return SORT_OPTIONS.find(option => option.field === field)?.label ?? field;
+}
 
 export class ControlsComponent {
-  render(sortField: SortField, viewMode: ViewMode): string {
+  render(sortField: SortField, viewMode: ViewMode, options: ControlsOptions = {}): string {
+    const { sortCriteria, trash, searchQuery = '', searchError } = options;
+
     return `
       <div class="controls" role="region" aria-labelledby="sortControlsHeading">
+        <div class="search-controls" role="search">
+          <label for="searchInput" class="visually-hidden">Search documents</label>
+          <input
+            type="search"
+            id="searchInput"
+            class="search-input"
+            placeholder="Search, or filter like version:>=2.0.0 has:attachments"
+            value="${escapeHtml(searchQuery)}"
+            aria-controls="documentContainer"
+            ${searchError ? 'aria-invalid="true" aria-describedby="searchError"' : ''}
+            autocomplete="off"
+          >
+          ${
+            searchError
+              ? `<p id="searchError" class="search-error" aria-live="polite">${escapeHtml(searchError)}</p>`
+              : ''
+          }
+        </div>
         <div class="sort-controls">
           <span id="sortControlsHeading" class="visually-hidden">Sorting controls</span>
           <label for="sortDropdown">Sort by:</label>
           <select class="sort-dropdown" id="sortDropdown" aria-label="Sort documents">
-            <option value="Title" ${sortField === 'Title' ? 'selected' : ''}>Name</option>
-            <option value="Version" ${sortField === 'Version' ? 'selected' : ''}>Version</option>
-            <option value="CreatedAt" ${sortField === 'CreatedAt' ? 'selected' : ''}>Date</option>
+            ${SORT_OPTIONS.map(
+              ({ field, label }) =>
+                `<option value="${field}" ${sortField === field ? 'selected' : ''}>${label}</option>`
+            ).join('')}
           </select>
+          ${sortCriteria && sortCriteria.length > 0 ? this.renderSortStack(sortCriteria) : ''}
         </div>
         <div class="view-controls">
           <button
@@ -46,16 +105,87 @@ export class ControlsComponent {
               <rect x="3" y="14" width="7" height="7"></rect>
             </svg>
           </button>
+          ${trash ? this.renderTrashToggle(trash) : ''}
         </div>
       </div>
     `;
   }
 
+  /**
+   * Renders the order toggle for the primary sort, one chip per tie-breaker and a "then by" picker
+   */
+  private renderSortStack(criteria: SortCriterion[]): string {
+    const [primary, ...tieBreakers] = criteria;
+    const available = SORT_OPTIONS.filter(
+      option => !criteria.some(criterion => criterion.field === option.field)
+    );
+
+    return `
+      ${this.renderOrderButton(primary, 0)}
+      ${tieBreakers
+        .map(
+          (criterion, i) => `
+        <span class="sort-criterion">
+          <span class="sort-criterion-label">then ${getSortLabel(criterion.field)}</span>
+          ${this.renderOrderButton(criterion, i + 1)}
+          <button
+            type="button"
+            class="sort-remove-btn"
+            data-sort-index="${i + 1}"
+            aria-label="Stop sorting by ${getSortLabel(criterion.field)}"
+          >×</button>
+        </span>
+      `
+        )
+        .join('')}
+      ${
+        available.length > 0
+          ? `
+        <select class="sort-dropdown then-by-dropdown" id="thenByDropdown" aria-label="Then sort by">
+          <option value="" selected>Then by…</option>
+          ${available.map(({ field, label }) => `<option value="${field}">${label}</option>`).join('')}
+        </select>
+      `
+          : ''
+      }
+    `;
+  }
+
+  private renderOrderButton(criterion: SortCriterion, index: number): string {
+    const direction = criterion.order === 'asc' ? 'ascending' : 'descending';
+
+    return `
+      <button
+        type="button"
+        class="sort-order-btn"
+        data-sort-index="${index}"
+        title="${getSortLabel(criterion.field)}: ${direction}"
+        aria-label="${getSortLabel(criterion.field)}, ${direction}. Reverse order"
+      >${criterion.order === 'asc' ? '↑' : '↓'}</button>
+    `;
+  }
+
+  private renderTrashToggle(trash: TrashControlState): string {
+    return `
+      <button
+        class="trash-toggle ${trash.visible ? 'active' : ''}"
+        id="trashToggle"
+        type="button"
+        aria-pressed="${trash.visible}"
+        aria-controls="documentContainer"
+      >
+        Trash <span class="trash-count">${trash.count}</span>
+      </button>
+    `;
+  }
+
   attachListeners(
     container: HTMLElement,
     onSort: (field: SortField) => void,
-    onViewModeChange: (mode: ViewMode) => void
+    onViewModeChange: (mode: ViewMode) => void,
+    handlers: ControlsHandlers = {}
   ): () => void {
+    const { onSortAdd, onSortRemove, onSortOrderToggle, onTrashToggle, onSearch } = handlers;
     const cleanupFunctions: (() => void)[] = [];
 
     // Sort dropdown listener
@@ -70,6 +200,39 @@ export class ControlsComponent {
       });
     }
 
+    // Sort stack listeners: order toggles and tie-breaker removal are delegated
+    const sortControls = container.querySelector('.sort-controls');
+    if (sortControls) {
+      const stackClickHandler = (event: Event) => {
+        const button = (event.target as HTMLElement).closest<HTMLElement>('[data-sort-index]');
+        if (!button) return;
+
+        const index = Number(button.dataset.sortIndex);
+        if (button.classList.contains('sort-order-btn')) {
+          onSortOrderToggle?.(index);
+        } else if (button.classList.contains('sort-remove-btn')) {
+          onSortRemove?.(index);
+        }
+      };
+      sortControls.addEventListener('click', stackClickHandler);
+      cleanupFunctions.push(() => {
+        sortControls.removeEventListener('click', stackClickHandler);
+      });
+    }
+
+    const thenByDropdown = container.querySelector('#thenByDropdown') as HTMLSelectElement;
+    if (thenByDropdown && onSortAdd) {
+      const thenByHandler = () => {
+        if (thenByDropdown.value) {
+          onSortAdd(thenByDropdown.value as SortField);
+        }
+      };
+      thenByDropdown.addEventListener('change', thenByHandler);
+      cleanupFunctions.push(() => {
+        thenByDropdown.removeEventListener('change', thenByHandler);
+      });
+    }
+
     // View mode buttons listeners
     const viewButtons = container.querySelectorAll('.view-btn');
     viewButtons.forEach(btn => {
@@ -83,6 +246,32 @@ export class ControlsComponent {
       });
     });
 
+    // Trash toggle listener
+    const trashToggle = container.querySelector('#trashToggle');
+    if (trashToggle && onTrashToggle) {
+      trashToggle.addEventListener('click', onTrashToggle);
+      cleanupFunctions.push(() => {
+        trashToggle.removeEventListener('click', onTrashToggle);
+      });
+    }
+
+    // Debounced search input listener
+    const searchInput = container.querySelector('#searchInput') as HTMLInputElement;
+    if (searchInput && onSearch) {
+      const debouncedSearch = debounce((query: string) => onSearch(query), SEARCH_DEBOUNCE_MS);
+      const inputHandler = () => debouncedSearch(searchInput.value);
+      searchInput.addEventListener('input', inputHandler);
+      cleanupFunctions.push(() => {
+        searchInput.removeEventListener('input', inputHandler);
+        debouncedSearch.cancel();
+      });
+
+      // Text typed before a re-render is carried over by the view; keep it on its way to the store
+      if (searchInput.value !== searchInput.defaultValue) {
+        debouncedSearch(searchInput.value);
+      }
+    }
+
     // Return cleanup function that removes all listeners
     return () => {
       cleanupFunctions.forEach(cleanup => cleanup());
@@ -0,0 +1,266 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DrawerComponent } from './drawerComponent';
+import type { Document } from '../../models/document';
+import type { ActivityEntry } from '../../models/activity';
+import type { Revision } from '../../models/revision';
+
+describe('DrawerComponent', () => {
+  let component: DrawerComponent;
+  let container: HTMLElement;
+
+  const doc: Document = {
+    ID: 'doc-42',
+    Title: 'Quarterly <Report>',
+    Contributors: [
+      { ID: 'user-1', Name: 'Ada Lovelace' },
+      { ID: 'user-2', Name: 'Grace Hopper' },
+    ],
+    Version: '2.1.0',
+    Attachments: ['summary.pdf'],
+    CreatedAt: new Date('2024-01-15T10:30:00Z'),
+    UpdatedAt: new Date('2024-02-01T08:00:00Z'),
+  };
+
+  beforeEach(() => {
+    component = new DrawerComponent();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    document.body.removeChild(container);
+  });
+
+  describe('render', () => {
+    it('should render the escaped title and ID', () => {
+      // Arrange & Act
+      container.innerHTML = component.render(doc, []);
+
+      // Assert
+      expect(container.querySelector('#drawerTitle')?.textContent).toBe('Quarterly <Report>');
+      expect(container.querySelector('.drawer-fields code')?.textContent).toBe('doc-42');
+      expect(container.querySelector('#detailDrawer')?.getAttribute('data-document-id')).toBe(
+        'doc-42'
+      );
+    });
+
+    it('should render full timestamps as time elements', () => {
+      // Arrange & Act
+      container.innerHTML = component.render(doc, []);
+
+      // Assert
+      const times = Array.from(container.querySelectorAll('.drawer-fields time')).map(time =>
+        time.getAttribute('datetime')
+      );
+      expect(times).toEqual(['2024-01-15T10:30:00.000Z', '2024-02-01T08:00:00.000Z']);
+    });
+
+    it('should show the trash date for trashed documents', () => {
+      // Arrange & Act
+      container.innerHTML = component.render(
+        { ...doc, DeletedAt: new Date('2024-03-01T00:00:00Z') },
+        []
+      );
+
+      // Assert
+      expect(container.innerHTML).toContain('Moved to trash');
+      expect(container.querySelectorAll('.drawer-fields time')).toHaveLength(3);
+    });
+
+    it('should render unknown for invalid dates instead of throwing', () => {
+      // Arrange & Act
+      container.innerHTML = component.render({ ...doc, UpdatedAt: new Date('invalid') }, []);
+
+      // Assert
+      expect(container.querySelector('.drawer-fields')?.textContent).toContain('Unknown');
+    });
+
+    it('should list every contributor with their ID', () => {
+      // Arrange & Act
+      container.innerHTML = component.render(doc, []);
+
+      // Assert
+      const items = container.querySelectorAll('[aria-labelledby="drawerContributors"] li');
+      expect(items).toHaveLength(2);
+      expect(items[1].querySelector('.contributor-name')?.textContent).toBe('Grace Hopper');
+      expect(items[1].querySelector('.drawer-id')?.textContent).toBe('user-2');
+    });
+
+    it('should render empty states', () => {
+      // Arrange & Act
+      container.innerHTML = component.render({ ...doc, Contributors: [], Attachments: [] }, []);
+
+      // Assert
+      const empty = Array.from(container.querySelectorAll('.drawer-empty')).map(
+        element => element.textContent
+      );
+      expect(empty).toEqual([
+        'No contributors',
+        'No attachments',
+        'No activity since this page was opened',
+        'No saved revisions yet',
+      ]);
+    });
+
+    it('should render activity in the given order with its author', () => {
+      // Arrange
+      const activity: ActivityEntry[] = [
+        {
+          documentId: 'doc-42',
+          type: 'received',
+          timestamp: new Date('2024-02-02T00:00:00Z'),
+          userName: 'Ada <script>',
+        },
+        { documentId: 'doc-42', type: 'updated', timestamp: new Date('2024-02-01T00:00:00Z') },
+      ];
+
+      // Act
+      container.innerHTML = component.render(doc, activity);
+
+      // Assert
+      const labels = Array.from(container.querySelectorAll('.activity-label')).map(label =>
+        label.textContent?.trim()
+      );
+      expect(labels).toEqual(['Received live update by Ada <script>', 'Edited']);
+      expect(container.querySelector('.drawer-activity script')).toBeNull();
+    });
+  });
+
+  describe('history', () => {
+    const revisions: Revision[] = [
+      {
+        id: 'rev-3',
+        documentId: 'doc-42',
+        snapshot: { ...doc, Title: 'Final', Attachments: ['summary.pdf', 'notes.txt'] },
+        savedAt: new Date('2024-02-03T00:00:00Z'),
+        author: 'Grace Hopper',
+      },
+      {
+        id: 'rev-2',
+        documentId: 'doc-42',
+        snapshot: { ...doc, Title: 'Draft', Contributors: [doc.Contributors[0]] },
+        savedAt: new Date('2024-02-02T00:00:00Z'),
+      },
+      {
+        id: 'rev-1',
+        documentId: 'doc-42',
+        snapshot: { ...doc, Title: 'Draft', Version: '1.0.0' },
+        savedAt: new Date('2024-02-01T00:00:00Z'),
+      },
+    ];
+
+    it('should render an empty state without revisions', () => {
+      // Arrange & Act
+      container.innerHTML = component.render(doc, []);
+
+      // Assert
+      expect(container.querySelector('.drawer-history')).toBeNull();
+      expect(container.innerHTML).toContain('No saved revisions yet');
+    });
+
+    it('should render every revision with version and author', () => {
+      // Arrange & Act
+      container.innerHTML = component.render(doc, [], revisions);
+
+      // Assert
+      const items = container.querySelectorAll('.revision');
+      expect(items).toHaveLength(3);
+      expect(items[0].querySelector('.revision-author')?.textContent).toBe('by Grace Hopper');
+      expect(items[1].querySelector('.revision-author')?.textContent).toBe('by you');
+      expect(items[2].querySelector('.revision-version')?.textContent).toBe('Version 1.0.0');
+    });
+
+    it('should diff each revision against the one saved before it', () => {
+      // Arrange & Act
+      container.innerHTML = component.render(doc, [], revisions);
+
+      // Assert
+      const items = container.querySelectorAll('.revision');
+      const newest = items[0].querySelector('.revision-changes')?.textContent ?? '';
+      expect(newest).toContain('Title: Draft → Final');
+      expect(newest).toContain('+ Grace Hopper');
+      expect(newest).toContain('+ notes.txt');
+      expect(items[1].querySelector('.revision-changes')?.textContent).toContain('− Grace Hopper');
+      expect(items[2].querySelector('.revision-summary')?.textContent).toBe(
+        'Earliest saved revision'
+      );
+    });
+
+    it('should offer restoring every revision except the current one', () => {
+      // Arrange & Act
+      container.innerHTML = component.render(doc, [], revisions);
+
+      // Assert
+      const buttons = Array.from(container.querySelectorAll<HTMLElement>('[data-revision-id]')).map(
+        button => button.dataset.revisionId
+      );
+      expect(buttons).toEqual(['rev-2', 'rev-1']);
+      expect(container.querySelector('.revision .revision-current')).not.toBeNull();
+    });
+
+    it('should call onRestoreRevision with the document and revision', () => {
+      // Arrange
+      container.innerHTML = component.render(doc, [], revisions);
+      const onRestoreRevision = vi.fn();
+      component.attachListeners(container, { onClose: vi.fn(), onRestoreRevision });
+
+      // Act
+      container.querySelector<HTMLElement>('[data-revision-id="rev-1"]')!.click();
+
+      // Assert
+      expect(onRestoreRevision).toHaveBeenCalledWith('doc-42', 'rev-1');
+    });
+  });
+
+  describe('attachListeners', () => {
+    it('should close from the close button', () => {
+      // Arrange
+      container.innerHTML = component.render(doc, []);
+      const onClose = vi.fn();
+      component.attachListeners(container, { onClose });
+
+      // Act
+      container.querySelector<HTMLElement>('#drawerClose')!.click();
+
+      // Assert
+      expect(onClose).toHaveBeenCalledTimes(1);
+    });
+
+    it('should close on Escape', () => {
+      // Arrange
+      container.innerHTML = component.render(doc, []);
+      const onClose = vi.fn();
+      component.attachListeners(container, { onClose });
+
+      // Act
+      container
+        .querySelector('#drawerTitle')!
+        .dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+
+      // Assert
+      expect(onClose).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop listening after cleanup', () => {
+      // Arrange
+      container.innerHTML = component.render(doc, []);
+      const onClose = vi.fn();
+      const cleanup = component.attachListeners(container, { onClose });
+
+      // Act
+      cleanup();
+      container.querySelector<HTMLElement>('#drawerClose')!.click();
+
+      // Assert
+      expect(onClose).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing when no drawer is rendered', () => {
+      // Arrange & Act
+      const cleanup = component.attachListeners(container, { onClose: vi.fn() });
+
+      // Assert
+      expect(() => cleanup()).not.toThrow();
+    });
+  });
+});
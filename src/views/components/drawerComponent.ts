@@ -0,0 +1,198 @@
+import type { Document } from '../../models/document';
+import type { ActivityEntry, ActivityType } from '../../models/activity';
+import type { Revision, RevisionChange } from '../../models/revision';
+import { escapeHtml } from '../../utils/htmlUtils';
+import { isTrashed } from '../../utils/documentUtils';
+import { diffDocuments } from '../../utils/revisionUtils';
+
+const ACTIVITY_LABELS: Record<ActivityType, string> = {
+  created: 'Created',
+  updated: 'Edited',
+  reverted: 'Restored an earlier revision',
+  trashed: 'Moved to trash',
+  restored: 'Restored',
+  received: 'Received live update',
+  joined: 'Joined as contributor',
+};
+
+export interface DrawerHandlers {
+  onClose: () => void;
+  onRestoreRevision?: (documentId: string, revisionId: string) => void;
+}
+
+/**
+ * Side panel showing every field of a single document plus its recent activity and history
+ */
+export class DrawerComponent {
+  /**
+   * @param revisions - Saved revisions, newest first
+   */
+  render(doc: Document, activity: ActivityEntry[], revisions: Revision[] = []): string {
+    return `
+      <aside
+        id="detailDrawer"
+        class="detail-drawer"
+        role="dialog"
+        aria-labelledby="drawerTitle"
+        data-document-id="${escapeHtml(String(doc.ID))}"
+      >
+        <div class="drawer-header">
+          <h2 id="drawerTitle" tabindex="-1">${escapeHtml(doc.Title)}</h2>
+          <button type="button" id="drawerClose" class="modal-close" aria-label="Close details">&times;</button>
+        </div>
+
+        <dl class="drawer-fields">
+          <dt>ID</dt>
+          <dd><code>${escapeHtml(String(doc.ID))}</code></dd>
+          <dt>Version</dt>
+          <dd>${escapeHtml(String(doc.Version))}</dd>
+          <dt>Created</dt>
+          <dd>${this.renderTimestamp(doc.CreatedAt)}</dd>
+          <dt>Last updated</dt>
+          <dd>${this.renderTimestamp(doc.UpdatedAt)}</dd>
+          ${isTrashed(doc) ? `<dt>Moved to trash</dt><dd>${this.renderTimestamp(doc.DeletedAt!)}</dd>` : ''}
+        </dl>
+
+        <section class="drawer-section" aria-labelledby="drawerContributors">
+          <h3 id="drawerContributors">Contributors (${doc.Contributors.length})</h3>
+          ${
+            doc.Contributors.length > 0
+              ? `<ul class="drawer-list">${doc.Contributors.map(
+                  c => `
+                <li>
+                  <span class="contributor-name">${escapeHtml(c.Name)}</span>
+                  <code class="drawer-id">${escapeHtml(String(c.ID))}</code>
+                </li>
+              `
+                ).join('')}</ul>`
+              : '<p class="drawer-empty">No contributors</p>'
+          }
+        </section>
+
+        <section class="drawer-section" aria-labelledby="drawerAttachments">
+          <h3 id="drawerAttachments">Attachments (${doc.Attachments.length})</h3>
+          ${
+            doc.Attachments.length > 0
+              ? `<ul class="drawer-list">${doc.Attachments.map(a => `<li>${escapeHtml(a)}</li>`).join('')}</ul>`
+              : '<p class="drawer-empty">No attachments</p>'
+          }
+        </section>
+
+        <section class="drawer-section" aria-labelledby="drawerActivity">
+          <h3 id="drawerActivity">Recent activity</h3>
+          ${
+            activity.length > 0
+              ? `<ol class="drawer-list drawer-activity">${activity.map(entry => this.renderActivity(entry)).join('')}</ol>`
+              : '<p class="drawer-empty">No activity since this page was opened</p>'
+          }
+        </section>
+
+        <section class="drawer-section" aria-labelledby="drawerHistory">
+          <h3 id="drawerHistory">History</h3>
+          ${
+            revisions.length > 0
+              ? `<ol class="drawer-list drawer-history">${revisions
+                  .map((revision, i) => this.renderRevision(revision, revisions[i + 1], i === 0))
+                  .join('')}</ol>`
+              : '<p class="drawer-empty">No saved revisions yet</p>'
+          }
+        </section>
+      </aside>
+    `;
+  }
+
+  private renderActivity(entry: ActivityEntry): string {
+    return `
+      <li class="activity-${entry.type}">
+        <span class="activity-label">
+          ${ACTIVITY_LABELS[entry.type]}${entry.userName ? ` by ${escapeHtml(entry.userName)}` : ''}
+        </span>
+        ${this.renderTimestamp(entry.timestamp)}
+      </li>
+    `;
+  }
+
+  /**
+   * Renders a revision with its changes relative to the revision saved before it
+   */
+  private renderRevision(
+    revision: Revision,
+    previous: Revision | undefined,
+    current: boolean
+  ): string {
+    const changes = previous ? diffDocuments(previous.snapshot, revision.snapshot) : [];
+
+    return `
+      <li class="revision">
+        <div class="revision-header">
+          <span class="revision-version">Version ${escapeHtml(String(revision.snapshot.Version))}</span>
+          <span class="revision-author">by ${escapeHtml(revision.author ?? 'you')}</span>
+          ${this.renderTimestamp(revision.savedAt)}
+        </div>
+        ${
+          !previous
+            ? '<p class="revision-summary">Earliest saved revision</p>'
+            : changes.length > 0
+              ? `<ul class="revision-changes">${changes.map(change => this.renderChange(change)).join('')}</ul>`
+              : '<p class="revision-summary">No changes to title, contributors or attachments</p>'
+        }
+        ${
+          current
+            ? '<span class="revision-current">Current</span>'
+            : `<button type="button" class="btn-secondary revision-restore" data-revision-id="${escapeHtml(revision.id)}">Restore this revision</button>`
+        }
+      </li>
+    `;
+  }
+
+  private renderChange(change: RevisionChange): string {
+    if (change.field === 'Title') {
+      return `<li>Title: <del>${escapeHtml(change.from)}</del> → <ins>${escapeHtml(change.to)}</ins></li>`;
+    }
+
+    return `
+      <li>
+        ${change.field}:
+        ${change.added.map(value => `<ins>+ ${escapeHtml(value)}</ins>`).join(' ')}
+        ${change.removed.map(value => `<del>− ${escapeHtml(value)}</del>`).join(' ')}
+      </li>
+    `;
+  }
+
+  private renderTimestamp(date: Date): string {
+    if (Number.isNaN(date.getTime())) {
+      return '<span class="drawer-empty">Unknown</span>';
+    }
+    return `<time datetime="${date.toISOString()}">${escapeHtml(date.toLocaleString())}</time>`;
+  }
+
+  /**
+   * Closes the drawer from its close button or the Escape key, and restores revisions
+   */
+  attachListeners(container: HTMLElement, handlers: DrawerHandlers): () => void {
+    const drawer = container.querySelector<HTMLElement>('#detailDrawer');
+    if (!drawer) return () => {};
+
+    const clickHandler = (event: Event) => {
+      const target = event.target as HTMLElement;
+      const restoreButton = target.closest<HTMLElement>('[data-revision-id]');
+      if (target.closest('#drawerClose')) {
+        handlers.onClose();
+      } else if (restoreButton && drawer.dataset.documentId) {
+        handlers.onRestoreRevision?.(drawer.dataset.documentId, restoreButton.dataset.revisionId!);
+      }
+    };
+    const keydownHandler = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        handlers.onClose();
+      }
+    };
+
+    drawer.addEventListener('click', clickHandler);
+    drawer.addEventListener('keydown', keydownHandler);
+    return () => {
+      drawer.removeEventListener('click', clickHandler);
+      drawer.removeEventListener('keydown', keydownHandler);
+    };
+  }
+}
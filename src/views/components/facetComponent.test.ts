@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FacetComponent, FacetPanelState } from './facetComponent';
+
+describe('FacetComponent', () => {
+  let component: FacetComponent;
+  let container: HTMLElement;
+
+  const state: FacetPanelState = {
+    counts: {
+      contributor: [
+        { value: 'Ada Lovelace', label: 'Ada Lovelace', count: 2 },
+        { value: 'Grace', label: 'Grace', count: 1 },
+      ],
+      extension: [{ value: 'pdf', label: '.pdf', count: 3 }],
+      month: [],
+    },
+    selection: { contributor: ['Grace'], extension: [], month: [] },
+    open: true,
+  };
+
+  beforeEach(() => {
+    component = new FacetComponent();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    document.body.removeChild(container);
+  });
+
+  describe('render', () => {
+    it('should render a checkbox with a count for every facet value', () => {
+      // Arrange & Act
+      container.innerHTML = component.render(state);
+
+      // Assert
+      const options = container.querySelectorAll('.facet-option');
+      expect(options).toHaveLength(3);
+      expect(options[0].querySelector('.facet-label')?.textContent).toBe('Ada Lovelace');
+      expect(options[0].querySelector('.facet-count')?.textContent).toBe('2');
+    });
+
+    it('should check selected values', () => {
+      // Arrange & Act
+      container.innerHTML = component.render(state);
+
+      // Assert
+      const checked = container.querySelectorAll<HTMLInputElement>('input:checked');
+      expect(checked).toHaveLength(1);
+      expect(checked[0].value).toBe('Grace');
+      expect(checked[0].dataset.group).toBe('contributor');
+    });
+
+    it('should show a placeholder for empty groups', () => {
+      // Arrange & Act
+      container.innerHTML = component.render(state);
+
+      // Assert
+      const monthGroup = container.querySelector('[data-group="month"]');
+      expect(monthGroup?.querySelector('.facet-empty')?.textContent).toBe('None');
+    });
+
+    it('should derive stable IDs from facet values', () => {
+      // Arrange & Act
+      container.innerHTML = component.render(state);
+
+      // Assert
+      expect(container.querySelector('[id="facet-contributor-Ada%20Lovelace"]')).not.toBeNull();
+    });
+
+    it('should escape facet values and labels', () => {
+      // Arrange & Act
+      const html = component.render({
+        ...state,
+        counts: {
+          ...state.counts,
+          contributor: [{ value: '"><img>', label: '<img>', count: 1 }],
+        },
+      });
+
+      // Assert
+      expect(html).not.toContain('<img>');
+    });
+
+    it('should show the number of selected facets and a clear button', () => {
+      // Arrange & Act
+      container.innerHTML = component.render(state);
+
+      // Assert
+      expect(container.querySelector('.facet-selected-count')?.textContent).toBe('1');
+      expect(container.querySelector('#facetClear')).not.toBeNull();
+    });
+
+    it('should not offer clearing without a selection', () => {
+      // Arrange & Act
+      container.innerHTML = component.render({
+        ...state,
+        selection: { contributor: [], extension: [], month: [] },
+      });
+
+      // Assert
+      expect(container.querySelector('#facetClear')).toBeNull();
+    });
+
+    it('should hide the body when collapsed', () => {
+      // Arrange & Act
+      container.innerHTML = component.render({ ...state, open: false });
+
+      // Assert
+      expect(container.querySelector('#facetToggle')?.getAttribute('aria-expanded')).toBe('false');
+      expect(container.querySelector('#facetPanelBody')?.hasAttribute('hidden')).toBe(true);
+    });
+  });
+
+  describe('attachListeners', () => {
+    it('should report toggled facets with their group', () => {
+      // Arrange
+      container.innerHTML = component.render(state);
+      const onToggleFacet = vi.fn();
+      component.attachListeners(container, { onToggleFacet });
+      const checkbox = container.querySelector<HTMLInputElement>('input[value="pdf"]')!;
+
+      // Act
+      checkbox.click();
+
+      // Assert
+      expect(onToggleFacet).toHaveBeenCalledWith('extension', 'pdf');
+    });
+
+    it('should call onTogglePanel and onClear from the header buttons', () => {
+      // Arrange
+      container.innerHTML = component.render(state);
+      const onTogglePanel = vi.fn();
+      const onClear = vi.fn();
+      component.attachListeners(container, { onTogglePanel, onClear });
+
+      // Act
+      (container.querySelector('#facetToggle') as HTMLElement).click();
+      (container.querySelector('#facetClear') as HTMLElement).click();
+
+      // Assert
+      expect(onTogglePanel).toHaveBeenCalledTimes(1);
+      expect(onClear).toHaveBeenCalledTimes(1);
+    });
+
+    it('should remove listeners on cleanup', () => {
+      // Arrange
+      container.innerHTML = component.render(state);
+      const onToggleFacet = vi.fn();
+      const cleanup = component.attachListeners(container, { onToggleFacet });
+
+      // Act
+      cleanup();
+      container.querySelector<HTMLInputElement>('input[value="pdf"]')!.click();
+
+      // Assert
+      expect(onToggleFacet).not.toHaveBeenCalled();
+    });
+
+    it('should handle a missing panel gracefully', () => {
+      // Arrange & Act & Assert
+      expect(() => component.attachListeners(container, {})()).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import type { FacetCounts, FacetGroup, FacetOption, FacetSelection } from '../../models/facet';
+import { escapeHtml } from '../../utils/htmlUtils';
+import { FACET_GROUPS } from '../../utils/facetUtils';
+
+const GROUP_LABELS: Record<FacetGroup, string> = {
+  contributor: 'Contributors',
+  extension: 'Attachment types',
+  month: 'Created',
+};
+
+export interface FacetPanelState {
+  counts: FacetCounts;
+  selection: FacetSelection;
+  open: boolean;
+}
+
+export interface FacetHandlers {
+  onToggleFacet?: (group: FacetGroup, value: string) => void;
+  onClear?: () => void;
+  onTogglePanel?: () => void;
+}
+
+/**
+ * Renders the collapsible facet sidebar with a checkbox and document count per facet value
+ */
+export class FacetComponent {
+  render(state: FacetPanelState): string {
+    const { counts, selection, open } = state;
+    const selectedCount = FACET_GROUPS.reduce((total, group) => total + selection[group].length, 0);
+
+    return `
+      <aside class="facet-panel ${open ? 'open' : ''}" id="facetPanel" aria-label="Filters">
+        <div class="facet-header">
+          <button
+            type="button"
+            id="facetToggle"
+            class="facet-toggle"
+            aria-expanded="${open}"
+            aria-controls="facetPanelBody"
+          >
+            Filters
+            ${selectedCount > 0 ? `<span class="facet-selected-count">${selectedCount}</span>` : ''}
+          </button>
+          ${
+            selectedCount > 0
+              ? '<button type="button" id="facetClear" class="facet-clear">Clear</button>'
+              : ''
+          }
+        </div>
+        <div id="facetPanelBody" class="facet-body" ${open ? '' : 'hidden'}>
+          ${FACET_GROUPS.map(group => this.renderGroup(group, counts[group], selection[group])).join('')}
+        </div>
+      </aside>
+    `;
+  }
+
+  private renderGroup(group: FacetGroup, options: FacetOption[], selected: string[]): string {
+    return `
+      <fieldset class="facet-group" data-group="${group}">
+        <legend>${GROUP_LABELS[group]}</legend>
+        ${
+          options.length > 0
+            ? options.map(option => this.renderOption(group, option, selected)).join('')
+            : '<p class="facet-empty">None</p>'
+        }
+      </fieldset>
+    `;
+  }
+
+  private renderOption(group: FacetGroup, option: FacetOption, selected: string[]): string {
+    const id = escapeHtml(this.getOptionId(group, option.value));
+
+    return `
+      <label class="facet-option" for="${id}">
+        <input
+          type="checkbox"
+          id="${id}"
+          data-group="${group}"
+          value="${escapeHtml(option.value)}"
+          ${selected.includes(option.value) ? 'checked' : ''}
+        >
+        <span class="facet-label">${escapeHtml(option.label)}</span>
+        <span class="facet-count">${option.count}</span>
+      </label>
+    `;
+  }
+
+  /**
+   * Derives a stable ID from the facet value so focus can be restored after re-renders
+   */
+  private getOptionId(group: FacetGroup, value: string): string {
+    return `facet-${group}-${encodeURIComponent(value)}`;
+  }
+
+  attachListeners(container: HTMLElement, handlers: FacetHandlers): () => void {
+    const panel = container.querySelector<HTMLElement>('#facetPanel');
+    if (!panel) return () => {};
+
+    const changeHandler = (event: Event) => {
+      const input = event.target as HTMLInputElement;
+      const group = input.dataset.group as FacetGroup | undefined;
+      if (group) {
+        handlers.onToggleFacet?.(group, input.value);
+      }
+    };
+
+    const clickHandler = (event: Event) => {
+      const button = (event.target as HTMLElement).closest('button');
+      if (button?.id === 'facetToggle') {
+        handlers.onTogglePanel?.();
+      } else if (button?.id === 'facetClear') {
+        handlers.onClear?.();
+      }
+    };
+
+    panel.addEventListener('change', changeHandler);
+    panel.addEventListener('click', clickHandler);
+    return () => {
+      panel.removeEventListener('change', changeHandler);
+      panel.removeEventListener('click', clickHandler);
+    };
+  }
+}
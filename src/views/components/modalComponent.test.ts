@@ -314,6 +314,83 @@ describe('ModalComponent', () => {
     });
   });
 
+  describe('editing existing document', () => {
+    const existingDocument: Document = {
+      ID: 'doc-42',
+      Title: 'Quarterly Reprot',
+      Contributors: [{ ID: 'user-1', Name: 'Alice' }],
+      Version: '2.1.0',
+      Attachments: ['summary.pdf'],
+      CreatedAt: new Date('2024-01-15T10:30:00Z'),
+      UpdatedAt: new Date('2024-01-15T10:30:00Z'),
+    };
+
+    it('should render edit title and save button', () => {
+      // Arrange & Act
+      const html = component.render(existingDocument);
+
+      // Assert
+      expect(html).toContain('Edit Document');
+      expect(html).toContain('Save Changes');
+      expect(html).not.toContain('Create Document');
+    });
+
+    it('should pre-fill title, version, contributors and attachments', () => {
+      // Arrange & Act
+      component.show(container, vi.fn(), existingDocument);
+
+      // Assert
+      expect((container.querySelector('#docTitle') as HTMLInputElement).value).toBe(
+        'Quarterly Reprot'
+      );
+      expect((container.querySelector('#docVersion') as HTMLInputElement).value).toBe('2.1.0');
+      expect(container.querySelector('#contributorsList')?.textContent).toContain('Alice');
+      expect(container.querySelector('#attachmentsList')?.textContent).toContain('summary.pdf');
+    });
+
+    it('should pad numeric versions to match the version pattern', () => {
+      // Arrange & Act
+      component.show(container, vi.fn(), { ...existingDocument, Version: 3 });
+
+      // Assert
+      expect((container.querySelector('#docVersion') as HTMLInputElement).value).toBe('3.0.0');
+    });
+
+    it('should keep ID, CreatedAt and contributor IDs on submit', () => {
+      // Arrange
+      const onSubmit = vi.fn();
+      component.show(container, onSubmit, existingDocument);
+      const titleInput = container.querySelector('#docTitle') as HTMLInputElement;
+      titleInput.value = 'Quarterly Report';
+      const form = container.querySelector('#documentForm') as HTMLFormElement;
+
+      // Act
+      form.dispatchEvent(new Event('submit'));
+
+      // Assert
+      const doc = onSubmit.mock.calls[0][0] as Document;
+      expect(doc.ID).toBe('doc-42');
+      expect(doc.Title).toBe('Quarterly Report');
+      expect(doc.CreatedAt).toBe(existingDocument.CreatedAt);
+      expect(doc.Contributors).toEqual([{ ID: 'user-1', Name: 'Alice' }]);
+      expect(doc.Attachments).toEqual(['summary.pdf']);
+    });
+
+    it('should not mutate the original attachments when editing', () => {
+      // Arrange
+      component.show(container, vi.fn(), existingDocument);
+      const removeBtn = container.querySelector(
+        '.btn-remove[data-type="attachment"]'
+      ) as HTMLElement;
+
+      // Act
+      removeBtn.click();
+
+      // Assert
+      expect(existingDocument.Attachments).toEqual(['summary.pdf']);
+    });
+  });
+
   describe('contributors management', () => {
     it('should add contributor', () => {
       // Arrange
@@ -531,7 +608,7 @@ describe('ModalComponent', () => {
       expect(versionInput.value).toBe('2.5.1');
     });
 
-    it('should remove non-numeric characters from version', () => {
+    it('should accept prerelease and build metadata', () => {
       // Arrange
       const onSubmit = vi.fn();
       component.show(container, onSubmit);
@@ -539,14 +616,30 @@ describe('ModalComponent', () => {
       const versionInput = container.querySelector('#docVersion') as HTMLInputElement;
 
       // Act
-      versionInput.value = '2a.5b.1c';
+      versionInput.value = '2.5.1-rc.1+build.7';
       versionInput.dispatchEvent(new Event('input'));
 
       // Assert
-      expect(versionInput.value).toBe('2.5.1');
+      expect(versionInput.value).toBe('2.5.1-rc.1+build.7');
+      expect(versionInput.validationMessage).toBe('');
+    });
+
+    it('should remove characters that cannot appear in a version', () => {
+      // Arrange
+      const onSubmit = vi.fn();
+      component.show(container, onSubmit);
+
+      const versionInput = container.querySelector('#docVersion') as HTMLInputElement;
+
+      // Act
+      versionInput.value = '2.5.1 beta!';
+      versionInput.dispatchEvent(new Event('input'));
+
+      // Assert
+      expect(versionInput.value).toBe('2.5.1beta');
     });
 
-    it('should limit version to 3 parts', () => {
+    it('should flag versions that are not semantic versions', () => {
       // Arrange
       const onSubmit = vi.fn();
       component.show(container, onSubmit);
@@ -558,7 +651,39 @@ describe('ModalComponent', () => {
       versionInput.dispatchEvent(new Event('input'));
 
       // Assert
-      expect(versionInput.value).toBe('2.5.1');
+      expect(versionInput.validationMessage).toContain('Use a semantic version');
+    });
+
+    it('should not submit an invalid version', () => {
+      // Arrange
+      const onSubmit = vi.fn();
+      component.show(container, onSubmit);
+
+      const form = container.querySelector('#documentForm') as HTMLFormElement;
+      (container.querySelector('#docTitle') as HTMLInputElement).value = 'Test';
+      (container.querySelector('#docVersion') as HTMLInputElement).value = '1.0.0-';
+
+      // Act
+      form.dispatchEvent(new Event('submit'));
+
+      // Assert
+      expect(onSubmit).not.toHaveBeenCalled();
+    });
+
+    it('should keep the prerelease when editing a document', () => {
+      // Arrange & Act
+      component.show(container, vi.fn(), {
+        ID: 'doc-1',
+        Title: 'Draft',
+        Contributors: [],
+        Version: '2.1.0-rc.1',
+        Attachments: [],
+        CreatedAt: new Date(),
+        UpdatedAt: new Date(),
+      });
+
+      // Assert
+      expect((container.querySelector('#docVersion') as HTMLInputElement).value).toBe('2.1.0-rc.1');
     });
   });
 });
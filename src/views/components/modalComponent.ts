@@ -1,29 +1,36 @@
 import { Document } from '../../models/document';
 import { escapeHtml } from '../../utils/htmlUtils';
+import { formatVersion, isValidVersion, parseVersion } from '../../utils/versionUtils';
+
+const VERSION_HINT = 'Use a semantic version like 1.0.0, 1.0.0-beta.1 or 1.0.0+build.5';
 
 export class ModalComponent {
   private contributors: Array<{ id: string; name: string }> = [];
   private attachments: string[] = [];
 
-  render(): string {
+  render(doc?: Document): string {
+    const isEditing = Boolean(doc);
+    const title = doc ? escapeHtml(doc.Title) : '';
+    const version = doc ? this.toVersionInput(doc.Version) : '1.0.0';
+
     return `
       <div id="modal" class="modal hidden" role="dialog" aria-modal="true" aria-labelledby="Add New Document">
         <div class="modal-overlay" aria-hidden="true"></div>
         <div class="modal-content">
           <div class="modal-header">
-            <h2 id="Add New Document">Add New Document</h2>
+            <h2 id="Add New Document">${isEditing ? 'Edit Document' : 'Add New Document'}</h2>
             <button class="modal-close" id="modalClose">&times;</button>
           </div>
           
           <form id="documentForm" class="modal-form">
             <div class="form-group">
               <label for="docTitle">Document Title *</label>
-              <input type="text" id="docTitle" required placeholder="Enter document title">
+              <input type="text" id="docTitle" required placeholder="Enter document title" value="${title}">
             </div>
 
             <div class="form-group">
               <label for="docVersion">Version *</label>
-              <input type="text" id="docVersion" required placeholder="1.0.0" value="1.0.0" pattern="\\d+\\.\\d+\\.\\d+">
+              <input type="text" id="docVersion" required placeholder="1.0.0" value="${escapeHtml(version)}" title="${VERSION_HINT}">
             </div>
 
             <div class="form-group">
@@ -50,7 +57,7 @@ export class ModalComponent {
 
             <div class="modal-actions">
               <button type="button" class="btn-cancel" id="modalCancel">Cancel</button>
-              <button type="submit" class="btn-primary">Create Document</button>
+              <button type="submit" class="btn-primary">${isEditing ? 'Save Changes' : 'Create Document'}</button>
             </div>
           </form>
         </div>
@@ -90,11 +97,15 @@ export class ModalComponent {
       .join('');
   }
 
-  show(container: HTMLElement, onSubmit: (doc: Document) => void): void {
-    this.contributors = [];
-    this.attachments = [];
+  /**
+   * Opens the modal; when a document is given, the form is pre-filled and
+   * submitting keeps its ID and CreatedAt
+   */
+  show(container: HTMLElement, onSubmit: (doc: Document) => void, doc?: Document): void {
+    this.contributors = doc ? doc.Contributors.map(c => ({ id: c.ID, name: c.Name })) : [];
+    this.attachments = doc ? [...doc.Attachments] : [];
 
-    const modalHtml = this.render();
+    const modalHtml = this.render(doc);
     const existingModal = container.querySelector('#modal');
     if (existingModal) {
       existingModal.remove();
@@ -105,11 +116,20 @@ export class ModalComponent {
 
     if (modal) {
       modal.classList.remove('hidden');
-      this.attachListeners(modal as HTMLElement, onSubmit);
+      this.attachListeners(modal as HTMLElement, onSubmit, doc);
     }
   }
 
-  private attachListeners(modal: HTMLElement, onSubmit: (doc: Document) => void): void {
+  private toVersionInput(version: number | string): string {
+    const parsed = parseVersion(version);
+    return parsed ? formatVersion(parsed) : String(version);
+  }
+
+  private attachListeners(
+    modal: HTMLElement,
+    onSubmit: (doc: Document) => void,
+    original?: Document
+  ): void {
     const closeBtn = modal.querySelector('#modalClose');
     const cancelBtn = modal.querySelector('#modalCancel');
     const overlay = modal.querySelector('.modal-overlay');
@@ -130,15 +150,9 @@ export class ModalComponent {
     // Version input mask handler
     versionInput?.addEventListener('input', e => {
       const input = e.target as HTMLInputElement;
-      const value = input.value.replace(/[^\d.]/g, ''); // Only numbers and dots
-      const parts = value.split('.');
-
-      // Limit to 3 parts and format as x.x.x
-      if (parts.length > 3) {
-        input.value = parts.slice(0, 3).join('.');
-      } else {
-        input.value = value;
-      }
+      // Only characters that can appear in a semantic version
+      input.value = input.value.replace(/[^0-9A-Za-z.+-]/g, '');
+      input.setCustomValidity(!input.value || isValidVersion(input.value) ? '' : VERSION_HINT);
     });
 
     const contributorInput = modal.querySelector('#contributorInput') as HTMLInputElement;
@@ -187,14 +201,19 @@ export class ModalComponent {
       const version = versionInput.value.trim() || '1.0.0';
 
       if (!title) return;
+      if (!isValidVersion(version)) {
+        versionInput.setCustomValidity(VERSION_HINT);
+        versionInput.reportValidity();
+        return;
+      }
 
       const document: Document = {
-        ID: crypto.randomUUID(),
+        ID: original?.ID ?? crypto.randomUUID(),
         Title: title,
         Contributors: this.contributors.map(c => ({ ID: c.id, Name: c.name })),
         Version: version,
         Attachments: [...this.attachments],
-        CreatedAt: new Date(),
+        CreatedAt: original?.CreatedAt ?? new Date(),
         UpdatedAt: new Date(),
       };
 
@@ -233,6 +233,136 @@ describe('NotificationComponent', () => {
     });
   });
 
+  describe('actions', () => {
+    beforeEach(() => {
+      container.innerHTML = component.render();
+    });
+
+    it('should keep the action button hidden for plain notifications', () => {
+      // Arrange & Act
+      component.show(container, 'Plain message');
+
+      // Assert
+      const actionButton = container.querySelector('#notificationAction');
+      expect(actionButton?.classList.contains('hidden')).toBe(true);
+    });
+
+    it('should show the action button with its label', () => {
+      // Arrange & Act
+      component.show(container, 'Document deleted: A', { label: 'Undo', onClick: vi.fn() });
+
+      // Assert
+      const actionButton = container.querySelector('#notificationAction');
+      expect(actionButton?.classList.contains('hidden')).toBe(false);
+      expect(actionButton?.textContent).toBe('Undo');
+    });
+
+    it('should invoke the action and hide the notification on click', () => {
+      // Arrange
+      const onClick = vi.fn();
+      component.show(container, 'Document deleted: A', { label: 'Undo', onClick });
+
+      // Act
+      (container.querySelector('#notificationAction') as HTMLButtonElement).click();
+
+      // Assert
+      expect(onClick).toHaveBeenCalledTimes(1);
+      expect(container.querySelector('#notification')?.classList.contains('hidden')).toBe(true);
+    });
+
+    it('should keep action notifications visible for 6 seconds', () => {
+      // Arrange
+      component.show(container, 'Document deleted: A', { label: 'Undo', onClick: vi.fn() });
+      const notification = container.querySelector('#notification');
+
+      // Act
+      vi.advanceTimersByTime(5999);
+
+      // Assert
+      expect(notification?.classList.contains('show')).toBe(true);
+      vi.advanceTimersByTime(1);
+      expect(notification?.classList.contains('hidden')).toBe(true);
+    });
+
+    it('should keep the action when a plain notification arrives', () => {
+      // Arrange
+      const onClick = vi.fn();
+      component.show(container, 'Document deleted: A', { label: 'Undo', onClick });
+
+      // Act
+      component.show(container, 'New document added: B');
+      (container.querySelector('#notificationAction') as HTMLButtonElement).click();
+
+      // Assert
+      expect(onClick).toHaveBeenCalledTimes(1);
+    });
+
+    it('should show the latest waiting plain notification once the action toast expires', () => {
+      // Arrange
+      component.show(container, 'Document deleted: A', { label: 'Undo', onClick: vi.fn() });
+      component.show(container, 'New document added: B');
+      component.show(container, 'New document added: C');
+
+      // Act
+      vi.advanceTimersByTime(6000);
+
+      // Assert
+      const notification = container.querySelector('#notification');
+      expect(notification?.classList.contains('show')).toBe(true);
+      expect(container.querySelector('#notificationText')?.textContent).toBe(
+        'New document added: C'
+      );
+      expect(container.querySelector('#notificationAction')?.classList.contains('hidden')).toBe(
+        true
+      );
+      vi.advanceTimersByTime(4000);
+      expect(notification?.classList.contains('hidden')).toBe(true);
+    });
+
+    it('should show the waiting notification straight after the action is used', () => {
+      // Arrange
+      component.show(container, 'Document deleted: A', { label: 'Undo', onClick: vi.fn() });
+      component.show(container, 'New document added: B');
+
+      // Act
+      (container.querySelector('#notificationAction') as HTMLButtonElement).click();
+
+      // Assert
+      expect(container.querySelector('#notificationText')?.textContent).toBe(
+        'New document added: B'
+      );
+      expect(container.querySelector('#notification')?.classList.contains('show')).toBe(true);
+    });
+
+    it('should let a newer action replace the previous one', () => {
+      // Arrange
+      const first = vi.fn();
+      const second = vi.fn();
+      component.show(container, 'Document deleted: A', { label: 'Undo', onClick: first });
+
+      // Act
+      component.show(container, 'Document deleted: B', { label: 'Undo', onClick: second });
+      (container.querySelector('#notificationAction') as HTMLButtonElement).click();
+
+      // Assert
+      expect(first).not.toHaveBeenCalled();
+      expect(second).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not let an older timer hide a newer notification', () => {
+      // Arrange
+      component.show(container, 'First');
+      vi.advanceTimersByTime(3000);
+
+      // Act
+      component.show(container, 'Second', { label: 'Undo', onClick: vi.fn() });
+      vi.advanceTimersByTime(1000);
+
+      // Assert
+      expect(container.querySelector('#notification')?.classList.contains('show')).toBe(true);
+    });
+  });
+
   describe('notification lifecycle', () => {
     beforeEach(() => {
       const html = component.render();
@@ -1,5 +1,14 @@
+import type { NotificationAction } from '../../models/notification';
+
+const NOTIFICATION_DURATION = 4000;
+// Toasts with an action (e.g. "Undo") stay a little longer so the user can react
+const ACTION_NOTIFICATION_DURATION = 6000;
+
 export class NotificationComponent {
   private notificationCount: number = 0;
+  private hideTimeout: ReturnType<typeof setTimeout> | null = null;
+  private actionPending = false;
+  private deferredMessage: string | null = null;
 
   render(): string {
     return `
@@ -19,16 +28,27 @@ export class NotificationComponent {
           <span class="notification-badge" id="notificationBadge">0</span>
         </div>
         <span class="notification-text" id="notificationText"></span>
+        <button type="button" class="notification-action hidden" id="notificationAction"></button>
       </div>
     `;
   }
 
-  show(container: HTMLElement, message: string): void {
+  /**
+   * Shows a toast, replacing the current one
+   * While a toast offers an action (e.g. "Undo"), plain messages wait until it closes
+   * so that a passing update cannot take the action away; only the latest waiting message is kept
+   */
+  show(container: HTMLElement, message: string, action?: NotificationAction): void {
+    if (!action && this.actionPending) {
+      this.deferredMessage = message;
+      return;
+    }
     this.notificationCount++;
 
     const notification = container.querySelector('#notification');
     const notificationText = container.querySelector('#notificationText');
     const notificationBadge = container.querySelector('#notificationBadge');
+    const actionButton = container.querySelector<HTMLButtonElement>('#notificationAction');
 
     if (notification && notificationText && notificationBadge) {
       notificationText.textContent = message;
@@ -39,11 +59,52 @@ export class NotificationComponent {
       notification.classList.add('show');
       notification.setAttribute('aria-hidden', 'false');
 
-      setTimeout(() => {
+      const hide = () => {
         notification.classList.remove('show');
         notification.classList.add('hidden');
         notification.setAttribute('aria-hidden', 'true');
-      }, 4000);
+        if (action) this.showDeferred(container);
+      };
+
+      if (actionButton) {
+        actionButton.textContent = action?.label ?? '';
+        actionButton.classList.toggle('hidden', !action);
+        // Assigned rather than added so a newer toast replaces the previous action
+        actionButton.onclick = action
+          ? () => {
+              action.onClick();
+              this.clearHideTimeout();
+              hide();
+            }
+          : null;
+      }
+      this.actionPending = !!action;
+
+      // A newer toast restarts the timer instead of being hidden by an older one
+      this.clearHideTimeout();
+      this.hideTimeout = setTimeout(
+        () => {
+          this.hideTimeout = null;
+          hide();
+        },
+        action ? ACTION_NOTIFICATION_DURATION : NOTIFICATION_DURATION
+      );
+    }
+  }
+
+  private showDeferred(container: HTMLElement): void {
+    this.actionPending = false;
+    const message = this.deferredMessage;
+    this.deferredMessage = null;
+    if (message !== null) {
+      this.show(container, message);
+    }
+  }
+
+  private clearHideTimeout(): void {
+    if (this.hideTimeout) {
+      clearTimeout(this.hideTimeout);
+      this.hideTimeout = null;
     }
   }
 }
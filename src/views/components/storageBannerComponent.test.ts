@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StorageBannerComponent, getStorageMessage } from './storageBannerComponent';
+
+describe('getStorageMessage', () => {
+  it('should describe the usage when storage is nearly full', () => {
+    expect(
+      getStorageMessage({
+        status: 'warning',
+        usage: { usage: 4.25 * 1024 * 1024, quota: 5 * 1024 * 1024 },
+      })
+    ).toBe('Storage is 85% full (4.3 MB of 5.0 MB)');
+  });
+
+  it('should explain that unsaved changes are lost on reload after a failed save', () => {
+    expect(getStorageMessage({ status: 'error', error: 'QuotaExceededError' })).toContain(
+      'Changes could not be saved'
+    );
+  });
+});
+
+describe('StorageBannerComponent', () => {
+  let component: StorageBannerComponent;
+  let container: HTMLElement;
+  const action = { label: 'Export backup', onClick: vi.fn() };
+
+  beforeEach(() => {
+    component = new StorageBannerComponent();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    action.onClick.mockClear();
+  });
+
+  afterEach(() => {
+    document.body.removeChild(container);
+  });
+
+  describe('render', () => {
+    it('should render nothing while storage is healthy', () => {
+      expect(component.render({ status: 'ok' }, action)).toBe('');
+    });
+
+    it('should show warnings as a status with the offered action', () => {
+      // Arrange & Act
+      container.innerHTML = component.render(
+        { status: 'warning', usage: { usage: 90, quota: 100 } },
+        { label: 'Empty trash', onClick: vi.fn() }
+      );
+
+      // Assert
+      const banner = container.querySelector('#storageBanner');
+      expect(banner?.classList.contains('storage-warning')).toBe(true);
+      expect(banner?.getAttribute('role')).toBe('status');
+      expect(container.querySelector('#storageAction')?.textContent).toBe('Empty trash');
+    });
+
+    it('should announce failed saves as an alert', () => {
+      // Arrange & Act
+      container.innerHTML = component.render({ status: 'error' }, action);
+
+      // Assert
+      const banner = container.querySelector('#storageBanner');
+      expect(banner?.classList.contains('storage-error')).toBe(true);
+      expect(banner?.getAttribute('role')).toBe('alert');
+    });
+  });
+
+  describe('attachListeners', () => {
+    it('should run the action when its button is clicked', () => {
+      // Arrange
+      container.innerHTML = component.render({ status: 'error' }, action);
+      component.attachListeners(container, action);
+
+      // Act
+      container.querySelector<HTMLButtonElement>('#storageAction')?.click();
+
+      // Assert
+      expect(action.onClick).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop listening after cleanup', () => {
+      // Arrange
+      container.innerHTML = component.render({ status: 'error' }, action);
+      const cleanup = component.attachListeners(container, action);
+
+      // Act
+      cleanup();
+      container.querySelector<HTMLButtonElement>('#storageAction')?.click();
+
+      // Assert
+      expect(action.onClick).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing without a banner', () => {
+      // Arrange
+      container.innerHTML = component.render({ status: 'ok' }, action);
+
+      // Act & Assert
+      expect(() => component.attachListeners(container, action)()).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import type { NotificationAction } from '../../models/notification';
+import type { StorageHealth } from '../../models/storage';
+import { escapeHtml } from '../../utils/htmlUtils';
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Explains the storage problem, e.g. "Storage is 85% full (4.3 MB of 5.0 MB)"
+ */
+export function getStorageMessage(health: StorageHealth): string {
+  if (health.status === 'error') {
+    return 'Changes could not be saved and will be lost on reload. Export a backup to keep them.';
+  }
+  if (!health.usage) return 'Storage is nearly full';
+
+  const { usage, quota } = health.usage;
+  const percent = Math.round((usage / quota) * 100);
+  return `Storage is ${percent}% full (${formatMegabytes(usage)} of ${formatMegabytes(quota)})`;
+}
+
+/**
+ * Renders a banner that stays for as long as storage is nearly full or failing
+ * Unlike a toast, later notifications cannot push it away
+ */
+export class StorageBannerComponent {
+  render(health: StorageHealth, action: NotificationAction): string {
+    if (health.status === 'ok') return '';
+
+    return `
+      <div
+        class="storage-banner storage-${health.status}"
+        id="storageBanner"
+        role="${health.status === 'error' ? 'alert' : 'status'}"
+      >
+        <span class="storage-banner-text">${escapeHtml(getStorageMessage(health))}</span>
+        <button type="button" id="storageAction" class="storage-banner-action">${escapeHtml(action.label)}</button>
+      </div>
+    `;
+  }
+
+  attachListeners(container: HTMLElement, action: NotificationAction): () => void {
+    const actionButton = container.querySelector<HTMLButtonElement>('#storageAction');
+    if (!actionButton) return () => {};
+
+    const onClick = () => action.onClick();
+    actionButton.addEventListener('click', onClick);
+    return () => actionButton.removeEventListener('click', onClick);
+  }
+}
@@ -1,5 +1,8 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { DocumentView } from './documentView';
+import { NotificationComponent } from './components/notificationComponent';
+import { ControlsComponent } from './components/controlsComponent';
+import { CardComponent } from './components/cardComponent';
 import type { Document } from '../models/document';
 
 vi.mock('./components/cardComponent', () => {
@@ -8,11 +11,12 @@ vi.mock('./components/cardComponent', () => {
   return { CardComponent };
 });
 
-vi.mock('./components/controlsComponent', () => {
+vi.mock('./components/controlsComponent', async importOriginal => {
+  const actual = await importOriginal<typeof import('./components/controlsComponent')>();
   const ControlsComponent = vi.fn();
   ControlsComponent.prototype.render = vi.fn().mockReturnValue('<div class="controls"></div>');
   ControlsComponent.prototype.attachListeners = vi.fn().mockReturnValue(() => {}); // Return cleanup function
-  return { ControlsComponent };
+  return { ...actual, ControlsComponent };
 });
 
 vi.mock('./components/notificationComponent', () => {
@@ -233,6 +237,34 @@ describe('DocumentView', () => {
     });
   });
 
+  describe('downloadFile', () => {
+    beforeEach(() => {
+      view = new DocumentView('app');
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    it('should revoke the object URL only after the download has started', () => {
+      // Arrange
+      vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:backup');
+      const revokeObjectURL = vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+      // Act
+      view.downloadFile('backup.json', '{}');
+
+      // Assert
+      expect(click).toHaveBeenCalledTimes(1);
+      expect(revokeObjectURL).not.toHaveBeenCalled();
+      vi.runAllTimers();
+      expect(revokeObjectURL).toHaveBeenCalledWith('blob:backup');
+    });
+  });
+
   describe('showModal', () => {
     beforeEach(() => {
       view = new DocumentView('app');
@@ -349,6 +381,674 @@ describe('DocumentView', () => {
     });
   });
 
+  describe('sortable list headers', () => {
+    const sort = {
+      criteria: [
+        { field: 'Version', order: 'desc' },
+        { field: 'Title', order: 'asc' },
+      ] as const,
+      onAdd: vi.fn(),
+      onRemove: vi.fn(),
+      onToggleOrder: vi.fn(),
+    };
+
+    beforeEach(() => {
+      view = new DocumentView('app');
+    });
+
+    const renderWithSort = (onSort = vi.fn()) =>
+      view.render(mockDocuments, 'Version', 'list', onSort, vi.fn(), vi.fn(), {
+        sort: { ...sort, criteria: [...sort.criteria] },
+      });
+
+    it('should render a sort button per sortable field', () => {
+      // Arrange & Act
+      renderWithSort();
+
+      // Assert
+      const fields = Array.from(
+        container.querySelectorAll<HTMLElement>('.list-header [data-sort]')
+      ).map(button => button.dataset.sort);
+      expect(fields).toEqual([
+        'Title',
+        'Version',
+        'CreatedAt',
+        'UpdatedAt',
+        'ContributorCount',
+        'AttachmentCount',
+      ]);
+      expect(container.querySelector('.list-header')?.getAttribute('aria-hidden')).toBeNull();
+    });
+
+    it('should render the list as a table with a header row', () => {
+      // Arrange & Act
+      renderWithSort();
+
+      // Assert
+      const table = container.querySelector('[role="table"]');
+      const rows = table?.querySelectorAll('[role="row"]') ?? [];
+      expect(table?.querySelector('[role="list"], [role="listitem"]')).toBeNull();
+      expect(rows[0]?.classList.contains('list-header')).toBe(true);
+      expect(rows).toHaveLength(mockDocuments.length + 1);
+      const headerCount = rows[0].querySelectorAll('[role="columnheader"]').length;
+      expect(
+        Array.from(rows)
+          .slice(1)
+          .every(row => row.querySelectorAll('[role="cell"]').length === headerCount)
+      ).toBe(true);
+    });
+
+    it('should set aria-sort on the primary sort column and state tie-breakers as text', () => {
+      // Arrange & Act
+      renderWithSort();
+
+      // Assert
+      const headerFor = (field: string) =>
+        container.querySelector(`[data-sort="${field}"]`)?.closest('[role="columnheader"]');
+      expect(headerFor('Version')?.getAttribute('aria-sort')).toBe('descending');
+      expect(headerFor('Title')?.getAttribute('aria-sort')).toBe('none');
+      expect(headerFor('CreatedAt')?.getAttribute('aria-sort')).toBe('none');
+      expect(
+        container.querySelectorAll('[aria-sort="ascending"], [aria-sort="descending"]')
+      ).toHaveLength(1);
+      expect(headerFor('Title')?.querySelector('.visually-hidden')?.textContent).toBe(
+        ', tie-breaker, ascending'
+      );
+      expect(headerFor('Version')?.querySelector('.visually-hidden')).toBeNull();
+    });
+
+    it('should keep the grid view and the empty list a list', () => {
+      // Arrange & Act
+      view.render(mockDocuments, 'Title', 'grid', vi.fn(), vi.fn(), vi.fn());
+
+      // Assert
+      expect(container.querySelector('#documentContainer')?.getAttribute('role')).toBe('list');
+      expect(container.querySelector('[role="table"]')).toBeNull();
+
+      // Act
+      view.render([], 'Title', 'list', vi.fn(), vi.fn(), vi.fn());
+
+      // Assert
+      expect(container.querySelector('#documentContainer')?.getAttribute('role')).toBe('list');
+      expect(container.querySelector('[role="table"]')).toBeNull();
+    });
+
+    it('should show direction indicators for every sorted field', () => {
+      // Arrange & Act
+      renderWithSort();
+
+      // Assert
+      const indicatorFor = (field: string) =>
+        container.querySelector(`[data-sort="${field}"] .sort-indicator`)?.textContent;
+      expect(indicatorFor('Version')).toBe('↓');
+      expect(indicatorFor('Title')).toBe('↑');
+      expect(indicatorFor('CreatedAt')).toBeUndefined();
+    });
+
+    it('should call onSort when a header is clicked', () => {
+      // Arrange
+      const onSort = vi.fn();
+      renderWithSort(onSort);
+
+      // Act
+      container.querySelector<HTMLElement>('[data-sort="CreatedAt"]')!.click();
+
+      // Assert
+      expect(onSort).toHaveBeenCalledWith('CreatedAt');
+      expect(sort.onAdd).not.toHaveBeenCalled();
+    });
+
+    it('should add a tie-breaker when a header is shift-clicked', () => {
+      // Arrange
+      const onSort = vi.fn();
+      renderWithSort(onSort);
+
+      // Act
+      container
+        .querySelector('[data-sort="AttachmentCount"]')!
+        .dispatchEvent(new MouseEvent('click', { bubbles: true, shiftKey: true }));
+
+      // Assert
+      expect(sort.onAdd).toHaveBeenCalledWith('AttachmentCount');
+      expect(onSort).not.toHaveBeenCalled();
+    });
+
+    it('should keep focus on the clicked header across re-renders', () => {
+      // Arrange
+      renderWithSort();
+      container.querySelector<HTMLElement>('[data-sort="Title"]')!.focus();
+
+      // Act
+      renderWithSort();
+
+      // Assert
+      expect((document.activeElement as HTMLElement).dataset.sort).toBe('Title');
+    });
+  });
+
+  describe('detail drawer', () => {
+    let onOpen: ReturnType<typeof vi.fn>;
+    let onClose: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      view = new DocumentView('app');
+      onOpen = vi.fn();
+      onClose = vi.fn();
+    });
+
+    const renderWithDetail = (openDocument?: Document, viewMode: 'list' | 'grid' = 'list') =>
+      view.render(mockDocuments, 'Title', viewMode, vi.fn(), vi.fn(), vi.fn(), {
+        detail: { document: openDocument, activity: [], onOpen, onClose },
+      });
+
+    it('should not render the drawer when no document is open', () => {
+      // Arrange & Act
+      renderWithDetail();
+
+      // Assert
+      expect(container.querySelector('#detailDrawer')).toBeNull();
+    });
+
+    it('should render the drawer for the open document', () => {
+      // Arrange & Act
+      renderWithDetail(mockDocuments[0]);
+
+      // Assert
+      expect(container.querySelector('#drawerTitle')?.textContent).toBe('Test Document 1');
+    });
+
+    it('should open a document when its row is clicked', () => {
+      // Arrange
+      renderWithDetail();
+
+      // Act
+      container.querySelector<HTMLElement>('.list-item .doc-name')!.click();
+
+      // Assert
+      expect(onOpen).toHaveBeenCalledWith('doc-1');
+    });
+
+    it('should not open a document when one of its actions is clicked', () => {
+      // Arrange
+      renderWithDetail();
+
+      // Act
+      container.querySelector<HTMLElement>('.list-item [data-action="edit"]')!.click();
+
+      // Assert
+      expect(onOpen).not.toHaveBeenCalled();
+    });
+
+    it('should open a focused row with Enter', () => {
+      // Arrange
+      renderWithDetail();
+      const row = container.querySelectorAll<HTMLElement>('.list-item')[1];
+
+      // Act
+      row.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }));
+
+      // Assert
+      expect(onOpen).toHaveBeenCalledWith('doc-2');
+    });
+
+    it('should open a card in grid view', () => {
+      // Arrange
+      vi.mocked(CardComponent.prototype.render).mockImplementation(
+        doc => `<article class="document-card" data-document-id="${doc.ID}" tabindex="0"></article>`
+      );
+      renderWithDetail(undefined, 'grid');
+
+      // Act
+      container.querySelector<HTMLElement>('.document-card')!.click();
+
+      // Assert
+      expect(onOpen).toHaveBeenCalledWith('doc-1');
+      vi.mocked(CardComponent.prototype.render).mockReturnValue('<div class="card"></div>');
+    });
+
+    it('should move focus to the drawer when it opens', () => {
+      // Arrange
+      renderWithDetail();
+
+      // Act
+      renderWithDetail(mockDocuments[1]);
+
+      // Assert
+      expect(document.activeElement?.id).toBe('drawerTitle');
+    });
+
+    it('should keep focus inside the drawer across re-renders', () => {
+      // Arrange
+      renderWithDetail(mockDocuments[1]);
+      container.querySelector<HTMLElement>('#drawerClose')!.focus();
+
+      // Act
+      renderWithDetail(mockDocuments[1]);
+
+      // Assert
+      expect(document.activeElement?.id).toBe('drawerClose');
+    });
+
+    it('should return focus to the originating row when the drawer closes', () => {
+      // Arrange
+      renderWithDetail(mockDocuments[1]);
+
+      // Act
+      renderWithDetail();
+
+      // Assert
+      expect((document.activeElement as HTMLElement).dataset.documentId).toBe('doc-2');
+    });
+
+    it('should restore a revision from the drawer history', () => {
+      // Arrange
+      const onRestoreRevision = vi.fn();
+      const revision = (id: string) => ({
+        id,
+        documentId: 'doc-1',
+        snapshot: mockDocuments[0],
+        savedAt: new Date(),
+      });
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn(), {
+        detail: {
+          document: mockDocuments[0],
+          activity: [],
+          revisions: [revision('rev-2'), revision('rev-1')],
+          onOpen,
+          onClose,
+          onRestoreRevision,
+        },
+      });
+
+      // Act
+      container.querySelector<HTMLElement>('[data-revision-id="rev-1"]')!.click();
+
+      // Assert
+      expect(onRestoreRevision).toHaveBeenCalledWith('doc-1', 'rev-1');
+    });
+
+    it('should close the drawer on Escape', () => {
+      // Arrange
+      renderWithDetail(mockDocuments[0]);
+
+      // Act
+      document.activeElement!.dispatchEvent(
+        new KeyboardEvent('keydown', { key: 'Escape', bubbles: true })
+      );
+
+      // Assert
+      expect(onClose).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('document actions', () => {
+    beforeEach(() => {
+      view = new DocumentView('app');
+    });
+
+    it('should render an edit action for every list row', () => {
+      // Arrange & Act
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn());
+
+      // Assert
+      expect(container.querySelectorAll('.list-item [data-action="edit"]')).toHaveLength(2);
+    });
+
+    it('should call edit handler with the row document ID', () => {
+      // Arrange
+      const onEdit = vi.fn();
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn(), {
+        actions: { edit: onEdit },
+      });
+
+      // Act
+      (container.querySelector('[data-action="edit"][data-id="doc-2"]') as HTMLElement).click();
+
+      // Assert
+      expect(onEdit).toHaveBeenCalledWith('doc-2');
+    });
+
+    it('should not call stale edit handlers after re-render', () => {
+      // Arrange
+      const onEdit1 = vi.fn();
+      const onEdit2 = vi.fn();
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn(), {
+        actions: { edit: onEdit1 },
+      });
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn(), {
+        actions: { edit: onEdit2 },
+      });
+
+      // Act
+      (container.querySelector('[data-action="edit"]') as HTMLElement).click();
+
+      // Assert
+      expect(onEdit1).not.toHaveBeenCalled();
+      expect(onEdit2).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('trash', () => {
+    const trash = { visible: true, count: 1, retentionDays: 30, onToggle: vi.fn() };
+
+    beforeEach(() => {
+      view = new DocumentView('app');
+    });
+
+    it('should show a trash-specific empty state', () => {
+      // Arrange & Act
+      view.render([], 'Title', 'list', vi.fn(), vi.fn(), vi.fn(), { trash });
+
+      // Assert
+      expect(container.innerHTML).toContain('Trash is empty');
+      expect(container.innerHTML).not.toContain('No documents yet');
+    });
+
+    it('should show the retention period while the trash is open', () => {
+      // Arrange & Act
+      view.render([], 'Title', 'grid', vi.fn(), vi.fn(), vi.fn(), { trash });
+
+      // Assert
+      expect(container.querySelector('.trash-notice')?.textContent).toContain('30 days');
+    });
+
+    it('should not show the retention notice outside the trash', () => {
+      // Arrange & Act
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn(), {
+        trash: { ...trash, visible: false },
+      });
+
+      // Assert
+      expect(container.querySelector('.trash-notice')).toBeNull();
+    });
+
+    it('should render restore and purge actions for trashed rows', () => {
+      // Arrange
+      const trashed = mockDocuments.map(doc => ({ ...doc, DeletedAt: new Date() }));
+
+      // Act
+      view.render(trashed, 'Title', 'list', vi.fn(), vi.fn(), vi.fn(), { trash });
+
+      // Assert
+      expect(container.querySelectorAll('[data-action="restore"]')).toHaveLength(2);
+      expect(container.querySelectorAll('[data-action="purge"]')).toHaveLength(2);
+      expect(container.querySelector('[data-action="edit"]')).toBeNull();
+    });
+  });
+
+  describe('connection status', () => {
+    beforeEach(() => {
+      view = new DocumentView('app');
+    });
+
+    it('should show the connection state in the header', () => {
+      // Arrange & Act
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn(), {
+        connection: { state: { status: 'open' }, onRetry: vi.fn() },
+      });
+
+      // Assert
+      expect(container.querySelector('.header #connectionStatus')?.textContent).toContain('Live');
+    });
+
+    it('should call onRetry from the retry button when offline', () => {
+      // Arrange
+      const onRetry = vi.fn();
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn(), {
+        connection: { state: { status: 'offline' }, onRetry },
+      });
+
+      // Act
+      container.querySelector<HTMLButtonElement>('#connectionRetry')?.click();
+
+      // Assert
+      expect(onRetry).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave out the status without connection state', () => {
+      // Arrange & Act
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn());
+
+      // Assert
+      expect(container.querySelector('#connectionStatus')).toBeNull();
+    });
+  });
+
+  describe('storage banner', () => {
+    beforeEach(() => {
+      view = new DocumentView('app');
+    });
+
+    it('should keep showing a failed save across renders and notifications', () => {
+      // Arrange
+      const onClick = vi.fn();
+      const options = {
+        storage: {
+          health: { status: 'error' as const },
+          action: { label: 'Export backup', onClick },
+        },
+      };
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn(), options);
+
+      // Act
+      view.showNotification('Document created: A');
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn(), options);
+      container.querySelector<HTMLButtonElement>('#storageAction')?.click();
+
+      // Assert
+      expect(container.querySelector('#storageBanner')?.textContent).toContain(
+        'Changes could not be saved'
+      );
+      expect(onClick).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave out the banner while storage is healthy', () => {
+      // Arrange & Act
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn(), {
+        storage: { health: { status: 'ok' }, action: { label: 'Export backup', onClick: vi.fn() } },
+      });
+
+      // Assert
+      expect(container.querySelector('#storageBanner')).toBeNull();
+    });
+  });
+
+  describe('search', () => {
+    beforeEach(() => {
+      view = new DocumentView('app');
+    });
+
+    it('should show a search-specific empty state', () => {
+      // Arrange & Act
+      view.render([], 'Title', 'list', vi.fn(), vi.fn(), vi.fn(), { searchQuery: 'missing' });
+
+      // Assert
+      expect(container.innerHTML).toContain('No documents match your search');
+      expect(container.innerHTML).not.toContain('No documents yet');
+    });
+
+    it('should highlight matches in list rows', () => {
+      // Arrange & Act
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn(), {
+        searchQuery: 'alice',
+      });
+
+      // Assert
+      expect(container.querySelector('.contributor-name mark')?.textContent).toBe('Alice');
+    });
+
+    it('should highlight filter values but not filter names', () => {
+      // Arrange & Act
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn(), {
+        searchQuery: 'contributor:alice has:attachments',
+      });
+
+      // Assert
+      expect(container.querySelector('.contributor-name mark')?.textContent).toBe('Alice');
+      expect(container.querySelectorAll('mark')).toHaveLength(1);
+    });
+
+    it('should pass query errors to the controls', () => {
+      // Arrange & Act
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn(), {
+        searchQuery: 'owner:alice',
+        searchError: 'Unknown filter "owner:"',
+      });
+
+      // Assert
+      expect(ControlsComponent.prototype.render).toHaveBeenCalledWith(
+        'Title',
+        'list',
+        expect.objectContaining({ searchError: 'Unknown filter "owner:"' })
+      );
+    });
+
+    it('should keep focus and typed text in the search box across re-renders', () => {
+      // Arrange
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn());
+      container.insertAdjacentHTML('afterbegin', '<input id="searchInput" type="search">');
+      const typed = container.querySelector('#searchInput') as HTMLInputElement;
+      typed.value = 'rep';
+      typed.focus();
+      vi.mocked(ControlsComponent.prototype.render).mockReturnValue(
+        '<div class="controls"><input id="searchInput" type="search"></div>'
+      );
+
+      // Act
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn());
+
+      // Assert
+      const searchInput = container.querySelector('#searchInput') as HTMLInputElement;
+      expect(searchInput).not.toBe(typed);
+      expect(searchInput.value).toBe('rep');
+      expect(document.activeElement).toBe(searchInput);
+      vi.mocked(ControlsComponent.prototype.render).mockReturnValue('<div class="controls"></div>');
+    });
+  });
+
+  describe('facets', () => {
+    const facets = {
+      counts: {
+        contributor: [{ value: 'Alice', label: 'Alice', count: 1 }],
+        extension: [{ value: 'pdf', label: '.pdf', count: 1 }],
+        month: [],
+      },
+      selection: { contributor: [], extension: [], month: [] },
+      open: true,
+      onToggleFacet: vi.fn(),
+    };
+
+    beforeEach(() => {
+      view = new DocumentView('app');
+    });
+
+    it('should render the facet panel next to the document container', () => {
+      // Arrange & Act
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn(), { facets });
+
+      // Assert
+      const layout = container.querySelector('.document-layout');
+      expect(layout?.querySelector('#facetPanel')).not.toBeNull();
+      expect(layout?.querySelector('#documentContainer')).not.toBeNull();
+    });
+
+    it('should not render the panel without facet state', () => {
+      // Arrange & Act
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn());
+
+      // Assert
+      expect(container.querySelector('#facetPanel')).toBeNull();
+    });
+
+    it('should show a filter-specific empty state', () => {
+      // Arrange & Act
+      view.render([], 'Title', 'list', vi.fn(), vi.fn(), vi.fn(), {
+        facets: { ...facets, selection: { contributor: ['Bob'], extension: [], month: [] } },
+      });
+
+      // Assert
+      expect(container.innerHTML).toContain('No documents match the selected filters');
+    });
+
+    it('should forward facet toggles to the handler', () => {
+      // Arrange
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn(), { facets });
+
+      // Act
+      container.querySelector<HTMLInputElement>('input[value="pdf"]')!.click();
+
+      // Assert
+      expect(facets.onToggleFacet).toHaveBeenCalledWith('extension', 'pdf');
+    });
+
+    it('should keep focus on a facet checkbox across re-renders', () => {
+      // Arrange
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn(), { facets });
+      container.querySelector<HTMLInputElement>('input[value="pdf"]')!.focus();
+
+      // Act
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn(), { facets });
+
+      // Assert
+      const checkbox = container.querySelector<HTMLInputElement>('input[value="pdf"]');
+      expect(document.activeElement).toBe(checkbox);
+    });
+  });
+
+  describe('preserving overlays across re-renders', () => {
+    beforeEach(() => {
+      view = new DocumentView('app');
+    });
+
+    it('should keep an open confirm dialog after re-render', () => {
+      // Arrange
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn());
+      container.insertAdjacentHTML('beforeend', '<div id="confirmDialog" class="modal"></div>');
+      const dialog = container.querySelector('#confirmDialog');
+
+      // Act
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn());
+
+      // Assert
+      expect(container.querySelector('#confirmDialog')).toBe(dialog);
+    });
+
+    it('should drop dialogs that are already closing', () => {
+      // Arrange
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn());
+      container.insertAdjacentHTML('beforeend', '<div id="modal" class="modal hidden"></div>');
+
+      // Act
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn());
+
+      // Assert
+      expect(container.querySelector('#modal')).toBeNull();
+    });
+
+    it('should keep a visible notification after re-render', () => {
+      // Arrange
+      vi.mocked(NotificationComponent.prototype.render).mockReturnValue(
+        '<div id="notification" class="notification-container hidden"></div>'
+      );
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn());
+      container.insertAdjacentHTML(
+        'beforeend',
+        '<div id="notification" class="notification-container show">Undo me</div>'
+      );
+      const notification = container.querySelector('#notification.show');
+
+      // Act
+      view.render(mockDocuments, 'Title', 'list', vi.fn(), vi.fn(), vi.fn());
+
+      // Assert
+      expect(container.querySelector('#notification.show')).toBe(notification);
+      expect(container.querySelectorAll('#notification')).toHaveLength(1);
+      vi.mocked(NotificationComponent.prototype.render).mockReturnValue(
+        '<div class="notification"></div>'
+      );
+    });
+  });
+
   describe('grid view rendering', () => {
     beforeEach(() => {
       view = new DocumentView('app');
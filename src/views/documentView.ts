@@ -1,9 +1,79 @@
-import type { Document, SortField, ViewMode } from '../models/document';
+import type { Document, SortCriterion, SortField, ViewMode } from '../models/document';
 import { CardComponent } from './components/cardComponent';
-import { ControlsComponent } from './components/controlsComponent';
+import { ControlsComponent, getSortLabel, TrashControlState } from './components/controlsComponent';
 import { NotificationComponent } from './components/notificationComponent';
 import { ModalComponent } from './components/modalComponent';
+import { ActionsComponent, DocumentActionHandlers } from './components/actionsComponent';
+import { ConfirmComponent, ConfirmOptions } from './components/confirmComponent';
+import { FacetComponent, FacetHandlers, FacetPanelState } from './components/facetComponent';
+import { DrawerComponent } from './components/drawerComponent';
+import { ConnectionStatusComponent } from './components/connectionStatusComponent';
+import { StorageBannerComponent } from './components/storageBannerComponent';
+import type { ActivityEntry } from '../models/activity';
+import type { Revision } from '../models/revision';
+import type { ConnectionState } from '../models/sockets';
+import type { StorageHealth } from '../models/storage';
+import type { NotificationAction } from '../models/notification';
 import { escapeHtml } from '../utils/htmlUtils';
+import { highlightMatches } from '../utils/searchUtils';
+import { getHighlightTerms } from '../utils/queryUtils';
+import { hasFacetSelection } from '../utils/facetUtils';
+
+interface SearchFocusState {
+  value: string;
+  selectionStart: number | null;
+  selectionEnd: number | null;
+}
+
+export interface TrashViewState extends TrashControlState {
+  retentionDays: number;
+  onToggle: () => void;
+}
+
+export interface SortViewState {
+  criteria: SortCriterion[];
+  onAdd: (field: SortField) => void;
+  onRemove: (index: number) => void;
+  onToggleOrder: (index: number) => void;
+}
+
+export interface FacetViewState extends FacetPanelState, FacetHandlers {}
+
+export interface DetailViewState {
+  document?: Document;
+  activity: ActivityEntry[];
+  revisions?: Revision[];
+  onOpen: (id: string) => void;
+  onClose: () => void;
+  onRestoreRevision?: (documentId: string, revisionId: string) => void;
+}
+
+export interface ConnectionViewState {
+  state: ConnectionState;
+  onRetry: () => void;
+}
+
+export interface StorageViewState {
+  health: StorageHealth;
+  // Offered remedy, e.g. emptying the trash or exporting a backup
+  action: NotificationAction;
+}
+
+/**
+ * Optional render inputs beyond the core list state
+ */
+export interface DocumentViewOptions {
+  actions?: DocumentActionHandlers;
+  sort?: SortViewState;
+  trash?: TrashViewState;
+  searchQuery?: string;
+  searchError?: string;
+  onSearch?: (query: string) => void;
+  facets?: FacetViewState;
+  detail?: DetailViewState;
+  connection?: ConnectionViewState;
+  storage?: StorageViewState;
+}
 
 export class DocumentView {
   private container: HTMLElement;
@@ -11,7 +81,16 @@ export class DocumentView {
   private controlsComponent: ControlsComponent;
   private notificationComponent: NotificationComponent;
   private modalComponent: ModalComponent;
+  private actionsComponent: ActionsComponent;
+  private confirmComponent: ConfirmComponent;
+  private facetComponent: FacetComponent;
+  private drawerComponent: DrawerComponent;
+  private connectionStatusComponent: ConnectionStatusComponent;
+  private storageBannerComponent: StorageBannerComponent;
   private cleanupFunctions: (() => void)[] = [];
+  private highlightTerms: string[] = [];
+  private sortCriteria: SortCriterion[] = [];
+  private openDocumentId: string | undefined;
 
   constructor(containerId: string) {
     const element = document.getElementById(containerId);
@@ -24,6 +103,12 @@ export class DocumentView {
     this.controlsComponent = new ControlsComponent();
     this.notificationComponent = new NotificationComponent();
     this.modalComponent = new ModalComponent();
+    this.actionsComponent = new ActionsComponent();
+    this.confirmComponent = new ConfirmComponent();
+    this.facetComponent = new FacetComponent();
+    this.drawerComponent = new DrawerComponent();
+    this.connectionStatusComponent = new ConnectionStatusComponent();
+    this.storageBannerComponent = new StorageBannerComponent();
   }
 
   render(
@@ -32,32 +117,107 @@ export class DocumentView {
     viewMode: ViewMode,
     onSort: (field: SortField) => void,
     onCreate: () => void,
-    onViewModeChange: (mode: ViewMode) => void
+    onViewModeChange: (mode: ViewMode) => void,
+    options: DocumentViewOptions = {}
   ): void {
+    const {
+      sort,
+      trash,
+      searchQuery = '',
+      searchError,
+      facets,
+      detail,
+      connection,
+      storage,
+    } = options;
+    this.highlightTerms = getHighlightTerms(searchQuery);
+    this.sortCriteria = sort?.criteria ?? [];
+    const emptyMessage = searchQuery.trim()
+      ? 'No documents match your search'
+      : facets && hasFacetSelection(facets.selection)
+        ? 'No documents match the selected filters'
+        : trash?.visible
+          ? 'Trash is empty'
+          : 'No documents yet';
+    // The list view is a table with a header row; the grid view and the empty state stay a list
+    const isTable = viewMode === 'list' && documents.length > 0;
+
     // Clean up previous event listeners to prevent memory leaks
     this.cleanup();
 
-    const existingModal = this.container.querySelector('#modal');
-    const focusedModalElement =
-      existingModal &&
+    // Open dialogs and a visible toast survive re-renders (e.g. a WebSocket update while editing)
+    const preservedDialogs = Array.from(
+      this.container.querySelectorAll<HTMLElement>('#modal, #confirmDialog')
+    ).filter(dialog => !dialog.classList.contains('hidden'));
+    const focusedDialogElement =
       document.activeElement instanceof HTMLElement &&
-      existingModal.contains(document.activeElement)
+      preservedDialogs.some(dialog => dialog.contains(document.activeElement))
         ? (document.activeElement as HTMLElement)
         : null;
-    const shouldPreserveModal = existingModal && !existingModal.classList.contains('hidden');
+    const visibleNotification = this.container.querySelector<HTMLElement>('#notification.show');
+    const focusedSearch = this.captureFocusedSearch();
+    const focusedFacetId = this.container
+      .querySelector('#facetPanel')
+      ?.contains(document.activeElement)
+      ? (document.activeElement as HTMLElement).id
+      : '';
+    const focusedSortField =
+      document.activeElement instanceof HTMLElement &&
+      this.container.querySelector('.list-header')?.contains(document.activeElement)
+        ? document.activeElement.dataset.sort
+        : undefined;
+    const focusedDrawerId = this.container
+      .querySelector('#detailDrawer')
+      ?.contains(document.activeElement)
+      ? (document.activeElement as HTMLElement).id
+      : '';
+    const previousOpenDocumentId = this.openDocumentId;
+    this.openDocumentId = detail?.document?.ID;
 
     this.container.innerHTML = `
       <div class="app-container" role="main" aria-labelledby="documentsHeading">
         <header class="header">
           <h1 id="documentsHeading">Documents</h1>
+          ${connection ? this.connectionStatusComponent.render(connection.state) : ''}
         </header>
+
+        ${storage ? this.storageBannerComponent.render(storage.health, storage.action) : ''}
         
-        ${this.controlsComponent.render(sortField, viewMode)}
+        ${this.controlsComponent.render(sortField, viewMode, {
+          sortCriteria: sort?.criteria,
+          trash: trash && { visible: trash.visible, count: trash.count },
+          searchQuery,
+          searchError,
+        })}
 
-        <div id="documentContainer" class="document-container ${viewMode}" role="list" aria-live="polite">
-          ${viewMode === 'list' ? this.renderListView(documents) : this.renderGridView(documents)}
+        ${
+          trash?.visible
+            ? `<p class="trash-notice">Documents in the trash are permanently deleted after ${trash.retentionDays} days.</p>`
+            : ''
+        }
+
+        <div class="document-layout">
+          ${facets ? this.facetComponent.render(facets) : ''}
+
+          <div class="document-list" ${isTable ? 'role="table" aria-label="Documents"' : ''}>
+            ${isTable ? this.renderListHeader() : ''}
+            <div
+              id="documentContainer"
+              class="document-container ${viewMode}"
+              role="${isTable ? 'rowgroup' : 'list'}"
+              aria-live="polite"
+            >
+              ${
+                viewMode === 'list'
+                  ? this.renderListView(documents, emptyMessage)
+                  : this.renderGridView(documents, emptyMessage)
+              }
+            </div>
+          </div>
         </div>
 
+        ${detail?.document ? this.drawerComponent.render(detail.document, detail.activity, detail.revisions) : ''}
+
         <button
           class="btn-add"
           id="createBtn"
@@ -72,63 +232,184 @@ export class DocumentView {
       </div>
     `;
 
-    if (shouldPreserveModal && existingModal instanceof HTMLElement) {
-      this.container.appendChild(existingModal);
-      if (focusedModalElement && typeof focusedModalElement.focus === 'function') {
-        focusedModalElement.focus();
+    if (visibleNotification) {
+      this.container.querySelector('#notification')?.replaceWith(visibleNotification);
+    }
+
+    this.restoreFocusedSearch(focusedSearch);
+    if (focusedFacetId) {
+      document.getElementById(focusedFacetId)?.focus();
+    }
+    if (focusedSortField) {
+      this.container
+        .querySelector<HTMLElement>(`.list-header [data-sort="${focusedSortField}"]`)
+        ?.focus();
+    }
+    this.restoreDrawerFocus(previousOpenDocumentId, focusedDrawerId);
+
+    preservedDialogs.forEach(dialog => this.container.appendChild(dialog));
+    if (focusedDialogElement && typeof focusedDialogElement.focus === 'function') {
+      focusedDialogElement.focus();
+    }
+
+    this.attachEventListeners(onSort, onCreate, onViewModeChange, options);
+  }
+
+  /**
+   * Remembers the search box value and caret when it has focus, so typing is not
+   * interrupted by re-renders triggered while the debounce is pending
+   */
+  private captureFocusedSearch(): SearchFocusState | null {
+    const searchInput = this.container.querySelector<HTMLInputElement>('#searchInput');
+    if (!searchInput || document.activeElement !== searchInput) return null;
+
+    return {
+      value: searchInput.value,
+      selectionStart: searchInput.selectionStart,
+      selectionEnd: searchInput.selectionEnd,
+    };
+  }
+
+  private restoreFocusedSearch(state: SearchFocusState | null): void {
+    const searchInput = this.container.querySelector<HTMLInputElement>('#searchInput');
+    if (!state || !searchInput) return;
+
+    searchInput.value = state.value;
+    searchInput.focus();
+    searchInput.setSelectionRange(state.selectionStart, state.selectionEnd);
+  }
+
+  /**
+   * Moves focus into the drawer when it opens and back to the originating row or card when it closes
+   */
+  private restoreDrawerFocus(
+    previousOpenDocumentId: string | undefined,
+    focusedDrawerId: string
+  ): void {
+    if (this.openDocumentId && this.openDocumentId === previousOpenDocumentId) {
+      if (focusedDrawerId) {
+        document.getElementById(focusedDrawerId)?.focus();
       }
+      return;
     }
 
-    this.attachEventListeners(onSort, onCreate, onViewModeChange);
+    if (this.openDocumentId) {
+      this.container.querySelector<HTMLElement>('#drawerTitle')?.focus();
+    } else if (previousOpenDocumentId) {
+      Array.from(
+        this.container.querySelectorAll<HTMLElement>('#documentContainer [data-document-id]')
+      )
+        .find(element => element.dataset.documentId === previousOpenDocumentId)
+        ?.focus();
+    }
   }
 
   private renderDocumentCard(doc: Document): string {
-    return this.cardComponent.render(doc, this.getDocumentTitleId(doc));
+    return this.cardComponent.render(doc, this.getDocumentTitleId(doc), this.highlightTerms);
   }
 
-  private renderListView(documents: Document[]): string {
+  private renderListView(documents: Document[], emptyMessage: string): string {
     if (documents.length === 0) {
-      return '<div class="empty-state">No documents yet</div>';
+      return `<div class="empty-state">${emptyMessage}</div>`;
     }
 
+    return documents.map(doc => this.renderListItem(doc)).join('');
+  }
+
+  /**
+   * Renders the header row of the list table, one column header per sortable field
+   * Its cells line up with the cells of each row rendered by `renderListItem`
+   */
+  private renderListHeader(): string {
     return `
-      <div class="list-header" role="presentation" aria-hidden="true">
-        <div class="col-name">Name</div>
-        <div class="col-contributors">Contributors</div>
-        <div class="col-attachments">Attachments</div>
+      <div class="list-header" role="row">
+        <div class="col-name">
+          ${this.renderSortHeader('Title')}
+          ${this.renderSortHeader('Version')}
+          ${this.renderSortHeader('CreatedAt')}
+          ${this.renderSortHeader('UpdatedAt')}
+        </div>
+        <div class="col-contributors">${this.renderSortHeader('ContributorCount', 'Contributors')}</div>
+        <div class="col-attachments">${this.renderSortHeader('AttachmentCount', 'Attachments')}</div>
+        <div class="col-actions" role="columnheader"><span class="visually-hidden">Actions</span></div>
       </div>
-      ${documents.map(doc => this.renderListItem(doc)).join('')}
     `;
   }
 
+  /**
+   * Renders a column header with a button that sorts by the field, mirroring the sort dropdown state.
+   * Only the primary sort sets `aria-sort`; tie-breakers state their direction as hidden text
+   */
+  private renderSortHeader(field: SortField, label = getSortLabel(field)): string {
+    const index = this.sortCriteria.findIndex(criterion => criterion.field === field);
+    const criterion = this.sortCriteria[index];
+    const direction = criterion?.order === 'asc' ? 'ascending' : 'descending';
+
+    return `
+      <span class="sort-header" role="columnheader" aria-sort="${index === 0 ? direction : 'none'}">
+        <button
+          type="button"
+          class="sort-header-btn ${index === 0 ? 'active' : ''}"
+          data-sort="${field}"
+          title="Sort by ${label}. Shift-click to add as a tie-breaker"
+        >
+          ${label}
+          ${
+            criterion
+              ? `<span class="sort-indicator" aria-hidden="true">${criterion.order === 'asc' ? '↑' : '↓'}</span>`
+              : ''
+          }
+          ${index > 0 ? `<span class="visually-hidden">, tie-breaker, ${direction}</span>` : ''}
+        </button>
+      </span>
+    `;
+  }
+
+  private renderDate(label: string, date: Date): string {
+    if (Number.isNaN(date.getTime())) return `${label} —`;
+    return `${label} <time datetime="${date.toISOString()}">${escapeHtml(date.toLocaleDateString())}</time>`;
+  }
+
   private renderListItem(doc: Document): string {
     const headingId = this.getDocumentTitleId(doc);
 
     return `
-      <div class="list-item" role="listitem" aria-labelledby="${headingId}">
+      <div
+        class="list-item"
+        role="row"
+        aria-labelledby="${headingId}"
+        data-document-id="${escapeHtml(String(doc.ID))}"
+        tabindex="0"
+      >
         <div class="col-name" data-label="Name">
-          <div class="doc-name" id="${headingId}">${escapeHtml(doc.Title)}</div>
-          <div class="doc-version">Version ${escapeHtml(String(doc.Version))}</div>
+          <div class="doc-name" id="${headingId}" role="cell">${highlightMatches(doc.Title, this.highlightTerms)}</div>
+          <div class="doc-version" role="cell">Version ${escapeHtml(String(doc.Version))}</div>
+          <div class="doc-date" role="cell">${this.renderDate('Created', doc.CreatedAt)}</div>
+          <div class="doc-date" role="cell">${this.renderDate('Updated', doc.UpdatedAt)}</div>
         </div>
-        <div class="col-contributors" data-label="Contributors">
-          ${doc.Contributors.map(c => `<div class="contributor-name">${escapeHtml(c.Name)}</div>`).join('')}
+        <div class="col-contributors" data-label="Contributors" role="cell">
+          ${doc.Contributors.map(c => `<div class="contributor-name">${highlightMatches(c.Name, this.highlightTerms)}</div>`).join('')}
         </div>
-        <div class="col-attachments" data-label="Attachments">
+        <div class="col-attachments" data-label="Attachments" role="cell">
           ${
             doc.Attachments.length > 0
               ? doc.Attachments.map(
-                  a => `<div class="attachment-name">${escapeHtml(a)}</div>`
+                  a =>
+                    `<div class="attachment-name">${highlightMatches(a, this.highlightTerms)}</div>`
                 ).join('')
               : '<span class="no-attachments">—</span>'
           }
         </div>
+        <div class="col-actions" role="cell">
+          ${this.actionsComponent.render(doc)}
+        </div>
       </div>
     `;
   }
 
-  private renderGridView(documents: Document[]): string {
+  private renderGridView(documents: Document[], emptyMessage: string): string {
     if (documents.length === 0) {
-      return '<div class="empty-state">No documents yet</div>';
+      return `<div class="empty-state">${emptyMessage}</div>`;
     }
 
     return documents.map(doc => this.renderDocumentCard(doc)).join('');
@@ -137,16 +418,85 @@ export class DocumentView {
   private attachEventListeners(
     onSort: (field: SortField) => void,
     onCreate: () => void,
-    onViewModeChange: (mode: ViewMode) => void
+    onViewModeChange: (mode: ViewMode) => void,
+    options: DocumentViewOptions
   ): void {
     // Attach controls listeners and get cleanup function
     const controlsCleanup = this.controlsComponent.attachListeners(
       this.container,
       onSort,
-      onViewModeChange
+      onViewModeChange,
+      {
+        onSortAdd: options.sort?.onAdd,
+        onSortRemove: options.sort?.onRemove,
+        onSortOrderToggle: options.sort?.onToggleOrder,
+        onTrashToggle: options.trash?.onToggle,
+        onSearch: options.onSearch,
+      }
     );
     this.cleanupFunctions.push(controlsCleanup);
 
+    if (options.facets) {
+      this.cleanupFunctions.push(
+        this.facetComponent.attachListeners(this.container, options.facets)
+      );
+    }
+
+    // Delegate per-document action buttons from the document container
+    const documentContainer = this.container.querySelector('#documentContainer') as HTMLElement;
+    if (documentContainer) {
+      this.cleanupFunctions.push(
+        this.actionsComponent.attachListeners(documentContainer, options.actions ?? {})
+      );
+
+      if (options.detail) {
+        this.cleanupFunctions.push(
+          this.attachDetailListeners(documentContainer, options.detail.onOpen)
+        );
+      }
+    }
+
+    // Header clicks replace the primary sort; shift-click appends a tie-breaker instead
+    const listHeader = this.container.querySelector<HTMLElement>('.list-header');
+    if (listHeader) {
+      const sortHeaderHandler = (event: MouseEvent) => {
+        const button = (event.target as HTMLElement).closest<HTMLElement>('[data-sort]');
+        if (!button) return;
+
+        const field = button.dataset.sort as SortField;
+        if (event.shiftKey && options.sort) {
+          options.sort.onAdd(field);
+        } else {
+          onSort(field);
+        }
+      };
+      listHeader.addEventListener('click', sortHeaderHandler);
+      this.cleanupFunctions.push(() => {
+        listHeader.removeEventListener('click', sortHeaderHandler);
+      });
+    }
+
+    if (options.detail) {
+      this.cleanupFunctions.push(
+        this.drawerComponent.attachListeners(this.container, {
+          onClose: options.detail.onClose,
+          onRestoreRevision: options.detail.onRestoreRevision,
+        })
+      );
+    }
+
+    if (options.connection) {
+      this.cleanupFunctions.push(
+        this.connectionStatusComponent.attachListeners(this.container, options.connection.onRetry)
+      );
+    }
+
+    if (options.storage) {
+      this.cleanupFunctions.push(
+        this.storageBannerComponent.attachListeners(this.container, options.storage.action)
+      );
+    }
+
     // Attach create button listener
     const createBtn = this.container.querySelector('#createBtn') as HTMLButtonElement;
     if (createBtn) {
@@ -157,6 +507,39 @@ export class DocumentView {
     }
   }
 
+  /**
+   * Opens a document's details when its row or card is clicked, or activated with Enter/Space
+   * Clicks on controls inside the row (e.g. action buttons) keep their own behavior
+   */
+  private attachDetailListeners(
+    documentContainer: HTMLElement,
+    onOpen: (id: string) => void
+  ): () => void {
+    const clickHandler = (event: Event) => {
+      const target = event.target as HTMLElement;
+      if (target.closest('button, a, input, select, textarea')) return;
+
+      const item = target.closest<HTMLElement>('[data-document-id]');
+      if (item?.dataset.documentId) {
+        onOpen(item.dataset.documentId);
+      }
+    };
+    const keydownHandler = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if ((event.key !== 'Enter' && event.key !== ' ') || !target.dataset.documentId) return;
+
+      event.preventDefault();
+      onOpen(target.dataset.documentId);
+    };
+
+    documentContainer.addEventListener('click', clickHandler);
+    documentContainer.addEventListener('keydown', keydownHandler);
+    return () => {
+      documentContainer.removeEventListener('click', clickHandler);
+      documentContainer.removeEventListener('keydown', keydownHandler);
+    };
+  }
+
   /**
    * Cleans up all event listeners to prevent memory leaks
    */
@@ -165,12 +548,29 @@ export class DocumentView {
     this.cleanupFunctions = [];
   }
 
-  showNotification(message: string): void {
-    this.notificationComponent.show(this.container, message);
+  showNotification(message: string, action?: NotificationAction): void {
+    this.notificationComponent.show(this.container, message, action);
+  }
+
+  /**
+   * Saves text content as a file through the browser's download prompt
+   */
+  downloadFile(filename: string, content: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // Revoking in the same task can cancel the download in Firefox and Safari
+    setTimeout(() => URL.revokeObjectURL(url));
+  }
+
+  showModal(onSubmit: (doc: Document) => void, doc?: Document): void {
+    this.modalComponent.show(this.container, onSubmit, doc);
   }
 
-  showModal(onSubmit: (doc: Document) => void): void {
-    this.modalComponent.show(this.container, onSubmit);
+  showConfirm(options: ConfirmOptions, onConfirm: () => void): void {
+    this.confirmComponent.show(this.container, options, onConfirm);
   }
 
   private getDocumentTitleId(doc: Document): string {
@@ -3,6 +3,15 @@
 interface ImportMetaEnv {
   readonly VITE_API_BASE_URL: string
   readonly VITE_WEBSOCKET_URL: string
+  readonly VITE_WEBSOCKET_RECONNECT_INITIAL_DELAY_MS?: string
+  readonly VITE_WEBSOCKET_RECONNECT_MAX_DELAY_MS?: string
+  readonly VITE_WEBSOCKET_RECONNECT_MAX_ATTEMPTS?: string
+  readonly VITE_WEBSOCKET_HEARTBEAT_INTERVAL_MS?: string
+  readonly VITE_WEBSOCKET_HEARTBEAT_TIMEOUT_MS?: string
+  readonly VITE_TRASH_RETENTION_DAYS?: string
+  readonly VITE_HISTORY_MAX_REVISIONS?: string
+  readonly VITE_HISTORY_MAX_TOTAL_REVISIONS?: string
+  readonly VITE_STORAGE_WARNING_PERCENT?: string
 }
 
 interface ImportMeta {